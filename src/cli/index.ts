@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+/**
+ * opencode-addons CLI
+ *
+ * Usage: opencode-addons <command> [options]
+ */
+
+// Plugin modules log to stdout; keep them quiet so they don't corrupt the terminal views
+process.env.LOG_LEVEL ??= 'silent';
+
+const USAGE = `Usage: opencode-addons <command> [options]
+
+Commands:
+  watch       Live terminal view of the swarm (ledger, tasks, checkpoints, events)
+  memory      Export or import Memory Lane memories (JSONL / Markdown)
+  ledger      Migrate the v5 LEDGER.md to the v6 file-based ledger
+
+Run "opencode-addons <command> --help" for command options.
+`;
+
+const commands: Record<string, () => Promise<(argv: string[]) => Promise<void>>> = {
+  watch: async () => (await import('./watch')).runWatch,
+  memory: async () => (await import('./memory')).runMemory,
+  ledger: async () => (await import('./ledger')).runLedger,
+};
+
+async function main(): Promise<void> {
+  const [command, ...argv] = process.argv.slice(2);
+  const load = command ? commands[command] : undefined;
+
+  if (!load) {
+    process.stdout.write(USAGE);
+    const isHelp = !command || command === 'help' || command === '--help' || command === '-h';
+    process.exit(isHelp ? 0 : 1);
+  }
+
+  const run = await load();
+  await run(argv);
+}
+
+main().catch((error) => {
+  process.stderr.write(`opencode-addons: ${(error as Error).message}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * Ledger migration from the command line
+ *
+ * Converts a v5 LEDGER.md into the v6 file layout (epics/, learnings/,
+ * context/, archive/ and a LEDGER.md index).
+ */
+
+import { parseArgs } from 'util';
+import { migrateLedger } from '../orchestrator/file-ledger/migrate';
+
+export const LEDGER_USAGE = `Usage: opencode-addons ledger migrate [options]
+
+Convert the v5 .opencode/LEDGER.md into the v6 file-based layout. Existing v6
+files are kept; the v5 ledger is saved as .opencode/LEDGER.v5.md.
+
+Options:
+  --dry-run           Show the planned changes as a diff without writing
+  --dir <path>        Project directory (default: current directory)
+  -h, --help          Show this help
+`;
+
+export async function runLedger(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean' },
+      dir: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals[0] !== 'migrate') {
+    process.stdout.write(LEDGER_USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const result = await migrateLedger({
+    baseDir: values.dir ?? process.cwd(),
+    dryRun: values['dry-run'],
+  });
+
+  if (result.dryRun && result.diff) {
+    process.stdout.write(`${result.diff}\n\n`);
+  }
+  for (const change of result.changes) {
+    const reason = change.reason ? ` (${change.reason})` : '';
+    process.stdout.write(`${change.action.padEnd(9)} ${change.path}${reason}\n`);
+  }
+  process.stdout.write(`${result.message}\n`);
+}
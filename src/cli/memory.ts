@@ -0,0 +1,119 @@
+/**
+ * Memory Lane export / import from the command line
+ *
+ * Uses the same database, embedding provider and project identity as the
+ * plugin (from opencode-addons.json and the working directory).
+ */
+
+import { parseArgs } from 'util';
+import { loadConfig } from '../opencode/config/loader';
+import {
+  exportMemories,
+  exportMemoriesToFile,
+  importMemoriesFromFile,
+  initializeEmbeddingProvider,
+  initializeProjectIdentity,
+  MemoryLaneStore,
+  serializeMemories,
+} from '../memory-lane';
+import type { ImportOptions, MemoryExportFormat, MemoryScope } from '../memory-lane';
+
+export const MEMORY_USAGE = `Usage: opencode-addons memory <export|import> [file] [options]
+
+Move Memory Lane memories between machines or share them through a repository.
+The format follows the file extension (.md = markdown, otherwise jsonl).
+
+  export [file]       Write memories to file (default: JSONL on stdout)
+  import <file>       Read memories from file
+
+Options:
+  --format <f>        jsonl | markdown
+  --scope <s>         export: project | global | all (default: all)
+                      import: project | global (default: as exported)
+  --embeddings        export: include vectors (JSONL only)
+  --no-superseded     export: leave out superseded memories
+  --on-conflict <c>   import: rename | skip | replace (default: rename)
+  -h, --help          Show this help
+`;
+
+const FORMATS = ['jsonl', 'markdown'];
+const CONFLICTS = ['rename', 'skip', 'replace'];
+
+function oneOf<T extends string>(option: string, value: string | undefined, allowed: string[]) {
+  if (value !== undefined && !allowed.includes(value)) {
+    throw new Error(`--${option} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+export async function runMemory(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      scope: { type: 'string' },
+      embeddings: { type: 'boolean' },
+      'no-superseded': { type: 'boolean' },
+      'on-conflict': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [action, file] = positionals;
+  if (values.help || (action !== 'export' && action !== 'import')) {
+    process.stdout.write(MEMORY_USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const format = oneOf<MemoryExportFormat>('format', values.format, FORMATS);
+  initializeEmbeddingProvider(loadConfig().memoryLane?.embeddings);
+  initializeProjectIdentity(process.cwd());
+  const store = new MemoryLaneStore();
+
+  try {
+    if (action === 'export') {
+      const options = {
+        scope: oneOf<MemoryScope | 'all'>('scope', values.scope, ['project', 'global', 'all']),
+        includeEmbeddings: values.embeddings,
+        includeSuperseded: !values['no-superseded'],
+      };
+
+      if (file) {
+        const { count, format: written } = await exportMemoriesToFile(store, file, {
+          ...options,
+          format,
+        });
+        process.stderr.write(`Exported ${count} memories to ${file} (${written})\n`);
+      } else {
+        const records = await exportMemories(store, {
+          ...options,
+          includeEmbeddings: (format ?? 'jsonl') === 'jsonl' && options.includeEmbeddings,
+        });
+        process.stdout.write(serializeMemories(records, format ?? 'jsonl'));
+      }
+      return;
+    }
+
+    if (!file) {
+      throw new Error('import needs a file');
+    }
+    const summary = await importMemoriesFromFile(store, file, {
+      format,
+      onConflict: oneOf<NonNullable<ImportOptions['onConflict']>>(
+        'on-conflict',
+        values['on-conflict'],
+        CONFLICTS
+      ),
+      scope: oneOf<MemoryScope>('scope', values.scope, ['project', 'global']),
+    });
+    process.stdout.write(
+      `Imported ${summary.imported} of ${summary.total} memories from ${file}: ` +
+        `${summary.merged} merged, ${summary.renamed} renamed, ${summary.replaced} replaced, ` +
+        `${summary.skipped} skipped, ${summary.reembedded} re-embedded\n`
+    );
+  } finally {
+    await store.close();
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Swarm Monitor Tests
+ *
+ * Tailing the .opencode/ files and rendering the terminal view.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DurableStream, JsonlStore } from '../durable-stream';
+import {
+  createEpic,
+  createTask,
+  loadLedger,
+  saveLedger,
+  updateTaskStatus,
+} from '../orchestrator/ledger';
+import { TaskRegistry } from '../orchestrator/task-registry';
+import { formatDuration, renderMonitor, SwarmMonitor } from './watch';
+
+describe('SwarmMonitor', () => {
+  let dir: string;
+  let stream: DurableStream;
+  let monitor: SwarmMonitor;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'watch-'));
+    stream = new DurableStream({
+      store: new JsonlStore({ path: join(dir, 'durable_stream.jsonl'), useLocking: false }),
+      snapshotInterval: 0,
+    });
+    await stream.initialize();
+    monitor = new SwarmMonitor({ dir, eventsPerSession: 2 });
+  });
+
+  afterEach(async () => {
+    await monitor.close();
+    await stream.shutdown();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const append = (type: 'lifecycle.session.idle' | 'execution.text_delta', streamId: string) =>
+    stream.append({
+      type,
+      stream_id: streamId,
+      correlation_id: 'c1',
+      actor: 'system',
+      payload: {},
+    });
+
+  it('reads ledger progress and the task registry snapshot', async () => {
+    const ledger = await loadLedger(join(dir, 'LEDGER.md'));
+    createEpic(ledger, 'Build auth', 'Add login');
+    const first = createTask(ledger, 'Schema', 'executor');
+    createTask(ledger, 'Routes', 'executor');
+    updateTaskStatus(ledger, first, 'completed', 'Done');
+    await saveLedger(ledger, join(dir, 'LEDGER.md'));
+
+    const registry = new TaskRegistry({
+      syncToLedger: false,
+      statePath: join(dir, 'task_registry.json'),
+    });
+    const taskId = await registry.register({
+      sessionId: 'ses-1',
+      agentName: 'executor',
+      prompt: 'Routes',
+      maxRetries: 2,
+      timeoutMs: 60000,
+    });
+    await registry.updateStatus(taskId, 'running');
+    registry.flush();
+
+    const state = await monitor.refresh();
+
+    expect(state.epic).toMatchObject({
+      title: 'Build auth',
+      progress: { total: 2, completed: 1, percentComplete: 50 },
+    });
+    expect(state.tasks).toHaveLength(1);
+    expect(state.tasks![0]).toMatchObject({ id: taskId, status: 'running', retryCount: 0 });
+  });
+
+  it('tails pending checkpoints and recent events per session', async () => {
+    const first = await stream.requestCheckpoint('ses-1', 'Deploy?', [], 'oracle');
+    await append('lifecycle.session.idle', 'ses-2');
+
+    let state = await monitor.refresh();
+    expect(state.checkpoints.map((c) => c.id)).toEqual([first]);
+
+    const second = await stream.requestCheckpoint('ses-1', 'Delete?', [], 'oracle');
+    await stream.approveCheckpoint(first, 'user');
+    await append('execution.text_delta', 'ses-2');
+    await append('lifecycle.session.idle', 'ses-2');
+    await append('lifecycle.session.idle', 'ses-2');
+
+    state = await monitor.refresh();
+    expect(state.checkpoints.map((c) => c.id)).toEqual([second]);
+
+    const ses2 = state.sessions.find((s) => s.sessionId === 'ses-2')!;
+    expect(ses2.events).toHaveLength(2);
+    expect(ses2.events.every((e) => e.type === 'lifecycle.session.idle')).toBe(true);
+    expect(state.sessions[0].sessionId).toBe('ses-2');
+  });
+
+  it('renders an empty .opencode directory', async () => {
+    const empty = new SwarmMonitor({ dir: join(dir, 'missing') });
+    const text = renderMonitor(await empty.refresh());
+
+    expect(text).toContain('EPIC (none)');
+    expect(text).toContain('TASKS (no registry snapshot yet)');
+    expect(text).toContain('CHECKPOINTS (0 pending)');
+  });
+});
+
+describe('renderMonitor', () => {
+  it('shows task retries, heartbeat age and elapsed time', () => {
+    const now = 1_700_000_100_000;
+    const text = renderMonitor({
+      dir: '.opencode',
+      generatedAt: now,
+      epic: null,
+      tasks: [
+        {
+          id: 'abc123.1',
+          sessionId: 'ses-1',
+          agentName: 'executor',
+          prompt: 'Build it',
+          status: 'running',
+          createdAt: now - 120_000,
+          startedAt: now - 90_000,
+          lastHeartbeat: now - 5_000,
+          retryCount: 1,
+          maxRetries: 2,
+          timeoutMs: 600_000,
+        },
+      ],
+      checkpoints: [
+        {
+          id: 'cp-1',
+          decision_point: 'Ship it?',
+          options: [
+            { id: 'yes', label: 'Yes' },
+            { id: 'no', label: 'No' },
+          ],
+          requested_by: 'oracle',
+          requested_at: now - 60_000,
+        },
+      ],
+      sessions: [],
+    });
+
+    expect(text).toMatch(/running\s+executor\s+1\/2\s+5s ago\s+1m 30s\s+abc123\.1/);
+    expect(text).toContain('cp-1  Ship it?  (oracle, 1m 0s ago)  options: yes, no');
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(999)).toBe('0s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+    expect(formatDuration(3_900_000)).toBe('1h 5m');
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Swarm Monitor - live terminal view of a running swarm
+ *
+ * Reads only the files under `.opencode/` (LEDGER.md, the task registry
+ * snapshot and the Durable Stream log), so it can run in a second terminal
+ * next to OpenCode without talking to the plugin process.
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { extractPendingCheckpoints, JsonlStore, SqliteStore } from '../durable-stream';
+import type { Checkpoint, EventType, IStreamStore, StreamEvent } from '../durable-stream';
+import { getProgress, loadLedger } from '../orchestrator/ledger';
+import type { EpicStatus } from '../orchestrator/ledger';
+import { readRegistrySnapshot } from '../orchestrator/task-registry';
+import type { RegistryTask } from '../orchestrator/task-registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MonitorOptions {
+  /** Directory holding LEDGER.md and the stream files (default: .opencode) */
+  dir?: string;
+  /** Recent events shown per session (default: 5) */
+  eventsPerSession?: number;
+  /** Sessions shown, most recently active first (default: 6) */
+  maxSessions?: number;
+  /** How far back the initial event load reaches (default: 1 hour) */
+  lookbackMs?: number;
+}
+
+export interface SessionActivity {
+  sessionId: string;
+  lastEventAt: number;
+  events: StreamEvent[];
+}
+
+export interface MonitorState {
+  dir: string;
+  generatedAt: number;
+  epic: {
+    id: string;
+    title: string;
+    status: EpicStatus;
+    progress: ReturnType<typeof getProgress>;
+  } | null;
+  /** Why the ledger could not be loaded (e.g. an invalid ledger.json) */
+  ledgerError?: string;
+  /** Null when no registry snapshot has been written yet */
+  tasks: RegistryTask[] | null;
+  checkpoints: Checkpoint[];
+  sessions: SessionActivity[];
+}
+
+const CHECKPOINT_TYPES: EventType[] = [
+  'checkpoint.requested',
+  'checkpoint.approved',
+  'checkpoint.rejected',
+];
+
+/** Token-level streaming noise; the snapshots and step events say the same thing */
+const SKIPPED_TYPES = new Set<EventType>(['execution.text_delta', 'execution.reasoning_delta']);
+
+// ============================================================================
+// Monitor
+// ============================================================================
+
+/**
+ * Tails the `.opencode/` files. The first refresh loads pending checkpoints
+ * and recent events; later refreshes only read what was appended since.
+ */
+export class SwarmMonitor {
+  private readonly dir: string;
+  private readonly eventsPerSession: number;
+  private readonly maxSessions: number;
+  private readonly lookbackMs: number;
+  private store: IStreamStore | null = null;
+  private cursor = 0;
+  private checkpoints: Checkpoint[] = [];
+  private sessions = new Map<string, SessionActivity>();
+
+  constructor(options: MonitorOptions = {}) {
+    this.dir = options.dir ?? '.opencode';
+    this.eventsPerSession = options.eventsPerSession ?? 5;
+    this.maxSessions = options.maxSessions ?? 6;
+    this.lookbackMs = options.lookbackMs ?? 60 * 60 * 1000;
+  }
+
+  async refresh(now: number = Date.now()): Promise<MonitorState> {
+    await this.readStream(now);
+
+    const ledgerPath = join(this.dir, 'LEDGER.md');
+    let ledger = null;
+    let ledgerError: string | undefined;
+    try {
+      ledger = existsSync(ledgerPath) ? await loadLedger(ledgerPath) : null;
+    } catch (error) {
+      ledgerError = (error as Error).message;
+    }
+    const snapshot = readRegistrySnapshot(join(this.dir, 'task_registry.json'));
+
+    const sessions = Array.from(this.sessions.values())
+      .sort((a, b) => b.lastEventAt - a.lastEventAt)
+      .slice(0, this.maxSessions);
+
+    return {
+      dir: this.dir,
+      generatedAt: now,
+      epic: ledger?.epic
+        ? {
+            id: ledger.epic.id,
+            title: ledger.epic.title,
+            status: ledger.epic.status,
+            progress: getProgress(ledger),
+          }
+        : null,
+      ...(ledgerError && { ledgerError }),
+      tasks: snapshot?.tasks ?? null,
+      checkpoints: this.checkpoints,
+      sessions,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.store?.close();
+    this.store = null;
+  }
+
+  private async readStream(now: number): Promise<void> {
+    if (!this.store) {
+      const store = this.openStore();
+      if (!store) return;
+      this.store = store;
+
+      // Cursor first: anything appended meanwhile is read again, and deduplicated
+      this.cursor = await store.getOffset();
+      this.checkpoints = extractPendingCheckpoints(await store.query({ type: CHECKPOINT_TYPES }));
+      this.track(await store.query({ since: now - this.lookbackMs }));
+      return;
+    }
+
+    if (!this.store.readFrom) return;
+    const { records, offset } = await this.store.readFrom(this.cursor);
+    this.cursor = offset;
+
+    const events = records.map((r) => r.event);
+    this.checkpoints = extractPendingCheckpoints(
+      events.filter((e) => CHECKPOINT_TYPES.includes(e.type)),
+      this.checkpoints
+    );
+    this.track(events);
+  }
+
+  /** Read-only: never initializes a store that the plugin has not created */
+  private openStore(): IStreamStore | null {
+    const dbPath = join(this.dir, 'durable_stream.db');
+    if (existsSync(dbPath)) return new SqliteStore({ path: dbPath });
+
+    const jsonlPath = join(this.dir, 'durable_stream.jsonl');
+    if (existsSync(jsonlPath)) return new JsonlStore({ path: jsonlPath, useLocking: false });
+
+    return null;
+  }
+
+  private track(events: StreamEvent[]): void {
+    for (const event of events) {
+      if (SKIPPED_TYPES.has(event.type)) continue;
+
+      let session = this.sessions.get(event.stream_id);
+      if (!session) {
+        session = { sessionId: event.stream_id, lastEventAt: 0, events: [] };
+        this.sessions.set(event.stream_id, session);
+      }
+      if (session.events.some((e) => e.id === event.id)) continue;
+
+      session.events.push(event);
+      if (session.events.length > this.eventsPerSession) session.events.shift();
+      session.lastEventAt = Math.max(session.lastEventAt, event.timestamp);
+    }
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 23);
+}
+
+function progressBar(percent: number, width = 20): string {
+  const filled = Math.round((percent / 100) * width);
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
+
+function describeEvent(event: StreamEvent): string {
+  const payload = (event.payload ?? {}) as Record<string, unknown>;
+  const detail = [payload.tool, payload.taskTitle ?? payload.title, payload.error]
+    .filter((v): v is string => typeof v === 'string' && v.length > 0)
+    .map((v) => (v.length > 60 ? `${v.slice(0, 57)}...` : v));
+  return [event.type, `[${event.actor}]`, ...detail].join(' ');
+}
+
+/**
+ * Render a monitor state as plain text (no ANSI codes).
+ */
+export function renderMonitor(state: MonitorState, now: number = state.generatedAt): string {
+  const lines: string[] = [`Swarm Monitor - ${state.dir}  (${formatClock(now)} UTC)`, ''];
+
+  if (state.epic) {
+    const { progress } = state.epic;
+    lines.push(`EPIC ${state.epic.id} ${state.epic.title} [${state.epic.status}]`);
+    lines.push(
+      `  ${progressBar(progress.percentComplete)} ${progress.percentComplete}%  ` +
+        `${progress.completed}/${progress.total} done, ${progress.running} running, ${progress.failed} failed`
+    );
+  } else if (state.ledgerError) {
+    lines.push(`EPIC (ledger unreadable: ${state.ledgerError})`);
+  } else {
+    lines.push('EPIC (none)');
+  }
+  lines.push('');
+
+  if (state.tasks === null) {
+    lines.push('TASKS (no registry snapshot yet)');
+  } else {
+    lines.push(`TASKS (${state.tasks.length})`);
+    if (state.tasks.length > 0) {
+      lines.push(
+        `  ${'STATUS'.padEnd(10)} ${'AGENT'.padEnd(20)} ${'RETRY'.padEnd(6)} ` +
+          `${'HEARTBEAT'.padEnd(10)} ${'ELAPSED'.padEnd(9)} ID`
+      );
+    }
+    for (const task of state.tasks) {
+      const heartbeat = task.lastHeartbeat
+        ? `${formatDuration(now - task.lastHeartbeat)} ago`
+        : '-';
+      const started = task.startedAt ?? task.createdAt;
+      const elapsed = formatDuration((task.completedAt ?? now) - started);
+      lines.push(
+        `  ${task.status.padEnd(10)} ${task.agentName.padEnd(20)} ` +
+          `${`${task.retryCount}/${task.maxRetries}`.padEnd(6)} ${heartbeat.padEnd(10)} ` +
+          `${elapsed.padEnd(9)} ${task.id}`
+      );
+    }
+  }
+  lines.push('');
+
+  lines.push(`CHECKPOINTS (${state.checkpoints.length} pending)`);
+  for (const checkpoint of state.checkpoints) {
+    const options = checkpoint.options.map((o) => o.id).join(', ');
+    lines.push(
+      `  ${checkpoint.id}  ${checkpoint.decision_point}  ` +
+        `(${checkpoint.requested_by}, ${formatDuration(now - checkpoint.requested_at)} ago)` +
+        (options ? `  options: ${options}` : '')
+    );
+  }
+  lines.push('');
+
+  lines.push('RECENT EVENTS');
+  if (state.sessions.length === 0) lines.push('  (none)');
+  for (const session of state.sessions) {
+    lines.push(`  ${session.sessionId}  (last ${formatDuration(now - session.lastEventAt)} ago)`);
+    for (const event of session.events) {
+      lines.push(`    ${formatClock(event.timestamp)} ${describeEvent(event)}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Command
+// ============================================================================
+
+const CLEAR_SCREEN = '\x1b[2J\x1b[H';
+
+export const WATCH_USAGE = `Usage: opencode-addons watch [options]
+
+Live view of LEDGER progress, delegated tasks, pending checkpoints and recent
+Durable Stream events, read from the .opencode/ directory.
+
+Options:
+  --dir <path>        .opencode directory (default: .opencode)
+  --events <n>        Recent events per session (default: 5)
+  --sessions <n>      Sessions shown (default: 6)
+  --interval <ms>     Refresh interval (default: 1000)
+  --once              Print one frame and exit
+  -h, --help          Show this help
+`;
+
+export async function runWatch(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      dir: { type: 'string' },
+      events: { type: 'string' },
+      sessions: { type: 'string' },
+      interval: { type: 'string' },
+      once: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(WATCH_USAGE);
+    return;
+  }
+
+  const monitor = new SwarmMonitor({
+    dir: values.dir,
+    eventsPerSession: values.events ? Number(values.events) : undefined,
+    maxSessions: values.sessions ? Number(values.sessions) : undefined,
+  });
+
+  if (values.once) {
+    process.stdout.write(renderMonitor(await monitor.refresh()));
+    await monitor.close();
+    return;
+  }
+
+  const intervalMs = Math.max(250, Number(values.interval ?? 1000));
+  let drawing = false;
+  const draw = async () => {
+    if (drawing) return;
+    drawing = true;
+    try {
+      process.stdout.write(CLEAR_SCREEN + renderMonitor(await monitor.refresh()));
+    } finally {
+      drawing = false;
+    }
+  };
+
+  await draw();
+  const timer = setInterval(() => {
+    draw().catch((err) => process.stderr.write(`watch: ${err}\n`));
+  }, intervalMs);
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  clearInterval(timer);
+  await monitor.close();
+}
@@ -16,6 +16,12 @@ import {
   applyFilter,
   extractPendingCheckpoints,
   isCheckpointExpired,
+  extractOpenStateEvents,
+  mergeEventLogs,
+  getAncestors,
+  findTraceRoots,
+  buildTraceTree,
+  renderTrace,
   serializeEvent,
   deserializeEvent,
 } from './core';
@@ -372,6 +378,85 @@ describe('core', () => {
     });
   });
 
+  describe('extractOpenStateEvents', () => {
+    const base = { stream_id: 's1', correlation_id: 'c1', actor: 'a' };
+    const events: StreamEvent[] = [
+      { ...base, id: '1', type: 'checkpoint.requested', timestamp: 1, payload: { id: 'cp-1' } },
+      { ...base, id: '2', type: 'checkpoint.requested', timestamp: 2, payload: { id: 'cp-2' } },
+      {
+        ...base,
+        id: '3',
+        type: 'checkpoint.rejected',
+        timestamp: 3,
+        payload: { checkpoint_id: 'cp-2' },
+      },
+      { ...base, id: '4', type: 'agent.spawned', timestamp: 4, payload: { id: 'i-1' } },
+      { ...base, id: '5', type: 'agent.spawned', timestamp: 5, payload: { id: 'i-2' } },
+      { ...base, id: '6', type: 'agent.completed', timestamp: 6, payload: { intent_id: 'i-1' } },
+    ];
+
+    it('should keep only unresolved checkpoint and intent events', () => {
+      expect(extractOpenStateEvents(events).map((e) => e.id)).toEqual(['1', '5']);
+    });
+  });
+
+  describe('mergeEventLogs', () => {
+    it('should keep the first copy of duplicate events', () => {
+      const base = { type: 'agent.spawned' as const, stream_id: 's1', correlation_id: 'c1' };
+      const older: StreamEvent[] = [{ ...base, id: '1', actor: 'old', timestamp: 1, payload: {} }];
+      const newer: StreamEvent[] = [
+        { ...base, id: '1', actor: 'copy', timestamp: 1, payload: {} },
+        { ...base, id: '2', actor: 'new', timestamp: 2, payload: {} },
+      ];
+
+      expect(mergeEventLogs(older, newer).map((e) => e.actor)).toEqual(['old', 'new']);
+    });
+  });
+
+  describe('causal trace', () => {
+    const at = (id: string, timestamp: number, type: StreamEvent['type'], causation_id?: string) =>
+      ({
+        id,
+        type,
+        stream_id: 's1',
+        correlation_id: 'c1',
+        causation_id,
+        actor: 'orchestrator',
+        timestamp,
+        payload: { id: `intent-${id}` },
+      }) as StreamEvent;
+
+    // decision -> spawn -> nested spawn -> failure
+    const events = [
+      at('d', 1_000, 'decision.made'),
+      at('a', 1_500, 'agent.spawned', 'd'),
+      at('b', 2_000, 'agent.spawned', 'a'),
+      at('f', 4_500, 'agent.failed', 'b'),
+      at('x', 5_000, 'lifecycle.session.idle'),
+    ];
+
+    it('follows causation_id up to the root', () => {
+      expect(getAncestors(events, 'f').map((e) => e.id)).toEqual(['d', 'a', 'b']);
+      expect(getAncestors(events, 'd')).toEqual([]);
+    });
+
+    it('finds roots of an event subset', () => {
+      expect(findTraceRoots(events.slice(1))).toEqual(['a', 'x']);
+    });
+
+    it('renders an indented timeline with deltas and spans', () => {
+      const [tree] = buildTraceTree(events, ['d']);
+      expect(tree.children[0].children[0].children[0].event.id).toBe('f');
+
+      expect(renderTrace([tree]).split('\n')).toEqual([
+        '00:00:01.000 decision.made [orchestrator] id=intent-d (span 3.5s)',
+        '  00:00:01.500 +500ms agent.spawned [orchestrator] id=intent-a (span 3.0s)',
+        '    00:00:02.000 +500ms agent.spawned [orchestrator] id=intent-b (span 2.5s)',
+        '      00:00:04.500 +2.5s agent.failed [orchestrator] id=intent-f',
+      ]);
+    });
+  });
+
   describe('serialization', () => {
     it('should serialize and deserialize events', () => {
       const event: StreamEvent = {
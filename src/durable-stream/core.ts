@@ -15,6 +15,7 @@ import type {
   Checkpoint,
   Intent,
 } from './types';
+import { CURRENT_SCHEMA_VERSION } from './schema';
 
 // ============================================================================
 // Event Creation
@@ -38,13 +39,14 @@ export function generateCorrelationId(): string {
 }
 
 /**
- * Create a full StreamEvent from input (adds id and timestamp).
+ * Create a full StreamEvent from input (adds id, timestamp and schema version).
  */
 export function createEvent<T>(input: StreamEventInput<T>): StreamEvent<T> {
   return {
     ...input,
     id: generateEventId(),
     timestamp: input.timestamp ?? Date.now(),
+    schema_version: CURRENT_SCHEMA_VERSION,
   };
 }
 
@@ -74,6 +76,13 @@ export function filterByActor(events: StreamEvent[], actor: string): StreamEvent
   return events.filter((e) => e.actor === actor);
 }
 
+/**
+ * Filter events by correlation ID.
+ */
+export function filterByCorrelation(events: StreamEvent[], correlationId: string): StreamEvent[] {
+  return events.filter((e) => e.correlation_id === correlationId);
+}
+
 /**
  * Filter events by time range.
  */
@@ -104,6 +113,9 @@ export function applyFilter(events: StreamEvent[], filter: StreamFilter): Stream
   if (filter.actor) {
     result = filterByActor(result, filter.actor);
   }
+  if (filter.correlation_id) {
+    result = filterByCorrelation(result, filter.correlation_id);
+  }
   if (filter.since !== undefined || filter.until !== undefined) {
     result = filterByTimeRange(result, filter.since, filter.until);
   }
@@ -119,10 +131,13 @@ export function applyFilter(events: StreamEvent[], filter: StreamFilter): Stream
 // ============================================================================
 
 /**
- * Extract pending checkpoints from events.
+ * Extract pending checkpoints from events, optionally on top of a snapshot's state.
  */
-export function extractPendingCheckpoints(events: StreamEvent[]): Checkpoint[] {
-  const checkpointMap = new Map<string, Checkpoint>();
+export function extractPendingCheckpoints(
+  events: StreamEvent[],
+  initial: Checkpoint[] = []
+): Checkpoint[] {
+  const checkpointMap = new Map<string, Checkpoint>(initial.map((cp) => [cp.id, cp]));
 
   for (const event of events) {
     if (event.type === 'checkpoint.requested') {
@@ -149,10 +164,10 @@ export function isCheckpointExpired(checkpoint: Checkpoint, now: number = Date.n
 // ============================================================================
 
 /**
- * Extract active intents from events.
+ * Extract active intents from events, optionally on top of a snapshot's state.
  */
-export function extractActiveIntents(events: StreamEvent[]): Intent[] {
-  const intentMap = new Map<string, Intent>();
+export function extractActiveIntents(events: StreamEvent[], initial: Intent[] = []): Intent[] {
+  const intentMap = new Map<string, Intent>(initial.map((i) => [i.id, i]));
 
   for (const event of events) {
     if (event.type === 'agent.spawned') {
@@ -177,6 +192,105 @@ export function extractActiveIntents(events: StreamEvent[]): Intent[] {
   );
 }
 
+/**
+ * Extract the events that keep checkpoints pending and intents active:
+ * unresolved `checkpoint.requested` and unfinished `agent.spawned` events.
+ * Replaying just these reproduces both projections.
+ */
+export function extractOpenStateEvents(events: StreamEvent[]): StreamEvent[] {
+  const open = new Map<string, StreamEvent>();
+
+  for (const event of events) {
+    if (event.type === 'checkpoint.requested') {
+      open.set(`checkpoint:${(event.payload as Checkpoint).id}`, event);
+    } else if (event.type === 'checkpoint.approved' || event.type === 'checkpoint.rejected') {
+      open.delete(`checkpoint:${(event.payload as { checkpoint_id: string }).checkpoint_id}`);
+    } else if (event.type === 'agent.spawned') {
+      const payload = event.payload as Intent;
+      if (payload.id) {
+        open.set(`intent:${payload.id}`, event);
+      }
+    } else if (
+      event.type === 'agent.completed' ||
+      event.type === 'agent.failed' ||
+      event.type === 'agent.aborted'
+    ) {
+      const payload = event.payload as { intent_id?: string };
+      if (payload.intent_id) {
+        open.delete(`intent:${payload.intent_id}`);
+      }
+    }
+  }
+
+  return Array.from(open.values());
+}
+
+/**
+ * Concatenate event logs (oldest first), keeping the first copy of each event ID.
+ */
+export function mergeEventLogs(...logs: StreamEvent[][]): StreamEvent[] {
+  const seen = new Set<string>();
+  const merged: StreamEvent[] = [];
+
+  for (const log of logs) {
+    for (const event of log) {
+      if (seen.has(event.id)) continue;
+      seen.add(event.id);
+      merged.push(event);
+    }
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// Snapshots & Compaction (Pure)
+// ============================================================================
+
+/**
+ * Index of the latest `stream.snapshot` event, or -1 if there is none.
+ */
+export function findLatestSnapshotIndex(events: StreamEvent[]): number {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].type === 'stream.snapshot') return i;
+  }
+  return -1;
+}
+
+const DELTA_SNAPSHOT_TYPES: Partial<Record<EventType, EventType>> = {
+  'execution.text_delta': 'execution.text_snapshot',
+  'execution.reasoning_delta': 'execution.reasoning_snapshot',
+};
+
+/**
+ * IDs of text/reasoning delta events whose part already has a final snapshot.
+ * Deltas of parts that are still streaming are kept.
+ */
+export function selectCompactableDeltas(events: StreamEvent[]): string[] {
+  const partKey = (type: EventType, event: StreamEvent) => {
+    const payload = event.payload as { messageID?: string; partID?: string } | undefined;
+    return payload?.partID ? `${type}:${payload.messageID}:${payload.partID}` : undefined;
+  };
+
+  const snapshotted = new Set<string>();
+  for (const event of events) {
+    if (event.type === 'execution.text_snapshot' || event.type === 'execution.reasoning_snapshot') {
+      const key = partKey(event.type, event);
+      if (key) snapshotted.add(key);
+    }
+  }
+
+  const ids: string[] = [];
+  for (const event of events) {
+    const snapshotType = DELTA_SNAPSHOT_TYPES[event.type];
+    if (!snapshotType) continue;
+    const key = partKey(snapshotType, event);
+    if (key && snapshotted.has(key)) ids.push(event.id);
+  }
+
+  return ids;
+}
+
 // ============================================================================
 // Lineage / Tracing (Pure)
 // ============================================================================
@@ -215,6 +329,130 @@ export function getDescendants(lineageTree: Map<string, string[]>, eventId: stri
   return descendants;
 }
 
+/**
+ * Keys an event becomes the latest cause for: its stream, and the intent or
+ * checkpoint it is about (`stream:<id>`, `intent:<id>`, `checkpoint:<id>`).
+ */
+export function causalKeys(event: StreamEvent): string[] {
+  const keys = [`stream:${event.stream_id}`];
+  const payload = event.payload as { id?: string; intent_id?: string } | null | undefined;
+
+  if (event.type === 'agent.spawned' && payload?.id) {
+    keys.push(`intent:${payload.id}`);
+  } else if (event.type.startsWith('agent.') && payload?.intent_id) {
+    keys.push(`intent:${payload.intent_id}`);
+  } else if (event.type === 'checkpoint.requested' && payload?.id) {
+    keys.push(`checkpoint:${payload.id}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Follow causation_id links upwards. Returns the ancestors, root first
+ * (the event itself excluded).
+ */
+export function getAncestors(events: StreamEvent[], eventId: string): StreamEvent[] {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const ancestors: StreamEvent[] = [];
+  const seen = new Set([eventId]);
+
+  let parentId = byId.get(eventId)?.causation_id;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.causation_id;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Events whose cause is not among the given events (tree roots of a subset).
+ */
+export function findTraceRoots(events: StreamEvent[]): string[] {
+  const ids = new Set(events.map((e) => e.id));
+  return events.filter((e) => !e.causation_id || !ids.has(e.causation_id)).map((e) => e.id);
+}
+
+export interface TraceNode {
+  event: StreamEvent;
+  children: TraceNode[];
+}
+
+/**
+ * Build causal trees below the given root events (children in timestamp order).
+ */
+export function buildTraceTree(events: StreamEvent[], rootIds: string[]): TraceNode[] {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const lineage = buildLineageTree(events);
+  const visited = new Set<string>();
+
+  const build = (id: string): TraceNode | null => {
+    const event = byId.get(id);
+    if (!event || visited.has(id)) return null;
+    visited.add(id);
+
+    const children = (lineage.get(id) ?? [])
+      .map(build)
+      .filter((node): node is TraceNode => node !== null)
+      .sort((a, b) => a.event.timestamp - b.event.timestamp);
+    return { event, children };
+  };
+
+  return rootIds.map(build).filter((node): node is TraceNode => node !== null);
+}
+
+/**
+ * Render causal trees as an indented timeline. Each line shows the wall-clock
+ * time, the delay since its cause (+…) and, for events with descendants, how
+ * long the subtree ran (span …).
+ */
+export function renderTrace(nodes: TraceNode[]): string {
+  const lines: string[] = [];
+
+  const lastTimestamp = (node: TraceNode): number =>
+    Math.max(node.event.timestamp, ...node.children.map(lastTimestamp));
+
+  const render = (node: TraceNode, depth: number, parent?: StreamEvent) => {
+    const { event } = node;
+    const time = new Date(event.timestamp).toISOString().slice(11, 23);
+    const delta = parent ? ` +${formatElapsed(event.timestamp - parent.timestamp)}` : '';
+    const span =
+      node.children.length > 0
+        ? ` (span ${formatElapsed(lastTimestamp(node) - event.timestamp)})`
+        : '';
+
+    lines.push(
+      `${'  '.repeat(depth)}${time}${delta} ${event.type} [${event.actor}]${describePayload(event)}${span}`
+    );
+    for (const child of node.children) render(child, depth + 1, event);
+  };
+
+  for (const node of nodes) render(node, 0);
+  return lines.join('\n');
+}
+
+function formatElapsed(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+const TRACE_PAYLOAD_KEYS = ['agent', 'id', 'intent_id', 'checkpoint_id', 'taskId', 'error'];
+
+function describePayload(event: StreamEvent): string {
+  const payload = event.payload as Record<string, unknown> | null | undefined;
+  if (!payload || typeof payload !== 'object') return '';
+
+  const parts = TRACE_PAYLOAD_KEYS.filter((key) => typeof payload[key] === 'string').map(
+    (key) => `${key}=${(payload[key] as string).slice(0, 80)}`
+  );
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
 // ============================================================================
 // Serialization (Pure)
 // ============================================================================
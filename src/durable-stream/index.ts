@@ -20,6 +20,13 @@ export type {
   Intent,
   IntentSpec,
   ResumeResult,
+  StreamSnapshot,
+  SnapshotProjection,
+  CompactionResult,
+  QuarantinedEvent,
+  StreamRecord,
+  StreamReadResult,
+  FollowOptions,
 } from './types';
 
 // Core (Pure Functions)
@@ -30,20 +37,64 @@ export {
   filterByType,
   filterByStream,
   filterByActor,
+  filterByCorrelation,
   filterByTimeRange,
   applyFilter,
   extractPendingCheckpoints,
   extractActiveIntents,
+  extractOpenStateEvents,
+  mergeEventLogs,
+  findLatestSnapshotIndex,
+  selectCompactableDeltas,
   isCheckpointExpired,
   buildLineageTree,
   getDescendants,
+  causalKeys,
+  getAncestors,
+  findTraceRoots,
+  buildTraceTree,
+  renderTrace,
   serializeEvent,
   deserializeEvent,
 } from './core';
+export type { TraceNode } from './core';
+
+// Schema Versioning
+export {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  EVENT_PAYLOAD_SCHEMAS,
+  UPCASTERS,
+  upcastEvent,
+  validateEvent,
+  decodeEvent,
+} from './schema';
+export type { Upcaster, DecodeResult } from './schema';
 
 // Store
-export { JsonlStore, getDefaultStore, initializeDefaultStore } from './store';
-export type { JsonlStoreConfig } from './store';
+export { JsonlStore, getDefaultStore, initializeDefaultStore, findJsonlSegments } from './store';
+export type { JsonlStoreConfig, SegmentInfo, SegmentManifest } from './store';
+export { SqliteStore, initializeSqliteStore } from './sqlite-store';
+export type { SqliteStoreConfig } from './sqlite-store';
+
+// OTLP Trace Export
+export {
+  toOtlpTraces,
+  otlpTracesUrl,
+  OtlpTraceExporter,
+  getTraceExporter,
+  initializeTraceExporter,
+  DEFAULT_OTLP_FILE,
+} from './otlp';
+export type {
+  OtlpTracesPayload,
+  OtlpSpan,
+  OtlpKeyValue,
+  OtlpAnyValue,
+  OtlpConversionOptions,
+  OtlpExporterConfig,
+  OtlpExportResult,
+} from './otlp';
 
 // Orchestrator (Class Façade)
 export {
@@ -0,0 +1,278 @@
+/**
+ * Durable Stream Orchestrator Tests
+ *
+ * Snapshot-based replay and delta compaction against a real JsonlStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DurableStream } from './orchestrator';
+import { JsonlStore } from './store';
+
+describe('DurableStream', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'durable-stream-'));
+    path = join(dir, 'durable_stream.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createStream(snapshotInterval = 0): DurableStream {
+    return new DurableStream({
+      store: new JsonlStore({ path, useLocking: false }),
+      snapshotInterval,
+    });
+  }
+
+  describe('snapshots', () => {
+    it('takes a snapshot every snapshotInterval events', async () => {
+      const stream = createStream(3);
+      await stream.initialize();
+
+      for (let i = 0; i < 3; i++) {
+        await stream.requestCheckpoint('s1', `Decision ${i}`, [{ id: 'ok', label: 'OK' }], 'test');
+      }
+
+      const snapshot = stream.getLatestSnapshot();
+      expect(snapshot?.payload.offset).toBe(3);
+      expect(snapshot?.payload.pending_checkpoints).toHaveLength(3);
+    });
+
+    it('resumes from the latest snapshot and replays only later events', async () => {
+      const stream = createStream();
+      await stream.initialize();
+
+      const cp1 = await stream.requestCheckpoint('s1', 'First', [{ id: 'ok', label: 'OK' }], 't');
+      const cp2 = await stream.requestCheckpoint('s1', 'Second', [{ id: 'ok', label: 'OK' }], 't');
+      await stream.snapshot();
+      await stream.approveCheckpoint(cp1, 'user');
+      await stream.createIntent({ description: 'Build', agent: 'executor', prompt: 'go' });
+
+      const resumed = createStream();
+      const result = await resumed.resume();
+
+      expect(result.from_snapshot).toBe(stream.getLatestSnapshot()?.id);
+      expect(result.events_replayed).toBe(2);
+      expect(result.pending_checkpoints.map((cp) => cp.id)).toEqual([cp2]);
+      expect(result.active_intents).toHaveLength(1);
+    });
+
+    it('reads only from the snapshot offset on resume', async () => {
+      const stream = createStream();
+      await stream.initialize();
+
+      const intentId = await stream.createIntent({
+        description: 'Build',
+        agent: 'a',
+        prompt: 'go',
+      });
+      await stream.requestCheckpoint('s1', 'First', [{ id: 'ok', label: 'OK' }], 't');
+      const snapshot = await stream.snapshot();
+      await stream.requestCheckpoint('s1', 'Second', [{ id: 'ok', label: 'OK' }], 't');
+
+      const store = new JsonlStore({ path, useLocking: false });
+      const readFrom = vi.spyOn(store, 'readFrom');
+      const resumed = new DurableStream({ store, snapshotInterval: 0 });
+      const result = await resumed.resume();
+
+      expect(readFrom).toHaveBeenCalledWith(snapshot.payload.offset);
+      expect(result.events_replayed).toBe(1);
+      expect(result.pending_checkpoints).toHaveLength(2);
+
+      // Causal heads from before the snapshot are restored from it
+      await resumed.completeIntent(intentId, 'done');
+      const [spawned] = await resumed.query({ type: 'agent.spawned' });
+      const [completed] = await resumed.query({ type: 'agent.completed' });
+      expect(completed.causation_id).toBe(spawned.id);
+    });
+
+    it('folds registered projections into each snapshot', async () => {
+      const stream = createStream();
+      await stream.initialize();
+      stream.registerSnapshotProjection<number>('count', {
+        capture: (previous, events) => (previous ?? 0) + events.length,
+      });
+
+      await stream.requestCheckpoint('s1', 'One', [], 't');
+      await stream.snapshot();
+      await stream.requestCheckpoint('s1', 'Two', [], 't');
+      await stream.requestCheckpoint('s1', 'Three', [], 't');
+      await stream.snapshot();
+
+      expect(stream.getLatestSnapshot()?.payload.projections.count).toBe(3);
+      expect(stream.getEventsSinceSnapshot().events).toHaveLength(0);
+    });
+  });
+
+  describe('compact', () => {
+    async function appendPart(stream: DurableStream, partID: string, final: boolean) {
+      for (const delta of ['Hel', 'lo']) {
+        await stream.append({
+          type: 'execution.text_delta',
+          stream_id: 's1',
+          correlation_id: 'c1',
+          actor: 'system',
+          payload: { messageID: 'm1', partID, delta },
+        });
+      }
+      if (final) {
+        await stream.append({
+          type: 'execution.text_snapshot',
+          stream_id: 's1',
+          correlation_id: 'c1',
+          actor: 'system',
+          payload: { messageID: 'm1', partID, text: 'Hello' },
+        });
+      }
+    }
+
+    it('reports compactable deltas on dry run without removing them', async () => {
+      const stream = createStream();
+      await stream.initialize();
+      await appendPart(stream, 'p1', true);
+
+      const result = await stream.compact({ dryRun: true });
+      expect(result).toEqual({ scanned: 3, compactable: 2, removed: 0, dry_run: true });
+      expect(await stream.query({ type: 'execution.text_delta' })).toHaveLength(2);
+    });
+
+    it('drops deltas of finished parts and keeps streaming ones', async () => {
+      const stream = createStream();
+      await stream.initialize();
+      await appendPart(stream, 'p1', true);
+      await appendPart(stream, 'p2', false);
+
+      const result = await stream.compact();
+      expect(result.removed).toBe(2);
+
+      const reopened = new JsonlStore({ path, useLocking: false });
+      const types = (await reopened.query({})).map((e) => e.type);
+      expect(types).toEqual([
+        'execution.text_snapshot',
+        'execution.text_delta',
+        'execution.text_delta',
+        'stream.compacted',
+      ]);
+    });
+  });
+
+  describe('causation', () => {
+    it('links nested spawns, completions and checkpoints to their cause', async () => {
+      const stream = createStream();
+      await stream.initialize();
+
+      const root = await stream.spawnAgent('ses-1', undefined, 'chief-of-staff', 'plan');
+      const child = await stream.spawnAgent('ses-2', 'ses-1', 'executor', 'build');
+      const grandchild = await stream.spawnAgent('ses-3', 'ses-2', 'coder', 'write');
+      await stream.failAgent('ses-3', 'coder', 'boom');
+      const cpId = await stream.requestCheckpoint('ses-2', 'Retry?', [], 'executor');
+      await stream.approveCheckpoint(cpId, 'user');
+
+      const events = await stream.query({ since: 0 });
+      const byType = (type: string) => events.filter((e) => e.type === type);
+
+      expect(root.causation_id).toBeUndefined();
+      expect(child.causation_id).toBe(root.id);
+      expect(grandchild.causation_id).toBe(child.id);
+      expect(byType('agent.failed')[0].causation_id).toBe(grandchild.id);
+      expect(byType('checkpoint.requested')[0].causation_id).toBe(child.id);
+      expect(byType('checkpoint.approved')[0].causation_id).toBe(
+        byType('checkpoint.requested')[0].id
+      );
+    });
+
+    it('restores causal heads on resume', async () => {
+      const first = createStream();
+      const intentId = await first.createIntent({
+        description: 'Research',
+        agent: 'oracle',
+        prompt: 'Look it up',
+      });
+      await first.shutdown();
+
+      const second = createStream();
+      await second.resume();
+      await second.completeIntent(intentId, 'done');
+
+      const [spawned, completed] = await second.query({ since: 0 });
+      expect(completed.causation_id).toBe(spawned.id);
+    });
+  });
+
+  describe('follow', () => {
+    async function take<T>(iterator: AsyncIterator<T>, count: number): Promise<T[]> {
+      const items: T[] = [];
+      while (items.length < count) {
+        const next = await iterator.next();
+        if (next.done) break;
+        items.push(next.value);
+      }
+      return items;
+    }
+
+    it('replays matching events after a cursor, then yields new appends', async () => {
+      const stream = createStream();
+      await stream.initialize();
+      await stream.append({
+        type: 'lifecycle.session.idle',
+        stream_id: 's1',
+        correlation_id: 'c1',
+        actor: 'system',
+        payload: null,
+      });
+      const cp = await stream.requestCheckpoint('s1', 'Ship?', [{ id: 'ok', label: 'OK' }], 't');
+
+      const controller = new AbortController();
+      const iterator = stream.follow({ type: 'checkpoint.requested' }, 0, {
+        signal: controller.signal,
+      });
+
+      const [first] = await take(iterator, 1);
+      expect(first.event.payload).toMatchObject({ id: cp });
+      expect(first.offset).toBe(2);
+
+      const next = take(iterator, 1);
+      await stream.requestCheckpoint('s1', 'Again?', [{ id: 'ok', label: 'OK' }], 't');
+      expect((await next)[0].offset).toBe(3);
+
+      controller.abort();
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    it('sees events appended by another process sharing the log', async () => {
+      const follower = createStream();
+      await follower.initialize();
+      const writer = createStream();
+      await writer.initialize();
+
+      const iterator = follower.follow({ type: 'checkpoint.requested' }, undefined, {
+        pollIntervalMs: 20,
+      });
+      const next = take(iterator, 1);
+      await writer.requestCheckpoint('s1', 'Remote', [{ id: 'ok', label: 'OK' }], 't');
+
+      const [record] = await next;
+      expect(record.event.payload).toMatchObject({ decision_point: 'Remote' });
+      await iterator.return(undefined);
+    });
+
+    it('stops after filter.limit events', async () => {
+      const stream = createStream();
+      await stream.initialize();
+      for (let i = 0; i < 3; i++) {
+        await stream.requestCheckpoint('s1', `D${i}`, [{ id: 'ok', label: 'OK' }], 't');
+      }
+
+      const records = [];
+      for await (const record of stream.follow({ limit: 2 }, 0)) records.push(record);
+      expect(records.map((r) => r.offset)).toEqual([1, 2]);
+    });
+  });
+});
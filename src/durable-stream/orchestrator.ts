@@ -25,14 +25,25 @@ import type {
   OpenCodeClient,
   SessionDeletedPayload,
   SessionAbortedPayload,
+  StreamSnapshot,
+  SnapshotProjection,
+  CompactionResult,
+  QuarantinedEvent,
+  StreamRecord,
+  FollowOptions,
 } from './types';
 import {
+  applyFilter,
+  causalKeys,
   createEvent,
   generateCorrelationId,
   extractPendingCheckpoints,
   extractActiveIntents,
+  findLatestSnapshotIndex,
+  selectCompactableDeltas,
 } from './core';
-import { JsonlStore, getDefaultStore } from './store';
+import { getDefaultStore } from './store';
+import { validateEvent } from './schema';
 import { createModuleLogger } from '../utils/logger';
 
 const log = createModuleLogger('DurableStream');
@@ -44,11 +55,14 @@ export interface DurableStreamConfig {
   storePath?: string;
   /** Default checkpoint timeout in ms (default: 5 minutes) */
   checkpointTimeoutMs?: number;
+  /** Events between automatic `stream.snapshot` events; 0 disables (default: 1000) */
+  snapshotInterval?: number;
 }
 
 const DEFAULT_CONFIG: Required<Omit<DurableStreamConfig, 'store'>> = {
   storePath: '.opencode/durable_stream.jsonl',
   checkpointTimeoutMs: 5 * 60 * 1000,
+  snapshotInterval: 1000,
 };
 
 export class DurableStream extends EventEmitter {
@@ -62,6 +76,14 @@ export class DurableStream extends EventEmitter {
   // In-memory projections (derived from events)
   private pendingCheckpoints: Map<string, Checkpoint> = new Map();
   private activeIntents: Map<string, Intent> = new Map();
+  /** Latest event per causal key (see `causalKeys`), used to fill in causation_id */
+  private causalHeads: Map<string, string> = new Map();
+
+  // Snapshots
+  private latestSnapshot: StreamEvent<StreamSnapshot> | null = null;
+  private eventsSinceSnapshot = 0;
+  private snapshotting = false;
+  private snapshotProjections: Map<string, SnapshotProjection> = new Map();
 
   constructor(config?: DurableStreamConfig) {
     super();
@@ -82,9 +104,7 @@ export class DurableStream extends EventEmitter {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    if (this.store instanceof JsonlStore) {
-      await this.store.initialize();
-    }
+    await this.store.initialize?.();
 
     this.initialized = true;
   }
@@ -95,11 +115,19 @@ export class DurableStream extends EventEmitter {
   async resume(): Promise<ResumeResult> {
     await this.initialize();
 
-    const events = await this.store.query({});
+    // Replay from the latest snapshot rather than the beginning of the log
+    const events = await this.readSinceLatestSnapshot();
     this.eventHistory = events; // Hydrate cache
 
-    const pendingCheckpoints = extractPendingCheckpoints(events);
-    const activeIntents = extractActiveIntents(events);
+    const snapshot =
+      events[0]?.type === 'stream.snapshot' ? (events[0] as StreamEvent<StreamSnapshot>) : null;
+    const replay = snapshot ? events.slice(1) : events;
+
+    const pendingCheckpoints = extractPendingCheckpoints(
+      replay,
+      snapshot?.payload.pending_checkpoints
+    );
+    const activeIntents = extractActiveIntents(replay, snapshot?.payload.active_intents);
 
     // Populate projections
     for (const cp of pendingCheckpoints) {
@@ -108,15 +136,45 @@ export class DurableStream extends EventEmitter {
     for (const intent of activeIntents) {
       this.activeIntents.set(intent.id, intent);
     }
+    for (const [key, id] of Object.entries(snapshot?.payload.causal_heads ?? {})) {
+      this.causalHeads.set(key, id);
+    }
+    for (const event of events) {
+      this.trackCausalHead(event);
+    }
+    this.latestSnapshot = snapshot;
+    this.eventsSinceSnapshot = replay.length;
 
     return {
-      events_replayed: events.length,
+      events_replayed: replay.length,
       pending_checkpoints: pendingCheckpoints,
       active_intents: activeIntents,
       last_event_at: events.length > 0 ? events[events.length - 1].timestamp : undefined,
+      from_snapshot: snapshot?.id,
     };
   }
 
+  /**
+   * Events from the latest snapshot onwards, or the whole log if there is none.
+   * Reads from the snapshot's offset when the store supports cursors.
+   */
+  private async readSinceLatestSnapshot(): Promise<StreamEvent[]> {
+    const snapshots = await this.store.query({ type: 'stream.snapshot' });
+    const snapshot = snapshots[snapshots.length - 1] as StreamEvent<StreamSnapshot> | undefined;
+
+    if (this.store.readFrom) {
+      const { records } = await this.store.readFrom(snapshot?.payload.offset ?? 0);
+      const events = records.map((r) => r.event);
+      if (!snapshot) return events;
+      // Compaction renumbers offsets; fall back to a full scan if the snapshot moved before the cursor
+      const index = events.findIndex((e) => e.id === snapshot.id);
+      if (index >= 0) return events.slice(index);
+    }
+
+    const events = await this.store.query({});
+    return events.slice(Math.max(0, findLatestSnapshotIndex(events)));
+  }
+
   /**
    * Check if the stream is initialized.
    */
@@ -138,16 +196,29 @@ export class DurableStream extends EventEmitter {
 
   /**
    * Append a new event to the stream.
+   * Throws if the payload does not match the registered schema for its type.
    */
   async append<T>(input: StreamEventInput<T>): Promise<StreamEvent<T>> {
     await this.initialize();
 
     const event = createEvent(input);
+    const invalid = validateEvent(event as StreamEvent);
+    if (invalid) {
+      throw new Error(`Invalid ${event.type} event: ${invalid}`);
+    }
+
     await this.store.append(event as StreamEvent);
 
     // Update projections based on event type
     this.updateProjections(event as StreamEvent);
 
+    if (event.type !== 'stream.snapshot' && this.config.snapshotInterval > 0) {
+      this.eventsSinceSnapshot++;
+      if (this.eventsSinceSnapshot >= this.config.snapshotInterval && !this.snapshotting) {
+        await this.snapshot();
+      }
+    }
+
     return event;
   }
 
@@ -166,6 +237,14 @@ export class DurableStream extends EventEmitter {
     return this.eventHistory;
   }
 
+  /**
+   * Records the store set aside because they failed schema validation.
+   */
+  async getQuarantinedEvents(): Promise<QuarantinedEvent[]> {
+    await this.initialize();
+    return (await this.store.getQuarantined?.()) ?? [];
+  }
+
   /**
    * Update in-memory projections based on event type.
    */
@@ -177,11 +256,15 @@ export class DurableStream extends EventEmitter {
       this.eventHistory.shift();
     }
 
+    this.trackCausalHead(event);
+
     // Emit for real-time subscribers
     this.emit(event.type, event);
     this.emit('*', event);
 
-    if (event.type === 'checkpoint.requested') {
+    if (event.type === 'stream.snapshot') {
+      this.latestSnapshot = event as StreamEvent<StreamSnapshot>;
+    } else if (event.type === 'checkpoint.requested') {
       const checkpoint = event.payload as Checkpoint;
       this.pendingCheckpoints.set(checkpoint.id, checkpoint);
     } else if (event.type === 'checkpoint.approved' || event.type === 'checkpoint.rejected') {
@@ -204,6 +287,144 @@ export class DurableStream extends EventEmitter {
     }
   }
 
+  private trackCausalHead(event: StreamEvent): void {
+    for (const key of causalKeys(event)) {
+      this.causalHeads.set(key, event.id);
+    }
+  }
+
+  /**
+   * Latest event recorded for the first matching causal key, e.g. the spawn of
+   * the intent a completion belongs to.
+   */
+  private causeOf(...keys: string[]): string | undefined {
+    for (const key of keys) {
+      const id = this.causalHeads.get(key);
+      if (id) return id;
+    }
+    return undefined;
+  }
+
+  // ==========================================================================
+  // Snapshots & Compaction
+  // ==========================================================================
+
+  /**
+   * Register a projection whose state is stored in every snapshot.
+   */
+  registerSnapshotProjection<S>(name: string, projection: SnapshotProjection<S>): void {
+    this.snapshotProjections.set(name, projection as SnapshotProjection);
+  }
+
+  /**
+   * Get the latest snapshot event (if any).
+   */
+  getLatestSnapshot(): StreamEvent<StreamSnapshot> | null {
+    return this.latestSnapshot;
+  }
+
+  /**
+   * Get the latest snapshot and the cached events appended after it.
+   */
+  getEventsSinceSnapshot(): { snapshot: StreamSnapshot | null; events: StreamEvent[] } {
+    if (!this.latestSnapshot) {
+      return { snapshot: null, events: this.eventHistory };
+    }
+
+    const snapshotId = this.latestSnapshot.id;
+    let index = this.eventHistory.length - 1;
+    while (index >= 0 && this.eventHistory[index].id !== snapshotId) index--;
+
+    // Snapshot fell out of the history cache - fall back to a full replay
+    if (index < 0) {
+      return { snapshot: null, events: this.eventHistory };
+    }
+
+    return { snapshot: this.latestSnapshot.payload, events: this.eventHistory.slice(index + 1) };
+  }
+
+  /**
+   * Append a `stream.snapshot` event with the current projection state.
+   * Called automatically every `snapshotInterval` events.
+   */
+  async snapshot(): Promise<StreamEvent<StreamSnapshot>> {
+    await this.initialize();
+    this.snapshotting = true;
+
+    try {
+      const { snapshot: previous, events } = this.getEventsSinceSnapshot();
+
+      const projections: Record<string, unknown> = {};
+      for (const [name, projection] of this.snapshotProjections) {
+        try {
+          projections[name] = projection.capture(previous?.projections[name], events);
+        } catch (err) {
+          log.warn({ err, projection: name }, 'Snapshot projection failed; omitting');
+        }
+      }
+
+      const lastEvent = this.eventHistory[this.eventHistory.length - 1];
+      const event = await this.append<StreamSnapshot>({
+        type: 'stream.snapshot',
+        stream_id: this.correlationId,
+        correlation_id: this.correlationId,
+        actor: 'system',
+        payload: {
+          offset: await this.store.getOffset(),
+          last_event_id: lastEvent?.id,
+          taken_at: Date.now(),
+          pending_checkpoints: Array.from(this.pendingCheckpoints.values()),
+          active_intents: Array.from(this.activeIntents.values()),
+          causal_heads: Object.fromEntries(this.causalHeads),
+          projections,
+        },
+      });
+
+      this.eventsSinceSnapshot = 0;
+      return event;
+    } finally {
+      this.snapshotting = false;
+    }
+  }
+
+  /**
+   * Drop `execution.text_delta` / `execution.reasoning_delta` events whose
+   * `*_snapshot` counterpart exists. Scans the whole log, including rotated segments.
+   */
+  async compact(options: { dryRun?: boolean } = {}): Promise<CompactionResult> {
+    await this.initialize();
+
+    const events = await this.store.query({ since: 0 });
+    const ids = selectCompactableDeltas(events);
+    const result: CompactionResult = {
+      scanned: events.length,
+      compactable: ids.length,
+      removed: 0,
+      dry_run: !!options.dryRun,
+    };
+
+    if (options.dryRun || ids.length === 0) return result;
+
+    if (!this.store.removeEvents) {
+      throw new Error('Configured stream store does not support compaction');
+    }
+
+    const idSet = new Set(ids);
+    result.removed = await this.store.removeEvents(idSet);
+    this.eventHistory = this.eventHistory.filter((e) => !idSet.has(e.id));
+
+    await this.append({
+      type: 'stream.compacted',
+      stream_id: this.correlationId,
+      correlation_id: this.correlationId,
+      actor: 'system',
+      payload: { scanned: result.scanned, removed: result.removed },
+    });
+
+    log.info({ removed: result.removed, scanned: result.scanned }, 'Compacted delta events');
+    return result;
+  }
+
   // ==========================================================================
   // SDK Bridge
   // ==========================================================================
@@ -473,6 +694,9 @@ export class DurableStream extends EventEmitter {
       type: 'agent.spawned',
       stream_id: spec.parent_session_id ?? this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: spec.parent_session_id
+        ? this.causeOf(`intent:${spec.parent_session_id}`)
+        : undefined,
       actor: 'orchestrator',
       payload: intent,
     });
@@ -488,6 +712,7 @@ export class DurableStream extends EventEmitter {
       type: 'agent.completed',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`intent:${intentId}`),
       actor: 'orchestrator',
       payload: { intent_id: intentId, result },
     });
@@ -501,6 +726,7 @@ export class DurableStream extends EventEmitter {
       type: 'agent.failed',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`intent:${intentId}`),
       actor: 'orchestrator',
       payload: { intent_id: intentId, error },
     });
@@ -532,6 +758,7 @@ export class DurableStream extends EventEmitter {
       type: 'checkpoint.requested',
       stream_id: streamId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`intent:${streamId}`, `stream:${streamId}`),
       actor: requestedBy,
       payload: checkpoint,
     });
@@ -554,6 +781,7 @@ export class DurableStream extends EventEmitter {
       type: 'checkpoint.approved',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`checkpoint:${checkpointId}`),
       actor: approvedBy,
       payload: {
         checkpoint_id: checkpointId,
@@ -580,6 +808,7 @@ export class DurableStream extends EventEmitter {
       type: 'checkpoint.rejected',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`checkpoint:${checkpointId}`),
       actor: rejectedBy,
       payload: {
         checkpoint_id: checkpointId,
@@ -756,6 +985,80 @@ export class DurableStream extends EventEmitter {
     return this.store.readStream(streamId);
   }
 
+  /**
+   * Current store cursor; `follow(filter, offset)` yields events appended after it.
+   */
+  async getOffset(): Promise<number> {
+    await this.initialize();
+    return this.store.getOffset();
+  }
+
+  /**
+   * Follow the stream: yield stored events matching `filter` after `fromOffset`
+   * (default: the current end), then keep yielding new ones as they are
+   * appended - by this process or any other sharing the store - until
+   * `options.signal` aborts, `filter.limit` events were yielded, the stream
+   * shuts down or the consumer stops iterating.
+   *
+   * Persist `record.offset` to resume after that event in a later run.
+   */
+  async *follow(
+    filter: StreamFilter = {},
+    fromOffset?: number,
+    options: FollowOptions = {}
+  ): AsyncGenerator<StreamRecord> {
+    await this.initialize();
+
+    const store = this.store;
+    if (!store.readFrom) {
+      throw new Error('Stream store does not support follow()');
+    }
+
+    const { signal, pollIntervalMs = 1000, batchSize = 500 } = options;
+    const { limit, ...match } = filter;
+    let offset = fromOffset ?? (await store.getOffset());
+    let yielded = 0;
+
+    // Woken early by local appends, store change notifications or abort
+    let changed = false;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      changed = true;
+      wake?.();
+    };
+    this.on('*', notify);
+    const unwatch = store.watch?.(notify);
+    signal?.addEventListener('abort', notify);
+
+    try {
+      while (!signal?.aborted && this.initialized) {
+        changed = false;
+        const batch = await store.readFrom(offset, batchSize);
+
+        for (const record of batch.records) {
+          if (applyFilter([record.event], match).length === 0) continue;
+          yield record;
+          if (signal?.aborted || (limit !== undefined && ++yielded >= limit)) return;
+        }
+        offset = batch.offset;
+
+        if (batch.records.length >= batchSize || changed) continue;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, pollIntervalMs);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+    } finally {
+      this.off('*', notify);
+      unwatch?.();
+      signal?.removeEventListener('abort', notify);
+    }
+  }
+
   // ==========================================================================
   // Accessors
   // ==========================================================================
@@ -782,6 +1085,7 @@ export class DurableStream extends EventEmitter {
       type: 'agent.spawned',
       stream_id: parentSessionId || this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: parentSessionId ? this.causeOf(`intent:${parentSessionId}`) : undefined,
       actor: 'orchestrator',
       payload: {
         id: sessionId, // Use specific session ID for intent ID if provided
@@ -807,12 +1111,10 @@ export class DurableStream extends EventEmitter {
       type: 'agent.completed',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`intent:${sessionId}`),
       actor: 'orchestrator',
-      payload: { intent_id: sessionId, result, duration },
-      // Legacy metadata
-      sessionId,
-      agent,
-    } as any);
+      payload: { intent_id: sessionId, agent, result, duration },
+    });
   }
 
   async failAgent(sessionId: string, agent: string, error: string): Promise<void> {
@@ -820,12 +1122,10 @@ export class DurableStream extends EventEmitter {
       type: 'agent.failed',
       stream_id: this.correlationId,
       correlation_id: this.correlationId,
+      causation_id: this.causeOf(`intent:${sessionId}`),
       actor: 'orchestrator',
-      payload: { intent_id: sessionId, error },
-      // Legacy metadata
-      sessionId,
-      agent,
-    } as any);
+      payload: { intent_id: sessionId, agent, error },
+    });
   }
 
   async progressTask(taskId: string, message: string, status: string): Promise<void> {
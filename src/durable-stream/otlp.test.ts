@@ -0,0 +1,225 @@
+/**
+ * OTLP Trace Export Tests
+ *
+ * Span pairing, parent/child links and file/collector export.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createEvent } from './core';
+import { OtlpTraceExporter, otlpTracesUrl, toOtlpTraces } from './otlp';
+import type { OtlpSpan } from './otlp';
+import type { EventType, StreamEvent } from './types';
+
+let clock = 0;
+
+function event(type: EventType, streamId: string, payload: unknown): StreamEvent {
+  clock += 100;
+  return createEvent({
+    type,
+    stream_id: streamId,
+    correlation_id: 'c1',
+    actor: 'system',
+    payload,
+    timestamp: 1_700_000_000_000 + clock,
+  });
+}
+
+/** Root session spawning a sub-agent session that runs one step with a tool call */
+function swarmRun(): StreamEvent[] {
+  clock = 0;
+  return [
+    event('lifecycle.session.created', 'ses-root', { id: 'ses-root', title: 'Build feature' }),
+    event('ledger.task.started', 'ledger-events', {
+      epicId: 'ses-root',
+      taskId: 'ses-child',
+      taskTitle: 'Agent: executor',
+      agent: 'executor',
+    }),
+    event('lifecycle.session.created', 'ses-child', { id: 'ses-child', parentID: 'ses-root' }),
+    event('execution.step_start', 'ses-child', {
+      id: 'p1',
+      sessionID: 'ses-child',
+      messageID: 'm1',
+    }),
+    event('execution.tool_start', 'ses-child', {
+      id: 'p2',
+      sessionID: 'ses-child',
+      messageID: 'm1',
+      callID: 'call-1',
+      tool: 'bash',
+      state: { status: 'running', time: { start: 1_700_000_000_450 } },
+    }),
+    event('execution.tool_finish', 'ses-child', {
+      id: 'p2',
+      sessionID: 'ses-child',
+      messageID: 'm1',
+      callID: 'call-1',
+      tool: 'bash',
+      state: { status: 'completed', title: 'npm test', time: { start: 1, end: 1_700_000_000_550 } },
+    }),
+    event('execution.step_finish', 'ses-child', {
+      id: 'p3',
+      sessionID: 'ses-child',
+      messageID: 'm1',
+      reason: 'tool-calls',
+      cost: 0.25,
+      tokens: { input: 1200, output: 80, reasoning: 0, cache: { read: 0, write: 0 } },
+    }),
+    event('execution.message.updated', 'ses-child', {
+      id: 'm1',
+      sessionID: 'ses-child',
+      modelID: 'gemini-3-pro',
+      providerID: 'google',
+      time: { created: 1, completed: 2 },
+    }),
+    event('ledger.task.failed', 'ledger-events', {
+      epicId: 'ses-root',
+      taskId: 'ses-child',
+      agent: 'executor',
+      error: 'Tests failed',
+    }),
+  ];
+}
+
+function spansOf(events: StreamEvent[], sessionId?: string): Map<string, OtlpSpan> {
+  const payload = toOtlpTraces(events, { sessionId });
+  return new Map(payload.resourceSpans[0].scopeSpans[0].spans.map((s) => [s.name, s]));
+}
+
+const attr = (span: OtlpSpan, key: string) => span.attributes.find((a) => a.key === key)?.value;
+
+describe('toOtlpTraces', () => {
+  it('nests sub-agent sessions, steps and tools in one trace', () => {
+    const spans = spansOf(swarmRun());
+    const root = spans.get('session Build feature')!;
+    const task = spans.get('task Agent: executor')!;
+    const child = spans.get('session')!;
+    const step = spans.get('step')!;
+    const tool = spans.get('tool bash')!;
+
+    expect(root.parentSpanId).toBeUndefined();
+    expect(task.parentSpanId).toBe(root.spanId);
+    expect(child.parentSpanId).toBe(task.spanId);
+    expect(step.parentSpanId).toBe(child.spanId);
+    expect(tool.parentSpanId).toBe(step.spanId);
+
+    const traceIds = new Set([...spans.values()].map((s) => s.traceId));
+    expect(traceIds.size).toBe(1);
+    expect([...traceIds][0]).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('uses tool timings and carries agent, model and tool attributes', () => {
+    const spans = spansOf(swarmRun());
+    const tool = spans.get('tool bash')!;
+    const step = spans.get('step')!;
+
+    expect(tool.startTimeUnixNano).toBe('1700000000450000000');
+    expect(tool.endTimeUnixNano).toBe('1700000000550000000');
+    expect(attr(tool, 'tool.name')).toEqual({ stringValue: 'bash' });
+    expect(attr(tool, 'gen_ai.request.model')).toEqual({ stringValue: 'gemini-3-pro' });
+    expect(attr(step, 'gen_ai.usage.input_tokens')).toEqual({ intValue: '1200' });
+    expect(attr(step, 'gen_ai.usage.cost')).toEqual({ doubleValue: 0.25 });
+    expect(attr(spans.get('session')!, 'agent.name')).toEqual({ stringValue: 'executor' });
+  });
+
+  it('marks failed and unfinished spans', () => {
+    const spans = spansOf(swarmRun());
+
+    expect(spans.get('task Agent: executor')!.status).toEqual({
+      code: 2,
+      message: 'Tests failed',
+    });
+    expect(spans.get('tool bash')!.status).toEqual({ code: 1 });
+
+    const root = spans.get('session Build feature')!;
+    expect(root.status).toEqual({ code: 0 });
+    expect(attr(root, 'swarm.span.incomplete')).toEqual({ boolValue: true });
+  });
+
+  it('exports only the trace of the given session', () => {
+    const events = [
+      ...swarmRun(),
+      event('lifecycle.session.created', 'ses-other', { id: 'ses-other', title: 'Other' }),
+    ];
+
+    expect(spansOf(events).has('session Other')).toBe(true);
+    const filtered = spansOf(events, 'ses-child');
+    expect(filtered.has('session Other')).toBe(false);
+    expect(filtered.has('session Build feature')).toBe(true);
+  });
+
+  it('yields the same IDs on re-export', () => {
+    const first = toOtlpTraces(swarmRun());
+    expect(toOtlpTraces(swarmRun())).toEqual(first);
+  });
+});
+
+const collectorResponse = (status: number, body: string) => ({
+  ok: status < 300,
+  status,
+  text: async () => body,
+});
+
+describe('OtlpTraceExporter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'otlp-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it('appends export requests to the trace file', async () => {
+    const file = join(dir, 'traces', 'out.jsonl');
+    const exporter = new OtlpTraceExporter({ file, serviceName: 'swarm-test' });
+
+    const result = await exporter.export(swarmRun());
+    await exporter.export(swarmRun());
+
+    expect(result).toEqual({ spans: 5, file });
+    const lines = readFileSync(file, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'swarm-test' } },
+    ]);
+  });
+
+  it('posts to the collector endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(collectorResponse(200, '{}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const exporter = new OtlpTraceExporter({
+      endpoint: 'http://localhost:4318/',
+      headers: { Authorization: 'Bearer t' },
+    });
+    const result = await exporter.export(swarmRun());
+
+    expect(result.endpoint).toBe('http://localhost:4318/v1/traces');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:4318/v1/traces');
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer t',
+    });
+    expect(JSON.parse(init.body).resourceSpans[0].scopeSpans[0].spans).toHaveLength(5);
+  });
+
+  it('reports collector errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(collectorResponse(400, 'bad')));
+    const exporter = new OtlpTraceExporter({ endpoint: 'http://localhost:4318' });
+
+    await expect(exporter.export(swarmRun())).rejects.toThrow('400 bad');
+  });
+
+  it('resolves collector URLs', () => {
+    expect(otlpTracesUrl('http://tempo:4318')).toBe('http://tempo:4318/v1/traces');
+    expect(otlpTracesUrl('http://tempo:4318/v1/traces')).toBe('http://tempo:4318/v1/traces');
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * OTLP Trace Export
+ *
+ * Converts Durable Stream events into OpenTelemetry spans (OTLP/JSON), so swarm
+ * runs show up in Jaeger, Tempo or any other OTLP-compatible backend.
+ *
+ * Span model:
+ * - session: `lifecycle.session.created` → last event of the session
+ * - agent:   `agent.spawned` → `agent.completed|failed|aborted` (same intent)
+ * - task:    `ledger.task.started` → `ledger.task.completed|failed|yielded` (same taskId)
+ * - step:    `execution.step_start` → `execution.step_finish` (same message)
+ * - tool:    `execution.tool_start` → `execution.tool_finish` (same callID)
+ *
+ * Each root session is one trace; sub-agent sessions are nested under the spawn
+ * span that created them. Span IDs are derived from event data, so exporting
+ * the same events twice yields the same spans.
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { StreamEvent } from './types';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('OtlpExporter');
+
+// ============================================================================
+// OTLP/JSON Types (subset of opentelemetry-proto trace/v1)
+// ============================================================================
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** 1 = SPAN_KIND_INTERNAL */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  /** code: 0 = unset, 1 = ok, 2 = error */
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTracesPayload {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{ scope: { name: string; version?: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+export interface OtlpConversionOptions {
+  /** `service.name` resource attribute (default: 'opencode-addons') */
+  serviceName?: string;
+  /** Only export the trace containing this session */
+  sessionId?: string;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+// ============================================================================
+// Conversion (pure)
+// ============================================================================
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+interface SpanDraft {
+  key: string;
+  name: string;
+  sessionId: string;
+  start: number;
+  end?: number;
+  error?: string;
+  attributes: Attributes;
+  /** Step that was running when a tool call started */
+  stepKey?: string;
+  /** Resolved after all spans are known */
+  parentKey?: string;
+}
+
+function hexId(input: string, length: 16 | 32): string {
+  return createHash('sha256').update(input).digest('hex').slice(0, length);
+}
+
+function toNanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function toAttributes(attributes: Attributes): OtlpKeyValue[] {
+  const result: OtlpKeyValue[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    if (typeof value === 'string') result.push({ key, value: { stringValue: value } });
+    else if (typeof value === 'boolean') result.push({ key, value: { boolValue: value } });
+    else if (Number.isInteger(value)) result.push({ key, value: { intValue: String(value) } });
+    else result.push({ key, value: { doubleValue: value } });
+  }
+  return result;
+}
+
+type Payload = Record<string, any>;
+
+const payloadOf = (event: StreamEvent): Payload =>
+  event.payload && typeof event.payload === 'object' ? (event.payload as Payload) : {};
+
+const errorMessage = (error: unknown): string | undefined =>
+  error === undefined || typeof error === 'string' ? error : JSON.stringify(error);
+
+/**
+ * Convert stream events into an OTLP/JSON export request.
+ * Spans that never finished end at the last event of their session and carry
+ * `swarm.span.incomplete`.
+ */
+export function toOtlpTraces(
+  events: StreamEvent[],
+  options: OtlpConversionOptions = {}
+): OtlpTracesPayload {
+  const spans = new Map<string, SpanDraft>();
+  const sessionParents = new Map<string, string>();
+  const sessionEnd = new Map<string, number>();
+  const models = new Map<string, { model?: string; provider?: string }>();
+  const openSteps = new Map<string, string[]>();
+  /** Spawn span per child session, to nest the child session under it */
+  const spawnOf = new Map<string, string>();
+
+  const open = (draft: SpanDraft) => {
+    if (!spans.has(draft.key)) spans.set(draft.key, draft);
+  };
+  const close = (key: string, end: number, error?: string, attributes: Attributes = {}) => {
+    const span = spans.get(key);
+    if (!span || span.end !== undefined) return;
+    span.end = end;
+    span.error ??= error;
+    Object.assign(span.attributes, attributes);
+  };
+
+  for (const event of events) {
+    const p = payloadOf(event);
+    const session = event.stream_id;
+    sessionEnd.set(session, Math.max(sessionEnd.get(session) ?? 0, event.timestamp));
+
+    switch (event.type) {
+      case 'lifecycle.session.created': {
+        if (typeof p.parentID === 'string') sessionParents.set(session, p.parentID);
+        open({
+          key: `session:${session}`,
+          name: p.title ? `session ${p.title}` : 'session',
+          sessionId: session,
+          start: (p.time?.created as number | undefined) ?? event.timestamp,
+          attributes: { 'session.id': session, 'session.title': p.title },
+        });
+        break;
+      }
+      case 'lifecycle.session.deleted':
+        close(`session:${session}`, event.timestamp);
+        break;
+      case 'lifecycle.session.error': {
+        // Sessions keep running after an error; only mark the span.
+        const span = spans.get(`session:${session}`);
+        if (span) span.error = errorMessage(p.error) ?? 'session error';
+        break;
+      }
+
+      case 'agent.spawned': {
+        if (!p.id) break;
+        const key = `agent:${p.id}`;
+        if (p.parent_session_id) sessionParents.set(p.id, p.parent_session_id);
+        spawnOf.set(p.id, key);
+        open({
+          key,
+          name: `agent ${p.agent ?? p.id}`,
+          sessionId: p.parent_session_id ?? session,
+          start: event.timestamp,
+          attributes: { 'agent.name': p.agent, 'intent.id': p.id },
+        });
+        break;
+      }
+      case 'agent.completed':
+      case 'agent.failed':
+      case 'agent.aborted': {
+        if (!p.intent_id) break;
+        const error =
+          event.type === 'agent.completed' ? undefined : (errorMessage(p.error) ?? event.type);
+        close(`agent:${p.intent_id}`, event.timestamp, error);
+        break;
+      }
+
+      case 'ledger.task.started': {
+        if (!p.taskId) break;
+        const key = `task:${p.taskId}`;
+        if (p.epicId) sessionParents.set(p.taskId, p.epicId);
+        if (!spawnOf.has(p.taskId)) spawnOf.set(p.taskId, key);
+        open({
+          key,
+          name: `task ${p.taskTitle ?? p.agent ?? p.taskId}`,
+          sessionId: p.epicId ?? session,
+          start: event.timestamp,
+          attributes: { 'agent.name': p.agent, 'task.id': p.taskId, 'epic.id': p.epicId },
+        });
+        break;
+      }
+      case 'ledger.task.completed':
+      case 'ledger.task.failed':
+      case 'ledger.task.yielded': {
+        if (!p.taskId) break;
+        const error = event.type === 'ledger.task.failed' ? (p.error ?? 'task failed') : undefined;
+        close(`task:${p.taskId}`, event.timestamp, error, {
+          'task.outcome': event.type.slice('ledger.task.'.length),
+        });
+        break;
+      }
+
+      case 'execution.step_start': {
+        if (!p.messageID) break;
+        const key = `step:${p.id ?? event.id}`;
+        openSteps.set(p.messageID, [...(openSteps.get(p.messageID) ?? []), key]);
+        open({
+          key,
+          name: 'step',
+          sessionId: p.sessionID ?? session,
+          start: event.timestamp,
+          attributes: { 'message.id': p.messageID },
+        });
+        break;
+      }
+      case 'execution.step_finish': {
+        const [key, ...rest] = openSteps.get(p.messageID) ?? [];
+        if (!key) break;
+        openSteps.set(p.messageID, rest);
+        close(key, event.timestamp, undefined, {
+          'step.finish_reason': p.reason,
+          'gen_ai.usage.input_tokens': p.tokens?.input,
+          'gen_ai.usage.output_tokens': p.tokens?.output,
+          'gen_ai.usage.reasoning_tokens': p.tokens?.reasoning,
+          'gen_ai.usage.cost': p.cost,
+        });
+        break;
+      }
+
+      case 'execution.tool_start':
+      case 'execution.tool_finish': {
+        const callId = p.callID ?? p.id;
+        if (!callId) break;
+        const key = `tool:${callId}`;
+        const state = (p.state ?? {}) as Payload;
+        const time = (state.time ?? {}) as { start?: number; end?: number };
+        open({
+          key,
+          name: `tool ${p.tool ?? 'unknown'}`,
+          sessionId: p.sessionID ?? session,
+          start: time.start ?? event.timestamp,
+          attributes: {
+            'tool.name': p.tool,
+            'tool.call_id': callId,
+            'message.id': p.messageID,
+          },
+          stepKey: openSteps.get(p.messageID)?.at(-1),
+        });
+        if (state.status === 'completed' || state.status === 'error') {
+          close(
+            key,
+            time.end ?? event.timestamp,
+            state.status === 'error' ? (errorMessage(state.error) ?? 'tool error') : undefined,
+            { 'tool.title': state.title }
+          );
+        }
+        break;
+      }
+
+      case 'execution.message.updated': {
+        if (p.id && (p.modelID || p.model)) {
+          models.set(p.id, {
+            model: p.modelID ?? p.model?.modelID,
+            provider: p.providerID ?? p.model?.providerID,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  // Parents: tool → step → session; spawn/task → parent session; session → its spawn
+  for (const span of spans.values()) {
+    const [kind] = span.key.split(':', 1);
+
+    if (span.stepKey && spans.has(span.stepKey)) {
+      span.parentKey = span.stepKey;
+    } else if (kind === 'session') {
+      const spawn = spawnOf.get(span.sessionId);
+      const parent = sessionParents.get(span.sessionId);
+      span.parentKey = spawn && spans.has(spawn) ? spawn : parent && `session:${parent}`;
+    } else {
+      span.parentKey = `session:${span.sessionId}`;
+    }
+    if (span.parentKey && !spans.has(span.parentKey)) span.parentKey = undefined;
+
+    if (kind === 'step' || kind === 'tool') {
+      const model = models.get(span.attributes['message.id'] as string);
+      span.attributes['gen_ai.request.model'] = model?.model;
+      span.attributes['gen_ai.system'] = model?.provider;
+    }
+  }
+
+  // Sessions: the agent that ran them
+  for (const [sessionId, spawnKey] of spawnOf) {
+    const session = spans.get(`session:${sessionId}`);
+    const spawn = spans.get(spawnKey);
+    if (session && spawn) session.attributes['agent.name'] ??= spawn.attributes['agent.name'];
+  }
+
+  const rootSession = (sessionId: string): string => {
+    const seen = new Set<string>();
+    let current = sessionId;
+    while (sessionParents.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = sessionParents.get(current)!;
+    }
+    return current;
+  };
+
+  const traceOf = (sessionId: string) => hexId(rootSession(sessionId), 32);
+  const onlyTrace = options.sessionId ? traceOf(options.sessionId) : undefined;
+
+  const otlpSpans: OtlpSpan[] = [];
+  for (const span of spans.values()) {
+    const traceId = traceOf(span.sessionId);
+    if (onlyTrace && traceId !== onlyTrace) continue;
+
+    const incomplete = span.end === undefined;
+    const end = span.end ?? Math.max(sessionEnd.get(span.sessionId) ?? span.start, span.start);
+
+    otlpSpans.push({
+      traceId,
+      spanId: hexId(span.key, 16),
+      parentSpanId: span.parentKey ? hexId(span.parentKey, 16) : undefined,
+      name: span.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toNanos(span.start),
+      endTimeUnixNano: toNanos(end),
+      attributes: toAttributes({
+        ...span.attributes,
+        'swarm.stream_id': span.sessionId,
+        'swarm.span.incomplete': incomplete || undefined,
+      }),
+      status: span.error
+        ? { code: STATUS_ERROR, message: span.error }
+        : { code: incomplete ? STATUS_UNSET : STATUS_OK },
+    });
+  }
+
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toAttributes({ 'service.name': options.serviceName ?? 'opencode-addons' }),
+        },
+        scopeSpans: [{ scope: { name: 'opencode-addons/durable-stream' }, spans: otlpSpans }],
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// Exporter
+// ============================================================================
+
+export interface OtlpExporterConfig extends OtlpConversionOptions {
+  /** OTLP/HTTP collector base URL, e.g. http://localhost:4318 (`/v1/traces` is appended) */
+  endpoint?: string;
+  /** JSON Lines file to append export requests to (default: .opencode/traces.otlp.jsonl) */
+  file?: string;
+  /** Extra HTTP headers for the collector */
+  headers?: Record<string, string>;
+}
+
+export interface OtlpExportResult {
+  spans: number;
+  file?: string;
+  endpoint?: string;
+}
+
+export const DEFAULT_OTLP_FILE = '.opencode/traces.otlp.jsonl';
+
+/**
+ * Resolve the collector URL for OTLP/HTTP trace export.
+ */
+export function otlpTracesUrl(endpoint: string): string {
+  const base = endpoint.replace(/\/+$/, '');
+  return base.endsWith('/v1/traces') ? base : `${base}/v1/traces`;
+}
+
+export class OtlpTraceExporter {
+  constructor(private config: OtlpExporterConfig = {}) {}
+
+  /**
+   * Convert events and send them to the collector endpoint if one is configured,
+   * else append them to the trace file. Per-call options override the config.
+   */
+  async export(
+    events: StreamEvent[],
+    options: Pick<OtlpExporterConfig, 'endpoint' | 'file' | 'sessionId'> = {}
+  ): Promise<OtlpExportResult> {
+    const payload = toOtlpTraces(events, { ...this.config, sessionId: options.sessionId });
+    const spans = payload.resourceSpans[0].scopeSpans[0].spans.length;
+    const endpoint = options.endpoint ?? (options.file ? undefined : this.config.endpoint);
+
+    if (endpoint) {
+      const url = otlpTracesUrl(endpoint);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `OTLP export to ${url} failed: ${response.status} ${await response.text()}`
+        );
+      }
+      log.debug({ url, spans }, 'Exported traces');
+      return { spans, endpoint: url };
+    }
+
+    const file = options.file ?? this.config.file ?? DEFAULT_OTLP_FILE;
+    await mkdir(dirname(file), { recursive: true });
+    await appendFile(file, JSON.stringify(payload) + '\n');
+    log.debug({ file, spans }, 'Exported traces');
+    return { spans, file };
+  }
+}
+
+let globalExporter: OtlpTraceExporter | null = null;
+
+export function getTraceExporter(): OtlpTraceExporter {
+  if (!globalExporter) {
+    globalExporter = new OtlpTraceExporter();
+  }
+  return globalExporter;
+}
+
+export function initializeTraceExporter(config: OtlpExporterConfig = {}): OtlpTraceExporter {
+  globalExporter = new OtlpTraceExporter(config);
+  return globalExporter;
+}
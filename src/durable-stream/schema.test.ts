@@ -0,0 +1,121 @@
+/**
+ * Event Schema Tests
+ *
+ * Upcasting of events written by older plugin versions, and payload validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEvent } from './core';
+import {
+  CURRENT_SCHEMA_VERSION,
+  decodeEvent,
+  quarantineKey,
+  upcastEvent,
+  validateEvent,
+} from './schema';
+import type { EventType, StreamEvent } from './types';
+
+function legacyEvent(type: EventType, payload: unknown, extra: object = {}): StreamEvent {
+  const event = createEvent({
+    type,
+    stream_id: 's1',
+    correlation_id: 'c1',
+    actor: 'orchestrator',
+    payload,
+  });
+  delete event.schema_version;
+  return { ...event, ...extra };
+}
+
+describe('upcastEvent', () => {
+  it('moves envelope sessionId/agent of agent.completed into the payload', () => {
+    const event = upcastEvent(
+      legacyEvent(
+        'agent.completed',
+        { result: { ok: true } },
+        { sessionId: 'ses-1', agent: 'oracle' }
+      )
+    );
+
+    expect(event.payload).toEqual({ intent_id: 'ses-1', agent: 'oracle', result: '{"ok":true}' });
+    expect(event).not.toHaveProperty('sessionId');
+    expect(event).not.toHaveProperty('agent');
+    expect(event.schema_version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('keeps an existing intent_id over the legacy session id', () => {
+    const event = upcastEvent(
+      legacyEvent('agent.failed', { intent_id: 'i-1', error: 'boom' }, { sessionId: 'ses-1' })
+    );
+    expect((event.payload as { intent_id: string }).intent_id).toBe('i-1');
+  });
+
+  it('renames snake_case ledger.task keys', () => {
+    const event = upcastEvent(
+      legacyEvent('ledger.task.yielded', {
+        epic_id: 'e1',
+        task_id: 't1',
+        title: 'Research',
+        reason: 'Needs approval',
+      })
+    );
+
+    expect(event.payload).toEqual({
+      epicId: 'e1',
+      taskId: 't1',
+      taskTitle: 'Research',
+      result: 'Needs approval',
+    });
+  });
+
+  it('leaves current-version events untouched', () => {
+    const event = createEvent({
+      type: 'ledger.task.created',
+      stream_id: 's1',
+      correlation_id: 'c1',
+      actor: 'system',
+      payload: { taskId: 't1', title: 'kept' },
+    });
+    expect(upcastEvent(event)).toEqual(event);
+  });
+});
+
+describe('validateEvent', () => {
+  it('accepts types without a registered schema', () => {
+    expect(validateEvent(legacyEvent('lifecycle.session.idle', null))).toBeNull();
+  });
+
+  it('reports payload errors', () => {
+    const error = validateEvent(
+      createEvent({
+        type: 'checkpoint.approved',
+        stream_id: 's1',
+        correlation_id: 'c1',
+        actor: 'user',
+        payload: {},
+      })
+    );
+    expect(error).toContain('checkpoint.approved payload');
+  });
+
+  it('reports envelope errors', () => {
+    const { stream_id: _, ...event } = legacyEvent('lifecycle.session.idle', null);
+    expect(validateEvent(event as StreamEvent)).toContain('envelope');
+  });
+});
+
+describe('decodeEvent', () => {
+  it('rejects records that are still invalid after upcasting', () => {
+    const raw = legacyEvent('agent.completed', { result: 'done' });
+    const result = decodeEvent(raw);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.raw).toBe(raw);
+    expect(quarantineKey(raw)).toBe(raw.id);
+  });
+
+  it('rejects non-object records', () => {
+    expect(decodeEvent([1, 2]).ok).toBe(false);
+    expect(quarantineKey([1, 2])).toBe('[1,2]');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Durable Stream Event Schemas
+ *
+ * Versioned payload schemas (zod) per EventType, plus upcasters that migrate
+ * events written by older plugin versions on read. Events that still fail
+ * validation after upcasting are quarantined by the stores, never dropped.
+ *
+ * Versions:
+ * - 1: events written before `schema_version` existed (field absent)
+ * - 2: `agent.*` completion payloads carry `intent_id`/`agent`; `ledger.*`
+ *      payloads use camelCase keys (`taskId`, `epicId`, ...)
+ */
+
+import { z } from 'zod';
+import type { EventType, StreamEvent } from './types';
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/** Version assumed for events without a `schema_version` field */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// ============================================================================
+// Payload Schemas (current version)
+// ============================================================================
+
+const IntentOutcomePayloadSchema = z.looseObject({
+  intent_id: z.string(),
+  agent: z.string().optional(),
+  result: z.string().optional(),
+  error: z.string().optional(),
+  duration: z.number().optional(),
+});
+
+const CheckpointResolutionPayloadSchema = z.looseObject({
+  checkpoint_id: z.string(),
+});
+
+const LedgerTaskPayloadSchema = z.looseObject({
+  taskId: z.string(),
+  epicId: z.string().optional(),
+  epicTitle: z.string().optional(),
+  taskTitle: z.string().optional(),
+  agent: z.string().optional(),
+  result: z.string().optional(),
+  summary: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const LedgerEpicPayloadSchema = z.looseObject({
+  epicId: z.string(),
+  epicTitle: z.string().optional(),
+});
+
+/**
+ * Payload schema per event type. Types without an entry accept any payload.
+ */
+export const EVENT_PAYLOAD_SCHEMAS: Partial<Record<EventType, z.ZodType>> = {
+  'agent.spawned': z.looseObject({
+    id: z.string().optional(),
+    agent: z.string().optional(),
+    prompt: z.string().optional(),
+  }),
+  'agent.completed': IntentOutcomePayloadSchema,
+  'agent.failed': IntentOutcomePayloadSchema,
+  'checkpoint.requested': z.looseObject({
+    id: z.string(),
+    decision_point: z.string(),
+    options: z.array(z.looseObject({ id: z.string(), label: z.string() })),
+    requested_by: z.string().optional(),
+    requested_at: z.number().optional(),
+  }),
+  'checkpoint.approved': CheckpointResolutionPayloadSchema,
+  'checkpoint.rejected': CheckpointResolutionPayloadSchema,
+  'ledger.epic.created': LedgerEpicPayloadSchema,
+  'ledger.epic.started': LedgerEpicPayloadSchema,
+  'ledger.epic.completed': LedgerEpicPayloadSchema,
+  'ledger.epic.failed': LedgerEpicPayloadSchema,
+  'ledger.epic.archived': LedgerEpicPayloadSchema,
+  'ledger.task.created': LedgerTaskPayloadSchema,
+  'ledger.task.started': LedgerTaskPayloadSchema,
+  'ledger.task.completed': LedgerTaskPayloadSchema,
+  'ledger.task.failed': LedgerTaskPayloadSchema,
+  'ledger.task.yielded': LedgerTaskPayloadSchema,
+  'stream.snapshot': z.looseObject({
+    offset: z.number(),
+    pending_checkpoints: z.array(z.unknown()),
+    active_intents: z.array(z.unknown()),
+    projections: z.record(z.string(), z.unknown()),
+  }),
+};
+
+const EnvelopeSchema = z.looseObject({
+  id: z.string(),
+  type: z.string(),
+  stream_id: z.string(),
+  correlation_id: z.string(),
+  actor: z.string(),
+  timestamp: z.number(),
+  schema_version: z.number().int().positive().optional(),
+});
+
+// ============================================================================
+// Upcasters
+// ============================================================================
+
+/**
+ * Migrates an event from `schema_version` N to N + 1.
+ */
+export type Upcaster = (event: StreamEvent) => StreamEvent;
+
+type Payload = Record<string, unknown>;
+
+/**
+ * v1 `agent.completed` / `agent.failed`: written with the session ID as
+ * `sessionId` (in the payload or on the envelope) and `agent` on the envelope.
+ */
+const upcastIntentOutcomeV1: Upcaster = (event) => {
+  const { sessionId, agent, ...envelope } = event as StreamEvent & Payload;
+  const payload = { ...((event.payload as Payload | null) ?? {}) };
+
+  payload.intent_id ??= payload.sessionId ?? payload.session_id ?? sessionId;
+  payload.agent ??= agent;
+  if (payload.result !== undefined && typeof payload.result !== 'string') {
+    payload.result = JSON.stringify(payload.result);
+  }
+  delete payload.sessionId;
+  delete payload.session_id;
+
+  return { ...(envelope as StreamEvent), payload };
+};
+
+const LEDGER_KEY_RENAMES: Record<string, string> = {
+  task_id: 'taskId',
+  task_title: 'taskTitle',
+  epic_id: 'epicId',
+  epic_title: 'epicTitle',
+};
+
+/**
+ * v1 `ledger.*`: snake_case keys from the tool args, `title` for the task title
+ * and `reason` instead of `result` for yields.
+ */
+const upcastLedgerV1: Upcaster = (event) => {
+  const payload: Payload = {};
+  for (const [key, value] of Object.entries((event.payload as Payload | null) ?? {})) {
+    payload[LEDGER_KEY_RENAMES[key] ?? key] = value;
+  }
+
+  if (event.type.startsWith('ledger.task.')) {
+    if (payload.title !== undefined) {
+      payload.taskTitle ??= payload.title;
+      delete payload.title;
+    }
+    if (event.type === 'ledger.task.yielded' && payload.reason !== undefined) {
+      payload.result ??= payload.reason;
+      delete payload.reason;
+    }
+  }
+
+  return { ...event, payload };
+};
+
+/**
+ * Upcasters keyed by source version, then event type.
+ */
+export const UPCASTERS: Record<number, Partial<Record<EventType, Upcaster>>> = {
+  1: {
+    'agent.completed': upcastIntentOutcomeV1,
+    'agent.failed': upcastIntentOutcomeV1,
+    'ledger.epic.created': upcastLedgerV1,
+    'ledger.epic.started': upcastLedgerV1,
+    'ledger.epic.completed': upcastLedgerV1,
+    'ledger.epic.failed': upcastLedgerV1,
+    'ledger.epic.archived': upcastLedgerV1,
+    'ledger.task.created': upcastLedgerV1,
+    'ledger.task.started': upcastLedgerV1,
+    'ledger.task.completed': upcastLedgerV1,
+    'ledger.task.failed': upcastLedgerV1,
+    'ledger.task.yielded': upcastLedgerV1,
+  },
+};
+
+/**
+ * Run every upcaster between the event's version and CURRENT_SCHEMA_VERSION.
+ */
+export function upcastEvent(event: StreamEvent): StreamEvent {
+  let current = event;
+  for (
+    let version = event.schema_version ?? LEGACY_SCHEMA_VERSION;
+    version < CURRENT_SCHEMA_VERSION;
+    version++
+  ) {
+    const upcaster = UPCASTERS[version]?.[current.type];
+    if (upcaster) current = upcaster(current);
+  }
+  return { ...current, schema_version: CURRENT_SCHEMA_VERSION };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate an event against the envelope and its payload schema.
+ *
+ * @returns An error message, or null if the event is valid
+ */
+export function validateEvent(event: StreamEvent): string | null {
+  const envelope = EnvelopeSchema.safeParse(event);
+  if (!envelope.success) {
+    return `envelope: ${z.prettifyError(envelope.error)}`;
+  }
+
+  const schema = EVENT_PAYLOAD_SCHEMAS[event.type];
+  if (!schema) return null;
+
+  const payload = schema.safeParse(event.payload);
+  return payload.success ? null : `${event.type} payload: ${z.prettifyError(payload.error)}`;
+}
+
+export type DecodeResult =
+  { ok: true; event: StreamEvent } | { ok: false; reason: string; raw: unknown };
+
+/**
+ * Decode a parsed log record: upcast to the current version, then validate.
+ */
+export function decodeEvent(raw: unknown): DecodeResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, reason: 'not an object', raw };
+  }
+
+  let event: StreamEvent;
+  try {
+    event = upcastEvent(raw as StreamEvent);
+  } catch (err) {
+    return { ok: false, reason: `upcast failed: ${err}`, raw };
+  }
+
+  const error = validateEvent(event);
+  return error ? { ok: false, reason: error, raw } : { ok: true, event };
+}
+
+/**
+ * Stable key for a quarantined record (its ID when it has one).
+ */
+export function quarantineKey(raw: unknown): string {
+  const id = (raw as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : JSON.stringify(raw);
+}
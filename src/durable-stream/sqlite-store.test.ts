@@ -0,0 +1,175 @@
+/**
+ * SQLite Stream Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteStore } from './sqlite-store';
+import { findJsonlSegments } from './store';
+import { createEvent, serializeEvent } from './core';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import type { EventType, StreamEvent } from './types';
+
+function makeEvent(
+  type: EventType,
+  overrides: Partial<Omit<StreamEvent, 'id' | 'type'>> = {}
+): StreamEvent {
+  return createEvent({
+    type,
+    stream_id: 's1',
+    correlation_id: 'c1',
+    actor: 'system',
+    payload: {},
+    ...overrides,
+  });
+}
+
+describe('SqliteStore', () => {
+  let dir: string;
+  let store: SqliteStore;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sqlite-store-'));
+    store = new SqliteStore({ path: join(dir, 'stream.db') });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips events with payload and metadata', async () => {
+    const event = makeEvent('agent.spawned', {
+      causation_id: 'parent',
+      payload: { agent: 'executor' },
+      metadata: { source: 'test' },
+    });
+    await store.append(event);
+
+    const [stored] = await store.query({});
+    expect(stored).toEqual(event);
+  });
+
+  it('filters by type, actor, correlation_id, time range and limit', async () => {
+    await store.append(makeEvent('lifecycle.session.created', { timestamp: 100 }));
+    await store.append(makeEvent('agent.spawned', { actor: 'executor', timestamp: 200 }));
+    await store.append(
+      makeEvent('agent.completed', {
+        correlation_id: 'c2',
+        timestamp: 300,
+        payload: { intent_id: 'i1' },
+      })
+    );
+
+    expect(await store.query({ type: 'agent.spawned' })).toHaveLength(1);
+    expect(await store.query({ type: ['agent.spawned', 'agent.completed'] })).toHaveLength(2);
+    expect((await store.query({ actor: 'executor' }))[0].type).toBe('agent.spawned');
+    expect((await store.query({ correlation_id: 'c2' }))[0].type).toBe('agent.completed');
+    expect(await store.query({ since: 150, until: 250 })).toHaveLength(1);
+
+    const limited = await store.query({ limit: 2 });
+    expect(limited.map((e) => e.timestamp)).toEqual([100, 200]);
+  });
+
+  it('reads a stream from an offset and counts events', async () => {
+    await store.append(makeEvent('lifecycle.session.created'));
+    await store.append(makeEvent('agent.spawned', { stream_id: 's2' }));
+    await store.append(makeEvent('lifecycle.session.idle'));
+
+    const fromOffset = await store.readStream('s1', 1);
+    expect(fromOffset).toHaveLength(1);
+    expect(fromOffset[0].type).toBe('lifecycle.session.idle');
+    expect(await store.getOffset()).toBe(3);
+  });
+
+  it('reads from a sequence cursor that survives removals', async () => {
+    const first = makeEvent('lifecycle.session.created');
+    await store.append(first);
+    await store.append(makeEvent('agent.spawned'));
+    await store.append(makeEvent('lifecycle.session.idle'));
+    await store.removeEvents(new Set([first.id]));
+
+    const { records, offset } = await store.readFrom(1);
+    expect(records.map((r) => [r.offset, r.event.type])).toEqual([
+      [2, 'agent.spawned'],
+      [3, 'lifecycle.session.idle'],
+    ]);
+    expect(offset).toBe(3);
+    expect(await store.getOffset()).toBe(3);
+
+    expect((await store.readFrom(1, 1)).offset).toBe(2);
+  });
+
+  it('ignores duplicate event ids', async () => {
+    const event = makeEvent('lifecycle.session.created');
+    await store.append(event);
+    await store.append(event);
+
+    expect(await store.getOffset()).toBe(1);
+  });
+
+  it('upcasts legacy rows and quarantines invalid ones on read', async () => {
+    const legacy = makeEvent('ledger.task.completed', {
+      payload: { task_id: 't1', title: 'Write docs' },
+    });
+    delete legacy.schema_version;
+    const invalid = makeEvent('agent.failed', { payload: { error: 'boom' } });
+    await store.append(legacy);
+    await store.append(invalid);
+
+    const events = await store.readStream('s1');
+    expect(events).toHaveLength(1);
+    expect(events[0].payload).toEqual({ taskId: 't1', taskTitle: 'Write docs' });
+    expect(events[0].schema_version).toBe(CURRENT_SCHEMA_VERSION);
+
+    const quarantined = await store.getQuarantined();
+    expect(quarantined.map((q) => q.key)).toEqual([invalid.id]);
+    expect(quarantined[0].reason).toContain('agent.failed payload');
+  });
+
+  describe('JSONL import', () => {
+    it('imports the current log and rotated segments once', async () => {
+      const jsonlPath = join(dir, 'durable_stream.jsonl');
+      const rotated = makeEvent('lifecycle.session.created', { timestamp: 100 });
+      const current = makeEvent('agent.spawned', { timestamp: 200 });
+      writeFileSync(join(dir, 'durable_stream_2026-01-01.jsonl'), serializeEvent(rotated) + '\n');
+      writeFileSync(jsonlPath, serializeEvent(current) + '\nnot json\n');
+
+      expect(findJsonlSegments(jsonlPath)).toEqual([
+        join(dir, 'durable_stream_2026-01-01.jsonl'),
+        jsonlPath,
+      ]);
+
+      const imported = new SqliteStore({
+        path: join(dir, 'imported.db'),
+        importJsonlPath: jsonlPath,
+      });
+      await imported.initialize();
+
+      const events = await imported.query({});
+      expect(events.map((e) => e.id)).toEqual([rotated.id, current.id]);
+      expect(await imported.importJsonl(findJsonlSegments(jsonlPath))).toBe(0);
+
+      await imported.close();
+    });
+
+    it('imports once when initialized concurrently', async () => {
+      const jsonlPath = join(dir, 'durable_stream.jsonl');
+      writeFileSync(jsonlPath, serializeEvent(makeEvent('agent.spawned')) + '\n');
+
+      const imported = new SqliteStore({
+        path: join(dir, 'concurrent.db'),
+        importJsonlPath: jsonlPath,
+      });
+      const initializeSchema = vi.spyOn(imported as any, 'initializeSchema');
+      await Promise.all([imported.initialize(), imported.initialize()]);
+
+      expect(initializeSchema).toHaveBeenCalledTimes(1);
+      expect(await imported.query({})).toHaveLength(1);
+      await imported.close();
+    });
+  });
+});
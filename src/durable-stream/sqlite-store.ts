@@ -0,0 +1,446 @@
+/**
+ * SQLite Stream Store
+ *
+ * libsql-backed event store with indexed columns for the common query paths.
+ * Unlike JsonlStore, nothing is cached in memory: every query is answered by SQL,
+ * so startup replay and history lookups stay fast as the log grows.
+ *
+ * Rows are upcast and validated on read like JSONL records; failures are moved
+ * to the `quarantined_events` table.
+ */
+
+import { createClient, type Client, type InArgs, type Row } from '@libsql/client';
+import { readFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { basename, dirname } from 'path';
+import type {
+  EventType,
+  IStreamStore,
+  QuarantinedEvent,
+  StreamEvent,
+  StreamFilter,
+  StreamReadResult,
+} from './types';
+import { deserializeEvent } from './core';
+import { decodeEvent, quarantineKey, LEGACY_SCHEMA_VERSION } from './schema';
+import { findJsonlSegments } from './store';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('SqliteStore');
+
+export interface SqliteStoreConfig {
+  /** Path to the SQLite database file */
+  path: string;
+  /**
+   * JSONL log to import when the database is empty (default: none).
+   * Rotated segments next to it (e.g. `durable_stream_2026-01-01.jsonl`) are imported too.
+   */
+  importJsonlPath?: string;
+}
+
+const DEFAULT_CONFIG: SqliteStoreConfig = {
+  path: '.opencode/durable_stream.db',
+};
+
+/** Rows per statement batch when importing JSONL logs or removing events */
+const BATCH_SIZE = 500;
+
+const INSERT_EVENT_SQL = `INSERT OR IGNORE INTO events (
+  id, type, stream_id, causation_id, correlation_id, actor, timestamp, payload, metadata,
+  schema_version
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+const INSERT_QUARANTINE_SQL = `INSERT OR IGNORE INTO quarantined_events (
+  key, reason, source, quarantined_at, raw
+) VALUES (?, ?, ?, ?, ?)`;
+
+export class SqliteStore implements IStreamStore {
+  private config: SqliteStoreConfig;
+  private client: Client | null = null;
+  private initializing: Promise<void> | null = null;
+
+  constructor(config?: Partial<SqliteStoreConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Initialize the store - open the database, create schema and run the
+   * one-time JSONL import if configured. Concurrent callers share the same
+   * run; a failed run is retried by the next caller.
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.open().catch((err) => {
+        this.initializing = null;
+        throw err;
+      });
+    }
+    await this.initializing;
+  }
+
+  private async open(): Promise<void> {
+    const dir = dirname(this.config.path);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    this.client = createClient({ url: `file:${this.config.path}` });
+    await this.initializeSchema();
+
+    if (this.config.importJsonlPath && (await this.lastSeq()) === 0) {
+      const imported = await this.insertJsonl(findJsonlSegments(this.config.importJsonlPath));
+      if (imported > 0) {
+        log.info({ imported, from: this.config.importJsonlPath }, 'Imported JSONL event log');
+      }
+    }
+  }
+
+  private async initializeSchema(): Promise<void> {
+    const client = this.getClient();
+    await client.batch(
+      [
+        `CREATE TABLE IF NOT EXISTS events (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          type TEXT NOT NULL,
+          stream_id TEXT NOT NULL,
+          causation_id TEXT,
+          correlation_id TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          payload TEXT,
+          metadata TEXT,
+          schema_version INTEGER NOT NULL DEFAULT ${LEGACY_SCHEMA_VERSION}
+        )`,
+        `CREATE TABLE IF NOT EXISTS quarantined_events (
+          key TEXT PRIMARY KEY,
+          reason TEXT NOT NULL,
+          source TEXT NOT NULL,
+          quarantined_at INTEGER NOT NULL,
+          raw TEXT
+        )`,
+        'CREATE INDEX IF NOT EXISTS idx_events_stream_id ON events (stream_id, seq)',
+        'CREATE INDEX IF NOT EXISTS idx_events_type ON events (type, seq)',
+        'CREATE INDEX IF NOT EXISTS idx_events_actor ON events (actor, seq)',
+        'CREATE INDEX IF NOT EXISTS idx_events_correlation_id ON events (correlation_id, seq)',
+        'CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events (timestamp)',
+      ],
+      'write'
+    );
+
+    // Databases created before schema versioning lack the column
+    const columns = await client.execute('PRAGMA table_info(events)');
+    if (!columns.rows.some((row) => row.name === 'schema_version')) {
+      await client.execute(
+        `ALTER TABLE events ADD COLUMN schema_version INTEGER NOT NULL DEFAULT ${LEGACY_SCHEMA_VERSION}`
+      );
+    }
+  }
+
+  private getClient(): Client {
+    if (!this.client) {
+      throw new Error('SqliteStore not initialized. Call initialize() first.');
+    }
+    return this.client;
+  }
+
+  async append(event: StreamEvent): Promise<void> {
+    await this.initialize();
+    await this.getClient().execute({ sql: INSERT_EVENT_SQL, args: toRowArgs(event) });
+  }
+
+  async readStream(streamId: string, fromOffset?: number): Promise<StreamEvent[]> {
+    await this.initialize();
+
+    const result = await this.getClient().execute({
+      sql: 'SELECT * FROM events WHERE stream_id = ? ORDER BY seq LIMIT -1 OFFSET ?',
+      args: [streamId, fromOffset ?? 0],
+    });
+
+    return this.decodeRows(result.rows);
+  }
+
+  async query(filter: StreamFilter): Promise<StreamEvent[]> {
+    await this.initialize();
+
+    const { sql, args } = buildQuery(filter);
+    const result = await this.getClient().execute({ sql, args });
+
+    return this.decodeRows(result.rows);
+  }
+
+  /**
+   * Sequence number of the last stored event. Unlike an event count it never
+   * moves backwards when events are removed, so it is safe to persist as a cursor.
+   */
+  async getOffset(): Promise<number> {
+    await this.initialize();
+    return this.lastSeq();
+  }
+
+  private async lastSeq(): Promise<number> {
+    const result = await this.getClient().execute('SELECT MAX(seq) AS seq FROM events');
+    return Number(result.rows[0]?.seq ?? 0);
+  }
+
+  /**
+   * Read events with a sequence number above `offset`, oldest first. Every
+   * connection sees committed rows, so appends by other processes show up too.
+   */
+  async readFrom(offset: number, limit?: number): Promise<StreamReadResult> {
+    await this.initialize();
+
+    const result = await this.getClient().execute({
+      sql: `SELECT * FROM events WHERE seq > ? ORDER BY seq${limit !== undefined ? ' LIMIT ?' : ''}`,
+      args: limit !== undefined ? [offset, limit] : [offset],
+    });
+
+    const seqById = new Map(result.rows.map((row) => [row.id as string, Number(row.seq)]));
+    const events = await this.decodeRows(result.rows);
+    const last = result.rows[result.rows.length - 1];
+
+    return {
+      records: events.map((event) => ({ offset: seqById.get(event.id)!, event })),
+      offset: last ? Number(last.seq) : offset,
+    };
+  }
+
+  async removeEvents(ids: Set<string>): Promise<number> {
+    await this.initialize();
+
+    const all = Array.from(ids);
+    let removed = 0;
+    for (let i = 0; i < all.length; i += BATCH_SIZE) {
+      const batch = all.slice(i, i + BATCH_SIZE);
+      const result = await this.getClient().execute({
+        sql: `DELETE FROM events WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        args: batch,
+      });
+      removed += result.rowsAffected;
+    }
+
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      this.client.close();
+      this.client = null;
+    }
+    this.initializing = null;
+  }
+
+  /**
+   * Records that failed to parse or validate, in quarantine order.
+   */
+  async getQuarantined(): Promise<QuarantinedEvent[]> {
+    await this.initialize();
+
+    const result = await this.getClient().execute(
+      'SELECT * FROM quarantined_events ORDER BY quarantined_at, rowid'
+    );
+    return result.rows.map((row) => ({
+      key: row.key as string,
+      reason: row.reason as string,
+      source: row.source as string,
+      quarantined_at: Number(row.quarantined_at),
+      raw: row.raw ? JSON.parse(row.raw as string) : null,
+    }));
+  }
+
+  /**
+   * Import events from JSONL files (oldest segment first).
+   * Idempotent: events already present (by id) are skipped. Records are upcast
+   * to the current schema; invalid ones are quarantined.
+   *
+   * @returns Number of newly inserted events
+   */
+  async importJsonl(paths: string[]): Promise<number> {
+    await this.initialize();
+    return this.insertJsonl(paths);
+  }
+
+  private async insertJsonl(paths: string[]): Promise<number> {
+    const events: StreamEvent[] = [];
+    const rejected: QuarantinedEvent[] = [];
+    for (const path of paths) {
+      if (!existsSync(path)) continue;
+
+      const content = await readFile(path, 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        const parsed = deserializeEvent(line);
+        const result = parsed
+          ? decodeEvent(parsed)
+          : { ok: false as const, reason: 'invalid JSON', raw: line };
+        if (result.ok) {
+          events.push(result.event);
+        } else {
+          rejected.push(toQuarantined(result.raw, result.reason, basename(path)));
+        }
+      }
+    }
+
+    // Segments may overlap in time; keep replay order chronological (stable sort).
+    events.sort((a, b) => a.timestamp - b.timestamp);
+
+    const client = this.getClient();
+    let inserted = 0;
+
+    for (let i = 0; i < events.length; i += BATCH_SIZE) {
+      const batch = events.slice(i, i + BATCH_SIZE);
+      const results = await client.batch(
+        batch.map((event) => ({ sql: INSERT_EVENT_SQL, args: toRowArgs(event) })),
+        'write'
+      );
+      inserted += results.reduce((sum, r) => sum + r.rowsAffected, 0);
+    }
+    await this.quarantine(rejected);
+
+    return inserted;
+  }
+
+  /**
+   * Upcast and validate rows; invalid ones are quarantined and skipped.
+   */
+  private async decodeRows(rows: Row[]): Promise<StreamEvent[]> {
+    const events: StreamEvent[] = [];
+    const rejected: QuarantinedEvent[] = [];
+
+    for (const row of rows) {
+      let raw: StreamEvent;
+      try {
+        raw = fromRow(row);
+      } catch (err) {
+        rejected.push(toQuarantined({ id: row.id }, `unreadable row: ${err}`, 'events'));
+        continue;
+      }
+
+      const result = decodeEvent(raw);
+      if (result.ok) {
+        events.push(result.event);
+      } else {
+        rejected.push(toQuarantined(raw, result.reason, 'events'));
+      }
+    }
+
+    await this.quarantine(rejected);
+    return events;
+  }
+
+  private async quarantine(records: QuarantinedEvent[]): Promise<void> {
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      const batch = records.slice(i, i + BATCH_SIZE);
+      await this.getClient().batch(
+        batch.map((q) => ({
+          sql: INSERT_QUARANTINE_SQL,
+          args: [q.key, q.reason, q.source, q.quarantined_at, JSON.stringify(q.raw ?? null)],
+        })),
+        'write'
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toRowArgs(event: StreamEvent): InArgs {
+  return [
+    event.id,
+    event.type,
+    event.stream_id,
+    event.causation_id ?? null,
+    event.correlation_id,
+    event.actor,
+    event.timestamp,
+    JSON.stringify(event.payload ?? null),
+    event.metadata ? JSON.stringify(event.metadata) : null,
+    event.schema_version ?? LEGACY_SCHEMA_VERSION,
+  ];
+}
+
+function toQuarantined(raw: unknown, reason: string, source: string): QuarantinedEvent {
+  return { key: quarantineKey(raw), reason, source, quarantined_at: Date.now(), raw };
+}
+
+function fromRow(row: Row): StreamEvent {
+  const event: StreamEvent = {
+    id: row.id as string,
+    type: row.type as EventType,
+    stream_id: row.stream_id as string,
+    correlation_id: row.correlation_id as string,
+    actor: row.actor as string,
+    timestamp: Number(row.timestamp),
+    payload: row.payload ? JSON.parse(row.payload as string) : null,
+    schema_version: Number(row.schema_version ?? LEGACY_SCHEMA_VERSION),
+  };
+
+  if (row.causation_id) event.causation_id = row.causation_id as string;
+  if (row.metadata) event.metadata = JSON.parse(row.metadata as string);
+
+  return event;
+}
+
+/**
+ * Translate a StreamFilter into SQL (same semantics as applyFilter in core.ts).
+ */
+function buildQuery(filter: StreamFilter): { sql: string; args: InArgs } {
+  const where: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filter.stream_id) {
+    where.push('stream_id = ?');
+    args.push(filter.stream_id);
+  }
+  if (filter.type) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+    where.push(`type IN (${types.map(() => '?').join(', ')})`);
+    args.push(...types);
+  }
+  if (filter.actor) {
+    where.push('actor = ?');
+    args.push(filter.actor);
+  }
+  if (filter.correlation_id) {
+    where.push('correlation_id = ?');
+    args.push(filter.correlation_id);
+  }
+  if (filter.since !== undefined) {
+    where.push('timestamp >= ?');
+    args.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    where.push('timestamp <= ?');
+    args.push(filter.until);
+  }
+
+  let sql = 'SELECT * FROM events';
+  if (where.length > 0) {
+    sql += ` WHERE ${where.join(' AND ')}`;
+  }
+  sql += ' ORDER BY seq';
+  if (filter.limit !== undefined) {
+    sql += ' LIMIT ?';
+    args.push(filter.limit);
+  }
+
+  return { sql, args };
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create and initialize a SQLite store.
+ */
+export async function initializeSqliteStore(
+  config?: Partial<SqliteStoreConfig>
+): Promise<SqliteStore> {
+  const store = new SqliteStore(config);
+  await store.initialize();
+  return store;
+}
@@ -0,0 +1,291 @@
+/**
+ * JSONL Stream Store Tests
+ *
+ * Rotation behaviour: segment manifest, cross-segment reads and carry-forward
+ * of pending checkpoints / active intents.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonlStore } from './store';
+import {
+  createEvent,
+  extractActiveIntents,
+  extractPendingCheckpoints,
+  serializeEvent,
+} from './core';
+import type { EventType, StreamEvent } from './types';
+
+function makeEvent(
+  type: EventType,
+  overrides: Partial<Omit<StreamEvent, 'id' | 'type'>> = {}
+): StreamEvent {
+  return createEvent({
+    type,
+    stream_id: 's1',
+    correlation_id: 'c1',
+    actor: 'system',
+    payload: {},
+    ...overrides,
+  });
+}
+
+describe('JsonlStore rotation', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jsonl-store-'));
+    path = join(dir, 'durable_stream.jsonl');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T23:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function appendAcrossMidnight(store: JsonlStore): Promise<StreamEvent[]> {
+    const checkpoint = makeEvent('checkpoint.requested', {
+      payload: { id: 'cp-1', decision_point: 'Ship?', options: [] },
+    });
+    const approved = makeEvent('checkpoint.requested', {
+      payload: { id: 'cp-2', decision_point: 'Old', options: [] },
+    });
+    const intent = makeEvent('agent.spawned', {
+      stream_id: 's2',
+      payload: { id: 'intent-1', agent: 'executor', status: 'running' },
+    });
+
+    await store.append(checkpoint);
+    await store.append(approved);
+    await store.append(makeEvent('checkpoint.approved', { payload: { checkpoint_id: 'cp-2' } }));
+    await store.append(intent);
+
+    vi.setSystemTime(new Date('2026-01-02T01:00:00Z'));
+    await store.append(makeEvent('lifecycle.session.idle'));
+
+    return [checkpoint, intent];
+  }
+
+  it('records rotated segments in a manifest', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    await appendAcrossMidnight(store);
+
+    const [segment] = store.getSegments();
+    expect(segment.file).toBe('durable_stream_2026-01-01.jsonl');
+    expect(segment.reason).toBe('daily');
+    expect(segment.event_count).toBe(4);
+    expect(segment.stream_ids).toEqual(['s1', 's2']);
+    expect(existsSync(store.getManifestPath())).toBe(true);
+    expect(await store.getOffset()).toBe(5);
+  });
+
+  it('carries pending checkpoints and active intents into the new segment', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    const [checkpoint, intent] = await appendAcrossMidnight(store);
+
+    // Open state lives in the active file even once the rotated segment is gone
+    rmSync(join(dir, 'durable_stream_2026-01-01.jsonl'));
+    const reopened = new JsonlStore({ path, useLocking: false });
+    const events = await reopened.query({});
+
+    expect(extractPendingCheckpoints(events).map((cp) => cp.id)).toEqual(['cp-1']);
+    expect(extractActiveIntents(events).map((i) => i.id)).toEqual(['intent-1']);
+    expect(events.map((e) => e.id)).toContain(checkpoint.id);
+    expect(events.map((e) => e.id)).toContain(intent.id);
+    expect(await reopened.getOffset()).toBe(5);
+  });
+
+  it('reads rotated segments when since reaches back', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    await appendAcrossMidnight(store);
+
+    const all = await store.query({ since: 0 });
+    expect(all).toHaveLength(5);
+    expect(new Set(all.map((e) => e.id)).size).toBe(5);
+
+    const recent = await store.query({ since: Date.parse('2026-01-02T00:00:00Z') });
+    expect(recent.map((e) => e.type)).toEqual(['lifecycle.session.idle']);
+  });
+
+  it('reads a stream across segments', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    await appendAcrossMidnight(store);
+
+    const s1 = await store.readStream('s1');
+    expect(s1.map((e) => e.type)).toEqual([
+      'checkpoint.requested',
+      'checkpoint.requested',
+      'checkpoint.approved',
+      'lifecycle.session.idle',
+    ]);
+    expect(await store.readStream('s1', 3)).toHaveLength(1);
+  });
+
+  it('reads from a cursor across segments, skipping carried-forward copies', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    await appendAcrossMidnight(store);
+
+    const all = await store.readFrom(0);
+    expect(all.records.map((r) => r.offset)).toEqual([1, 2, 3, 4, 5]);
+    expect(all.offset).toBe(5);
+
+    const tail = await store.readFrom(3, 1);
+    expect(tail.records.map((r) => r.event.type)).toEqual(['agent.spawned']);
+    expect(tail.offset).toBe(4);
+  });
+
+  it('keeps offsets stable when events are removed', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    const [, intent] = await appendAcrossMidnight(store);
+
+    expect(await store.removeEvents(new Set([intent.id]))).toBe(2);
+
+    const reopened = new JsonlStore({ path, useLocking: false });
+    expect(await reopened.getOffset()).toBe(5);
+    expect((await reopened.readFrom(0)).records.map((r) => r.offset)).toEqual([1, 2, 3, 5]);
+    expect((await reopened.readFrom(3)).records.map((r) => r.event.type)).toEqual([
+      'lifecycle.session.idle',
+    ]);
+  });
+
+  it('picks up appends and rotations by another process', async () => {
+    const follower = new JsonlStore({ path, useLocking: false });
+    await follower.initialize();
+    const writer = new JsonlStore({ path, useLocking: false });
+    await writer.initialize();
+
+    await appendAcrossMidnight(writer);
+
+    const { records } = await follower.readFrom(0);
+    expect(records).toHaveLength(5);
+    expect(follower.getSegments()).toHaveLength(1);
+  });
+
+  it('rotates once when two processes cross midnight', async () => {
+    const first = new JsonlStore({ path });
+    const second = new JsonlStore({ path });
+    await first.append(makeEvent('lifecycle.session.idle'));
+    await second.append(makeEvent('lifecycle.session.idle'));
+
+    vi.setSystemTime(new Date('2026-01-02T01:00:00Z'));
+    await first.append(makeEvent('lifecycle.session.idle'));
+    await second.append(makeEvent('lifecycle.session.idle'));
+
+    const reopened = new JsonlStore({ path });
+    expect(await reopened.getOffset()).toBe(4);
+    expect(reopened.getSegments().map((s) => s.event_count)).toEqual([2]);
+    expect(await reopened.query({})).toHaveLength(4);
+  });
+
+  it('queries rotated history without a since filter', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    await appendAcrossMidnight(store);
+
+    const reopened = new JsonlStore({ path, useLocking: false });
+    const approvals = await reopened.query({ type: 'checkpoint.approved' });
+    expect(approvals).toHaveLength(1);
+    expect(await reopened.query({})).toHaveLength(5);
+  });
+
+  it('parses rotated segments once until they change', async () => {
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+    const [, intent] = await appendAcrossMidnight(store);
+    const [segment] = store.getSegments();
+
+    const parseLog = vi.spyOn(store as any, 'parseLog');
+    const segmentReads = () => parseLog.mock.calls.filter(([, source]) => source === segment.file);
+
+    expect(await store.query({})).toHaveLength(5);
+    expect(await store.query({ type: 'checkpoint.approved' })).toHaveLength(1);
+    expect((await store.readFrom(0)).records).toHaveLength(5);
+    expect(segmentReads()).toHaveLength(1);
+
+    // Streams the manifest doesn't list for the segment skip it
+    expect(await store.query({ stream_id: 'unknown' })).toEqual([]);
+
+    await store.removeEvents(new Set([intent.id]));
+    expect(await store.query({})).toHaveLength(4);
+  });
+
+  it('indexes legacy rotated segments and restores their open state', async () => {
+    const checkpoint = makeEvent('checkpoint.requested', {
+      timestamp: 100,
+      payload: { id: 'cp-legacy', decision_point: 'Legacy', options: [] },
+    });
+    writeFileSync(join(dir, 'durable_stream_2025-12-31.jsonl'), serializeEvent(checkpoint) + '\n');
+    writeFileSync(path, serializeEvent(makeEvent('lifecycle.session.idle')) + '\n');
+
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+
+    expect(store.getSegments().map((s) => s.reason)).toEqual(['legacy']);
+    expect(extractPendingCheckpoints(await store.query({})).map((cp) => cp.id)).toEqual([
+      'cp-legacy',
+    ]);
+    expect(readFileSync(path, 'utf-8').split('\n').filter(Boolean)).toHaveLength(2);
+
+    // Repair runs once
+    const reopened = new JsonlStore({ path, useLocking: false });
+    await reopened.initialize();
+    expect(readFileSync(path, 'utf-8').split('\n').filter(Boolean)).toHaveLength(2);
+    expect(await reopened.getOffset()).toBe(2);
+  });
+});
+
+describe('JsonlStore schema versioning', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jsonl-store-'));
+    path = join(dir, 'durable_stream.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('upcasts legacy records and quarantines invalid ones', async () => {
+    const legacy = {
+      ...makeEvent('agent.completed', { payload: { result: 'done' } }),
+      schema_version: undefined,
+      sessionId: 'ses-1',
+      agent: 'executor',
+    };
+    const invalid = makeEvent('ledger.task.started', { payload: { title: 'No id' } });
+    writeFileSync(
+      path,
+      [serializeEvent(legacy as StreamEvent), 'not json', serializeEvent(invalid)].join('\n') + '\n'
+    );
+
+    const store = new JsonlStore({ path, useLocking: false });
+    await store.initialize();
+
+    const events = await store.query({});
+    expect(events).toHaveLength(1);
+    expect(events[0].payload).toEqual({ intent_id: 'ses-1', agent: 'executor', result: 'done' });
+    expect(events[0]).not.toHaveProperty('sessionId');
+
+    const quarantined = await store.getQuarantined();
+    expect(quarantined.map((q) => q.key)).toEqual(['"not json"', invalid.id]);
+    expect(existsSync(join(dir, 'durable_stream.quarantine.jsonl'))).toBe(true);
+
+    // Reloading does not quarantine the same records twice
+    const reopened = new JsonlStore({ path, useLocking: false });
+    await reopened.initialize();
+    expect(await reopened.getQuarantined()).toHaveLength(2);
+  });
+});
@@ -3,14 +3,41 @@
  *
  * File-based event store using JSONL format with proper file locking.
  * This is the v1 storage implementation.
+ *
+ * Rotation renames the active file to `<name>_<date|ms>.jsonl` and records the
+ * segment in `<name>.manifest.json`. Unresolved checkpoints and intents are
+ * carried forward into the fresh file, and reads whose `since` reaches back
+ * (or `readStream` for a stream that spans segments) load the rotated segments.
+ * Rotated segments are immutable apart from `removeEvents`, so their parsed
+ * events are cached (keyed by file size and mtime) up to the cache size limit.
+ *
+ * Every record is upcast to the current schema version on read; records that
+ * fail validation go to `<name>.quarantine.jsonl` instead of being dropped.
+ *
+ * Positions (`getOffset`, `readFrom`) count events across all segments,
+ * carried-forward copies excluded. `removeEvents` renumbers later events.
  */
 
 import { readFile, writeFile, mkdir, stat, rename } from 'fs/promises';
-import { existsSync } from 'fs';
-import { dirname } from 'path';
+import { existsSync, readdirSync, watch } from 'fs';
+import { basename, dirname, extname, join } from 'path';
 import { lock } from 'proper-lockfile';
-import type { IStreamStore, StreamEvent, StreamFilter } from './types';
-import { applyFilter, serializeEvent, deserializeEvent } from './core';
+import type {
+  IStreamStore,
+  QuarantinedEvent,
+  StreamEvent,
+  StreamFilter,
+  StreamReadResult,
+  StreamRecord,
+} from './types';
+import {
+  applyFilter,
+  serializeEvent,
+  deserializeEvent,
+  extractOpenStateEvents,
+  mergeEventLogs,
+} from './core';
+import { decodeEvent, quarantineKey } from './schema';
 
 export interface JsonlStoreConfig {
   /** Path to the JSONL file */
@@ -23,6 +50,37 @@ export interface JsonlStoreConfig {
   useLocking?: boolean;
 }
 
+/**
+ * A rotated (read-only) JSONL segment.
+ */
+export interface SegmentInfo {
+  /** File name, relative to the directory of the active log */
+  file: string;
+  /** Why the segment was rotated ('legacy' = found on disk without a manifest) */
+  reason: 'size' | 'daily' | 'legacy';
+  rotated_at: number;
+  first_timestamp?: number;
+  last_timestamp?: number;
+  /** Events written to this segment (carried-forward copies excluded) */
+  event_count: number;
+  /** Streams with at least one event in this segment */
+  stream_ids: string[];
+}
+
+interface CachedSegment {
+  size: number;
+  mtimeMs: number;
+  events: StreamEvent[];
+}
+
+export interface SegmentManifest {
+  version: 1;
+  /** Rotated segments, oldest first */
+  segments: SegmentInfo[];
+  /** Offset ranges (inclusive, ascending) dropped by compaction; later offsets keep their numbers */
+  removed?: Array<[number, number]>;
+}
+
 const DEFAULT_CONFIG: Required<JsonlStoreConfig> = {
   path: '.opencode/durable_stream.jsonl',
   maxSizeMb: 10,
@@ -35,7 +93,13 @@ export class JsonlStore implements IStreamStore {
   private eventCache: StreamEvent[] = [];
   private cacheLoaded = false;
   private offset = 0;
-  private lastDate: string = new Date().toISOString().split('T')[0];
+  private manifest: SegmentManifest = { version: 1, segments: [] };
+  private quarantinedKeys: Set<string> | null = null;
+  /** Parsed rotated segments by file name, least recently used first */
+  private segmentCache = new Map<string, CachedSegment>();
+  /** Active file as last read or written by this process (detects appends by others) */
+  private activeFile: { ino: number; size: number } | null = null;
+  private lastDate: string = toDateString(Date.now());
   private readonly maxCacheSize: number;
 
   constructor(config?: Partial<JsonlStoreConfig>) {
@@ -62,32 +126,143 @@ export class JsonlStore implements IStreamStore {
   }
 
   /**
-   * Load all events into memory cache.
+   * Path of the segment manifest (`durable_stream.jsonl` -> `durable_stream.manifest.json`).
+   */
+  getManifestPath(): string {
+    const ext = extname(this.config.path);
+    return join(dirname(this.config.path), `${basename(this.config.path, ext)}.manifest.json`);
+  }
+
+  /**
+   * Path of the quarantine log (`durable_stream.jsonl` -> `durable_stream.quarantine.jsonl`).
+   */
+  getQuarantinePath(): string {
+    const ext = extname(this.config.path);
+    return join(dirname(this.config.path), `${basename(this.config.path, ext)}.quarantine${ext}`);
+  }
+
+  /**
+   * Rotated segments known to this store, oldest first.
+   */
+  getSegments(): SegmentInfo[] {
+    return [...this.manifest.segments];
+  }
+
+  /**
+   * Load all events of the active file into memory cache.
    */
   private async loadCache(): Promise<void> {
     if (this.cacheLoaded) return;
 
+    let content = '';
     try {
-      const content = await readFile(this.config.path, 'utf-8');
-      const lines = content.trim().split('\n').filter(Boolean);
-
-      this.eventCache = [];
-      for (const line of lines) {
-        const event = deserializeEvent(line);
-        if (event) {
-          this.eventCache.push(event);
-          this.offset++;
-        }
-      }
+      content = await readFile(this.config.path, 'utf-8');
+    } catch {
+      // File doesn't exist yet
+    }
 
-      this.cacheLoaded = true;
+    // Another process may be mid-append; leave a torn last line for the next reload
+    const lastNewline = content.lastIndexOf('\n');
+    const tail = content.slice(lastNewline + 1);
+    if (tail.trim() && deserializeEvent(tail) === null) {
+      content = content.slice(0, lastNewline + 1);
+    }
+    this.eventCache = await this.parseLog(content, basename(this.config.path));
+
+    await this.loadManifest();
+
+    this.offset =
+      this.manifest.segments.reduce((sum, segment) => sum + segment.event_count, 0) +
+      this.eventCache.filter((e) => !isCarriedForward(e)).length +
+      (this.manifest.removed ?? []).reduce((sum, [start, end]) => sum + end - start + 1, 0);
+    // Date the active file by its own oldest event, so daily rotation follows what is on disk
+    const first = this.eventCache.find((e) => !isCarriedForward(e));
+    this.lastDate = toDateString(first ? first.timestamp : Date.now());
+    await this.trackActiveFile(Buffer.byteLength(content));
+    this.cacheLoaded = true;
+  }
+
+  /**
+   * Remember the active file's identity and the size this process has seen.
+   */
+  private async trackActiveFile(size?: number): Promise<void> {
+    try {
+      const stats = await stat(this.config.path);
+      this.activeFile = { ino: stats.ino, size: size ?? stats.size };
     } catch {
-      // File doesn't exist or is empty
-      this.eventCache = [];
-      this.cacheLoaded = true;
+      this.activeFile = null;
+    }
+  }
+
+  /**
+   * Reload the cache and manifest if another process appended to or rotated the log.
+   */
+  private async reloadIfChanged(): Promise<void> {
+    let stats;
+    try {
+      stats = await stat(this.config.path);
+    } catch {
+      return;
+    }
+    if (this.activeFile?.ino === stats.ino && this.activeFile.size === stats.size) return;
+
+    this.cacheLoaded = false;
+    await this.loadCache();
+  }
+
+  /**
+   * Load the segment manifest. Logs rotated before manifests existed are
+   * indexed once, and their open checkpoints/intents carried into the active file.
+   */
+  private async loadManifest(): Promise<void> {
+    const manifestPath = this.getManifestPath();
+    if (existsSync(manifestPath)) {
+      try {
+        this.manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as SegmentManifest;
+        return;
+      } catch {
+        // Corrupt manifest - rebuild from the segments on disk
+      }
+    }
+
+    const legacyPaths = findJsonlSegments(this.config.path).filter(
+      (path) => path !== this.config.path
+    );
+    if (legacyPaths.length === 0) {
+      this.manifest = { version: 1, segments: [] };
+      return;
+    }
+
+    const segments: Array<{ info: SegmentInfo; events: StreamEvent[] }> = [];
+    for (const path of legacyPaths) {
+      const events = await this.readSegmentFile(path);
+      const { mtimeMs } = await stat(path);
+      segments.push({ info: describeSegment(basename(path), 'legacy', mtimeMs, events), events });
+    }
+    segments.sort((a, b) => (a.info.first_timestamp ?? 0) - (b.info.first_timestamp ?? 0));
+
+    this.manifest = { version: 1, segments: segments.map((s) => s.info) };
+    await this.saveManifest();
+
+    const history = mergeEventLogs(...segments.map((s) => s.events), this.eventCache);
+    const activeIds = new Set(this.eventCache.map((e) => e.id));
+    const carried = extractOpenStateEvents(history)
+      .filter((e) => !activeIds.has(e.id))
+      .map(markCarriedForward);
+
+    if (carried.length > 0) {
+      const existing = existsSync(this.config.path)
+        ? await readFile(this.config.path, 'utf-8')
+        : '';
+      await writeFile(this.config.path, serializeLines(carried) + existing, 'utf-8');
+      this.eventCache = [...carried, ...this.eventCache];
     }
   }
 
+  private async saveManifest(): Promise<void> {
+    await writeFile(this.getManifestPath(), JSON.stringify(this.manifest, null, 2), 'utf-8');
+  }
+
   async append(event: StreamEvent): Promise<void> {
     await this.loadCache();
 
@@ -101,12 +276,9 @@ export class JsonlStore implements IStreamStore {
 
       const release = await lock(this.config.path, { retries: 5 });
       try {
-        // Check for daily rotation
-        if (this.config.dailyRotation && this.shouldRotateDate()) {
-          await this.rotate('daily');
-        }
-
-        await writeFile(this.config.path, line, { flag: 'a' });
+        // Another process may have appended or rotated since the cache was read
+        await this.reloadIfChanged();
+        await this.writeLine(line, event);
 
         // Check for size rotation
         if (await this.shouldRotateSize()) {
@@ -116,17 +288,23 @@ export class JsonlStore implements IStreamStore {
         await release();
       }
     } else {
-      // Check for daily rotation (unlocked)
-      if (this.config.dailyRotation && this.shouldRotateDate()) {
-        await this.rotate('daily');
-      }
+      await this.writeLine(line, event);
+    }
+  }
 
-      await writeFile(this.config.path, line, { flag: 'a' });
+  /**
+   * Write one line (rotating first if the day changed) and update the cache.
+   */
+  private async writeLine(line: string, event: StreamEvent): Promise<void> {
+    if (this.config.dailyRotation && this.shouldRotateDate()) {
+      await this.rotate('daily');
     }
 
-    // Update cache
+    await writeFile(this.config.path, line, { flag: 'a' });
+
     this.eventCache.push(event);
     this.offset++;
+    if (this.activeFile) this.activeFile.size += Buffer.byteLength(line);
 
     // Limit cache size to prevent unbounded memory growth
     if (this.eventCache.length > this.maxCacheSize) {
@@ -134,10 +312,16 @@ export class JsonlStore implements IStreamStore {
     }
   }
 
+  /**
+   * Read a stream's events, including rotated segments the stream appears in.
+   */
   async readStream(streamId: string, fromOffset?: number): Promise<StreamEvent[]> {
     await this.loadCache();
 
-    let events = this.eventCache.filter((e) => e.stream_id === streamId);
+    const segments = this.manifest.segments.filter((s) => s.stream_ids.includes(streamId));
+    const history = await this.readSegments(segments);
+
+    let events = mergeEventLogs(history, this.eventCache).filter((e) => e.stream_id === streamId);
 
     if (fromOffset !== undefined) {
       events = events.slice(fromOffset);
@@ -146,9 +330,28 @@ export class JsonlStore implements IStreamStore {
     return events;
   }
 
+  /**
+   * Query events across the active file and every rotated segment that
+   * overlaps the `since`/`until` window (all of them when no window is given)
+   * and, for a `stream_id` filter, contains that stream.
+   */
   async query(filter: StreamFilter): Promise<StreamEvent[]> {
     await this.loadCache();
-    return applyFilter(this.eventCache, filter);
+
+    const { since, until, stream_id } = filter;
+    const segments = this.manifest.segments.filter(
+      (s) =>
+        s.last_timestamp !== undefined &&
+        (since === undefined || s.last_timestamp >= since) &&
+        (until === undefined || (s.first_timestamp ?? 0) <= until) &&
+        (stream_id === undefined || s.stream_ids.includes(stream_id))
+    );
+    if (segments.length === 0) {
+      return applyFilter(this.eventCache, filter);
+    }
+
+    const history = await this.readSegments(segments);
+    return applyFilter(mergeEventLogs(history, this.eventCache), filter);
   }
 
   async getOffset(): Promise<number> {
@@ -156,12 +359,260 @@ export class JsonlStore implements IStreamStore {
     return this.offset;
   }
 
+  /**
+   * Read events after a position, oldest first. Picks up events appended (or
+   * rotations done) by other processes since this store last looked.
+   */
+  async readFrom(offset: number, limit?: number): Promise<StreamReadResult> {
+    await this.loadCache();
+    await this.reloadIfChanged();
+
+    // Bases count the events still stored; offsets skip the ranges compaction removed
+    const removed = this.manifest.removed ?? [];
+    const from = offsetToPosition(offset, removed);
+    const records: StreamRecord[] = [];
+    const full = () => limit !== undefined && records.length >= limit;
+    const collect = (events: StreamEvent[], base: number) => {
+      const own = events.filter((e) => !isCarriedForward(e));
+      for (let i = Math.max(0, from - base); i < own.length && !full(); i++) {
+        records.push({ offset: positionToOffset(base + i, removed), event: own[i] });
+      }
+    };
+
+    let base = 0;
+    for (const segment of this.manifest.segments) {
+      if (full()) break;
+      if (base + segment.event_count > from) {
+        collect(await this.readSegment(segment), base);
+      }
+      base += segment.event_count;
+    }
+    if (!full()) collect(this.eventCache, base);
+
+    return {
+      records,
+      offset: full() ? records[records.length - 1].offset : Math.max(offset, this.offset),
+    };
+  }
+
+  /**
+   * Watch the log directory for appends and rotations of this log.
+   */
+  watch(onChange: () => void): () => void {
+    const stem = basename(this.config.path, extname(this.config.path));
+    try {
+      const watcher = watch(dirname(this.config.path), { persistent: false }, (_, filename) => {
+        if (!filename || filename.startsWith(stem)) onChange();
+      });
+      watcher.on('error', () => {});
+      return () => watcher.close();
+    } catch {
+      return () => {};
+    }
+  }
+
+  /**
+   * Rewrite the active file and every rotated segment without the given events.
+   * Their offsets are recorded as removed, so cursors past them stay valid.
+   */
+  async removeEvents(ids: Set<string>): Promise<number> {
+    await this.loadCache();
+    if (ids.size === 0) return 0;
+
+    if (!existsSync(this.config.path)) {
+      await writeFile(this.config.path, '', 'utf-8');
+    }
+    const release = this.config.useLocking
+      ? await lock(this.config.path, { retries: 5 })
+      : async () => {};
+    try {
+      let removed = 0;
+      const dir = dirname(this.config.path);
+      const previous = this.manifest.removed ?? [];
+      const removedOffsets: number[] = [];
+      let position = 0;
+      const locate = (events: StreamEvent[]) => {
+        for (const event of events) {
+          if (isCarriedForward(event)) continue;
+          if (ids.has(event.id)) removedOffsets.push(positionToOffset(position, previous));
+          position++;
+        }
+      };
+
+      for (const [index, segment] of this.manifest.segments.entries()) {
+        const segmentPath = join(dir, segment.file);
+        const events = await this.readSegmentFile(segmentPath);
+        locate(events);
+        const kept = events.filter((e) => !ids.has(e.id));
+        if (kept.length === events.length) continue;
+
+        await writeFile(segmentPath, serializeLines(kept), 'utf-8');
+        this.segmentCache.delete(segment.file);
+        this.manifest.segments[index] = describeSegment(
+          segment.file,
+          segment.reason,
+          segment.rotated_at,
+          kept
+        );
+        removed += events.length - kept.length;
+      }
+
+      const active = await this.readSegmentFile(this.config.path);
+      locate(active);
+      const kept = active.filter((e) => !ids.has(e.id));
+      if (kept.length !== active.length) {
+        await writeFile(this.config.path, serializeLines(kept), 'utf-8');
+        removed += active.length - kept.length;
+      }
+
+      this.manifest.removed = mergeOffsetRanges(previous, removedOffsets);
+      await this.saveManifest();
+      this.eventCache = this.eventCache.filter((e) => !ids.has(e.id));
+      await this.trackActiveFile();
+
+      return removed;
+    } finally {
+      await release();
+    }
+  }
+
   async close(): Promise<void> {
     // No-op for file-based store
     this.eventCache = [];
+    this.segmentCache.clear();
     this.cacheLoaded = false;
   }
 
+  /**
+   * Read rotated segments (oldest first). Missing files are skipped.
+   */
+  private async readSegments(segments: SegmentInfo[]): Promise<StreamEvent[]> {
+    const logs: StreamEvent[][] = [];
+    for (const segment of segments) {
+      logs.push(await this.readSegment(segment));
+    }
+    return mergeEventLogs(...logs);
+  }
+
+  /**
+   * Events of one rotated segment, parsed once while the file is unchanged.
+   * Another process's `removeEvents` rewrites the file and so misses the cache.
+   */
+  private async readSegment(segment: SegmentInfo): Promise<StreamEvent[]> {
+    const path = join(dirname(this.config.path), segment.file);
+    let stats;
+    try {
+      stats = await stat(path);
+    } catch {
+      this.segmentCache.delete(segment.file);
+      return [];
+    }
+
+    const cached = this.segmentCache.get(segment.file);
+    this.segmentCache.delete(segment.file);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      this.segmentCache.set(segment.file, cached);
+      return cached.events;
+    }
+
+    const events = await this.readSegmentFile(path);
+    this.segmentCache.set(segment.file, { size: stats.size, mtimeMs: stats.mtimeMs, events });
+
+    // Keep the cached segments within the event cache limit, dropping the least recently used
+    let total = 0;
+    for (const entry of this.segmentCache.values()) total += entry.events.length;
+    for (const [file, entry] of this.segmentCache) {
+      if (total <= this.maxCacheSize || file === segment.file) break;
+      this.segmentCache.delete(file);
+      total -= entry.events.length;
+    }
+    return events;
+  }
+
+  private async readSegmentFile(path: string): Promise<StreamEvent[]> {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      return [];
+    }
+    return this.parseLog(content, basename(path));
+  }
+
+  /**
+   * Parse, upcast and validate JSONL content. Bad records are quarantined.
+   */
+  private async parseLog(content: string, source: string): Promise<StreamEvent[]> {
+    const events: StreamEvent[] = [];
+    const rejected: QuarantinedEvent[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      const parsed = deserializeEvent(line);
+      const result = parsed
+        ? decodeEvent(parsed)
+        : { ok: false as const, reason: 'invalid JSON', raw: line };
+
+      if (result.ok) {
+        events.push(result.event);
+      } else {
+        rejected.push({
+          key: quarantineKey(result.raw),
+          reason: result.reason,
+          source,
+          quarantined_at: Date.now(),
+          raw: result.raw,
+        });
+      }
+    }
+
+    if (rejected.length > 0) {
+      await this.quarantine(rejected);
+    }
+    return events;
+  }
+
+  /**
+   * Append records to the quarantine log (once per key).
+   */
+  private async quarantine(records: QuarantinedEvent[]): Promise<void> {
+    if (!this.quarantinedKeys) {
+      this.quarantinedKeys = new Set((await this.getQuarantined()).map((q) => q.key));
+    }
+
+    const fresh = records.filter((q) => !this.quarantinedKeys!.has(q.key));
+    if (fresh.length === 0) return;
+
+    for (const q of fresh) this.quarantinedKeys.add(q.key);
+    await writeFile(this.getQuarantinePath(), fresh.map((q) => JSON.stringify(q) + '\n').join(''), {
+      flag: 'a',
+    });
+  }
+
+  /**
+   * Records that failed to parse or validate, in quarantine order.
+   */
+  async getQuarantined(): Promise<QuarantinedEvent[]> {
+    let content: string;
+    try {
+      content = await readFile(this.getQuarantinePath(), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const records: QuarantinedEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as QuarantinedEvent);
+      } catch {
+        // Skip torn writes
+      }
+    }
+    return records;
+  }
+
   /**
    * Check if file should be rotated based on size.
    */
@@ -178,29 +629,155 @@ export class JsonlStore implements IStreamStore {
    * Check if file should be rotated based on date.
    */
   private shouldRotateDate(): boolean {
-    const currentDate = new Date().toISOString().split('T')[0];
-    return currentDate !== this.lastDate;
+    return toDateString(Date.now()) !== this.lastDate;
   }
 
   /**
-   * Rotate the log file.
+   * Rotate the log file, record it in the manifest and carry forward open state.
    */
   private async rotate(reason: 'size' | 'daily' = 'size'): Promise<void> {
     const timestamp = reason === 'daily' ? this.lastDate : Date.now();
-    const rotatedPath = this.config.path.replace('.jsonl', `_${timestamp}.jsonl`);
+    let rotatedPath = this.config.path.replace('.jsonl', `_${timestamp}.jsonl`);
+    if (existsSync(rotatedPath)) {
+      // Never overwrite a segment the manifest may already reference
+      rotatedPath = this.config.path.replace('.jsonl', `_${timestamp}-${Date.now()}.jsonl`);
+    }
+
+    const carried = extractOpenStateEvents(this.eventCache).map(markCarriedForward);
 
     if (existsSync(this.config.path)) {
       await rename(this.config.path, rotatedPath);
+      this.manifest.segments.push(
+        describeSegment(basename(rotatedPath), reason, Date.now(), this.eventCache)
+      );
+      await this.saveManifest();
     }
-    await writeFile(this.config.path, '', 'utf-8');
+    await writeFile(this.config.path, serializeLines(carried), 'utf-8');
+    await this.trackActiveFile();
 
     // Update last date
-    this.lastDate = new Date().toISOString().split('T')[0];
+    this.lastDate = toDateString(Date.now());
 
-    // Clear cache (new file starts fresh)
-    this.eventCache = [];
-    this.offset = 0;
+    // New file starts with the carried-forward snapshot only
+    this.eventCache = carried;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Offset of the event stored at `position` (0-based), skipping removed ranges.
+ */
+function positionToOffset(position: number, removed: Array<[number, number]>): number {
+  let offset = position + 1;
+  for (const [start, end] of removed) {
+    if (start > offset) break;
+    offset += end - start + 1;
+  }
+  return offset;
+}
+
+/**
+ * Number of stored events at or before `offset`, i.e. the position to read from after it.
+ */
+function offsetToPosition(offset: number, removed: Array<[number, number]>): number {
+  let position = offset;
+  for (const [start, end] of removed) {
+    if (start > offset) break;
+    position -= Math.min(end, offset) - start + 1;
+  }
+  return position;
+}
+
+/**
+ * Add offsets to a list of removed ranges, keeping it sorted and coalesced.
+ */
+function mergeOffsetRanges(
+  ranges: Array<[number, number]>,
+  offsets: number[]
+): Array<[number, number]> {
+  const all = [...ranges, ...offsets.map((o): [number, number] => [o, o])].sort(
+    (a, b) => a[0] - b[0]
+  );
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of all) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function toDateString(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+/**
+ * Find a JSONL log and its rotated segments (rotated first, sorted by name).
+ * For `.opencode/durable_stream.jsonl` this matches `.opencode/durable_stream*.jsonl`.
+ */
+export function findJsonlSegments(jsonlPath: string): string[] {
+  const dir = dirname(jsonlPath);
+  const ext = extname(jsonlPath);
+  const stem = basename(jsonlPath, ext);
+
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return [];
   }
+
+  const rotated = entries
+    .filter((name) => name.startsWith(`${stem}_`) && name.endsWith(ext))
+    .sort()
+    .map((name) => join(dir, name));
+
+  return existsSync(jsonlPath) ? [...rotated, jsonlPath] : rotated;
+}
+
+function serializeLines(events: StreamEvent[]): string {
+  return events.map((e) => serializeEvent(e) + '\n').join('');
+}
+
+function isCarriedForward(event: StreamEvent): boolean {
+  return event.metadata?.carried_forward === true;
+}
+
+function markCarriedForward(event: StreamEvent): StreamEvent {
+  return { ...event, metadata: { ...event.metadata, carried_forward: true } };
+}
+
+function describeSegment(
+  file: string,
+  reason: SegmentInfo['reason'],
+  rotatedAt: number,
+  events: StreamEvent[]
+): SegmentInfo {
+  // Carried-forward copies still live in their original segment
+  const own = events.filter((e) => !isCarriedForward(e));
+
+  let first: number | undefined;
+  let last: number | undefined;
+  for (const event of own) {
+    if (first === undefined || event.timestamp < first) first = event.timestamp;
+    if (last === undefined || event.timestamp > last) last = event.timestamp;
+  }
+
+  return {
+    file,
+    reason,
+    rotated_at: rotatedAt,
+    first_timestamp: first,
+    last_timestamp: last,
+    event_count: own.length,
+    stream_ids: Array.from(new Set(own.map((e) => e.stream_id))),
+  };
 }
 
 // ============================================================================
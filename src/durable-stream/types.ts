@@ -66,7 +66,36 @@ export type EventType =
   | 'ledger.task.yielded'
   | 'ledger.governance.directive_added'
   | 'ledger.governance.assumption_added'
-  | 'ledger.learning.extracted';
+  | 'ledger.learning.extracted'
+  // Stream maintenance
+  | 'stream.snapshot'
+  | 'stream.compacted'
+  // Workflow (formerly .opencode/events.jsonl)
+  | 'sdd.spec_created'
+  | 'sdd.plan_created'
+  | 'sdd.validation_passed'
+  | 'sdd.validation_failed'
+  | 'sdd.execution_started'
+  | 'sdd.execution_completed'
+  | 'dialogue.started'
+  | 'dialogue.question_asked'
+  | 'dialogue.user_responded'
+  | 'dialogue.approved'
+  | 'dialogue.rejected'
+  | 'assumption.made'
+  | 'assumption.surfaced'
+  | 'assumption.confirmed'
+  | 'assumption.rejected'
+  | 'decision.pending'
+  | 'decision.made'
+  | 'worker.spawned'
+  | 'worker.completed'
+  | 'worker.failed'
+  | 'worker.blocked'
+  | 'workflow.task_started'
+  | 'workflow.task_completed'
+  | 'workflow.task_failed'
+  | 'workflow.custom';
 
 /**
  * The canonical event envelope.
@@ -91,6 +120,8 @@ export interface StreamEvent<T = unknown> {
   payload: T;
   /** Optional metadata */
   metadata?: Record<string, unknown>;
+  /** Payload schema version (absent on events written before versioning = v1) */
+  schema_version?: number;
 }
 
 /**
@@ -111,16 +142,57 @@ export interface StreamFilter {
   stream_id?: string;
   type?: EventType | EventType[];
   actor?: string;
+  correlation_id?: string;
   since?: number;
   until?: number;
   limit?: number;
 }
 
+/**
+ * A log record set aside because it could not be parsed or failed validation.
+ */
+export interface QuarantinedEvent {
+  /** Event ID when available, otherwise the raw record */
+  key: string;
+  reason: string;
+  /** Where the record was read from (file name or store) */
+  source: string;
+  quarantined_at: number;
+  raw: unknown;
+}
+
+/**
+ * An event with its store position. `offset` is a durable cursor: pass it to
+ * `follow()` / `readFrom()` to resume right after this event.
+ */
+export interface StreamRecord {
+  offset: number;
+  event: StreamEvent;
+}
+
+export interface StreamReadResult {
+  records: StreamRecord[];
+  /** Cursor to continue from (past quarantined rows too) */
+  offset: number;
+}
+
+export interface FollowOptions {
+  /** Stop following when aborted */
+  signal?: AbortSignal;
+  /** Fallback poll interval when the store cannot watch for appends (default: 1000ms) */
+  pollIntervalMs?: number;
+  /** Events read from the store per batch (default: 500) */
+  batchSize?: number;
+}
+
 /**
  * Abstract storage interface.
- * Implementations: JsonlStore (v1), SqliteStore (future).
+ * Implementations: JsonlStore (v1), SqliteStore (libsql).
  */
 export interface IStreamStore {
+  /** Prepare the backing storage (optional; called by DurableStream.initialize) */
+  initialize?(): Promise<void>;
+
   /** Append an event to the log */
   append(event: StreamEvent): Promise<void>;
 
@@ -130,9 +202,21 @@ export interface IStreamStore {
   /** Query events across streams */
   query(filter: StreamFilter): Promise<StreamEvent[]>;
 
-  /** Get the current offset (event count) */
+  /** Get the current offset: the cursor just past the last stored event */
   getOffset(): Promise<number>;
 
+  /** Read events stored after a cursor, including appends by other processes (optional; used by follow) */
+  readFrom?(offset: number, limit?: number): Promise<StreamReadResult>;
+
+  /** Call `onChange` when new events may have been stored (optional; follow polls otherwise). Returns an unsubscribe function. */
+  watch?(onChange: () => void): () => void;
+
+  /** Physically delete events by ID (optional; used by compaction). Returns the number removed. */
+  removeEvents?(ids: Set<string>): Promise<number>;
+
+  /** Records that failed schema validation on read (optional) */
+  getQuarantined?(): Promise<QuarantinedEvent[]>;
+
   /** Close the store (cleanup) */
   close(): Promise<void>;
 }
@@ -199,6 +283,48 @@ export interface ResumeResult {
   active_intents: Intent[];
   /** Last event timestamp */
   last_event_at?: number;
+  /** Snapshot event the replay started from (if any) */
+  from_snapshot?: string;
+}
+
+// ============================================================================
+// Snapshots & Compaction
+// ============================================================================
+
+/**
+ * Payload of a `stream.snapshot` event: projection state as of `offset`.
+ * Replay starts from the latest snapshot instead of the beginning of the log.
+ */
+export interface StreamSnapshot {
+  /** Store offset (event count) covered by this snapshot */
+  offset: number;
+  /** Last event folded into the snapshot */
+  last_event_id?: string;
+  taken_at: number;
+  pending_checkpoints: Checkpoint[];
+  active_intents: Intent[];
+  /** Latest event ID per causal key, so causation links survive a resume */
+  causal_heads?: Record<string, string>;
+  /** State of registered projections, keyed by projection name */
+  projections: Record<string, unknown>;
+}
+
+/**
+ * A projection whose state is persisted in snapshots.
+ * `capture` folds the events since the previous snapshot into its state.
+ */
+export interface SnapshotProjection<S = unknown> {
+  capture(previous: S | undefined, events: StreamEvent[]): S;
+}
+
+export interface CompactionResult {
+  /** Events examined */
+  scanned: number;
+  /** Delta events eligible for removal */
+  compactable: number;
+  /** Events actually removed (0 on dry run) */
+  removed: number;
+  dry_run: boolean;
 }
 
 // ============================================================================
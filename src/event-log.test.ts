@@ -0,0 +1,136 @@
+/**
+ * Event Log Tests
+ *
+ * Workflow events on the Durable Stream and the legacy events.jsonl import.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DurableStream, JsonlStore } from './durable-stream';
+import {
+  appendWorkflowEvent,
+  importLegacyEventLogs,
+  readWorkflowEvents,
+  toWorkflowEventType,
+} from './event-log';
+
+describe('event log', () => {
+  let dir: string;
+  let stream: DurableStream;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'event-log-'));
+    stream = new DurableStream({
+      store: new JsonlStore({ path: join(dir, 'durable_stream.jsonl'), useLocking: false }),
+      snapshotInterval: 0,
+    });
+    await stream.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('maps legacy and stream workflow event names', () => {
+    expect(toWorkflowEventType('sdd_plan_created')).toBe('sdd.plan_created');
+    expect(toWorkflowEventType('worker.blocked')).toBe('worker.blocked');
+    expect(toWorkflowEventType('agent.completed')).toBeUndefined();
+  });
+
+  it('appends workflow events and reads them back by type and agent', async () => {
+    await appendWorkflowEvent(
+      { type: 'assumption_made', agent: 'oracle', message: 'Uses pnpm' },
+      {},
+      stream
+    );
+    await appendWorkflowEvent(
+      { type: 'worker.spawned', agent: 'executor', session_id: 'ses-1' },
+      {},
+      stream
+    );
+    await appendWorkflowEvent({ type: 'deploy_finished' }, {}, stream);
+
+    const assumptions = await readWorkflowEvents({ type: 'assumption.made' }, stream);
+    expect(assumptions).toHaveLength(1);
+    expect(assumptions[0]).toMatchObject({ actor: 'oracle', payload: { message: 'Uses pnpm' } });
+
+    const [worker] = await readWorkflowEvents({ agent: 'executor' }, stream);
+    expect(worker).toMatchObject({ type: 'worker.spawned', stream_id: 'ses-1' });
+
+    const custom = await readWorkflowEvents({ type: 'deploy_finished' }, stream);
+    expect(custom).toHaveLength(1);
+    expect(custom[0]).toMatchObject({
+      type: 'workflow.custom',
+      payload: { custom_type: 'deploy_finished' },
+    });
+
+    expect(await readWorkflowEvents({ limit: 2 }, stream)).toHaveLength(2);
+  });
+
+  it('skips events by legacy offset before filtering', async () => {
+    await appendWorkflowEvent({ type: 'worker_spawned', agent: 'executor' }, {}, stream);
+    await appendWorkflowEvent({ type: 'worker_failed', agent: 'executor' }, {}, stream);
+    await appendWorkflowEvent({ type: 'worker_spawned', agent: 'oracle' }, {}, stream);
+
+    const events = await readWorkflowEvents({ fromOffset: 1, type: 'worker_spawned' }, stream);
+    expect(events.map((e) => e.actor)).toEqual(['oracle']);
+  });
+
+  it('imports events.jsonl and archived rotations once', async () => {
+    const opencodeDir = join(dir, '.opencode');
+    mkdirSync(join(opencodeDir, 'archive'), { recursive: true });
+    writeFileSync(
+      join(opencodeDir, 'archive', 'events-2025-12-01T00-00-00-000Z.jsonl'),
+      JSON.stringify({
+        offset: 0,
+        ts: '2025-12-01T00:00:00.000Z',
+        type: 'sdd_spec_created',
+        agent: 'architect',
+      }) + '\n'
+    );
+    writeFileSync(
+      join(opencodeDir, 'events.jsonl'),
+      [
+        JSON.stringify({ offset: 0, ts: '2026-01-01T00:00:00.000Z', type: 'dialogue_approved' }),
+        'not json',
+        '',
+      ].join('\n')
+    );
+
+    expect(await importLegacyEventLogs(opencodeDir, stream)).toBe(2);
+    expect(existsSync(join(opencodeDir, 'events.jsonl'))).toBe(false);
+    expect(existsSync(join(opencodeDir, 'events.jsonl.imported'))).toBe(true);
+
+    const events = await readWorkflowEvents({}, stream);
+    expect(events.map((e) => e.type)).toEqual(['sdd.spec_created', 'dialogue.approved']);
+    expect(events[0].timestamp).toBe(Date.parse('2025-12-01T00:00:00.000Z'));
+    expect(events[1].metadata).toMatchObject({ imported_from: 'events.jsonl', legacy_offset: 0 });
+
+    expect(await importLegacyEventLogs(opencodeDir, stream)).toBe(0);
+  });
+
+  it('skips invalid records and imports the rest of the file once', async () => {
+    const opencodeDir = join(dir, '.opencode');
+    mkdirSync(opencodeDir, { recursive: true });
+    writeFileSync(
+      join(opencodeDir, 'events.jsonl'),
+      [
+        JSON.stringify({ offset: 0, type: 'task_started', agent: 'executor' }),
+        JSON.stringify({ offset: 1, type: 'task_failed', agent: 42 }),
+        JSON.stringify({ offset: 2, type: 'task_completed', agent: 'executor' }),
+      ].join('\n')
+    );
+
+    expect(await importLegacyEventLogs(opencodeDir, stream)).toBe(2);
+    expect(existsSync(join(opencodeDir, 'events.jsonl.imported'))).toBe(true);
+    expect((await readWorkflowEvents({}, stream)).map((e) => e.type)).toEqual([
+      'workflow.task_started',
+      'workflow.task_completed',
+    ]);
+
+    expect(await importLegacyEventLogs(opencodeDir, stream)).toBe(0);
+    expect(await readWorkflowEvents({}, stream)).toHaveLength(2);
+  });
+});
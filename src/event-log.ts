@@ -1,30 +1,28 @@
 /**
- * Event Log - File-Based Durable Coordination
+ * Event Log - Workflow Events on the Durable Stream
  *
- * Inspired by durable-streams + CCv2 patterns.
+ * SDD, dialogue, Chief-of-Staff and worker coordination events used to live in
+ * a separate `.opencode/events.jsonl`. They are now ordinary Durable Stream
+ * events (see `WORKFLOW_EVENT_TYPES`), so projections, crash recovery and
+ * `follow()` consumers see them too.
  *
  * Features:
- * - Append-only JSONL format
- * - Offset-based resumption
- * - File locking for parallel workers
- * - Log rotation to prevent unbounded growth
- * - Workflow event types (SDD, Ask User, Chief-of-Staff)
- *
- * File location: .opencode/events.jsonl
+ * - `event_*` tools as thin wrappers over `DurableStream.append/query`
+ * - Legacy event names (`sdd_plan_created`) mapped to stream types (`sdd.plan_created`)
+ * - One-time import of existing `events.jsonl` logs (archived rotations included)
  */
 
 import fs from 'node:fs';
 import path from 'path';
 import { tool } from '@opencode-ai/plugin';
+import { createEvent, getDurableStream, validateEvent } from './durable-stream';
+import type { DurableStream, EventType, StreamEvent, StreamEventInput } from './durable-stream';
+import { createModuleLogger } from './utils/logger';
 
-/**
- * Configuration
- */
-const MAX_LOG_SIZE_MB = 10; // Rotate when log exceeds this size
-const MAX_LOG_ENTRIES = 1000; // Or when entries exceed this count
+const log = createModuleLogger('EventLog');
 
 /**
- * Workflow event types for SDD, Interactive, Chief-of-Staff patterns
+ * Legacy workflow event names, as written to `.opencode/events.jsonl`
  */
 export type WorkflowEventType =
   // SDD Pipeline events
@@ -59,334 +57,353 @@ export type WorkflowEventType =
   | 'custom';
 
 /**
- * Event structure for durable coordination
- */
-export interface DurableEvent {
-  offset: number;
-  ts: string;
-  type: string;
-  agent?: string;
-  worker_id?: string;
-  session_id?: string;
-  [key: string]: any;
-}
-
-/**
- * Get the events log path for the current project
+ * Durable Stream event type for each legacy workflow event name
  */
-function getEventsPath(projectPath: string): string {
-  return path.join(projectPath, '.opencode', 'events.jsonl');
-}
+export const WORKFLOW_EVENT_TYPES: Record<WorkflowEventType, EventType> = {
+  sdd_spec_created: 'sdd.spec_created',
+  sdd_plan_created: 'sdd.plan_created',
+  sdd_validation_passed: 'sdd.validation_passed',
+  sdd_validation_failed: 'sdd.validation_failed',
+  sdd_execution_started: 'sdd.execution_started',
+  sdd_execution_completed: 'sdd.execution_completed',
+  dialogue_started: 'dialogue.started',
+  dialogue_question_asked: 'dialogue.question_asked',
+  dialogue_user_responded: 'dialogue.user_responded',
+  dialogue_approved: 'dialogue.approved',
+  dialogue_rejected: 'dialogue.rejected',
+  assumption_made: 'assumption.made',
+  assumption_surfaced: 'assumption.surfaced',
+  assumption_confirmed: 'assumption.confirmed',
+  assumption_rejected: 'assumption.rejected',
+  decision_pending: 'decision.pending',
+  decision_made: 'decision.made',
+  worker_spawned: 'worker.spawned',
+  worker_completed: 'worker.completed',
+  worker_failed: 'worker.failed',
+  worker_blocked: 'worker.blocked',
+  task_started: 'workflow.task_started',
+  task_completed: 'workflow.task_completed',
+  task_failed: 'workflow.task_failed',
+  custom: 'workflow.custom',
+};
+
+const STREAM_WORKFLOW_TYPES: EventType[] = Object.values(WORKFLOW_EVENT_TYPES);
 
 /**
- * Get archive path for rotated logs
+ * Stream ID for workflow events that don't belong to a session
  */
-function getArchivePath(projectPath: string): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  return path.join(projectPath, '.opencode', 'archive', `events-${timestamp}.jsonl`);
-}
+export const WORKFLOW_STREAM_ID = 'workflow';
 
 /**
- * Ensure directory exists
+ * Resolve a legacy (`sdd_plan_created`) or stream (`sdd.plan_created`) event name.
+ * Returns undefined for unknown names.
  */
-async function ensureDir(filePath: string): Promise<void> {
-  const dir = path.dirname(filePath);
-  if (!fs.existsSync(dir)) {
-    await fs.promises.mkdir(dir, { recursive: true });
+export function toWorkflowEventType(type: string): EventType | undefined {
+  if (Object.hasOwn(WORKFLOW_EVENT_TYPES, type)) {
+    return WORKFLOW_EVENT_TYPES[type as WorkflowEventType];
   }
+  return STREAM_WORKFLOW_TYPES.find((t) => t === type);
 }
 
 /**
- * Simple file lock for parallel workers
+ * A workflow event as passed to `event_append` (or read from events.jsonl)
  */
-async function withFileLock<T>(
-  lockPath: string,
-  fn: () => Promise<T>,
-  timeoutMs = 5000
-): Promise<T> {
-  const lockFile = lockPath + '.lock';
-  const startTime = Date.now();
-
-  // Wait for lock
-  while (fs.existsSync(lockFile)) {
-    if (Date.now() - startTime > timeoutMs) {
-      // Force remove stale lock
-      try {
-        fs.unlinkSync(lockFile);
-      } catch {
-        // Ignore cleanup error - lock file may already be gone
-      }
-      break;
-    }
-    await new Promise((r) => setTimeout(r, 50));
-  }
+export interface WorkflowEventInput {
+  type: string;
+  agent?: string;
+  session_id?: string;
+  [key: string]: unknown;
+}
 
-  // Acquire lock
-  try {
-    fs.writeFileSync(lockFile, process.pid.toString());
-    return await fn();
-  } finally {
-    // Release lock
-    try {
-      fs.unlinkSync(lockFile);
-    } catch {}
-  }
+interface WorkflowEventOptions {
+  timestamp?: number;
+  metadata?: Record<string, unknown>;
+  causationId?: string;
 }
 
 /**
- * Get the next offset for the event log
+ * Append a workflow event to the Durable Stream.
+ * Unknown types are stored as `workflow.custom` with the name in `payload.custom_type`.
  */
-async function getNextOffset(logPath: string): Promise<number> {
-  if (!fs.existsSync(logPath)) return 0;
-
-  const content = await fs.promises.readFile(logPath, 'utf-8');
-  const lines = content.split('\n').filter(Boolean);
+export async function appendWorkflowEvent(
+  event: WorkflowEventInput,
+  options: WorkflowEventOptions = {},
+  stream: DurableStream = getDurableStream()
+): Promise<StreamEvent> {
+  return stream.append(toStreamEventInput(event, options, stream));
+}
 
-  if (lines.length === 0) return 0;
+function toStreamEventInput(
+  event: WorkflowEventInput,
+  options: WorkflowEventOptions,
+  stream: DurableStream
+): StreamEventInput {
+  const { type, agent, session_id, ...payload } = event;
+  const streamType = toWorkflowEventType(type);
 
-  try {
-    const lastEvent = JSON.parse(lines[lines.length - 1]);
-    return (lastEvent.offset || 0) + 1;
-  } catch {
-    return lines.length;
-  }
+  return {
+    type: streamType ?? 'workflow.custom',
+    stream_id: session_id ?? WORKFLOW_STREAM_ID,
+    correlation_id: stream.getCorrelationId(),
+    causation_id: options.causationId,
+    actor: agent ?? 'system',
+    payload: streamType ? payload : { custom_type: type, ...payload },
+    timestamp: options.timestamp,
+    metadata: options.metadata,
+  };
 }
 
 /**
- * Check if log needs rotation
+ * Query workflow events (all workflow types unless `type` is given).
+ * `limit` keeps the most recent events.
+ *
+ * `fromOffset` is deprecated: it skips that many workflow events of any type or
+ * agent, like the offsets of the old events.jsonl.
  */
-async function needsRotation(logPath: string): Promise<boolean> {
-  if (!fs.existsSync(logPath)) return false;
-
-  const stats = await fs.promises.stat(logPath);
-  const sizeMB = stats.size / (1024 * 1024);
-
-  if (sizeMB >= MAX_LOG_SIZE_MB) return true;
+export async function readWorkflowEvents(
+  options: {
+    type?: string;
+    agent?: string;
+    since?: number;
+    limit?: number;
+    fromOffset?: number;
+  } = {},
+  stream: DurableStream = getDurableStream()
+): Promise<StreamEvent[]> {
+  const { type, agent, since, limit, fromOffset } = options;
+
+  const streamType = type ? (toWorkflowEventType(type) ?? 'workflow.custom') : undefined;
+  let events: StreamEvent[];
+  if (fromOffset !== undefined) {
+    events = (await stream.query({ type: STREAM_WORKFLOW_TYPES, since }))
+      .slice(fromOffset)
+      .filter((e) => (!streamType || e.type === streamType) && (!agent || e.actor === agent));
+  } else {
+    events = await stream.query({
+      type: streamType ?? STREAM_WORKFLOW_TYPES,
+      actor: agent,
+      since,
+    });
+  }
 
-  const content = await fs.promises.readFile(logPath, 'utf-8');
-  const lineCount = content.split('\n').filter(Boolean).length;
+  if (type && !toWorkflowEventType(type)) {
+    events = events.filter((e) => (e.payload as { custom_type?: string })?.custom_type === type);
+  }
+  if (limit && events.length > limit) events = events.slice(-limit);
 
-  return lineCount >= MAX_LOG_ENTRIES;
+  return events;
 }
 
-/**
- * Rotate log file to archive
- */
-async function rotateLog(projectPath: string): Promise<void> {
-  const logPath = getEventsPath(projectPath);
-  const archivePath = getArchivePath(projectPath);
-
-  await ensureDir(archivePath);
-  await fs.promises.rename(logPath, archivePath);
-}
+// ============================================================================
+// Legacy events.jsonl Import
+// ============================================================================
 
 /**
- * Append an event to the log (with locking for parallel workers)
+ * Legacy event logs under an `.opencode` directory: archived rotations
+ * (oldest first), then the active `events.jsonl`.
  */
-export async function appendEvent(
-  projectPath: string,
-  event: { type: string; agent?: string; [key: string]: any }
-): Promise<DurableEvent> {
-  const logPath = getEventsPath(projectPath);
-
-  return withFileLock(logPath, async () => {
-    await ensureDir(logPath);
-
-    // Check rotation
-    if (await needsRotation(logPath)) {
-      await rotateLog(projectPath);
-    }
-
-    const offset = await getNextOffset(logPath);
-    const entry: DurableEvent = {
-      ...event,
-      offset,
-      ts: new Date().toISOString(),
-    };
-
-    await fs.promises.appendFile(logPath, JSON.stringify(entry) + '\n');
-    return entry;
-  });
+export function findLegacyEventLogs(opencodeDir: string): string[] {
+  const archiveDir = path.join(opencodeDir, 'archive');
+  const archived = fs.existsSync(archiveDir)
+    ? fs
+        .readdirSync(archiveDir)
+        .filter((name) => name.startsWith('events-') && name.endsWith('.jsonl'))
+        .sort()
+        .map((name) => path.join(archiveDir, name))
+    : [];
+
+  const active = path.join(opencodeDir, 'events.jsonl');
+  return fs.existsSync(active) ? [...archived, active] : archived;
 }
 
 /**
- * Read events from the log
+ * Import legacy `events.jsonl` logs into the Durable Stream, once: each file is
+ * renamed to `<file>.imported` afterwards. Original `ts`/`offset` are kept as
+ * the event timestamp and `metadata.legacy_offset`.
+ *
+ * A file is fully parsed and validated before any of it is appended, and
+ * records the stream would reject are skipped, so a bad line can't interrupt
+ * an import halfway and have the next start append its events again.
+ *
+ * @returns Number of imported events
  */
-export async function readEvents(
-  projectPath: string,
-  options: { fromOffset?: number; type?: string; agent?: string; limit?: number } = {}
-): Promise<DurableEvent[]> {
-  const logPath = getEventsPath(projectPath);
+export async function importLegacyEventLogs(
+  opencodeDir: string = path.join(process.cwd(), '.opencode'),
+  stream: DurableStream = getDurableStream()
+): Promise<number> {
+  let imported = 0;
 
-  if (!fs.existsSync(logPath)) return [];
+  for (const file of findLegacyEventLogs(opencodeDir)) {
+    const content = await fs.promises.readFile(file, 'utf-8');
+    const inputs: StreamEventInput[] = [];
 
-  const { fromOffset = 0, type, agent, limit } = options;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
 
-  const content = await fs.promises.readFile(logPath, 'utf-8');
-  let events = content
-    .split('\n')
-    .filter(Boolean)
-    .map((line) => {
+      let record: WorkflowEventInput & { offset?: number; ts?: string };
       try {
-        return JSON.parse(line) as DurableEvent;
+        record = JSON.parse(line);
       } catch {
-        return null;
+        log.warn({ file, line: line.slice(0, 200) }, 'Skipping unparseable events.jsonl line');
+        continue;
+      }
+      if (typeof record?.type !== 'string') continue;
+
+      const { offset, ts, ...event } = record;
+      const timestamp = ts ? Date.parse(ts) : NaN;
+      const input = toStreamEventInput(
+        event,
+        {
+          timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+          metadata: { imported_from: path.basename(file), legacy_offset: offset },
+        },
+        stream
+      );
+      const invalid = validateEvent(createEvent(input));
+      if (invalid) {
+        log.warn({ file, offset, error: invalid }, 'Skipping invalid events.jsonl record');
+        continue;
       }
-    })
-    .filter((e): e is DurableEvent => e !== null && e.offset >= fromOffset);
+      inputs.push(input);
+    }
 
-  if (type) events = events.filter((e) => e.type === type);
-  if (agent) events = events.filter((e) => e.agent === agent);
-  if (limit && events.length > limit) events = events.slice(-limit);
+    for (const input of inputs) {
+      await stream.append(input);
+    }
+    imported += inputs.length;
 
-  return events;
-}
+    await fs.promises.rename(file, `${file}.imported`);
+  }
 
-/**
- * Get the latest offset in the log
- */
-export async function getLatestOffset(projectPath: string): Promise<number> {
-  const logPath = getEventsPath(projectPath);
-  return (await getNextOffset(logPath)) - 1;
+  if (imported > 0) {
+    log.info({ imported }, 'Imported legacy events.jsonl into the Durable Stream');
+  }
+  return imported;
 }
 
+// ============================================================================
+// Tools
+// ============================================================================
+
 /**
  * Create event log tools for OpenCode
  */
 export function createEventLogTools() {
   return {
     /**
-     * event_append - Add event to durable log
+     * event_append - Add a workflow event to the Durable Stream
      */
     event_append: tool({
       description:
-        'Append an event to the durable coordination log. Supports workflow events (SDD, dialogue, assumptions).',
+        'Append a workflow event to the Durable Stream. Supports workflow events (SDD, dialogue, assumptions, workers).',
       args: {
         type: tool.schema
           .string()
           .describe(
-            'Event type (e.g., "sdd_plan_created", "dialogue_approved", "assumption_made", "worker_spawned")'
+            'Event type (e.g., "sdd.plan_created", "dialogue.approved", "assumption.made", "worker.spawned"; legacy "sdd_plan_created" style names are accepted)'
           ),
         agent: tool.schema.string().optional().describe('Agent that generated this event'),
         worker_id: tool.schema.string().optional().describe('Worker ID for parallel coordination'),
         message: tool.schema.string().optional().describe('Event message or description'),
         data: tool.schema.string().optional().describe('Additional JSON data'),
+        causation_id: tool.schema
+          .string()
+          .optional()
+          .describe('ID of the event that led to this one (shown by stream_trace)'),
       },
       async execute(args) {
-        const { type, agent, worker_id, message, data } = args;
-        const projectPath = process.cwd();
+        const { type, agent, worker_id, message, data, causation_id } = args;
 
-        let eventData: Record<string, any> = { type };
+        let eventData: WorkflowEventInput = { type };
         if (agent) eventData.agent = agent;
         if (worker_id) eventData.worker_id = worker_id;
         if (message) eventData.message = message;
         if (data) {
           try {
-            eventData = { ...eventData, ...JSON.parse(data) };
+            eventData = { ...eventData, ...JSON.parse(data), type };
           } catch {
             eventData.raw_data = data;
           }
         }
 
-        const event = await appendEvent(
-          projectPath,
-          eventData as { type: string; agent?: string; [key: string]: any }
-        );
+        const event = await appendWorkflowEvent(eventData, { causationId: causation_id });
 
-        return JSON.stringify({
-          success: true,
-          event,
-          log_path: getEventsPath(projectPath),
-        });
+        return JSON.stringify({ success: true, event });
       },
     }),
 
     /**
-     * event_read - Read events from durable log
+     * event_read - Read workflow events from the Durable Stream
      */
     event_read: tool({
-      description:
-        'Read events from the durable coordination log. Filter by type, agent, or offset.',
+      description: 'Read workflow events from the Durable Stream. Filter by type, agent, or time.',
       args: {
-        from_offset: tool.schema.number().optional().describe('Start reading from this offset'),
         type: tool.schema.string().optional().describe('Filter by event type'),
         agent: tool.schema.string().optional().describe('Filter by agent'),
-        limit: tool.schema.number().optional().describe('Maximum number of events'),
+        since: tool.schema
+          .number()
+          .optional()
+          .describe('Only events at or after this Unix timestamp (ms)'),
+        limit: tool.schema.number().optional().describe('Maximum number of (most recent) events'),
+        from_offset: tool.schema
+          .number()
+          .optional()
+          .describe(
+            'Deprecated: use since. Skip this many workflow events (old events.jsonl offset)'
+          ),
       },
       async execute(args) {
-        const { from_offset, type, agent, limit } = args;
-        const projectPath = process.cwd();
-
-        const events = await readEvents(projectPath, {
-          fromOffset: from_offset,
-          type,
-          agent,
-          limit,
-        });
-
-        const latestOffset = await getLatestOffset(projectPath);
+        const { from_offset, ...filter } = args;
+        const events = await readWorkflowEvents({ ...filter, fromOffset: from_offset });
+        const latest = events[events.length - 1];
 
         return JSON.stringify({
           success: true,
           count: events.length,
-          latest_offset: latestOffset,
           events,
-          resume_from: latestOffset + 1,
+          resume_since: latest ? latest.timestamp + 1 : args.since,
+          ...(from_offset !== undefined && {
+            resume_from: (await readWorkflowEvents({ since: args.since })).length,
+          }),
         });
       },
     }),
 
     /**
-     * event_status - Get log status
+     * event_status - Summarize workflow events in the Durable Stream
      */
     event_status: tool({
-      description: 'Get the status of the durable event log.',
+      description: 'Get the status of workflow events in the Durable Stream.',
       args: {},
       async execute() {
-        const projectPath = process.cwd();
-        const logPath = getEventsPath(projectPath);
+        const events = await readWorkflowEvents();
 
-        const exists = fs.existsSync(logPath);
-        const latestOffset = exists ? await getLatestOffset(projectPath) : -1;
-        let sizeMB = 0;
-
-        if (exists) {
-          const stats = await fs.promises.stat(logPath);
-          sizeMB = Math.round((stats.size / (1024 * 1024)) * 100) / 100;
+        const byType: Record<string, number> = {};
+        for (const event of events) {
+          byType[event.type] = (byType[event.type] ?? 0) + 1;
         }
 
         return JSON.stringify({
           success: true,
-          log_exists: exists,
-          log_path: logPath,
-          event_count: latestOffset + 1,
-          latest_offset: latestOffset,
-          size_mb: sizeMB,
-          rotation_threshold_mb: MAX_LOG_SIZE_MB,
+          event_count: events.length,
+          by_type: byType,
+          latest_timestamp: events[events.length - 1]?.timestamp,
         });
       },
     }),
 
     /**
-     * event_rotate - Force log rotation
+     * event_rotate - Deprecated: the Durable Stream store rotates its log itself
      */
     event_rotate: tool({
-      description: 'Force rotation of the event log to archive. Use when log is getting large.',
+      description:
+        'Deprecated: the Durable Stream rotates its log daily and by size. Kept for compatibility; does nothing.',
       args: {},
       async execute() {
-        const projectPath = process.cwd();
-        const logPath = getEventsPath(projectPath);
-
-        if (!fs.existsSync(logPath)) {
-          return JSON.stringify({ success: false, error: 'No log to rotate' });
-        }
-
-        await rotateLog(projectPath);
-
         return JSON.stringify({
           success: true,
-          message: 'Log rotated to archive',
-          new_log_path: logPath,
+          deprecated: true,
+          message: 'The Durable Stream store rotates its log automatically; nothing to do',
         });
       },
     }),
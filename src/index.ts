@@ -11,12 +11,25 @@
 import type { Plugin, PluginInput } from '@opencode-ai/plugin';
 import path from 'node:path';
 import crypto from 'node:crypto';
-import { memoryLaneTools } from './memory-lane';
+import {
+  memoryLaneTools,
+  initializeEmbeddingProvider,
+  initializeProjectIdentity,
+  getMemoryLaneStore,
+  getReindexJob,
+} from './memory-lane';
 import { loadConfig, DEFAULT_MODELS } from './opencode';
 import { SignalBuffer } from './orchestrator/signal-buffer';
 import { PromptBuffer } from './orchestrator/prompt-buffer';
 import { loadLocalAgents, loadSkillAgents, loadCommands } from './opencode';
-import { createSkillAgentTools, startTaskObservation, getTaskRegistry } from './orchestrator';
+import {
+  createSkillAgentTools,
+  startTaskObservation,
+  startDashboard,
+  getTaskRegistry,
+  DEFAULT_REGISTRY_STATE_PATH,
+  registerRecoverySnapshotProjection,
+} from './orchestrator';
 import { createOpenCodeSessionLearningHook } from './orchestrator/hooks';
 import { createModuleLogger } from './utils/logger';
 
@@ -24,10 +37,20 @@ const log = createModuleLogger('Plugin');
 
 import { loadChiefOfStaffSkills } from './opencode/config/skill-loader';
 import { createAgentTools } from './agent-spawn';
-import { createEventLogTools } from './event-log';
-import { initializeDurableStream, getDurableStream } from './durable-stream';
-import { ledgerTools, ledgerEventTools } from './orchestrator/tools/ledger-tools';
+import { createEventLogTools, importLegacyEventLogs } from './event-log';
+import {
+  initializeDurableStream,
+  getDurableStream,
+  initializeTraceExporter,
+  SqliteStore,
+} from './durable-stream';
+import { createLedgerToolset, ledgerEventTools } from './orchestrator/tools/ledger-tools';
+import { detectLedgerFormats } from './orchestrator/file-ledger/migrate';
 import { checkpointTools } from './orchestrator/tools/checkpoint-tools';
+import { guidanceTools } from './orchestrator/tools/guidance-tools';
+import { getLearnedGuidance } from './orchestrator/learned-guidance';
+import { configureLedger } from './orchestrator/ledger';
+import { streamTools } from './orchestrator/tools/stream-tools';
 import { formatYieldMessage } from './orchestrator/hitl';
 import {
   loadLedger,
@@ -151,14 +174,49 @@ export const SwarmToolAddons: Plugin = async (input) => {
   const agentTools = createAgentTools(input.client as OpenCodeClient);
   const eventLogTools = createEventLogTools();
 
-  // Start Task Observation (Resilient Orchestration)
-  const registry = getTaskRegistry({ syncToLedger: true });
-  await registry.loadFromLedger(); // Crash Recovery
-  startTaskObservation(input.client as any, { verbose: !!userConfig.debug });
+  // Ledger format (v5 LEDGER.md or v6 file ledger) and task limit per epic
+  const ledgerFormat = userConfig.ledgerFormat ?? 'v5';
+  configureLedger({ ...userConfig.ledger, format: ledgerFormat });
+  detectLedgerFormats()
+    .then(({ v5, v6 }) => {
+      if (v5 && (v6 || ledgerFormat === 'v6')) {
+        log.warn(
+          { ledgerFormat },
+          'A v5 LEDGER.md is present alongside the v6 ledger; run ledger_migrate (dry_run first) to convert it'
+        );
+      }
+    })
+    .catch((err) => log.warn({ err }, 'Ledger format detection failed'));
+
+  // Memory Lane project scope, then embeddings (LM Studio unless another provider is configured)
+  initializeProjectIdentity(input.worktree || input.directory);
+  initializeEmbeddingProvider(userConfig.memoryLane?.embeddings);
+  if (userConfig.memoryLane?.autoReindex === true) {
+    void getReindexJob().start();
+  }
+  // Persist decay factors recalculated from recorded accesses
+  getMemoryLaneStore()
+    .refreshDecayFactors()
+    .catch((err) => log.warn({ err }, 'Memory Lane decay maintenance failed'));
+
+  // OTLP trace export target for stream_export_traces
+  initializeTraceExporter({
+    endpoint: userConfig.telemetry?.otlpEndpoint,
+    file: userConfig.telemetry?.otlpFile,
+    serviceName: userConfig.telemetry?.serviceName,
+    headers: userConfig.telemetry?.headers,
+  });
 
   // Initialize Durable Stream (Event Sourcing Layer)
   const durableStream = await initializeDurableStream({
     storePath: '.opencode/durable_stream.jsonl',
+    store:
+      userConfig.streamStore === 'sqlite'
+        ? new SqliteStore({
+            path: '.opencode/durable_stream.db',
+            importJsonlPath: '.opencode/durable_stream.jsonl',
+          })
+        : undefined,
   });
   const resumeResult = await durableStream.resume();
   if (resumeResult.pending_checkpoints.length > 0) {
@@ -168,6 +226,36 @@ export const SwarmToolAddons: Plugin = async (input) => {
     );
   }
 
+  // Learned guidance reviews decided while the plugin was not running
+  await getLearnedGuidance()
+    .syncCheckpoints(durableStream)
+    .catch((err) => log.warn({ err }, 'Failed to sync learned guidance checkpoints'));
+
+  // Projections persisted in periodic stream snapshots
+  registerRecoverySnapshotProjection(durableStream);
+  getLedgerProjector();
+
+  // One-time migration of the legacy .opencode/events.jsonl workflow log
+  await importLegacyEventLogs().catch((err) =>
+    log.warn({ err }, 'Failed to import legacy events.jsonl')
+  );
+
+  // Start Task Observation (Resilient Orchestration); follows the durable stream
+  const registry = getTaskRegistry({
+    syncToLedger: true,
+    statePath: DEFAULT_REGISTRY_STATE_PATH,
+  });
+  await registry.loadFromLedger(); // Crash Recovery
+  const observer = startTaskObservation(input.client as any, { verbose: !!userConfig.debug });
+
+  // Optional local Swarm Dashboard (state, live event feed, checkpoint actions)
+  if (userConfig.dashboard?.enabled) {
+    await startDashboard(
+      { port: userConfig.dashboard.port, host: userConfig.dashboard.host },
+      { stream: durableStream, registry, observer }
+    ).catch((err) => log.warn({ err }, 'Failed to start swarm dashboard'));
+  }
+
   // Create session learning hook with skill_agent integration
   const sessionLearningHook = createOpenCodeSessionLearningHook(input, {
     maxMemories: 10,
@@ -203,9 +291,11 @@ export const SwarmToolAddons: Plugin = async (input) => {
       ...skillAgentTools,
       ...agentTools,
       ...eventLogTools,
-      ...ledgerTools,
+      ...createLedgerToolset(ledgerFormat),
       ...ledgerEventTools,
       ...checkpointTools,
+      ...guidanceTools,
+      ...streamTools,
     },
 
     // Multi-turn dialogue routing (v5.1)
@@ -537,14 +627,15 @@ export const SwarmToolAddons: Plugin = async (input) => {
         };
       }
 
-      // 2. Register chief-of-staff sub-agents (internal)
+      // 2. Register chief-of-staff sub-agents (internal), with accepted learned guidance
+      const guidance = getLearnedGuidance();
       for (const skill of chiefOfStaffSkills) {
         const modelOverride = userConfig.models[skill.name];
         const model = modelOverride?.model ?? skill.model ?? 'opencode/grok-code';
         config.agent[skill.name] = {
           mode: 'subagent',
           model,
-          prompt: skill.prompt,
+          prompt: guidance.applyOverlay(skill.name, skill.prompt),
           description: skill.description,
           tools: skill.tools,
           temperature: skill.temperature,
@@ -0,0 +1,109 @@
+/**
+ * Embedding Provider Tests
+ *
+ * Offline hashing vectorizer and the OpenAI-compatible / Ollama request shapes.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createEmbeddingProvider,
+  LEGACY_EMBEDDING_MODEL,
+  OfflineEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+} from './embeddings';
+import { cosineSimilarity } from './utils';
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status < 300,
+  status,
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+describe('OfflineEmbeddingProvider', () => {
+  const provider = new OfflineEmbeddingProvider();
+
+  it('produces deterministic unit vectors', async () => {
+    const a = await provider.embed('Use pnpm workspaces for the monorepo');
+    const b = await provider.embed('Use pnpm workspaces for the monorepo');
+
+    expect(a).toHaveLength(512);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 6);
+    expect(provider.model).toBe('offline-hashing-v1-512');
+  });
+
+  it('ranks related text above unrelated text', async () => {
+    const query = await provider.embed('testing strategy');
+    const related = await provider.embed('We decided on a test strategy with vitest');
+    const unrelated = await provider.embed('Deploy the docker image to production');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('returns a zero vector for empty text', async () => {
+    expect(await new OfflineEmbeddingProvider({ dimensions: 8 }).embed('  ')).toEqual(
+      new Array(8).fill(0)
+    );
+  });
+});
+
+describe('HTTP embedding providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('calls an OpenAI-compatible /embeddings endpoint', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse(200, { data: [{ embedding: [1, 0] }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: 'https://api.example.com/v1/',
+      model: 'text-embedding-3-small',
+      apiKey: 'sk-test',
+      dimensions: 2,
+    });
+
+    expect(await provider.embed('hello')).toEqual([1, 0]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/v1/embeddings');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'text-embedding-3-small',
+      input: 'hello',
+      dimensions: 2,
+    });
+  });
+
+  it('calls Ollama /api/embed', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { embeddings: [[0.5, 0.5]] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createEmbeddingProvider({ provider: 'ollama' });
+
+    expect(await provider.embed('hello')).toEqual([0.5, 0.5]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:11434/api/embed');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      model: 'nomic-embed-text',
+      input: 'hello',
+    });
+  });
+
+  it('reports failed requests', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(404, 'model not found')));
+
+    await expect(new OllamaEmbeddingProvider().embed('hello')).rejects.toThrow('404');
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('defaults to the LM Studio model existing memories were embedded with', () => {
+    const provider = createEmbeddingProvider();
+    expect(provider.kind).toBe('openai-compatible');
+    expect(provider.model).toBe(LEGACY_EMBEDDING_MODEL);
+    expect(createEmbeddingProvider({ provider: 'offline' }).kind).toBe('offline');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable text embeddings for Memory Lane, selected with
+ * `memoryLane.embeddings` in opencode-addons.json:
+ *
+ * - openai-compatible: Any `/v1/embeddings` endpoint (LM Studio, OpenAI, vLLM, ...) (default)
+ * - offline:           Feature-hashing vectorizer, no server needed
+ * - ollama:            Ollama `/api/embed`
+ *
+ * Each memory records the model ID and dimension it was embedded with, so
+ * vectors from a different provider are never compared with each other.
+ * The default matches the LM Studio model existing memories were stored with.
+ */
+
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('Embeddings');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmbeddingProviderKind = 'offline' | 'openai-compatible' | 'ollama';
+
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderKind;
+  /** Model identifier stored with each memory */
+  readonly model: string;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderKind;
+  /** Server URL (openai-compatible: including `/v1`) */
+  baseUrl?: string;
+  model?: string;
+  /** Bearer token for openai-compatible endpoints */
+  apiKey?: string;
+  /** Vector size: offline hashing buckets, or the `dimensions` request field */
+  dimensions?: number;
+}
+
+/** Model of memories stored before embedding metadata was recorded (LM Studio mxbai) */
+export const LEGACY_EMBEDDING_MODEL = 'text-embedding-mxbai-embed-large-v1';
+
+const DEFAULT_OPENAI_COMPATIBLE_URL = 'http://127.0.0.1:1234/v1';
+const DEFAULT_OLLAMA_URL = 'http://127.0.0.1:11434';
+const DEFAULT_OLLAMA_MODEL = 'nomic-embed-text';
+const DEFAULT_OFFLINE_DIMENSIONS = 512;
+
+// ============================================================================
+// Offline (feature hashing)
+// ============================================================================
+
+/** FNV-1a, 32 bit */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words vectorizer: words and character trigrams are
+ * hashed into signed buckets with sublinear term frequency, then
+ * L2-normalized. Trigrams let "test" and "testing" share features.
+ */
+export class OfflineEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'offline' as const;
+  readonly model: string;
+  private readonly dimensions: number;
+
+  constructor(config: { dimensions?: number } = {}) {
+    this.dimensions = config.dimensions ?? DEFAULT_OFFLINE_DIMENSIONS;
+    this.model = `offline-hashing-v1-${this.dimensions}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+// ============================================================================
+// HTTP providers
+// ============================================================================
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    log.error({ url, status: response.status, error: errorText }, 'Embedding request failed');
+    throw new Error(`Embedding request to ${url} failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * OpenAI `/v1/embeddings` API (LM Studio, OpenAI, vLLM, llama.cpp server, ...)
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'openai-compatible' as const;
+  readonly model: string;
+  private readonly url: string;
+  private readonly apiKey?: string;
+  private readonly dimensions?: number;
+
+  constructor(config: Omit<EmbeddingProviderConfig, 'provider'> = {}) {
+    this.model = config.model ?? LEGACY_EMBEDDING_MODEL;
+    this.url = `${(config.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_URL).replace(/\/+$/, '')}/embeddings`;
+    this.apiKey = config.apiKey;
+    this.dimensions = config.dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const data = await postJson(
+      this.url,
+      { model: this.model, input: text, dimensions: this.dimensions },
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+    );
+    return data.data[0].embedding;
+  }
+}
+
+/**
+ * Ollama `/api/embed`
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'ollama' as const;
+  readonly model: string;
+  private readonly url: string;
+
+  constructor(config: Omit<EmbeddingProviderConfig, 'provider'> = {}) {
+    this.model = config.model ?? DEFAULT_OLLAMA_MODEL;
+    this.url = `${(config.baseUrl ?? DEFAULT_OLLAMA_URL).replace(/\/+$/, '')}/api/embed`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const data = await postJson(this.url, { model: this.model, input: text });
+    return data.embeddings[0];
+  }
+}
+
+// ============================================================================
+// Factory / Singleton
+// ============================================================================
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+  switch (config.provider ?? 'openai-compatible') {
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider(config);
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config);
+    case 'offline':
+      return new OfflineEmbeddingProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
+
+let globalProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!globalProvider) {
+    globalProvider = createEmbeddingProvider();
+  }
+  return globalProvider;
+}
+
+export function initializeEmbeddingProvider(
+  config: EmbeddingProviderConfig = {}
+): EmbeddingProvider {
+  globalProvider = createEmbeddingProvider(config);
+  log.info({ provider: globalProvider.kind, model: globalProvider.model }, 'Embedding provider');
+  return globalProvider;
+}
@@ -6,8 +6,66 @@
  */
 
 export { memoryLaneTools } from './tools';
-export { MemoryLaneStore, getMemoryLaneStore, resetMemoryLaneStore } from './memory-store';
+export {
+  MemoryLaneStore,
+  createMemoryId,
+  getMemoryLaneStore,
+  resetMemoryLaneStore,
+} from './memory-store';
+export type {
+  ListMemoriesFilter,
+  MemoryHistoryEntry,
+  MemoryListEntry,
+  MemoryLaneStoreOptions,
+  MemoryRecord,
+  MemoryScope,
+  MemoryUpdate,
+  PruneCandidate,
+  PruneOptions,
+  StoreMemoryArgs,
+  StoreMemoryResult,
+} from './memory-store';
+export {
+  OfflineEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  initializeEmbeddingProvider,
+} from './embeddings';
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderKind,
+} from './embeddings';
+export {
+  getProjectIdentity,
+  initializeProjectIdentity,
+  normalizeGitRemote,
+  resetProjectIdentity,
+  resolveProjectIdentity,
+} from './project';
+export type { ProjectIdentity } from './project';
+export {
+  exportMemories,
+  exportMemoriesToFile,
+  formatFromPath,
+  importMemories,
+  importMemoriesFromFile,
+  parseMemories,
+  serializeMemories,
+} from './sync';
+export type {
+  ExportOptions,
+  ImportOptions,
+  ImportSummary,
+  MemoryExportFormat,
+  MemoryExportRecord,
+} from './sync';
+export { ReindexJob, getReindexJob, resetReindexJob } from './reindex';
+export type { ReindexOptions, ReindexProgress } from './reindex';
 export { EntityResolver } from './resolver';
+export type { EntityRecord, ResolvedEntity } from './resolver';
 export { PRIORITY_WEIGHTS, MemoryLaneMetadataSchema } from './taxonomy';
 export type { MemoryType } from './taxonomy';
 
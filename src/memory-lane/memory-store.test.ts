@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MemoryLaneStore } from './memory-store';
+import { OfflineEmbeddingProvider } from './embeddings';
 import { getDatabasePath } from '../utils/database-path';
 import { existsSync, unlinkSync } from 'node:fs';
+import { createClient } from '@libsql/client';
+import { extractKeywords, toFtsQuery } from './utils';
+import { createMemoryMetadata } from './taxonomy';
 
 // Mock fetch for lm-studio API
 global.fetch = vi.fn() as any;
@@ -17,7 +21,8 @@ describe('MemoryLaneStore', () => {
         unlinkSync(testDbPath);
       } catch {}
     }
-    store = new MemoryLaneStore();
+    // Offline hashing gives distinct vectors; stores without a provider use the mocked LM Studio
+    store = new MemoryLaneStore({ embeddingProvider: new OfflineEmbeddingProvider() });
 
     // Mock successful lm-studio responses
     (global.fetch as any).mockImplementation(async (input: any) => {
@@ -118,4 +123,386 @@ describe('MemoryLaneStore', () => {
     const findResult = await store.smartFind({ query: 'Feedback' });
     expect(findResult.results[0].metadata.feedback_score).toBeGreaterThan(1.0);
   });
+
+  it('should skip memories embedded by a different model', async () => {
+    await store.store({ information: 'Use pnpm workspaces', type: 'decision' });
+
+    const other = new MemoryLaneStore({
+      embeddingProvider: new OfflineEmbeddingProvider({ dimensions: 64 }),
+    });
+    const findResult = await other.smartFind({ query: 'pnpm workspaces' });
+    await other.close();
+
+    expect(findResult.count).toBe(0);
+    expect(findResult.embedding_mismatch).toBe(1);
+  });
+
+  it('should search through the vector index of the active model', async () => {
+    await store.store({ information: 'Use pnpm workspaces', type: 'decision' });
+    await store.store({ information: 'Deploy with docker compose', type: 'decision' });
+
+    expect((await store.smartFind({ query: '' })).count).toBe(0);
+    const findResult = await store.smartFind({ query: 'pnpm', limit: 1 });
+    expect(findResult.results.map((r) => r.content)).toEqual(['Use pnpm workspaces']);
+
+    const other = new MemoryLaneStore({
+      embeddingProvider: new OfflineEmbeddingProvider({ dimensions: 64 }),
+    });
+    await other.store({ information: 'Prefer vitest', type: 'decision' });
+    await other.close();
+
+    const client = createClient({ url: getDatabasePath() });
+    const [vectors, index] = await Promise.all([
+      client.execute('SELECT COUNT(*) AS count FROM memory_vectors'),
+      client.execute('SELECT model, dimensions FROM memory_vector_index'),
+    ]);
+    client.close();
+
+    expect(Number(vectors.rows[0].count)).toBe(1);
+    expect(index.rows[0]).toMatchObject({ model: 'offline-hashing-v1-64', dimensions: 64 });
+  });
+
+  it('should rank exact identifiers first with hybrid search', async () => {
+    await store.store({
+      information: 'Node cannot find the module when importing a missing package',
+      type: 'learning',
+    });
+    await store.store({
+      information: 'ERR_MODULE_NOT_FOUND comes from a missing .js extension in ESM imports',
+      type: 'learning',
+    });
+    await store.store({ information: 'Modules are bundled with bun build', type: 'decision' });
+
+    const findResult = await store.smartFind({ query: 'ERR_MODULE_NOT_FOUND' });
+    expect(findResult.results[0].content).toContain('ERR_MODULE_NOT_FOUND');
+
+    const client = createClient({ url: getDatabasePath() });
+    const keywords = await client.execute(
+      "SELECT keywords FROM memories WHERE content LIKE 'ERR_MODULE_NOT_FOUND%'"
+    );
+    client.close();
+    expect(String(keywords.rows[0].keywords).split(' ')[0]).toBe('ERR_MODULE_NOT_FOUND');
+  });
+
+  it('should merge near-duplicate memories', async () => {
+    const first = await store.store({ information: 'Prefer vitest over jest', type: 'decision' });
+    const second = await store.store({ information: 'Prefer vitest over jest.', type: 'decision' });
+
+    expect(second).toMatchObject({ id: first.id, merged: true });
+    const findResult = await store.smartFind({ query: 'vitest' });
+    expect(findResult.count).toBe(1);
+    expect(findResult.results[0].metadata.times_observed).toBe(2);
+  });
+
+  it('should supersede contradicting decisions and keep their history', async () => {
+    const pnpm = await store.store({
+      information: 'Use pnpm for package management',
+      type: 'decision',
+      entities: ['project:swarm'],
+    });
+    const bun = await store.store({
+      information: 'Use bun for package management',
+      type: 'decision',
+      entities: ['project:swarm'],
+    });
+
+    expect(bun.supersedes).toEqual([pnpm.id]);
+    const findResult = await store.smartFind({ query: 'package management' });
+    expect(findResult.results.map((r) => r.content)).toEqual(['Use bun for package management']);
+
+    const history = await store.getHistory(pnpm.id);
+    expect(history.map((h) => [h.id, h.current])).toEqual([
+      [pnpm.id, false],
+      [bun.id, true],
+    ]);
+    expect(history[0]).toMatchObject({ superseded_by: bun.id });
+    expect(history[0].valid_until).not.toBeNull();
+  });
+
+  it('should supersede a negated correction instead of merging it', async () => {
+    const use = await store.store({
+      information: 'Use pnpm for package installs',
+      type: 'correction',
+    });
+    const dont = await store.store({
+      information: 'Do not use pnpm for package installs',
+      type: 'correction',
+    });
+
+    expect(dont.merged).toBeUndefined();
+    expect(dont.id).not.toBe(use.id);
+    expect(dont.supersedes).toEqual([use.id]);
+  });
+
+  it('should keep distinct corrections about the same file current', async () => {
+    const retry = await store.store({
+      information: 'src/net/client.ts should retry failed requests',
+      type: 'correction',
+    });
+    const log = await store.store({
+      information: 'src/net/client.ts should log failed requests',
+      type: 'correction',
+    });
+
+    expect(log.supersedes).toBeUndefined();
+    const findResult = await store.smartFind({ query: 'client.ts failed requests' });
+    expect(findResult.results.map((r) => r.id).sort()).toEqual([retry.id, log.id].sort());
+  });
+
+  it('should keep project memories out of other projects until promoted', async () => {
+    const api = new MemoryLaneStore({ project: 'git:github.com/acme/api' });
+    const web = new MemoryLaneStore({ project: 'git:github.com/acme/web' });
+
+    const tabs = await api.store({ information: 'Indent with tabs', type: 'commitment' });
+    await web.store({ information: 'Indent with two spaces', type: 'commitment' });
+    await web.store({
+      information: 'Keep indentation consistent',
+      type: 'insight',
+      scope: 'global',
+    });
+
+    const apiFind = await api.smartFind({ query: 'indent indentation' });
+    expect(apiFind.results.map((r) => [r.content, r.scope])).toEqual([
+      ['Indent with tabs', 'project'],
+      ['Keep indentation consistent', 'global'],
+    ]);
+    expect((await api.smartFind({ query: 'indentation', scope: 'global' })).count).toBe(1);
+
+    expect(await api.setScope(tabs.id, 'global')).toBe(true);
+    const webFind = await web.smartFind({ query: 'indent tabs', scope: 'global' });
+    expect(webFind.results.map((r) => r.content)).toContain('Indent with tabs');
+
+    await api.close();
+    await web.close();
+  });
+
+  it('should find in-scope neighbours behind other projects in the vector index', async () => {
+    const embeddingProvider = new OfflineEmbeddingProvider();
+    const api = new MemoryLaneStore({ project: 'git:github.com/acme/api', embeddingProvider });
+    const web = new MemoryLaneStore({ project: 'git:github.com/acme/web', embeddingProvider });
+
+    const vitest = await web.store({
+      information: 'Prefer vitest over jest in package 7',
+      type: 'decision',
+      entities: ['project:web'],
+    });
+    // Closer to the new decision than web's own, and more than store() checks
+    for (let i = 0; i < 60; i++) {
+      await api.store({
+        information: `Prefer vitest over jest (pkg${i})`,
+        type: 'decision',
+        entities: [`feature:f${i}`],
+      });
+    }
+
+    const result = await web.store({
+      information: 'Prefer vitest over jest',
+      type: 'decision',
+      entities: ['project:web'],
+    });
+    expect(result.supersedes).toEqual([vitest.id]);
+
+    await api.close();
+    await web.close();
+  });
+
+  it('should not see, update or delete memories of other projects', async () => {
+    const api = new MemoryLaneStore({ project: 'git:github.com/acme/api' });
+    const web = new MemoryLaneStore({ project: 'git:github.com/acme/web' });
+
+    const tabs = await api.store({ information: 'Indent with tabs', type: 'commitment' });
+
+    expect(await web.hasMemory(tabs.id)).toBe(false);
+    expect(await web.deleteMemory(tabs.id)).toBe(false);
+    expect(await web.updateMemory(tabs.id, { content: 'Indent with spaces' })).toBeNull();
+    expect(await web.getHistory(tabs.id)).toEqual([]);
+    await web.recordFeedback(tabs.id, 'harmful');
+    const spaces = await web.store({
+      information: 'Indent with spaces',
+      type: 'commitment',
+      supersedes: [tabs.id],
+    });
+    expect(spaces.supersedes).toBeUndefined();
+    expect(await api.hasMemory(tabs.id)).toBe(true);
+    expect((await api.listMemories({ maxFeedback: 0.9 })).total).toBe(0);
+
+    await api.close();
+    await web.close();
+  });
+
+  it('should not change the scope of memories of other projects', async () => {
+    const api = new MemoryLaneStore({ project: 'git:github.com/acme/api' });
+    const web = new MemoryLaneStore({ project: 'git:github.com/acme/web' });
+
+    const tabs = await api.store({ information: 'Indent with tabs', type: 'commitment' });
+
+    expect(await web.setScope(tabs.id, 'global')).toBe(false);
+    expect(await web.setScope(tabs.id, 'project')).toBe(false);
+    expect((await api.smartFind({ query: 'indent tabs', scope: 'project' })).count).toBe(1);
+
+    expect(await api.setScope(tabs.id, 'global')).toBe(true);
+    expect(await web.setScope(tabs.id, 'project')).toBe(true);
+    expect(await api.hasMemory(tabs.id)).toBe(false);
+
+    await api.close();
+    await web.close();
+  });
+
+  it('should list memories by type, entity and feedback', async () => {
+    const a = await store.store({
+      information: 'API errors use RFC 7807 problem details',
+      type: 'decision',
+      entities: ['project:api'],
+    });
+    await store.store({ information: 'Flaky test in the auth suite', type: 'gap' });
+    await store.recordFeedback(a.id, 'harmful');
+
+    const decisions = await store.listMemories({ type: 'decision', entity: 'project:api' });
+    expect(decisions.memories.map((m) => m.id)).toEqual([a.id]);
+    expect((await store.listMemories({ maxFeedback: 0.9 })).total).toBe(1);
+    expect((await store.listMemories({ since: '2999-01-01' })).total).toBe(0);
+    expect((await store.listMemories({ limit: 1 })).memories[0].content).toBe(
+      'Flaky test in the auth suite'
+    );
+  });
+
+  it('should re-embed and re-index updated content', async () => {
+    const { id } = await store.store({ information: 'Deploy on Fridays', type: 'decision' });
+
+    const updated = await store.updateMemory(id, {
+      content: 'Never deploy on Fridays',
+      confidence_score: 90,
+    });
+    expect(updated).toMatchObject({ content: 'Never deploy on Fridays' });
+    expect(updated?.metadata.confidence_score).toBe(90);
+
+    const findResult = await store.smartFind({ query: 'never deploy' });
+    expect(findResult.results[0]).toMatchObject({ id, content: 'Never deploy on Fridays' });
+    expect(await store.updateMemory('mem_missing', { content: 'x' })).toBeNull();
+
+    await store.updateMemory(id, { entities: ['Feature:Deploys'] });
+    expect((await store.listEntities('feature')).map((e) => e.slug)).toEqual(['feature:deploys']);
+  });
+
+  it('should delete memories with their index entries and relink history', async () => {
+    const pnpm = await store.store({
+      information: 'Use pnpm for package management',
+      type: 'decision',
+      entities: ['project:swarm'],
+    });
+    const bun = await store.store({
+      information: 'Use bun for package management',
+      type: 'decision',
+      entities: ['project:swarm'],
+    });
+    expect(bun.supersedes).toEqual([pnpm.id]);
+
+    expect(await store.deleteMemory(bun.id)).toBe(true);
+    expect(await store.deleteMemory(bun.id)).toBe(false);
+
+    const client = createClient({ url: getDatabasePath() });
+    const [fts, vectors] = await Promise.all([
+      client.execute({ sql: 'SELECT 1 FROM memories_fts WHERE memory_id = ?', args: [bun.id] }),
+      client.execute({ sql: 'SELECT 1 FROM memory_vectors WHERE memory_id = ?', args: [bun.id] }),
+    ]);
+    client.close();
+    expect(fts.rows).toHaveLength(0);
+    expect(vectors.rows).toHaveLength(0);
+
+    // The superseded decision is current again
+    const findResult = await store.smartFind({ query: 'package management' });
+    expect(findResult.results.map((r) => r.id)).toEqual([pnpm.id]);
+  });
+
+  it('should prune low-feedback memories after a dry run', async () => {
+    const bad = await store.store({ information: 'Always use var', type: 'learning' });
+    await store.store({ information: 'Prefer const', type: 'learning' });
+    await store.recordFeedback(bad.id, 'harmful');
+    await store.recordFeedback(bad.id, 'harmful');
+
+    const preview = await store.pruneMemories({ minFeedback: 0.5 });
+    expect(preview.map((p) => p.id)).toEqual([bad.id]);
+    expect((await store.listMemories()).total).toBe(2);
+
+    await store.pruneMemories({ minFeedback: 0.5, dryRun: false });
+    expect((await store.listMemories()).memories.map((m) => m.content)).toEqual(['Prefer const']);
+    await expect(store.pruneMemories({})).rejects.toThrow('minConfidence or minFeedback');
+  });
+
+  it('should prune global memories only when asked to', async () => {
+    const shared = await store.store({
+      information: 'Always use var',
+      type: 'learning',
+      scope: 'global',
+    });
+    await store.recordFeedback(shared.id, 'harmful');
+    await store.recordFeedback(shared.id, 'harmful');
+
+    expect(await store.pruneMemories({ minFeedback: 0.5 })).toEqual([]);
+    const global = await store.pruneMemories({ minFeedback: 0.5, scope: 'all' });
+    expect(global.map((p) => p.id)).toEqual([shared.id]);
+  });
+
+  it('should record accesses from search in batches', async () => {
+    const { id } = await store.store({ information: 'Prefer pnpm workspaces', type: 'decision' });
+
+    await store.smartFind({ query: 'pnpm workspaces' });
+    await store.smartFind({ query: 'workspaces' });
+    expect(await store.flushAccesses()).toBe(1);
+    expect(await store.flushAccesses()).toBe(0);
+
+    const [memory] = (await store.listMemories()).memories;
+    expect(memory.id).toBe(id);
+    expect(memory.metadata.access_count).toBe(2);
+    expect(memory.metadata.last_accessed_at).not.toBeNull();
+  });
+
+  it('should persist recalculated decay and rank used memories higher', async () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+    const [unused, used] = await Promise.all(
+      ['Retry flaky network calls with backoff', 'Retry flaky network calls with jitter'].map(
+        async (content, i) => {
+          const id = `mem_decay_${i}`;
+          const metadata = createMemoryMetadata({
+            memory_type: 'learning',
+            first_observed_at: daysAgo(120),
+            last_accessed_at: i === 1 ? daysAgo(1) : null,
+          });
+          await store.putRecord({
+            id,
+            content,
+            scope: 'project',
+            project: null,
+            metadata,
+            created_at: daysAgo(120),
+            updated_at: daysAgo(120),
+          });
+          return id;
+        }
+      )
+    );
+
+    expect(await store.refreshDecayFactors()).toEqual({ checked: 2, updated: 1 });
+    const records = await store.listRecords();
+    expect(records.find((r) => r.id === unused)?.metadata.decay_factor).toBe(0.4);
+    expect(records.find((r) => r.id === used)?.metadata.decay_factor).toBe(1.0);
+
+    const findResult = await store.smartFind({ query: 'retry flaky network calls' });
+    expect(findResult.results[0].id).toBe(used);
+  });
+});
+
+describe('keyword extraction', () => {
+  it('puts identifiers before frequent words', () => {
+    expect(
+      extractKeywords('Fix TS2304 in parseConfig: parseConfig reads config from src/config.ts', 5)
+    ).toEqual(['TS2304', 'parseConfig', 'src/config.ts', 'config', 'fix']);
+  });
+
+  it('builds an OR query without stopwords', () => {
+    expect(toFtsQuery('how to fix the ERR_MODULE_NOT_FOUND error')).toBe(
+      '"fix" OR "err_module_not_found" OR "error"'
+    );
+    expect(toFtsQuery('  ?! ')).toBeNull();
+  });
 });
@@ -1,18 +1,21 @@
 /**
  * Memory Lane Store
  *
- * Standalone memory storage using Drizzle ORM and direct lm-studio HTTP API.
+ * Standalone memory storage using Drizzle ORM and a pluggable embedding provider.
  * No external dependencies on swarm-mail or swarm-tools.
  *
  * Features:
- * - Vector embeddings via lm-studio mixedbread-ai/mxbai-embed-large-v1
+ * - Vector embeddings via an EmbeddingProvider (offline, OpenAI-compatible, Ollama)
  * - Semantic search with cosine similarity
  * - Memory Lane taxonomy (correction, decision, pattern, etc.)
- * - Temporal validity and decay
+ * - Temporal validity and decay, with batched access tracking
+ * - Duplicate merging and supersession chains
+ * - Project and global scopes in the shared database
+ * - Entity extraction into the entity registry
  * - LEDGER.md integration
  */
 
-import { createClient, type Client } from '@libsql/client';
+import { createClient, type Client, type Row } from '@libsql/client';
 import { drizzle } from 'drizzle-orm/libsql';
 import type { LibSQLDatabase } from 'drizzle-orm/libsql';
 import { getDatabasePath } from '../utils/database-path';
@@ -29,7 +32,11 @@ import {
   calculateEffectiveConfidence,
   calculateDecayFactor,
 } from './taxonomy';
-import { cosineSimilarity, detectIntent } from './utils';
+import { cosineSimilarity, detectIntent, extractKeywords, isNegated, toFtsQuery } from './utils';
+import { getEmbeddingProvider, LEGACY_EMBEDDING_MODEL } from './embeddings';
+import type { EmbeddingProvider } from './embeddings';
+import { getProjectIdentity } from './project';
+import { EntityResolver, type EntityRecord, type ResolvedEntity } from './resolver';
 
 // ============================================================================
 // Types
@@ -37,10 +44,131 @@ import { cosineSimilarity, detectIntent } from './utils';
 
 export type MemoryDb = LibSQLDatabase<Record<string, never>>;
 
+/** project: the current project only; global: shared by all projects */
+export type MemoryScope = 'project' | 'global';
+
 export interface SmartFindArgs {
   query?: string;
   limit?: number;
   entities?: string[]; // strictly filter by these entity slugs
+  /** Scopes to search (default: all = project and global, global ranked lower) */
+  scope?: MemoryScope | 'all';
+}
+
+export interface MemoryLaneStoreOptions {
+  /** Embedding provider (default: the configured global provider) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Project ID of project-scoped memories (default: derived from the working directory) */
+  project?: string;
+}
+
+export interface StoreMemoryArgs {
+  information: string;
+  type: MemoryType;
+  entities?: string[];
+  confidence_score?: number;
+  tags?: string;
+  /** IDs of memories this one replaces, in addition to detected contradictions */
+  supersedes?: string[];
+  /** Default: project */
+  scope?: MemoryScope;
+}
+
+export interface StoreMemoryResult {
+  id: string;
+  message: string;
+  /** Set when the information was merged into an existing near-duplicate */
+  merged?: boolean;
+  /** Memories replaced by this one */
+  supersedes?: string[];
+}
+
+/** A complete memory, as exported and imported */
+export interface MemoryRecord {
+  id: string;
+  content: string;
+  scope: MemoryScope;
+  /** Project ID of project-scoped memories */
+  project: string | null;
+  metadata: MemoryLaneMetadata;
+  created_at: string;
+  updated_at: string;
+  embedding?: { model: string; dimensions: number; vector: number[] };
+}
+
+export interface ListMemoriesFilter {
+  type?: MemoryType;
+  /** Entity slug */
+  entity?: string;
+  /** ISO 8601: created at or after */
+  since?: string;
+  /** ISO 8601: created before */
+  until?: string;
+  /** Range of the effective (decayed) confidence, 0-100 */
+  minConfidence?: number;
+  maxConfidence?: number;
+  minFeedback?: number;
+  maxFeedback?: number;
+  /** Default: all (current project and global) */
+  scope?: MemoryScope | 'all';
+  /** Default: false */
+  includeSuperseded?: boolean;
+  /** Default: 50 */
+  limit?: number;
+  offset?: number;
+}
+
+export interface MemoryListEntry {
+  id: string;
+  content: string;
+  scope: MemoryScope;
+  created_at: string;
+  updated_at: string;
+  metadata: MemoryLaneMetadata;
+  effective_confidence: number;
+  decay_factor: number;
+}
+
+export interface MemoryUpdate {
+  /** New content; the memory is re-embedded */
+  content?: string;
+  type?: MemoryType;
+  entities?: string[];
+  tags?: string[];
+  confidence_score?: number;
+}
+
+export interface PruneOptions {
+  /** Prune below this effective (decayed) confidence, 0-100 */
+  minConfidence?: number;
+  /** Prune below this feedback score (1.0 = neutral, each harmful signal halves it) */
+  minFeedback?: number;
+  /** Memories to consider (default: 'project'; global ones are shared by every project) */
+  scope?: MemoryScope | 'all';
+  /** Only report what would be pruned (default: true) */
+  dryRun?: boolean;
+}
+
+export interface PruneCandidate {
+  id: string;
+  content: string;
+  memory_type: MemoryType;
+  effective_confidence: number;
+  feedback_score: number;
+  reason: string;
+}
+
+/** One step of a supersession chain, oldest first */
+export interface MemoryHistoryEntry {
+  id: string;
+  content: string;
+  memory_type: MemoryType;
+  created_at: string;
+  valid_until: string | null;
+  times_observed: number;
+  supersedes: string[];
+  superseded_by: string | null;
+  current: boolean;
 }
 
 export interface MemorySearchResult {
@@ -48,36 +176,136 @@ export interface MemorySearchResult {
   content: string;
   score: number;
   collection: string;
+  scope: MemoryScope;
   metadata: MemoryLaneMetadata;
   effective_confidence: number;
   decay_factor: number;
 }
 
+/** Minimum ANN candidates re-ranked by smartFind (limit × 10 when larger) */
+const MIN_CANDIDATES = 100;
+
+/** Reciprocal rank fusion constant: a rank r contributes 1 / (RRF_K + r) */
+const RRF_K = 60;
+
+/** Similarity at which a memory of the same type and entities is the same observation */
+const DUPLICATE_SIMILARITY = 0.95;
+
+/** Similarity at which a memory of the same type and entities is about the same subject */
+const RELATED_SIMILARITY = 0.6;
+
+/** Similarity from which a related memory can be contradicted (with a contradiction signal) */
+const CONTRADICTION_SIMILARITY = 0.8;
+
+/** Growth of the `vector_top_k` request until enough neighbours are in scope */
+const OVERFETCH_FACTOR = 4;
+
+/** Nearest neighbours checked for duplicates and contradictions on store() */
+const RELATED_CANDIDATES = 20;
+
+/** Rank weight of global memories when searching both scopes */
+const GLOBAL_SCOPE_WEIGHT = 0.8;
+
+/** Types where a newer memory on the same subject replaces the older one */
+const SUPERSEDABLE_TYPES: MemoryType[] = ['correction', 'decision', 'commitment'];
+
+/** A live memory of the same type and entities found by findRelated() */
+interface RelatedMemory {
+  id: string;
+  similarity: number;
+  negated: boolean;
+  /** Entity slugs given explicitly rather than extracted from the content */
+  subjects: string[];
+}
+
+/** A memory row with parsed metadata */
+interface StoredMemory {
+  id: string;
+  content: string;
+  project: string | null;
+  created_at: string;
+  metadata: MemoryLaneMetadata;
+}
+
+/** Similarity candidate before taxonomy, decay and feedback re-ranking */
+interface SearchCandidate {
+  id: string;
+  content: string;
+  metadata: string;
+  collection: string;
+  /** NULL for global memories */
+  project: string | null;
+  similarity: number;
+}
+
+/**
+ * Rows to re-embed: no vector, or a model/dimension other than the active one.
+ * Params: legacy model, active model, active dimension. Rows from before the
+ * metadata columns existed count as the legacy model with the blob's length.
+ */
+const STALE_EMBEDDING_SQL = `(embedding IS NULL
+  OR COALESCE(embedding_model, ?) != ?
+  OR COALESCE(embedding_dim, length(embedding) / 4) != ?)`;
+
+/** Accesses recorded by smartFind are written after this delay, or once this many are pending */
+const ACCESS_FLUSH_DELAY_MS = 1000;
+const ACCESS_FLUSH_SIZE = 100;
+
+/**
+ * Decay from the access pattern (never-accessed memories decay with age),
+ * and the confidence left after it
+ */
+function decayedConfidence(
+  metadata: MemoryLaneMetadata,
+  createdAt?: string
+): {
+  decay_factor: number;
+  effective_confidence: number;
+} {
+  const decay_factor = calculateDecayFactor(
+    metadata.last_accessed_at ?? undefined,
+    metadata.first_observed_at || createdAt || new Date().toISOString()
+  );
+  return {
+    decay_factor,
+    effective_confidence: calculateEffectiveConfidence(metadata.confidence_score, decay_factor),
+  };
+}
+
+export function createMemoryId(): string {
+  return `mem_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
 // ============================================================================
 // Memory Lane Store
 // ============================================================================
 
 export class MemoryLaneStore {
   private readonly COLLECTION = 'memory-lane';
-  private readonly EMBEDDING_MODEL = 'text-embedding-mxbai-embed-large-v1'; // Updated to use the correct identifier after loading
-  private readonly EMBEDDING_MODEL_PATH =
-    'mixedbread-ai/mxbai-embed-large-v1/mxbai-embed-large-v1-f16.gguf';
-  private readonly LM_STUDIO_URL = 'http://127.0.0.1:1234';
   private readonly db: MemoryDb;
   private readonly client: Client;
-  private schemaInitialized = false;
-  private currentModelId: string | null = null;
-
-  constructor() {
+  private readonly embeddings: EmbeddingProvider;
+  private readonly project: string;
+  private readonly entities: EntityResolver;
+  private activeDimensions?: number;
+  private vectorIndexKey?: string;
+  private vectorIndexReady = false;
+  private schemaReady: Promise<void> | null = null;
+  private pendingAccesses = new Map<string, { count: number; at: string }>();
+  private accessTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: MemoryLaneStoreOptions = {}) {
+    this.embeddings = options.embeddingProvider ?? getEmbeddingProvider();
+    this.project = options.project ?? getProjectIdentity().id;
     const dbPath = getDatabasePath();
     this.client = createClient({ url: dbPath });
     this.db = drizzle(this.client);
+    this.entities = new EntityResolver(this.client);
 
     log.info('Initializing memory store');
 
-    this.initializeSchema()
+    this.ensureSchema()
       .then(() => {
-        this.schemaInitialized = true;
         log.info('Schema initialized successfully');
       })
       .catch((err) => {
@@ -85,11 +313,18 @@ export class MemoryLaneStore {
       });
   }
 
+  /**
+   * Initialize once per store; concurrent callers share the same run and a
+   * failed run is retried by the next caller
+   */
   private async ensureSchema(): Promise<void> {
-    if (!this.schemaInitialized) {
-      await this.initializeSchema();
-      this.schemaInitialized = true;
+    if (!this.schemaReady) {
+      this.schemaReady = this.initializeSchema().catch((err) => {
+        this.schemaReady = null;
+        throw err;
+      });
     }
+    await this.schemaReady;
   }
 
   /**
@@ -112,9 +347,39 @@ export class MemoryLaneStore {
           auto_tags TEXT,
           keywords TEXT,
           created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL
+          updated_at TEXT NOT NULL,
+          embedding_model TEXT,
+          embedding_dim INTEGER,
+          project TEXT
+        )
+      `);
+
+      // Databases created before embedding metadata was recorded
+      const columns = await this.client.execute('PRAGMA table_info(memories)');
+      const names = new Set(columns.rows.map((row) => String(row.name)));
+      if (!names.has('embedding_model')) {
+        await this.client.execute('ALTER TABLE memories ADD COLUMN embedding_model TEXT');
+      }
+      if (!names.has('embedding_dim')) {
+        await this.client.execute('ALTER TABLE memories ADD COLUMN embedding_dim INTEGER');
+      }
+      // Memories from before project scoping stay global
+      if (!names.has('project')) {
+        await this.client.execute('ALTER TABLE memories ADD COLUMN project TEXT');
+      }
+      await this.client.execute(
+        'CREATE INDEX IF NOT EXISTS idx_memories_project ON memories (project)'
+      );
+
+      // Lexical index; '_' is a token character so snake_case identifiers stay whole
+      await this.client.execute(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+          memory_id UNINDEXED, content, tags, keywords,
+          tokenize = "unicode61 tokenchars '_'"
         )
       `);
+      await this.backfillLexicalIndex();
+      await this.entities.ensureSchema();
       log.info('Schema creation/check completed');
     } catch (err) {
       log.error({ err }, 'Failed to create schema');
@@ -123,66 +388,318 @@ export class MemoryLaneStore {
   }
 
   /**
-   * Store a memory with Memory Lane specific metadata
+   * Store a memory with Memory Lane specific metadata.
+   *
+   * A near-duplicate (similarity >= 0.95) of the same type and entities is
+   * merged into the existing memory (times_observed is bumped). For decisions, commitments and
+   * corrections, a related memory that is not a duplicate is a contradiction:
+   * the new memory supersedes it.
    */
-  async store(args: {
-    information: string;
-    type: MemoryType;
-    entities?: string[];
-    confidence_score?: number;
-    tags?: string;
-  }): Promise<{ id: string; message: string }> {
+  async store(args: StoreMemoryArgs): Promise<StoreMemoryResult> {
     await this.ensureSchema();
 
     // Generate embedding
-    const embedding = await this.generateEmbedding(args.information);
+    const embedding = await this.embeddings.embed(args.information);
+    this.activeDimensions = embedding.length;
+
+    // Explicit entities plus those mentioned in the content
+    const extracted = EntityResolver.extract(args.information);
+    const entitySlugs = [
+      ...new Set([
+        ...(args.entities ?? []).map((slug) => slug.toLowerCase()),
+        ...EntityResolver.toSlugs(extracted),
+      ]),
+    ];
+
+    // Merge near-duplicates, collect contradicted memories
+    const scope = args.scope ?? 'project';
+    const related = await this.findRelated(embedding, args.type, entitySlugs, scope);
+    // Keyword lists drop stopwords like "not", so polarity is compared instead
+    const negated = isNegated(args.information);
+    const duplicate = related.find(
+      (r) => r.similarity >= DUPLICATE_SIMILARITY && r.negated === negated
+    );
+    if (duplicate) {
+      const timesObserved = await this.recordObservation(duplicate.id);
+      return {
+        id: duplicate.id,
+        message: `Merged into existing memory ${duplicate.id} (observed ${timesObserved} times)`,
+        merged: true,
+      };
+    }
+
+    // Similar wording alone is no contradiction: it also takes the opposite
+    // polarity or a subject the caller named, not one extracted from the content
+    const subjects = (args.entities ?? []).map((slug) => slug.toLowerCase());
+    const supersedes = SUPERSEDABLE_TYPES.includes(args.type)
+      ? related
+          .filter(
+            (r) =>
+              r.similarity >= CONTRADICTION_SIMILARITY &&
+              (r.negated !== negated || r.subjects.some((slug) => subjects.includes(slug)))
+          )
+          .map((r) => r.id)
+      : [];
+    for (const id of args.supersedes ?? []) {
+      const memory = await this.loadScopedMemory(id);
+      if (memory && !memory.metadata.superseded_by && !supersedes.includes(id)) {
+        supersedes.push(id);
+      }
+    }
 
     // Create metadata
+    const tags = args.tags ? args.tags.split(',').map((t) => t.trim()) : [];
     const metadata = createMemoryMetadata({
       memory_type: args.type,
-      entity_slugs: args.entities,
+      entities: extracted,
+      entity_slugs: entitySlugs,
       confidence_score: args.confidence_score,
-      tags: args.tags ? args.tags.split(',').map((t) => t.trim()) : [],
+      tags,
+      supersedes,
     });
 
-    // Generate unique ID
-    const id = `mem_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+    const id = createMemoryId();
+    await this.writeMemory({
+      id,
+      content: args.information,
+      metadata,
+      embedding,
+      project: scope === 'global' ? null : this.project,
+    });
+
+    for (const oldId of supersedes) {
+      await this.markSuperseded(oldId, id);
+    }
+
+    return {
+      id,
+      message:
+        supersedes.length > 0
+          ? `Stored memory ${id} in collection: ${this.COLLECTION}, superseding ${supersedes.join(', ')}`
+          : `Stored memory ${id} in collection: ${this.COLLECTION}`,
+      ...(supersedes.length > 0 && { supersedes }),
+    };
+  }
+
+  /**
+   * Write a memory row (replacing one with the same ID) and index it
+   */
+  private async writeMemory(row: {
+    id: string;
+    content: string;
+    metadata: MemoryLaneMetadata;
+    embedding: number[];
+    project: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+  }): Promise<void> {
+    const { id, content, metadata, embedding } = row;
+    const tags = metadata.tags ?? [];
+    const keywords = extractKeywords(content);
+    const now = new Date().toISOString();
 
-    // Insert memory
     await this.client.execute({
       sql: `INSERT INTO memories (
         id, content, metadata, collection, tags, 
         embedding, decay_factor, valid_from, valid_until, 
-        superseded_by, auto_tags, keywords, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        superseded_by, auto_tags, keywords, created_at, updated_at,
+        embedding_model, embedding_dim, project
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         content = excluded.content,
         metadata = excluded.metadata,
         tags = excluded.tags,
+        keywords = excluded.keywords,
         embedding = excluded.embedding,
+        embedding_model = excluded.embedding_model,
+        embedding_dim = excluded.embedding_dim,
+        valid_from = excluded.valid_from,
+        valid_until = excluded.valid_until,
+        superseded_by = excluded.superseded_by,
+        project = excluded.project,
         updated_at = excluded.updated_at`,
       args: [
         id,
-        args.information,
+        content,
         JSON.stringify(metadata),
         this.COLLECTION,
-        JSON.stringify(args.tags ? args.tags.split(',').map((t) => t.trim()) : []),
+        JSON.stringify(tags),
         Buffer.from(new Float32Array(embedding).buffer),
         metadata.decay_factor,
         metadata.valid_from ?? null,
         metadata.valid_until ?? null,
         metadata.superseded_by ?? null,
         JSON.stringify([]),
-        '',
-        new Date().toISOString(),
-        new Date().toISOString(),
+        keywords.join(' '),
+        row.createdAt ?? now,
+        row.updatedAt ?? now,
+        this.embeddings.model,
+        embedding.length,
+        row.project,
       ],
     });
 
-    return {
-      id,
-      message: `Stored memory ${id} in collection: ${this.COLLECTION}`,
-    };
+    await this.indexVector(id, embedding);
+    await this.indexLexical(id, content, tags, keywords);
+    await this.entities.register(
+      metadata.entity_slugs ?? [],
+      metadata.entities as ResolvedEntity[]
+    );
+  }
+
+  /**
+   * Live memories of the same type, entities and scope that are about the same subject
+   */
+  private async findRelated(
+    embedding: number[],
+    type: MemoryType,
+    entities: string[],
+    scope: MemoryScope
+  ): Promise<RelatedMemory[]> {
+    const { candidates } = (await this.ensureVectorIndex(embedding.length))
+      ? await this.nearestCandidates(embedding, RELATED_CANDIDATES, scope)
+      : await this.scanCandidates(embedding, scope);
+
+    const related: RelatedMemory[] = [];
+    for (const candidate of candidates) {
+      if (candidate.similarity < RELATED_SIMILARITY) continue;
+
+      let metadata: MemoryLaneMetadata;
+      try {
+        metadata = MemoryLaneMetadataSchema.parse(JSON.parse(candidate.metadata));
+      } catch {
+        continue;
+      }
+      if (metadata.memory_type !== type || !isMemoryValid(metadata)) continue;
+
+      // Entity-scoped memories relate through a shared entity, the rest to each other
+      const slugs = metadata.entity_slugs ?? [];
+      const sameEntities =
+        entities.length === 0 ? slugs.length === 0 : entities.some((slug) => slugs.includes(slug));
+      if (!sameEntities) continue;
+
+      const extracted = new Set(EntityResolver.toSlugs(metadata.entities as ResolvedEntity[]));
+      related.push({
+        id: candidate.id,
+        similarity: candidate.similarity,
+        negated: isNegated(candidate.content),
+        subjects: slugs.filter((slug) => !extracted.has(slug)),
+      });
+    }
+    return related.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Count another observation of an existing memory
+   */
+  private async recordObservation(id: string): Promise<number> {
+    const memory = await this.loadMemory(id);
+    if (!memory) return 0;
+
+    const now = new Date().toISOString();
+    memory.metadata.times_observed = (memory.metadata.times_observed || 1) + 1;
+    memory.metadata.last_observed_at = now;
+
+    await this.client.execute({
+      sql: 'UPDATE memories SET metadata = ?, updated_at = ? WHERE id = ?',
+      args: [JSON.stringify(memory.metadata), now, id],
+    });
+    return memory.metadata.times_observed;
+  }
+
+  /**
+   * Close a memory's validity and link it to its replacement
+   */
+  private async markSuperseded(id: string, supersededBy: string): Promise<void> {
+    const memory = await this.loadMemory(id);
+    if (!memory) return;
+
+    const now = new Date().toISOString();
+    memory.metadata.superseded_by = supersededBy;
+    memory.metadata.valid_until = now;
+
+    await this.client.execute({
+      sql: `UPDATE memories SET metadata = ?, superseded_by = ?, valid_until = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [JSON.stringify(memory.metadata), supersededBy, now, now, id],
+    });
+    log.info({ id, supersededBy }, 'Memory superseded');
+  }
+
+  private async loadMemory(id: string): Promise<StoredMemory | null> {
+    const result = await this.client.execute({
+      sql: 'SELECT id, content, metadata, project, created_at FROM memories WHERE id = ?',
+      args: [id],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    try {
+      return {
+        id: String(row.id),
+        content: String(row.content),
+        project: row.project === null ? null : String(row.project),
+        created_at: String(row.created_at),
+        metadata: MemoryLaneMetadataSchema.parse(JSON.parse(String(row.metadata))),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * A memory of the current project or global scope
+   */
+  private async loadScopedMemory(id: string): Promise<StoredMemory | null> {
+    return (await this.hasMemory(id)) ? this.loadMemory(id) : null;
+  }
+
+  /**
+   * The supersession chain a memory belongs to, oldest first
+   */
+  async getHistory(id: string): Promise<MemoryHistoryEntry[]> {
+    await this.ensureSchema();
+
+    let current = await this.loadScopedMemory(id);
+    if (!current) return [];
+
+    // Walk forward to the memory that is in effect now
+    const visited = new Set([current.id]);
+    while (current.metadata.superseded_by && !visited.has(current.metadata.superseded_by)) {
+      const next = await this.loadScopedMemory(current.metadata.superseded_by);
+      if (!next) break;
+      visited.add(next.id);
+      current = next;
+    }
+
+    // Walk back through everything it replaced
+    const chain: StoredMemory[] = [];
+    const queue = [current];
+    const seen = new Set([current.id]);
+    while (queue.length > 0) {
+      const memory = queue.shift()!;
+      chain.push(memory);
+      for (const previousId of memory.metadata.supersedes ?? []) {
+        if (seen.has(previousId)) continue;
+        seen.add(previousId);
+        const previous = await this.loadScopedMemory(previousId);
+        if (previous) queue.push(previous);
+      }
+    }
+
+    return chain
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((memory) => ({
+        id: memory.id,
+        content: memory.content,
+        memory_type: memory.metadata.memory_type,
+        created_at: memory.created_at,
+        valid_until: memory.metadata.valid_until,
+        times_observed: memory.metadata.times_observed ?? 1,
+        supersedes: memory.metadata.supersedes ?? [],
+        superseded_by: memory.metadata.superseded_by,
+        current: !memory.metadata.superseded_by,
+      }));
   }
 
   /**
@@ -191,9 +708,10 @@ export class MemoryLaneStore {
   async recordFeedback(id: string, signal: 'helpful' | 'harmful'): Promise<void> {
     await this.ensureSchema();
 
+    const inScope = this.scopeFilter('all');
     const result = await this.client.execute({
-      sql: 'SELECT id, metadata FROM memories WHERE id = ?',
-      args: [id],
+      sql: `SELECT id, metadata FROM memories WHERE id = ? AND ${inScope.sql}`,
+      args: [id, ...inScope.args],
     });
 
     const memory = result.rows[0] as unknown as { id: string; metadata: string } | undefined;
@@ -230,48 +748,51 @@ export class MemoryLaneStore {
   async smartFind(args: SmartFindArgs): Promise<{
     results: MemorySearchResult[];
     count: number;
+    /** Memories skipped because they were embedded by a different model */
+    embedding_mismatch?: number;
   }> {
     await this.ensureSchema();
 
-    const { query = '', limit = 10 } = args;
+    const { query = '', limit = 10, scope = 'all' } = args;
 
     // Detect intent boosting
     const boostedTypes = detectIntent(query);
 
     // Generate query embedding
-    const queryEmbedding = await this.generateEmbedding(query);
-
-    // Fetch all memories from collection (we'll score them in JS)
-    const result = await this.client.execute({
-      sql: `SELECT id, content, metadata, collection, tags, embedding, created_at 
-            FROM memories 
-            WHERE collection = ?`,
-      args: [this.COLLECTION],
+    const queryEmbedding = await this.embeddings.embed(query);
+    this.activeDimensions = queryEmbedding.length;
+
+    // Semantic ranking: nearest neighbours from the vector index, full scan if unavailable
+    const k = Math.max(limit * 10, MIN_CANDIDATES);
+    const { candidates, mismatched } = (await this.ensureVectorIndex(queryEmbedding.length))
+      ? await this.nearestCandidates(queryEmbedding, k, scope)
+      : await this.scanCandidates(queryEmbedding, scope);
+    const semantic = candidates
+      .filter((c) => c.similarity >= 0.1)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    // Lexical ranking: BM25 over content, tags and keywords
+    const lexical = await this.lexicalCandidates(query, k, queryEmbedding.length, scope);
+
+    // Reciprocal rank fusion of both rankings
+    const fused = new Map<string, { memory: SearchCandidate; rrf: number; lexical: boolean }>();
+    semantic.forEach((memory, rank) => {
+      fused.set(memory.id, { memory, rrf: 1 / (RRF_K + rank + 1), lexical: false });
+    });
+    lexical.forEach((memory, rank) => {
+      const entry = fused.get(memory.id) ?? { memory, rrf: 0, lexical: false };
+      entry.rrf += 1 / (RRF_K + rank + 1);
+      entry.lexical = true;
+      fused.set(memory.id, entry);
     });
 
-    // Score and filter results
+    // Re-rank the candidates
     const isEntityFiltered = args.entities && args.entities.length > 0;
     const minScoreThreshold = isEntityFiltered ? 0.15 : 0.2;
 
-    const scoredResults: Array<{
-      id: string;
-      content: string;
-      collection: string;
-      score: number;
-      metadata: MemoryLaneMetadata;
-      effective_confidence: number;
-      decay_factor: number;
-    }> = [];
-
-    for (const row of result.rows) {
-      const memory = row as unknown as {
-        id: string;
-        content: string;
-        metadata: string;
-        collection: string;
-        embedding: ArrayBuffer | null;
-      };
+    const scoredResults: MemorySearchResult[] = [];
 
+    for (const { memory, rrf, lexical: lexicalMatch } of fused.values()) {
       // Parse metadata
       let metadata: MemoryLaneMetadata;
       try {
@@ -287,57 +808,39 @@ export class MemoryLaneStore {
         continue;
       }
 
-      // Calculate cosine similarity
-      let similarity = 0;
-      if (memory.embedding) {
-        const storedEmbedding = new Float32Array(memory.embedding);
-        similarity = cosineSimilarity(queryEmbedding, Array.from(storedEmbedding));
-      }
-
-      // Skip low similarity
-      if (similarity < 0.1) continue;
-
       // Calculate decay factor
-      const calculatedDecayFactor = calculateDecayFactor(
-        metadata.last_accessed_at || new Date().toISOString(),
-        metadata.first_observed_at || new Date().toISOString()
-      );
-
-      const calculatedEffectiveConfidence = calculateEffectiveConfidence(
-        metadata.confidence_score,
-        calculatedDecayFactor
-      );
-
-      // Calculate final score
-      let finalScore = similarity;
-
-      // Apply taxonomy weight
-      const typeWeight = PRIORITY_WEIGHTS[metadata.memory_type] || 0.5;
-      finalScore *= typeWeight;
-
-      // Apply decay
-      finalScore *= metadata.decay_factor ?? 1.0;
-
-      // Apply intent boost
+      const {
+        decay_factor: calculatedDecayFactor,
+        effective_confidence: calculatedEffectiveConfidence,
+      } = decayedConfidence(metadata);
+
+      // Taxonomy weight, decay, intent boost and feedback
+      let weight = PRIORITY_WEIGHTS[metadata.memory_type] || 0.5;
+      weight *= calculatedDecayFactor;
       if (boostedTypes.includes(metadata.memory_type)) {
-        finalScore *= 1.15;
+        weight *= 1.15;
+      }
+      weight *= metadata.feedback_score || 1.0;
+      if (scope === 'all' && memory.project === null) {
+        weight *= GLOBAL_SCOPE_WEIGHT;
       }
-
-      // Apply feedback
-      finalScore *= metadata.feedback_score || 1.0;
 
       // Apply entity filter
       if (isEntityFiltered) {
         const hasMatch = args.entities!.some((slug) => metadata.entity_slugs?.includes(slug));
-        if (!hasMatch) finalScore = 0;
+        if (!hasMatch) weight = 0;
       }
 
-      if (finalScore >= minScoreThreshold) {
+      // Semantic-only matches must clear the similarity threshold; lexical matches always qualify
+      const qualifies = lexicalMatch || memory.similarity * weight >= minScoreThreshold;
+      if (weight > 0 && qualifies) {
         scoredResults.push({
           id: memory.id,
           content: memory.content,
           collection: memory.collection,
-          score: finalScore,
+          scope: memory.project === null ? 'global' : 'project',
+          // Fused rank relevance, 1.0 = first in both rankings
+          score: (rrf / (2 / (RRF_K + 1))) * weight,
           metadata,
           effective_confidence: calculatedEffectiveConfidence,
           decay_factor: calculatedDecayFactor,
@@ -348,179 +851,845 @@ export class MemoryLaneStore {
     // Sort and limit
     const finalResults = scoredResults.sort((a, b) => b.score - a.score).slice(0, limit);
 
+    if (mismatched > 0) {
+      log.warn(
+        { mismatched, model: this.embeddings.model },
+        'Skipped memories embedded by a different model; run memory-lane_reindex'
+      );
+    }
+
+    this.recordAccess(finalResults.map((r) => r.id));
+
     return {
       results: finalResults,
       count: finalResults.length,
+      ...(mismatched > 0 && { embedding_mismatch: mismatched }),
     };
   }
 
   /**
-   * Ensure lm-studio is running and model is loaded
+   * Queue accesses of retrieved memories; written by flushAccesses()
    */
-  private async ensureLmStudio(): Promise<void> {
-    // Check if server is running
-    const serverRunning = await this.checkServerRunning();
-    if (!serverRunning) {
-      await this.startLmStudioServer();
+  private recordAccess(ids: string[]): void {
+    if (ids.length === 0) return;
+    const at = new Date().toISOString();
+    for (const id of ids) {
+      const pending = this.pendingAccesses.get(id);
+      this.pendingAccesses.set(id, { count: (pending?.count ?? 0) + 1, at });
     }
 
-    // Check if model is loaded
-    const modelLoaded = await this.checkModelLoaded();
-    if (!modelLoaded) {
-      await this.loadEmbeddingModel();
+    if (this.pendingAccesses.size >= ACCESS_FLUSH_SIZE) {
+      this.flushAccessesInBackground();
+    } else if (!this.accessTimer) {
+      this.accessTimer = setTimeout(() => this.flushAccessesInBackground(), ACCESS_FLUSH_DELAY_MS);
+      this.accessTimer.unref?.();
     }
   }
 
+  private flushAccessesInBackground(): void {
+    this.flushAccesses().catch((err) => {
+      log.warn({ err }, 'Failed to record memory accesses');
+    });
+  }
+
   /**
-   * Check if LM Studio server is running
+   * Write queued accesses (access_count, last_accessed_at) in one batch.
+   * Updates the JSON in place so concurrent metadata edits are not lost.
    */
-  private async checkServerRunning(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.LM_STUDIO_URL}/api/v0/models`);
-      return response.ok;
-    } catch {
-      return false;
+  async flushAccesses(): Promise<number> {
+    if (this.accessTimer) {
+      clearTimeout(this.accessTimer);
+      this.accessTimer = null;
     }
+    if (this.pendingAccesses.size === 0) return 0;
+
+    const pending = this.pendingAccesses;
+    this.pendingAccesses = new Map();
+    await this.client.batch(
+      [...pending].map(([id, access]) => ({
+        sql: `UPDATE memories SET metadata = json_set(metadata,
+                '$.access_count', COALESCE(json_extract(metadata, '$.access_count'), 0) + ?,
+                '$.last_accessed_at', ?)
+              WHERE id = ?`,
+        args: [access.count, access.at, id],
+      })),
+      'write'
+    );
+    return pending.size;
   }
 
   /**
-   * Start LM Studio server (headless mode)
+   * Maintenance pass: persist decay factors recalculated from access patterns
+   * (the `decay_factor` column and metadata field)
    */
-  private async startLmStudioServer(): Promise<void> {
-    log.info('Starting LM Studio server...');
+  async refreshDecayFactors(): Promise<{ checked: number; updated: number }> {
+    await this.ensureSchema();
+    await this.flushAccesses();
+
+    const result = await this.client.execute({
+      sql: 'SELECT id, metadata, created_at, decay_factor FROM memories WHERE collection = ?',
+      args: [this.COLLECTION],
+    });
 
-    if (process.platform === 'darwin') {
+    const updates = [];
+    for (const row of result.rows) {
+      let metadata: MemoryLaneMetadata;
       try {
-        // Try to start headless server first
-        const { exec } = await import('node:child_process');
-        exec('lms server start &');
-
-        // Wait for server to start
-        for (let i = 0; i < 30; i++) {
-          await new Promise((r) => setTimeout(r, 1000));
-          if (await this.checkServerRunning()) {
-            log.info('LM Studio server started successfully');
-            return;
-          }
-        }
-      } catch {}
+        metadata = MemoryLaneMetadataSchema.parse(JSON.parse(String(row.metadata)));
+      } catch {
+        continue;
+      }
+
+      const { decay_factor } = decayedConfidence(metadata, String(row.created_at));
+      if (decay_factor === metadata.decay_factor && decay_factor === Number(row.decay_factor)) {
+        continue;
+      }
+      updates.push({
+        sql: `UPDATE memories SET decay_factor = ?, metadata = json_set(metadata, '$.decay_factor', ?)
+              WHERE id = ?`,
+        args: [decay_factor, decay_factor, String(row.id)],
+      });
+    }
+
+    if (updates.length > 0) {
+      await this.client.batch(updates, 'write');
+      log.info({ updated: updates.length }, 'Refreshed memory decay factors');
+    }
+    return { checked: result.rows.length, updated: updates.length };
+  }
+
+  /**
+   * Make sure the ANN index holds the vectors of the active model. The index
+   * table has a fixed dimension, so a model change rebuilds it from the rows
+   * already embedded by that model (the rest follow as they are re-embedded).
+   * Returns false when libsql vector support is unavailable.
+   */
+  private async ensureVectorIndex(dimensions: number): Promise<boolean> {
+    const model = this.embeddings.model;
+    const key = `${model}:${dimensions}`;
+    if (this.vectorIndexKey === key) return this.vectorIndexReady;
+
+    this.vectorIndexKey = key;
+    try {
+      await this.client.execute(
+        'CREATE TABLE IF NOT EXISTS memory_vector_index (id INTEGER PRIMARY KEY CHECK (id = 1), model TEXT, dimensions INTEGER)'
+      );
+      const meta = await this.client.execute('SELECT model, dimensions FROM memory_vector_index');
+      const current = meta.rows[0];
+
+      if (!current || current.model !== model || Number(current.dimensions) !== dimensions) {
+        log.info({ model, dimensions }, 'Building memory vector index');
+        await this.client.batch(
+          [
+            'DROP INDEX IF EXISTS memory_vectors_idx',
+            'DROP TABLE IF EXISTS memory_vectors',
+            `CREATE TABLE memory_vectors (memory_id TEXT PRIMARY KEY, embedding F32_BLOB(${dimensions}))`,
+            "CREATE INDEX memory_vectors_idx ON memory_vectors (libsql_vector_idx(embedding, 'metric=cosine'))",
+            {
+              sql: `INSERT INTO memory_vectors (memory_id, embedding)
+                    SELECT id, embedding FROM memories
+                    WHERE collection = ? AND NOT ${STALE_EMBEDDING_SQL}`,
+              args: [this.COLLECTION, LEGACY_EMBEDDING_MODEL, model, dimensions],
+            },
+            {
+              sql: 'INSERT OR REPLACE INTO memory_vector_index (id, model, dimensions) VALUES (1, ?, ?)',
+              args: [model, dimensions],
+            },
+          ],
+          'write'
+        );
+      }
+      this.vectorIndexReady = true;
+    } catch (err) {
+      log.warn({ err }, 'Vector index unavailable, falling back to full scan');
+      this.vectorIndexReady = false;
+    }
+    return this.vectorIndexReady;
+  }
 
-      // Fallback: try opening the app
+  /**
+   * Keep the vector index in step with a newly written embedding
+   */
+  private async indexVector(id: string, embedding: number[]): Promise<void> {
+    if (!(await this.ensureVectorIndex(embedding.length))) return;
+    await this.client.execute({
+      sql: 'INSERT OR REPLACE INTO memory_vectors (memory_id, embedding) VALUES (?, ?)',
+      args: [id, Buffer.from(new Float32Array(embedding).buffer)],
+    });
+  }
+
+  /**
+   * Top-K candidates by cosine distance via `vector_top_k`. The index spans all
+   * projects and superseded memories, so neighbours are over-fetched until K of
+   * them are in scope or the index runs out.
+   */
+  private async nearestCandidates(
+    queryEmbedding: number[],
+    k: number,
+    scope: MemoryScope | 'all'
+  ): Promise<{ candidates: SearchCandidate[]; mismatched: number }> {
+    const query = Buffer.from(new Float32Array(queryEmbedding).buffer);
+    const inScope = this.scopeFilter(scope, 'm.project');
+
+    let rows: Row[] = [];
+    for (let fetch = k * OVERFETCH_FACTOR; ; fetch *= OVERFETCH_FACTOR) {
+      const result = await this.client.execute({
+        sql: `SELECT m.id, m.content, m.metadata, m.collection, m.project,
+                vector_distance_cos(v.embedding, ?) AS distance,
+                (m.collection = ? AND m.superseded_by IS NULL AND ${inScope.sql}) AS in_scope
+              FROM vector_top_k('memory_vectors_idx', ?, ?) AS top
+              JOIN memory_vectors v ON v.rowid = top.id
+              JOIN memories m ON m.id = v.memory_id`,
+        args: [query, this.COLLECTION, ...inScope.args, query, fetch],
+      });
+      rows = result.rows.filter((row) => Number(row.in_scope) === 1);
+      if (rows.length >= k || result.rows.length < fetch) break;
+    }
+    rows = rows.sort((a, b) => Number(a.distance ?? 2) - Number(b.distance ?? 2)).slice(0, k);
+
+    const mismatch = await this.client.execute({
+      sql: `SELECT COUNT(*) AS count FROM memories
+            WHERE collection = ? AND embedding IS NOT NULL AND ${STALE_EMBEDDING_SQL}`,
+      args: [this.COLLECTION, LEGACY_EMBEDDING_MODEL, this.embeddings.model, queryEmbedding.length],
+    });
+
+    return {
+      candidates: rows.map((row) => ({
+        id: String(row.id),
+        content: String(row.content),
+        metadata: row.metadata as string,
+        collection: String(row.collection),
+        project: row.project === null ? null : String(row.project),
+        // Distance is NULL for zero vectors (e.g. an empty query)
+        similarity: row.distance === null ? 0 : 1 - Number(row.distance),
+      })),
+      mismatched: Number(mismatch.rows[0].count),
+    };
+  }
+
+  /**
+   * Top-K candidates by BM25 (keywords weigh most, tags least). Memories with
+   * stale embeddings stay out, like in vector search, until re-embedded.
+   */
+  private async lexicalCandidates(
+    query: string,
+    k: number,
+    dimensions: number,
+    scope: MemoryScope | 'all'
+  ): Promise<SearchCandidate[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+    const inScope = this.scopeFilter(scope, 'm.project');
+
+    try {
+      const result = await this.client.execute({
+        sql: `SELECT m.id, m.content, m.metadata, m.collection, m.project
+              FROM memories_fts
+              JOIN memories m ON m.id = memories_fts.memory_id
+              WHERE memories_fts MATCH ? AND m.collection = ? AND m.superseded_by IS NULL
+                AND ${inScope.sql} AND NOT ${STALE_EMBEDDING_SQL}
+              ORDER BY bm25(memories_fts, 0, 1.0, 0.5, 2.0)
+              LIMIT ?`,
+        args: [
+          match,
+          this.COLLECTION,
+          ...inScope.args,
+          LEGACY_EMBEDDING_MODEL,
+          this.embeddings.model,
+          dimensions,
+          k,
+        ],
+      });
+      return result.rows.map((row) => ({
+        id: String(row.id),
+        content: String(row.content),
+        metadata: row.metadata as string,
+        collection: String(row.collection),
+        project: row.project === null ? null : String(row.project),
+        similarity: 0,
+      }));
+    } catch (err) {
+      log.warn({ err }, 'Lexical search failed');
+      return [];
+    }
+  }
+
+  /**
+   * Replace a memory's row in the FTS index
+   */
+  private async indexLexical(
+    id: string,
+    content: string,
+    tags: string[],
+    keywords: string[]
+  ): Promise<void> {
+    await this.client.batch(
+      [
+        { sql: 'DELETE FROM memories_fts WHERE memory_id = ?', args: [id] },
+        {
+          sql: 'INSERT INTO memories_fts (memory_id, content, tags, keywords) VALUES (?, ?, ?, ?)',
+          args: [id, content, tags.join(' '), keywords.join(' ')],
+        },
+      ],
+      'write'
+    );
+  }
+
+  /**
+   * Index memories stored before the FTS table existed, extracting their keywords
+   */
+  private async backfillLexicalIndex(): Promise<void> {
+    const missing = await this.client.execute(
+      'SELECT id, content, tags, keywords FROM memories WHERE id NOT IN (SELECT memory_id FROM memories_fts)'
+    );
+    if (missing.rows.length === 0) return;
+
+    for (const row of missing.rows) {
+      const id = String(row.id);
+      const content = String(row.content);
+      let keywords = row.keywords ? String(row.keywords).split(' ') : [];
+      if (keywords.length === 0) {
+        keywords = extractKeywords(content);
+        await this.client.execute({
+          sql: 'UPDATE memories SET keywords = ? WHERE id = ?',
+          args: [keywords.join(' '), id],
+        });
+      }
+
+      let tags: string[] = [];
       try {
-        const { exec } = await import('node:child_process');
-        exec('open -a "LM Studio"');
-
-        for (let i = 0; i < 30; i++) {
-          await new Promise((r) => setTimeout(r, 1000));
-          if (await this.checkServerRunning()) {
-            log.info('LM Studio app started');
-            return;
-          }
+        tags = JSON.parse(String(row.tags ?? '[]'));
+      } catch {
+        // Unparseable tags are left out of the index
+      }
+      await this.indexLexical(id, content, tags, keywords);
+    }
+    log.info({ count: missing.rows.length }, 'Indexed memories for lexical search');
+  }
+
+  /**
+   * Every memory of the collection, scored in JS (fallback without vector support)
+   */
+  private async scanCandidates(
+    queryEmbedding: number[],
+    scope: MemoryScope | 'all'
+  ): Promise<{ candidates: SearchCandidate[]; mismatched: number }> {
+    const inScope = this.scopeFilter(scope);
+    const result = await this.client.execute({
+      sql: `SELECT id, content, metadata, collection, project, embedding, embedding_model, embedding_dim
+            FROM memories
+            WHERE collection = ? AND superseded_by IS NULL AND ${inScope.sql}`,
+      args: [this.COLLECTION, ...inScope.args],
+    });
+
+    const candidates: SearchCandidate[] = [];
+    let mismatched = 0;
+
+    for (const row of result.rows) {
+      const memory = row as unknown as {
+        id: string;
+        content: string;
+        metadata: string;
+        collection: string;
+        project: string | null;
+        embedding: ArrayBuffer | null;
+        embedding_model: string | null;
+        embedding_dim: number | null;
+      };
+
+      // Only compare vectors of the same model
+      let similarity = 0;
+      if (memory.embedding) {
+        const storedEmbedding = new Float32Array(memory.embedding);
+        const model = memory.embedding_model ?? LEGACY_EMBEDDING_MODEL;
+        const dim = memory.embedding_dim ?? storedEmbedding.length;
+        if (model !== this.embeddings.model || dim !== queryEmbedding.length) {
+          mismatched++;
+          continue;
         }
-      } catch {}
+        similarity = cosineSimilarity(queryEmbedding, Array.from(storedEmbedding));
+      }
+
+      candidates.push({ ...memory, similarity });
     }
 
-    throw new Error('Failed to start LM Studio server. Please start it manually.');
+    return { candidates, mismatched };
   }
 
   /**
-   * Check if embedding model is loaded
+   * All memories in scope, oldest first
    */
-  private async checkModelLoaded(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.LM_STUDIO_URL}/api/v0/models`);
-      if (!response.ok) return false;
+  async listRecords(
+    options: {
+      scope?: MemoryScope | 'all';
+      includeSuperseded?: boolean;
+      includeEmbeddings?: boolean;
+    } = {}
+  ): Promise<MemoryRecord[]> {
+    await this.ensureSchema();
+    const inScope = this.scopeFilter(options.scope ?? 'all');
+    const live = options.includeSuperseded === false ? 'AND superseded_by IS NULL' : '';
 
-      const data = await response.json();
-      const embeddingModel = data.data?.find((m: { type: string }) => m.type === 'embeddings');
+    const result = await this.client.execute({
+      sql: `SELECT id, content, metadata, project, created_at, updated_at,
+              embedding, embedding_model, embedding_dim
+            FROM memories
+            WHERE collection = ? AND ${inScope.sql} ${live}
+            ORDER BY created_at, id`,
+      args: [this.COLLECTION, ...inScope.args],
+    });
 
-      if (embeddingModel) {
-        this.currentModelId = embeddingModel.id;
-        log.info({ modelId: this.currentModelId }, 'Embedding model found');
-        return true;
+    const records: MemoryRecord[] = [];
+    for (const row of result.rows) {
+      let metadata: MemoryLaneMetadata;
+      try {
+        metadata = MemoryLaneMetadataSchema.parse(JSON.parse(String(row.metadata)));
+      } catch {
+        continue;
       }
 
-      return false;
-    } catch {
-      return false;
+      const project = row.project === null ? null : String(row.project);
+      const record: MemoryRecord = {
+        id: String(row.id),
+        content: String(row.content),
+        scope: project === null ? 'global' : 'project',
+        project,
+        metadata,
+        created_at: String(row.created_at),
+        updated_at: String(row.updated_at),
+      };
+      if (options.includeEmbeddings && row.embedding) {
+        const vector = Array.from(new Float32Array(row.embedding as ArrayBuffer));
+        record.embedding = {
+          model: row.embedding_model ? String(row.embedding_model) : LEGACY_EMBEDDING_MODEL,
+          dimensions: row.embedding_dim ? Number(row.embedding_dim) : vector.length,
+          vector,
+        };
+      }
+      records.push(record);
     }
+    return records;
   }
 
   /**
-   * Load embedding model using lms CLI
+   * Write a complete record under its ID. Project-scoped records join the
+   * current project. The record's vector is kept if it comes from the active
+   * model, otherwise the content is re-embedded.
    */
-  private async loadEmbeddingModel(): Promise<void> {
-    log.info({ modelPath: this.EMBEDDING_MODEL_PATH }, 'Loading embedding model...');
+  async putRecord(record: MemoryRecord): Promise<{ reembedded: boolean }> {
+    await this.ensureSchema();
+    const { dimensions } = await this.getActiveEmbedding();
+
+    const vector = record.embedding?.vector;
+    const reuse =
+      record.embedding?.model === this.embeddings.model && vector?.length === dimensions;
+    const embedding = reuse ? vector! : await this.embeddings.embed(record.content);
+
+    await this.writeMemory({
+      id: record.id,
+      content: record.content,
+      metadata: record.metadata,
+      embedding,
+      project: record.scope === 'global' ? null : this.project,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    });
+    return { reembedded: !reuse };
+  }
 
-    try {
-      const { exec } = await import('node:child_process');
-      const { promisify } = await import('node:util');
-      const execAsync = promisify(exec);
-
-      const { stdout } = await execAsync(`lms load "${this.EMBEDDING_MODEL_PATH}"`);
-
-      // Parse the output to get the model identifier
-      // Output format: 'To use the model in the API/SDK, use the identifier "text-embedding-xxx".'
-      const match = stdout.match(/identifier\s+"([^"]+)"/);
-      if (match) {
-        this.currentModelId = match[1];
-        log.info({ modelId: this.currentModelId }, 'Model loaded with identifier');
+  /**
+   * Fold another copy of a memory into an existing one: observations and entities
+   */
+  async mergeRecord(id: string, incoming: MemoryLaneMetadata): Promise<void> {
+    await this.ensureSchema();
+    const memory = await this.loadMemory(id);
+    if (!memory) return;
+
+    const metadata = memory.metadata;
+    metadata.times_observed = Math.max(metadata.times_observed ?? 1, incoming.times_observed ?? 1);
+    const earliest = [metadata.first_observed_at, incoming.first_observed_at].filter(Boolean);
+    const latest = [metadata.last_observed_at, incoming.last_observed_at].filter(Boolean);
+    metadata.first_observed_at = earliest.sort()[0];
+    metadata.last_observed_at = latest.sort().pop();
+    metadata.entity_slugs = [
+      ...new Set([...(metadata.entity_slugs ?? []), ...(incoming.entity_slugs ?? [])]),
+    ];
+
+    await this.client.execute({
+      sql: 'UPDATE memories SET metadata = ?, updated_at = ? WHERE id = ?',
+      args: [JSON.stringify(metadata), new Date().toISOString(), id],
+    });
+  }
+
+  /**
+   * Browse memories, newest first, for curation
+   */
+  async listMemories(
+    filter: ListMemoriesFilter = {}
+  ): Promise<{ total: number; memories: MemoryListEntry[] }> {
+    const records = await this.listRecords({
+      scope: filter.scope,
+      includeSuperseded: filter.includeSuperseded ?? false,
+    });
+
+    const matches: MemoryListEntry[] = [];
+    for (const record of records.reverse()) {
+      const { metadata } = record;
+      const { decay_factor, effective_confidence } = decayedConfidence(metadata, record.created_at);
+      const feedback = metadata.feedback_score ?? 1.0;
+
+      if (filter.type && metadata.memory_type !== filter.type) continue;
+      if (filter.entity && !metadata.entity_slugs?.includes(filter.entity)) continue;
+      if (filter.since && record.created_at < filter.since) continue;
+      if (filter.until && record.created_at >= filter.until) continue;
+      if (filter.minConfidence !== undefined && effective_confidence < filter.minConfidence) {
+        continue;
+      }
+      if (filter.maxConfidence !== undefined && effective_confidence > filter.maxConfidence) {
+        continue;
       }
+      if (filter.minFeedback !== undefined && feedback < filter.minFeedback) continue;
+      if (filter.maxFeedback !== undefined && feedback > filter.maxFeedback) continue;
+
+      matches.push({
+        id: record.id,
+        content: record.content,
+        scope: record.scope,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+        metadata,
+        effective_confidence,
+        decay_factor,
+      });
+    }
 
-      // Wait for model to be fully loaded and available in API
-      for (let i = 0; i < 10; i++) {
-        await new Promise((r) => setTimeout(r, 1000));
-        if (await this.checkModelLoaded()) {
-          log.info('Embedding model ready');
-          return;
-        }
+    const offset = filter.offset ?? 0;
+    return {
+      total: matches.length,
+      memories: matches.slice(offset, offset + (filter.limit ?? 50)),
+    };
+  }
+
+  /**
+   * Edit a memory of the current project or global scope: its content or
+   * metadata. New content is re-embedded and re-indexed, new entities are
+   * registered. Returns null if the memory does not exist.
+   */
+  async updateMemory(id: string, changes: MemoryUpdate): Promise<MemoryListEntry | null> {
+    await this.ensureSchema();
+    const memory = await this.loadScopedMemory(id);
+    if (!memory) return null;
+
+    const metadata = MemoryLaneMetadataSchema.parse({
+      ...memory.metadata,
+      ...(changes.type && { memory_type: changes.type }),
+      ...(changes.entities && {
+        entity_slugs: [...new Set(changes.entities.map((slug) => slug.toLowerCase()))],
+      }),
+      ...(changes.tags && { tags: changes.tags }),
+      ...(changes.confidence_score !== undefined && {
+        confidence_score: changes.confidence_score,
+      }),
+    });
+    const content = changes.content?.trim() || memory.content;
+    const now = new Date().toISOString();
+
+    if (content !== memory.content) {
+      const embedding = await this.embeddings.embed(content);
+      this.activeDimensions = embedding.length;
+      await this.writeMemory({
+        id,
+        content,
+        metadata,
+        embedding,
+        project: memory.project,
+        createdAt: memory.created_at,
+      });
+    } else {
+      await this.client.execute({
+        sql: 'UPDATE memories SET metadata = ?, tags = ?, updated_at = ? WHERE id = ?',
+        args: [JSON.stringify(metadata), JSON.stringify(metadata.tags ?? []), now, id],
+      });
+      await this.indexLexical(id, content, metadata.tags ?? [], extractKeywords(content));
+      if (changes.entities) {
+        await this.entities.register(
+          metadata.entity_slugs ?? [],
+          metadata.entities as ResolvedEntity[]
+        );
       }
+    }
 
-      throw new Error('Model loaded but not available in API yet');
-    } catch (err) {
-      log.error({ err }, 'Failed to load embedding model');
-      throw new Error(
-        `Failed to load embedding model "${this.EMBEDDING_MODEL_PATH}".\n` +
-          `Please load it manually using: lms load "${this.EMBEDDING_MODEL_PATH}"`
-      );
+    return {
+      id,
+      content,
+      scope: memory.project === null ? 'global' : 'project',
+      created_at: memory.created_at,
+      updated_at: now,
+      metadata,
+      ...decayedConfidence(metadata, memory.created_at),
+    };
+  }
+
+  /**
+   * Delete a memory of the current project or global scope with its index
+   * entries. Its supersession chain is spliced: what it superseded now points
+   * to its successor, or becomes current again.
+   */
+  async deleteMemory(id: string): Promise<boolean> {
+    await this.ensureSchema();
+    const memory = await this.loadScopedMemory(id);
+    if (!memory) return false;
+
+    const successor = memory.metadata.superseded_by;
+    for (const previousId of memory.metadata.supersedes ?? []) {
+      const previous = await this.loadMemory(previousId);
+      if (!previous || previous.metadata.superseded_by !== id) continue;
+      previous.metadata.superseded_by = successor;
+      if (!successor) previous.metadata.valid_until = null;
+      await this.client.execute({
+        sql: 'UPDATE memories SET metadata = ?, superseded_by = ?, valid_until = ? WHERE id = ?',
+        args: [
+          JSON.stringify(previous.metadata),
+          successor,
+          previous.metadata.valid_until,
+          previousId,
+        ],
+      });
+    }
+    if (successor) {
+      const next = await this.loadMemory(successor);
+      if (next) {
+        next.metadata.supersedes = [
+          ...(next.metadata.supersedes ?? []).filter((s) => s !== id),
+          ...(memory.metadata.supersedes ?? []),
+        ];
+        await this.client.execute({
+          sql: 'UPDATE memories SET metadata = ? WHERE id = ?',
+          args: [JSON.stringify(next.metadata), successor],
+        });
+      }
     }
+
+    const vectors = await this.client.execute(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memory_vectors'"
+    );
+    await this.client.batch(
+      [
+        { sql: 'DELETE FROM memories WHERE id = ?', args: [id] },
+        { sql: 'DELETE FROM memories_fts WHERE memory_id = ?', args: [id] },
+        ...(vectors.rows.length > 0
+          ? [{ sql: 'DELETE FROM memory_vectors WHERE memory_id = ?', args: [id] }]
+          : []),
+      ],
+      'write'
+    );
+    log.info({ id }, 'Memory deleted');
+    return true;
   }
 
   /**
-   * Generate embedding using lm-studio HTTP API (OpenAI-compatible)
+   * Remove memories whose effective confidence or feedback score fell below a
+   * threshold. Dry run unless `dryRun: false`.
    */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    await this.ensureLmStudio();
+  async pruneMemories(options: PruneOptions): Promise<PruneCandidate[]> {
+    if (options.minConfidence === undefined && options.minFeedback === undefined) {
+      throw new Error('Prune needs minConfidence or minFeedback');
+    }
 
-    try {
-      const modelId = this.currentModelId || this.EMBEDDING_MODEL;
-      const response = await fetch(`${this.LM_STUDIO_URL}/v1/embeddings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: modelId,
-          input: text,
-        }),
+    const records = await this.listRecords({
+      scope: options.scope ?? 'project',
+      includeSuperseded: true,
+    });
+    const candidates: PruneCandidate[] = [];
+    for (const { id, content, metadata, created_at } of records) {
+      const { effective_confidence } = decayedConfidence(metadata, created_at);
+      const feedback = metadata.feedback_score ?? 1.0;
+
+      const reasons: string[] = [];
+      if (options.minConfidence !== undefined && effective_confidence < options.minConfidence) {
+        reasons.push(`effective confidence ${effective_confidence} < ${options.minConfidence}`);
+      }
+      if (options.minFeedback !== undefined && feedback < options.minFeedback) {
+        reasons.push(`feedback score ${feedback.toFixed(2)} < ${options.minFeedback}`);
+      }
+      if (reasons.length === 0) continue;
+
+      candidates.push({
+        id,
+        content,
+        memory_type: metadata.memory_type,
+        effective_confidence,
+        feedback_score: feedback,
+        reason: reasons.join(', '),
       });
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        log.error({ status: response.status, error: errorText }, 'Embedding request failed');
-        throw new Error(`lm-studio embedding failed: ${response.status}`);
+    if (options.dryRun === false) {
+      for (const candidate of candidates) {
+        await this.deleteMemory(candidate.id);
       }
+      log.info({ count: candidates.length }, 'Pruned memories');
+    }
+    return candidates;
+  }
 
-      const data = await response.json();
-      return data.data[0].embedding;
-    } catch (err) {
-      log.error({ err }, 'Embedding error');
-      throw err;
+  /**
+   * Whether a memory exists in the current project or global scope
+   */
+  async hasMemory(id: string): Promise<boolean> {
+    await this.ensureSchema();
+    const inScope = this.scopeFilter('all');
+    const result = await this.client.execute({
+      sql: `SELECT 1 FROM memories WHERE id = ? AND ${inScope.sql}`,
+      args: [id, ...inScope.args],
+    });
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Whether any project's memory has this ID, so a new memory must not take it
+   */
+  async isIdTaken(id: string): Promise<boolean> {
+    await this.ensureSchema();
+    const result = await this.client.execute({
+      sql: 'SELECT 1 FROM memories WHERE id = ?',
+      args: [id],
+    });
+    return result.rows.length > 0;
+  }
+
+  /**
+   * SQL condition limiting memories to a scope of the current project.
+   * Memories of other projects are never in scope.
+   */
+  private scopeFilter(
+    scope: MemoryScope | 'all',
+    column: string = 'project'
+  ): { sql: string; args: string[] } {
+    switch (scope) {
+      case 'project':
+        return { sql: `${column} = ?`, args: [this.project] };
+      case 'global':
+        return { sql: `${column} IS NULL`, args: [] };
+      default:
+        return { sql: `(${column} = ? OR ${column} IS NULL)`, args: [this.project] };
+    }
+  }
+
+  /**
+   * Promote a memory of the current project to global scope, or demote a
+   * global memory to the current project. Returns false if no such memory
+   * exists in the current project or global scope.
+   */
+  async setScope(id: string, scope: MemoryScope): Promise<boolean> {
+    await this.ensureSchema();
+    const inScope = this.scopeFilter('all');
+    const result = await this.client.execute({
+      sql: `UPDATE memories SET project = ?, updated_at = ? WHERE id = ? AND ${inScope.sql}`,
+      args: [
+        scope === 'global' ? null : this.project,
+        new Date().toISOString(),
+        id,
+        ...inScope.args,
+      ],
+    });
+    return result.rowsAffected > 0;
+  }
+
+  getProject(): string {
+    return this.project;
+  }
+
+  /**
+   * Model and vector dimension of the active embedding provider
+   */
+  async getActiveEmbedding(): Promise<{ model: string; dimensions: number }> {
+    if (this.activeDimensions === undefined) {
+      this.activeDimensions = (await this.embeddings.embed('dimension probe')).length;
     }
+    return { model: this.embeddings.model, dimensions: this.activeDimensions };
+  }
+
+  /**
+   * Count memories whose embedding does not match the active provider
+   */
+  async countStaleEmbeddings(): Promise<number> {
+    await this.ensureSchema();
+    const { model, dimensions } = await this.getActiveEmbedding();
+
+    const result = await this.client.execute({
+      sql: `SELECT COUNT(*) AS count FROM memories WHERE collection = ? AND ${STALE_EMBEDDING_SQL}`,
+      args: [this.COLLECTION, LEGACY_EMBEDDING_MODEL, model, dimensions],
+    });
+    return Number(result.rows[0].count);
+  }
+
+  /**
+   * Page through stale memories in ID order (keyset pagination on `afterId`)
+   */
+  async listStaleEmbeddings(
+    limit: number,
+    afterId: string = ''
+  ): Promise<Array<{ id: string; content: string }>> {
+    await this.ensureSchema();
+    const { model, dimensions } = await this.getActiveEmbedding();
+
+    const result = await this.client.execute({
+      sql: `SELECT id, content FROM memories
+            WHERE collection = ? AND id > ? AND ${STALE_EMBEDDING_SQL}
+            ORDER BY id LIMIT ?`,
+      args: [this.COLLECTION, afterId, LEGACY_EMBEDDING_MODEL, model, dimensions, limit],
+    });
+    return result.rows.map((row) => ({ id: String(row.id), content: String(row.content) }));
+  }
+
+  /**
+   * Replace a memory's embedding using the active provider
+   */
+  async reembedMemory(id: string, content: string): Promise<void> {
+    await this.ensureSchema();
+    const embedding = await this.embeddings.embed(content);
+    this.activeDimensions = embedding.length;
+
+    await this.client.execute({
+      sql: `UPDATE memories SET embedding = ?, embedding_model = ?, embedding_dim = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [
+        Buffer.from(new Float32Array(embedding).buffer),
+        this.embeddings.model,
+        embedding.length,
+        new Date().toISOString(),
+        id,
+      ],
+    });
+    await this.indexVector(id, embedding);
+  }
+
+  /**
+   * Slugs of registered entities matching a name, alias or slug
+   */
+  async resolveEntity(query: string): Promise<string[]> {
+    await this.ensureSchema();
+    return this.entities.disambiguate(query);
+  }
+
+  /**
+   * Entities in the registry, most mentioned first
+   */
+  async listEntities(type?: string): Promise<EntityRecord[]> {
+    await this.ensureSchema();
+    return this.entities.list(type);
   }
 
   /**
-   * Close database connection
+   * Write pending accesses and close the database connection
    */
   async close(): Promise<void> {
+    try {
+      await this.flushAccesses();
+    } catch (err) {
+      log.warn({ err }, 'Failed to record memory accesses');
+    }
     this.client.close();
   }
 }
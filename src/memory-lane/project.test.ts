@@ -0,0 +1,48 @@
+/**
+ * Project Identity Tests
+ *
+ * Remote normalization and the git-remote / path fallbacks.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { normalizeGitRemote, resolveProjectIdentity } from './project';
+
+describe('normalizeGitRemote', () => {
+  it('maps SSH and HTTPS clones to the same ID', () => {
+    expect(normalizeGitRemote('git@github.com:Org/Repo.git')).toBe('github.com/org/repo');
+    expect(normalizeGitRemote('https://user@github.com/org/repo/')).toBe('github.com/org/repo');
+    expect(normalizeGitRemote('ssh://git@gitlab.example.com:2222/team/app.git')).toBe(
+      'gitlab.example.com/team/app'
+    );
+  });
+});
+
+describe('resolveProjectIdentity', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the origin remote of the repository', () => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'project-')));
+    execFileSync('git', ['init', '-q', dir]);
+    execFileSync('git', ['-C', dir, 'remote', 'add', 'origin', 'git@github.com:acme/api.git']);
+
+    expect(resolveProjectIdentity(dir)).toEqual({
+      id: 'git:github.com/acme/api',
+      name: 'api',
+      source: 'git-remote',
+    });
+  });
+
+  it('falls back to the directory path', () => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'project-')));
+
+    expect(resolveProjectIdentity(dir)).toMatchObject({ id: `path:${dir}`, source: 'path' });
+  });
+});
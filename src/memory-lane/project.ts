@@ -0,0 +1,98 @@
+/**
+ * Project Identity
+ *
+ * Memory Lane shares one database across repositories (~/.opencode/memories.db
+ * by default). Each memory is tagged with the project it was learned in, so
+ * conventions from one repository do not leak into another:
+ *
+ * - git:<host>/<owner>/<repo>  from the `origin` remote (same ID for every clone)
+ * - path:<root>                the repository root (or directory) without a remote
+ *
+ * Memories without a project are global and apply everywhere.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { basename, resolve } from 'node:path';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('ProjectIdentity');
+
+export interface ProjectIdentity {
+  /** Stored with each project-scoped memory */
+  id: string;
+  /** Short display name (repository name) */
+  name: string;
+  source: 'git-remote' | 'path';
+}
+
+function git(dir: string, args: string[]): string | null {
+  try {
+    const output = execFileSync('git', ['-C', dir, ...args], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 2000,
+    });
+    return output.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a remote URL so SSH and HTTPS clones of a repository match:
+ * `git@github.com:Org/Repo.git` and `https://user@github.com/org/repo` both
+ * become `github.com/org/repo`.
+ */
+export function normalizeGitRemote(remote: string): string {
+  let url = remote.trim();
+  // scp-like syntax: git@host:path
+  const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scp) {
+    url = `${scp[1]}/${scp[2]}`;
+  } else {
+    url = url.replace(/^[a-z+]+:\/\//i, '').replace(/^[^@/]+@/, '');
+  }
+  return url
+    .replace(/:\d+\//, '/')
+    .replace(/\.git\/?$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Derive the project identity of a directory from its git remote, falling
+ * back to the repository root or the directory itself
+ */
+export function resolveProjectIdentity(dir: string = process.cwd()): ProjectIdentity {
+  const root = git(dir, ['rev-parse', '--show-toplevel']) ?? resolve(dir);
+  const remote = git(root, ['remote', 'get-url', 'origin']);
+
+  if (remote) {
+    const normalized = normalizeGitRemote(remote);
+    return { id: `git:${normalized}`, name: basename(normalized), source: 'git-remote' };
+  }
+  return { id: `path:${root}`, name: basename(root), source: 'path' };
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let globalIdentity: ProjectIdentity | null = null;
+
+export function getProjectIdentity(): ProjectIdentity {
+  if (!globalIdentity) {
+    globalIdentity = resolveProjectIdentity();
+  }
+  return globalIdentity;
+}
+
+export function initializeProjectIdentity(dir?: string): ProjectIdentity {
+  globalIdentity = resolveProjectIdentity(dir);
+  log.info({ project: globalIdentity.id }, 'Memory Lane project');
+  return globalIdentity;
+}
+
+export function resetProjectIdentity(): void {
+  globalIdentity = null;
+}
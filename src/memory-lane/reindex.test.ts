@@ -0,0 +1,102 @@
+/**
+ * Re-embedding Job Tests
+ *
+ * Detection of stale vectors after a provider change, batching, resume and failures.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryLaneStore } from './memory-store';
+import { OfflineEmbeddingProvider } from './embeddings';
+import type { EmbeddingProvider } from './embeddings';
+import { ReindexJob } from './reindex';
+import type { ReindexProgress } from './reindex';
+
+describe('ReindexJob', () => {
+  let dir: string;
+  let previousDbPath: string | undefined;
+  const stores: MemoryLaneStore[] = [];
+
+  const openStore = (embeddingProvider: EmbeddingProvider) => {
+    const store = new MemoryLaneStore({ embeddingProvider });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'reindex-'));
+    previousDbPath = process.env.OPENCODE_DB_PATH;
+    process.env.OPENCODE_DB_PATH = join(dir, 'memories.db');
+
+    const old = openStore(new OfflineEmbeddingProvider({ dimensions: 64 }));
+    for (const information of ['Use pnpm workspaces', 'Prefer vitest', 'Tabs over spaces']) {
+      await old.store({ information, type: 'decision' });
+    }
+  });
+
+  afterEach(async () => {
+    for (const store of stores.splice(0)) await store.close();
+    if (previousDbPath === undefined) delete process.env.OPENCODE_DB_PATH;
+    else process.env.OPENCODE_DB_PATH = previousDbPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('re-embeds memories from another model in batches', async () => {
+    const store = openStore(new OfflineEmbeddingProvider({ dimensions: 128 }));
+    expect((await store.smartFind({ query: 'pnpm workspaces' })).embedding_mismatch).toBe(3);
+    expect(await store.countStaleEmbeddings()).toBe(3);
+
+    const batches: ReindexProgress[] = [];
+    const job = new ReindexJob(store, { batchSize: 2, onProgress: (p) => batches.push(p) });
+    const result = await job.start();
+
+    expect(result).toMatchObject({
+      status: 'completed',
+      model: 'offline-hashing-v1-128',
+      dimensions: 128,
+      total: 3,
+      processed: 3,
+      reembedded: 3,
+      failed: 0,
+    });
+    expect(batches.map((b) => b.processed)).toEqual([2, 3]);
+    expect(await store.countStaleEmbeddings()).toBe(0);
+
+    const found = await store.smartFind({ query: 'pnpm workspaces' });
+    expect(found.results[0].content).toBe('Use pnpm workspaces');
+    expect(found.embedding_mismatch).toBeUndefined();
+  });
+
+  it('resumes with the remaining memories after a stop', async () => {
+    const store = openStore(new OfflineEmbeddingProvider({ dimensions: 128 }));
+    const job: ReindexJob = new ReindexJob(store, {
+      batchSize: 1,
+      onProgress: () => job.stop(),
+    });
+
+    expect(await job.start()).toMatchObject({ status: 'stopped', processed: 1 });
+    expect(await store.countStaleEmbeddings()).toBe(2);
+
+    const resumed = await new ReindexJob(store).start();
+    expect(resumed).toMatchObject({ status: 'completed', total: 2, reembedded: 2 });
+  });
+
+  it('counts failures and still finishes', async () => {
+    const offline = new OfflineEmbeddingProvider({ dimensions: 128 });
+    const store = openStore({
+      kind: 'offline',
+      model: offline.model,
+      embed: async (text) => {
+        if (text === 'Prefer vitest') throw new Error('server unavailable');
+        return offline.embed(text);
+      },
+    });
+
+    const result = await new ReindexJob(store, { batchSize: 1 }).start();
+
+    expect(result).toMatchObject({ status: 'completed', reembedded: 2, failed: 1 });
+    expect(await store.countStaleEmbeddings()).toBe(1);
+  });
+});
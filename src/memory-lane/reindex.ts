@@ -0,0 +1,168 @@
+/**
+ * Memory Lane Re-embedding Job
+ *
+ * After an embedding provider or model change, stored vectors no longer match
+ * query vectors and those memories drop out of search. This job finds them
+ * (model or dimension differs from the active provider) and re-embeds them in
+ * batches.
+ *
+ * The job keeps no checkpoint of its own: every re-embedded row stops matching
+ * the stale filter, so an interrupted run simply continues with what is left.
+ */
+
+import { getMemoryLaneStore, MemoryLaneStore } from './memory-store';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('MemoryLaneReindex');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReindexOptions {
+  /** Memories embedded per batch (default: 32) */
+  batchSize?: number;
+  /** Called after every batch */
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export interface ReindexProgress {
+  status: 'idle' | 'running' | 'completed' | 'stopped' | 'failed';
+  model?: string;
+  dimensions?: number;
+  /** Stale memories found when the run started */
+  total: number;
+  processed: number;
+  reembedded: number;
+  failed: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+// ============================================================================
+// Job
+// ============================================================================
+
+export class ReindexJob {
+  private readonly store: MemoryLaneStore;
+  private readonly batchSize: number;
+  private readonly onProgress?: (progress: ReindexProgress) => void;
+  private progress: ReindexProgress = {
+    status: 'idle',
+    total: 0,
+    processed: 0,
+    reembedded: 0,
+    failed: 0,
+  };
+  private running: Promise<ReindexProgress> | null = null;
+  private stopRequested = false;
+
+  constructor(store: MemoryLaneStore, options: ReindexOptions = {}) {
+    this.store = store;
+    this.batchSize = options.batchSize ?? 32;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Start in the background; returns the current run if one is in progress
+   */
+  start(): Promise<ReindexProgress> {
+    if (!this.running) {
+      this.stopRequested = false;
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Stop after the current batch
+   */
+  stop(): void {
+    if (this.running) this.stopRequested = true;
+  }
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  getProgress(): ReindexProgress {
+    return { ...this.progress };
+  }
+
+  private async run(): Promise<ReindexProgress> {
+    this.progress = {
+      status: 'running',
+      total: 0,
+      processed: 0,
+      reembedded: 0,
+      failed: 0,
+      startedAt: Date.now(),
+    };
+
+    try {
+      const { model, dimensions } = await this.store.getActiveEmbedding();
+      this.progress.model = model;
+      this.progress.dimensions = dimensions;
+      this.progress.total = await this.store.countStaleEmbeddings();
+
+      if (this.progress.total > 0) {
+        log.info({ total: this.progress.total, model }, 'Re-embedding memories');
+      }
+
+      // Failed rows stay stale; the cursor moves past them so each is tried once per run
+      let cursor = '';
+      while (!this.stopRequested) {
+        const batch = await this.store.listStaleEmbeddings(this.batchSize, cursor);
+        if (batch.length === 0) break;
+
+        for (const memory of batch) {
+          try {
+            await this.store.reembedMemory(memory.id, memory.content);
+            this.progress.reembedded++;
+          } catch (err) {
+            this.progress.failed++;
+            log.warn({ err, id: memory.id }, 'Failed to re-embed memory');
+          }
+          this.progress.processed++;
+        }
+        cursor = batch[batch.length - 1].id;
+
+        log.info(
+          { processed: this.progress.processed, total: this.progress.total },
+          'Re-embedding progress'
+        );
+        this.onProgress?.(this.getProgress());
+      }
+
+      this.progress.status = this.stopRequested ? 'stopped' : 'completed';
+    } catch (err) {
+      this.progress.status = 'failed';
+      this.progress.error = err instanceof Error ? err.message : String(err);
+      log.error({ err }, 'Re-embedding job failed');
+    }
+
+    this.progress.finishedAt = Date.now();
+    return this.getProgress();
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let globalJob: ReindexJob | null = null;
+
+export function getReindexJob(options?: ReindexOptions): ReindexJob {
+  if (!globalJob) {
+    globalJob = new ReindexJob(getMemoryLaneStore(), options);
+  }
+  return globalJob;
+}
+
+export function resetReindexJob(): void {
+  globalJob?.stop();
+  globalJob = null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Entity Resolver Tests
+ *
+ * Extraction from memory content, the entity registry and disambiguation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryLaneStore } from './memory-store';
+import { OfflineEmbeddingProvider } from './embeddings';
+import { EntityResolver } from './resolver';
+
+describe('EntityResolver.extract', () => {
+  it('extracts files, packages, symbols and agents', () => {
+    const slugs = EntityResolver.toSlugs(
+      EntityResolver.extract(
+        'chief-of-staff/planner saw ERR_MODULE_NOT_FOUND in packages/swarm-mail/src/index.ts: ' +
+          'import from "@libsql/client", then `smartFind()` works. Ask @oracle; bun add zod. ' +
+          'Bumped to 1.2.3 for project:swarm-tools'
+      )
+    );
+
+    expect(slugs).toEqual(
+      expect.arrayContaining([
+        'project:swarm-tools',
+        'file:packages/swarm-mail/src/index.ts',
+        'project:swarm-mail',
+        'package:@libsql/client',
+        'package:zod',
+        'symbol:smartfind',
+        'agent:planner',
+        'agent:oracle',
+      ])
+    );
+    expect(slugs.some((slug) => slug.includes('1.2.3'))).toBe(false);
+  });
+
+  it('finds nothing in plain prose', () => {
+    expect(EntityResolver.extract('Use pnpm for package management')).toEqual([]);
+  });
+});
+
+describe('Entity registry', () => {
+  let dir: string;
+  let previousDbPath: string | undefined;
+  let store: MemoryLaneStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'memory-entities-'));
+    previousDbPath = process.env.OPENCODE_DB_PATH;
+    process.env.OPENCODE_DB_PATH = join(dir, 'memories.db');
+    store = new MemoryLaneStore({
+      embeddingProvider: new OfflineEmbeddingProvider({ dimensions: 64 }),
+      project: 'git:github.com/acme/api',
+    });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    if (previousDbPath === undefined) delete process.env.OPENCODE_DB_PATH;
+    else process.env.OPENCODE_DB_PATH = previousDbPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registers extracted entities on store and filters search by them', async () => {
+    await store.store({
+      information: 'memory-store.ts retries `flushAccesses` when the database is locked',
+      type: 'learning',
+    });
+    await store.store({
+      information: 'Retry database calls in src/net/client.ts when the database is locked',
+      type: 'learning',
+      entities: ['project:api'],
+    });
+
+    const entities = await store.listEntities();
+    const file = entities.find((e) => e.slug === 'file:memory-store.ts');
+    expect(file).toMatchObject({ type: 'file', name: 'memory-store.ts', mention_count: 1 });
+    expect(file!.aliases).toContain('memory-store');
+    expect(file!.first_seen).toBe(file!.last_seen);
+    expect(entities.map((e) => e.slug)).toEqual(
+      expect.arrayContaining(['symbol:flushaccesses', 'file:src/net/client.ts', 'project:api'])
+    );
+
+    const { results } = await store.smartFind({
+      query: 'database locked',
+      entities: ['file:memory-store.ts'],
+    });
+    expect(results.map((r) => r.content)).toEqual([
+      'memory-store.ts retries `flushAccesses` when the database is locked',
+    ]);
+  });
+
+  it('updates mention counts and last seen on later mentions', async () => {
+    await store.store({ information: 'bun add zod for schema validation', type: 'decision' });
+    await store.store({
+      information: 'Validate tool arguments with zod schemas from @libsql/client results',
+      type: 'insight',
+      entities: ['package:zod'],
+    });
+
+    const [zod] = await store.listEntities('package');
+    expect(zod).toMatchObject({ slug: 'package:zod', mention_count: 2 });
+    expect(zod.last_seen >= zod.first_seen).toBe(true);
+  });
+
+  it('disambiguates by slug, alias and fuzzy match', async () => {
+    await store.store({
+      information: 'chief-of-staff/planner writes the plan; `smartFind` ranks memories',
+      type: 'insight',
+      entities: ['person:alex-chen', 'person:alex-kim'],
+    });
+
+    expect(await store.resolveEntity('package:unknown')).toEqual(['package:unknown']);
+    expect(await store.resolveEntity('Planner')).toEqual(['agent:planner']);
+    expect(await store.resolveEntity('smart find')).toEqual(['symbol:smartfind']);
+    expect(await store.resolveEntity('Alex Chen')).toEqual(['person:alex-chen']);
+    expect(await store.resolveEntity('alex-chem')).toEqual(['person:alex-chen']);
+    expect((await store.resolveEntity('alex')).sort()).toEqual([
+      'person:alex-chen',
+      'person:alex-kim',
+    ]);
+    expect(await store.resolveEntity('kubernetes')).toEqual([]);
+  });
+});
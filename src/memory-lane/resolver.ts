@@ -1,92 +1,209 @@
 /**
  * Memory Lane Entity Resolver
  *
- * Provides utilities for extracting entity slugs from text and file paths.
- * Uses Drizzle ORM with centralized database path.
+ * Extracts entities from memory content and keeps a registry of them in the
+ * `entities` table (type, slug, aliases, first/last seen), which backs
+ * entity disambiguation and the `entities` filter of smartFind.
+ *
+ * Extracted entity types:
+ * - explicit slugs:  project:swarm-tools, agent:planner, person:alex, ...
+ * - file:     paths with an extension (src/memory-lane/resolver.ts)
+ * - package:  scoped packages and install/import targets (@libsql/client)
+ * - symbol:   code identifiers in backticks or calls (smartFind, MemoryLaneStore)
+ * - agent:    chief-of-staff/<name> and @mentions
+ * - feature / project: derived from file paths (features/, packages/, ...)
  */
 
 import { createClient, type Client } from '@libsql/client';
-import { drizzle } from 'drizzle-orm/libsql';
-import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import { basename, extname } from 'node:path';
 import { getDatabasePath } from '../utils/database-path';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('EntityResolver');
 
 export interface ResolvedEntity {
   type: string;
   slug: string;
+  /** Other names the entity is mentioned by */
+  aliases?: string[];
+}
+
+/** A row of the entity registry */
+export interface EntityRecord {
+  /** Full slug: type:name */
+  slug: string;
+  type: string;
+  name: string;
+  aliases: string[];
+  mention_count: number;
+  first_seen: string;
+  last_seen: string;
 }
 
-export type MemoryDb = LibSQLDatabase<Record<string, never>>;
+const FILE_PATTERN =
+  /(?<![\w@/.-])((?:\.{0,2}\/)?(?:[\w.-]+\/)*[\w-]+(?:\.[\w-]+)*\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|py|go|rs|java|rb|sh|ya?ml|toml|sql|css|html))\b/g;
+const SCOPED_PACKAGE_PATTERN = /(?<![\w/])(@[a-z0-9][\w.-]*\/[a-z0-9](?:[\w.-]*[\w-])?)/g;
+const PACKAGE_SOURCE_PATTERN =
+  /(?:from\s+|require\(\s*|import\(\s*)['"]((?:@[\w.-]+\/)?[a-z0-9][\w.-]*)(?:\/[^'"]*)?['"]/g;
+const INSTALL_PATTERN =
+  /\b(?:npm\s+(?:install|i)|pnpm\s+add|yarn\s+add|bun\s+add|bunx|npx)\s+((?:-{1,2}[\w-]+\s+)*)((?:@[\w.-]+\/)?[a-z0-9](?:[\w.-]*[\w-])?)/g;
+const CODE_SPAN_PATTERN = /`([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)(?:\(\))?`/g;
+const CALL_PATTERN = /\b([a-z]+[A-Z][\w$]*|[A-Z][a-z0-9]+[A-Z][\w$]*)\(/g;
+const AGENT_PATH_PATTERN = /\bchief-of-staff\/([a-z][a-z0-9-]*)/g;
+const MENTION_PATTERN = /(?<![\w/@])@([a-z][a-z0-9-]*)(?![\w/-])/g;
 
-export class EntityResolver {
-  private readonly db: MemoryDb;
-  private readonly client: Client;
+/** Type of a slug ("type:name"), split at the first colon */
+function splitSlug(slug: string): { type: string; name: string } {
+  const index = slug.indexOf(':');
+  return index === -1
+    ? { type: 'unknown', name: slug }
+    : { type: slug.slice(0, index), name: slug.slice(index + 1) };
+}
 
-  constructor() {
-    // Use centralized database path
-    const dbPath = getDatabasePath();
-    this.client = createClient({ url: dbPath });
-    this.db = drizzle(this.client);
+/** smartFind -> "smart find", so symbols resolve by their words */
+function splitWords(symbol: string): string {
+  return symbol
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[._$]+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/** Letters and digits only, for fuzzy comparison */
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
   }
+  return previous[b.length];
+}
 
-  /**
-   * Mock registry of known entities for backward compatibility and testing
-   * Used as fallback when database is empty or unavailable
-   */
-  private static readonly FALLBACK_ENTITIES: ResolvedEntity[] = [
-    { type: 'person', slug: 'mark-robinson' },
-    { type: 'person', slug: 'mark-zuckerberg' },
-    { type: 'project', slug: 'swarm-tools' },
-    { type: 'project', slug: 'swarm-ui' },
-    { type: 'business', slug: 'indy-hall' },
-  ];
+/** Names an entity can be referred to by, besides its slug */
+function defaultAliases(type: string, name: string): string[] {
+  const aliases = [name, name.replace(/-/g, ' ')];
+  if (type === 'file') {
+    aliases.push(basename(name), basename(name, extname(name)));
+  } else if (type === 'package' && name.includes('/')) {
+    aliases.push(name.slice(name.indexOf('/') + 1));
+  }
+  return aliases;
+}
+
+export class EntityResolver {
+  private readonly client: Client;
+  private readonly ownsClient: boolean;
+  private schemaReady: Promise<void> | null = null;
 
   /**
-   * Load unique entities from database
-   * Queries all memories and extracts entity_slugs from metadata
-   *
-   * @returns Array of unique entity slugs
+   * @param client - Shared connection (e.g. the MemoryLaneStore's); default:
+   *   a new connection to the central database
    */
-  private async loadEntitiesFromDatabase(): Promise<ResolvedEntity[]> {
-    try {
-      // Query all memories to extract entity slugs from metadata
-      const result = await this.client.execute(
-        'SELECT metadata FROM memories WHERE collection = ?',
-        ['memory-lane']
-      );
+  constructor(client?: Client) {
+    this.client = client ?? createClient({ url: getDatabasePath() });
+    this.ownsClient = !client;
+  }
 
-      const entities = new Set<string>();
-
-      for (const row of result.rows as any[]) {
-        try {
-          const metadata =
-            typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
-
-          if (metadata.entity_slugs && Array.isArray(metadata.entity_slugs)) {
-            for (const slug of metadata.entity_slugs) {
-              if (typeof slug === 'string' && slug.includes(':')) {
-                entities.add(slug);
-              }
-            }
-          }
-        } catch {
-          // Skip malformed metadata
-          continue;
-        }
+  /** Create the entities table; called by MemoryLaneStore after its own schema */
+  async ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.initializeSchema().catch((err) => {
+        this.schemaReady = null;
+        throw err;
+      });
+    }
+    await this.schemaReady;
+  }
+
+  private async initializeSchema(): Promise<void> {
+    await this.client.execute(`
+      CREATE TABLE IF NOT EXISTS entities (
+        slug TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        aliases TEXT NOT NULL DEFAULT '[]',
+        mention_count INTEGER NOT NULL DEFAULT 0,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL
+      )
+    `);
+    await this.client.execute('CREATE INDEX IF NOT EXISTS idx_entities_type ON entities (type)');
+
+    // Seed an empty registry from the entity slugs of existing memories
+    const count = await this.client.execute('SELECT COUNT(*) AS count FROM entities');
+    const memories = await this.client.execute(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories'"
+    );
+    if (Number(count.rows[0].count) > 0 || memories.rows.length === 0) return;
+
+    const result = await this.client.execute(
+      "SELECT json_extract(metadata, '$.entity_slugs') AS slugs FROM memories"
+    );
+    const slugs: string[] = [];
+    for (const row of result.rows) {
+      try {
+        const parsed = JSON.parse(String(row.slugs ?? '[]'));
+        if (Array.isArray(parsed)) slugs.push(...parsed.filter((s) => typeof s === 'string'));
+      } catch {
+        // Skip malformed metadata
       }
+    }
+    if (slugs.length > 0) {
+      await this.upsert(slugs, []);
+      log.info({ count: new Set(slugs).size }, 'Seeded entity registry from memories');
+    }
+  }
 
-      // If no entities found, use fallback
-      if (entities.size === 0) {
-        return EntityResolver.FALLBACK_ENTITIES;
+  /**
+   * Extract entities from memory content: explicit slugs, file paths (and the
+   * features/projects they imply), packages, code symbols and agent names
+   */
+  static extract(text: string): ResolvedEntity[] {
+    const found = new Map<string, ResolvedEntity>();
+    const add = (type: string, name: string, alias?: string) => {
+      const slug = name.toLowerCase();
+      const key = `${type}:${slug}`;
+      const entity = found.get(key) ?? { type, slug, aliases: [] };
+      if (alias && alias.toLowerCase() !== slug && !entity.aliases!.includes(alias)) {
+        entity.aliases!.push(alias);
       }
+      found.set(key, entity);
+    };
 
-      // Convert slugs to ResolvedEntity format
-      return Array.from(entities).map((slug) => {
-        const [type, name] = slug.split(':');
-        return { type, slug: name || '' };
-      });
-    } catch (error) {
-      return EntityResolver.FALLBACK_ENTITIES;
+    for (const entity of EntityResolver.extractFromText(text)) add(entity.type, entity.slug);
+
+    for (const [, path] of text.matchAll(FILE_PATTERN)) {
+      if (/^\d+(\.\d+)+$/.test(path)) continue;
+      add('file', path.replace(/^\.\//, ''));
+      for (const entity of EntityResolver.extractFromPath(path)) add(entity.type, entity.slug);
     }
+
+    for (const [, name] of text.matchAll(SCOPED_PACKAGE_PATTERN)) add('package', name);
+    for (const [, name] of text.matchAll(PACKAGE_SOURCE_PATTERN)) {
+      if (!name.startsWith('.')) add('package', name.replace(/^node:/, ''));
+    }
+    for (const match of text.matchAll(INSTALL_PATTERN)) add('package', match[2]);
+
+    for (const [, symbol] of text.matchAll(CODE_SPAN_PATTERN)) {
+      if (symbol.length >= 3) add('symbol', symbol, splitWords(symbol));
+    }
+    for (const [, symbol] of text.matchAll(CALL_PATTERN)) add('symbol', symbol, splitWords(symbol));
+
+    for (const [, name] of text.matchAll(AGENT_PATH_PATTERN)) add('agent', name);
+    for (const [, name] of text.matchAll(MENTION_PATTERN)) add('agent', name);
+
+    return [...found.values()];
   }
 
   /**
@@ -173,34 +290,140 @@ export class EntityResolver {
     return entities.map((e) => `${e.type}:${e.slug}`);
   }
 
+  /**
+   * Record entities mentioned by a stored memory: new ones are added, known
+   * ones get their last_seen, mention count and any new aliases updated
+   *
+   * @param slugs - Full slugs (type:name) of the memory
+   * @param extracted - Extraction results, for their aliases
+   */
+  async register(slugs: string[], extracted: ResolvedEntity[] = []): Promise<void> {
+    if (slugs.length === 0) return;
+    await this.ensureSchema();
+    await this.upsert(slugs, extracted);
+  }
+
+  private async upsert(slugs: string[], extracted: ResolvedEntity[]): Promise<void> {
+    const now = new Date().toISOString();
+    const mentions = new Map<string, number>();
+    for (const slug of slugs) {
+      const key = slug.toLowerCase();
+      if (key.includes(':')) mentions.set(key, (mentions.get(key) ?? 0) + 1);
+    }
+    if (mentions.size === 0) return;
+
+    const keys = [...mentions.keys()];
+    const existing = await this.client.execute({
+      sql: `SELECT slug, aliases FROM entities WHERE slug IN (${keys.map(() => '?').join(', ')})`,
+      args: keys,
+    });
+    const knownAliases = new Map(
+      existing.rows.map((row) => [String(row.slug), JSON.parse(String(row.aliases)) as string[]])
+    );
+    const extractedAliases = new Map(
+      extracted.map((e) => [`${e.type}:${e.slug}`.toLowerCase(), e.aliases ?? []])
+    );
+
+    await this.client.batch(
+      keys.map((slug) => {
+        const { type, name } = splitSlug(slug);
+        const aliases = [
+          ...new Set(
+            [
+              ...(knownAliases.get(slug) ?? []),
+              ...defaultAliases(type, name),
+              ...(extractedAliases.get(slug) ?? []),
+            ].map((a) => a.toLowerCase())
+          ),
+        ];
+        return {
+          sql: `INSERT INTO entities (slug, type, name, aliases, mention_count, first_seen, last_seen)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT(slug) DO UPDATE SET
+                  aliases = excluded.aliases,
+                  mention_count = mention_count + excluded.mention_count,
+                  last_seen = excluded.last_seen`,
+          args: [slug, type, name, JSON.stringify(aliases), mentions.get(slug)!, now, now],
+        };
+      }),
+      'write'
+    );
+  }
+
+  /**
+   * Registered entities, most mentioned first
+   */
+  async list(type?: string): Promise<EntityRecord[]> {
+    await this.ensureSchema();
+    const result = await this.client.execute({
+      sql: `SELECT slug, type, name, aliases, mention_count, first_seen, last_seen FROM entities
+            ${type ? 'WHERE type = ?' : ''}
+            ORDER BY mention_count DESC, slug`,
+      args: type ? [type] : [],
+    });
+
+    return result.rows.map((row) => ({
+      slug: String(row.slug),
+      type: String(row.type),
+      name: String(row.name),
+      aliases: JSON.parse(String(row.aliases)) as string[],
+      mention_count: Number(row.mention_count),
+      first_seen: String(row.first_seen),
+      last_seen: String(row.last_seen),
+    }));
+  }
+
   /**
    * Disambiguate fuzzy entity names
    * Returns a list of potential slug matches.
    *
-   * Migrated to use database queries instead of static KNOWN_ENTITIES mock.
+   * Full slugs are returned as-is. Otherwise an exact name or alias match
+   * wins; failing that, entities whose name or an alias contains the query
+   * (or is within a small edit distance of it) are returned, closest and
+   * most mentioned first.
    *
    * @param query - Fuzzy entity name or full slug
    * @returns Array of matching entity slugs
    */
   async disambiguate(query: string): Promise<string[]> {
-    // Normalize query: lowercase, keep hyphens and colons
-    const q = query.toLowerCase();
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
 
     // 1. Check for exact slug match (fast path)
-    if (query.includes(':')) {
-      return [query.toLowerCase()];
+    if (q.includes(':')) {
+      return [q];
     }
 
-    // 2. Load entities from database
-    const knownEntities = await this.loadEntitiesFromDatabase();
+    const entities = await this.list();
 
-    // 3. Fuzzy match against known entities
-    const matches = knownEntities.filter((entity) => {
-      const namePart = entity.slug.split('-').join('');
-      return namePart.includes(q) || q.includes(namePart);
-    });
+    // 2. Exact name or alias
+    const exact = entities.filter((e) => e.name === q || e.aliases.includes(q));
+    if (exact.length > 0) {
+      return exact.map((e) => e.slug);
+    }
+
+    // 3. Containment or small edit distance, on letters and digits only
+    const target = compact(q);
+    if (!target) return [];
+    const maxDistance = Math.max(1, Math.floor(target.length / 4));
 
-    return EntityResolver.toSlugs(matches);
+    const scored: Array<{ entity: EntityRecord; distance: number }> = [];
+    for (const entity of entities) {
+      let best = Infinity;
+      for (const candidate of [entity.name, ...entity.aliases].map(compact)) {
+        if (!candidate) continue;
+        if (candidate.includes(target) || (candidate.length >= 3 && target.includes(candidate))) {
+          best = 0;
+          break;
+        }
+        best = Math.min(best, editDistance(target, candidate));
+      }
+      if (best <= maxDistance) scored.push({ entity, distance: best });
+    }
+
+    return scored
+      .sort((a, b) => a.distance - b.distance || b.entity.mention_count - a.entity.mention_count)
+      .map(({ entity }) => entity.slug);
   }
 
   /**
@@ -211,14 +434,18 @@ export class EntityResolver {
    */
   static async disambiguate(query: string): Promise<string[]> {
     const resolver = new EntityResolver();
-    return resolver.disambiguate(query);
+    try {
+      return await resolver.disambiguate(query);
+    } finally {
+      await resolver.close();
+    }
   }
 
   /**
    * Close the database connection
-   * Call when done using the resolver
+   * Call when done using the resolver (a shared connection stays open)
    */
   async close(): Promise<void> {
-    this.client.close();
+    if (this.ownsClient) this.client.close();
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * Memory Lane Export / Import
+ *
+ * Portable formats for moving memories between machines or sharing curated
+ * team memories through a repository:
+ *
+ * - jsonl:    One MemoryExportRecord per line; optionally with embeddings
+ * - markdown: One `## <id>` section per memory, content as the body and the
+ *             metadata in an HTML comment. Content lines starting with `## `
+ *             are escaped with a backslash so they cannot open a section.
+ *             Hand-written sections without the comment import as
+ *             project-scoped learnings.
+ *
+ * Import merges memories whose content already exists (by content hash),
+ * resolves ID conflicts (rename, skip or replace), re-embeds content when the
+ * exported vector comes from another model, and remaps supersession links to
+ * the imported IDs.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createMemoryId } from './memory-store';
+import type { MemoryLaneStore, MemoryRecord, MemoryScope } from './memory-store';
+import { createMemoryMetadata, MemoryLaneMetadataSchema } from './taxonomy';
+import { contentHash } from './utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MemoryExportFormat = 'jsonl' | 'markdown';
+
+export interface MemoryExportRecord extends MemoryRecord {
+  content_hash: string;
+}
+
+export interface ExportOptions {
+  /** Default: all (current project and global) */
+  scope?: MemoryScope | 'all';
+  /** Include superseded memories so history survives the move (default: true) */
+  includeSuperseded?: boolean;
+  /** Include vectors, JSONL only (default: false) */
+  includeEmbeddings?: boolean;
+}
+
+export interface ImportOptions {
+  /** Existing memory with the same ID but other content (default: rename) */
+  onConflict?: 'rename' | 'skip' | 'replace';
+  /** Override the scope of every imported memory */
+  scope?: MemoryScope;
+}
+
+export interface ImportSummary {
+  total: number;
+  imported: number;
+  /** Same content already stored; observations merged */
+  merged: number;
+  renamed: number;
+  replaced: number;
+  skipped: number;
+  /** Imported without a usable vector for the active model */
+  reembedded: number;
+}
+
+const MARKDOWN_COMMENT = /<!--\s*memory-lane\s+(\{.*\})\s*-->/;
+/** A section heading, optionally already escaped */
+const MARKDOWN_HEADING = /^(\\*## )/gm;
+const ESCAPED_HEADING = /^\\(\\*## )/gm;
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+export function formatFromPath(path: string): MemoryExportFormat {
+  return /\.(md|markdown)$/i.test(path) ? 'markdown' : 'jsonl';
+}
+
+export function serializeMemories(
+  records: MemoryExportRecord[],
+  format: MemoryExportFormat
+): string {
+  if (format === 'jsonl') {
+    return records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+  }
+
+  const sections = records.map((record) => {
+    const { id, content, embedding: _embedding, ...meta } = record;
+    const body = content.trim().replace(MARKDOWN_HEADING, '\\$1');
+    return `## ${id}\n\n${body}\n\n<!-- memory-lane ${JSON.stringify(meta)} -->\n`;
+  });
+  return ['# Memory Lane\n', ...sections].join('\n');
+}
+
+export function parseMemories(text: string, format: MemoryExportFormat): MemoryExportRecord[] {
+  return format === 'jsonl' ? parseJsonl(text) : parseMarkdown(text);
+}
+
+function parseJsonl(text: string): MemoryExportRecord[] {
+  return text
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, index }) => {
+      try {
+        return normalizeRecord(JSON.parse(line));
+      } catch (err) {
+        throw new Error(`Invalid memory on line ${index + 1}: ${(err as Error).message}`);
+      }
+    });
+}
+
+function parseMarkdown(text: string): MemoryExportRecord[] {
+  const records: MemoryExportRecord[] = [];
+  const sections = text.split(/^## /m).slice(1);
+
+  for (const section of sections) {
+    const newline = section.indexOf('\n');
+    const id = (newline === -1 ? section : section.slice(0, newline)).trim();
+    let body = newline === -1 ? '' : section.slice(newline + 1);
+
+    let meta: Record<string, unknown> = {};
+    const comment = body.match(MARKDOWN_COMMENT);
+    if (comment) {
+      try {
+        meta = JSON.parse(comment[1]);
+      } catch (err) {
+        throw new Error(`Invalid metadata for memory ${id}: ${(err as Error).message}`);
+      }
+      body = body.replace(MARKDOWN_COMMENT, '');
+    }
+
+    const content = body.trim().replace(ESCAPED_HEADING, '$1');
+    if (id && content) {
+      records.push(normalizeRecord({ ...meta, id, content }));
+    }
+  }
+  return records;
+}
+
+/**
+ * Fill defaults for hand-written or partial records and validate the metadata
+ */
+function normalizeRecord(raw: Record<string, unknown>): MemoryExportRecord {
+  const content = typeof raw.content === 'string' ? raw.content : '';
+  if (typeof raw.id !== 'string' || !content.trim()) {
+    throw new Error('Memory needs an id and content');
+  }
+
+  const metadata = raw.metadata
+    ? MemoryLaneMetadataSchema.parse(raw.metadata)
+    : createMemoryMetadata({ memory_type: 'learning' });
+  const now = new Date().toISOString();
+  const scope: MemoryScope = raw.scope === 'global' ? 'global' : 'project';
+
+  return {
+    id: raw.id,
+    content,
+    content_hash: contentHash(content),
+    scope,
+    project: typeof raw.project === 'string' ? raw.project : null,
+    metadata,
+    created_at: typeof raw.created_at === 'string' ? raw.created_at : now,
+    updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : now,
+    ...(raw.embedding ? { embedding: raw.embedding as MemoryExportRecord['embedding'] } : {}),
+  };
+}
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+export async function exportMemories(
+  store: MemoryLaneStore,
+  options: ExportOptions = {}
+): Promise<MemoryExportRecord[]> {
+  const records = await store.listRecords({
+    scope: options.scope,
+    includeSuperseded: options.includeSuperseded ?? true,
+    includeEmbeddings: options.includeEmbeddings,
+  });
+  return records.map((record) => ({ ...record, content_hash: contentHash(record.content) }));
+}
+
+export async function importMemories(
+  store: MemoryLaneStore,
+  records: MemoryExportRecord[],
+  options: ImportOptions = {}
+): Promise<ImportSummary> {
+  const onConflict = options.onConflict ?? 'rename';
+  const summary: ImportSummary = {
+    total: records.length,
+    imported: 0,
+    merged: 0,
+    renamed: 0,
+    replaced: 0,
+    skipped: 0,
+    reembedded: 0,
+  };
+
+  const existing = new Map<string, string>();
+  for (const record of await store.listRecords()) {
+    existing.set(contentHash(record.content), record.id);
+  }
+
+  // Decide every record's target ID first, so links can point to renamed memories
+  const idMap = new Map<string, string>();
+  const writes: MemoryExportRecord[] = [];
+  for (const record of records) {
+    const duplicate = existing.get(record.content_hash);
+    if (duplicate) {
+      await store.mergeRecord(duplicate, record.metadata);
+      idMap.set(record.id, duplicate);
+      summary.merged++;
+      continue;
+    }
+
+    let id = record.id;
+    if (await store.hasMemory(id)) {
+      if (onConflict === 'skip') {
+        summary.skipped++;
+        continue;
+      }
+      if (onConflict === 'rename') {
+        id = createMemoryId();
+        summary.renamed++;
+      } else {
+        summary.replaced++;
+      }
+    } else if (await store.isIdTaken(id)) {
+      // Held by another project's memory, which must not be overwritten
+      id = createMemoryId();
+      summary.renamed++;
+    }
+
+    idMap.set(record.id, id);
+    existing.set(record.content_hash, id);
+    writes.push({ ...record, id, scope: options.scope ?? record.scope });
+  }
+
+  const resolveLink = async (linkedId: string) => {
+    const mapped = idMap.get(linkedId);
+    if (mapped) return mapped;
+    return (await store.hasMemory(linkedId)) ? linkedId : null;
+  };
+
+  for (const record of writes) {
+    const supersedes: string[] = [];
+    for (const linkedId of record.metadata.supersedes ?? []) {
+      const resolved = await resolveLink(linkedId);
+      if (resolved) supersedes.push(resolved);
+    }
+    const supersededBy = record.metadata.superseded_by
+      ? await resolveLink(record.metadata.superseded_by)
+      : null;
+
+    const { reembedded } = await store.putRecord({
+      ...record,
+      metadata: { ...record.metadata, supersedes, superseded_by: supersededBy },
+    });
+    summary.imported++;
+    if (reembedded) summary.reembedded++;
+  }
+
+  return summary;
+}
+
+export async function exportMemoriesToFile(
+  store: MemoryLaneStore,
+  path: string,
+  options: ExportOptions & { format?: MemoryExportFormat } = {}
+): Promise<{ count: number; format: MemoryExportFormat }> {
+  const format = options.format ?? formatFromPath(path);
+  const records = await exportMemories(store, {
+    ...options,
+    includeEmbeddings: format === 'jsonl' && options.includeEmbeddings,
+  });
+  writeFileSync(path, serializeMemories(records, format));
+  return { count: records.length, format };
+}
+
+export async function importMemoriesFromFile(
+  store: MemoryLaneStore,
+  path: string,
+  options: ImportOptions & { format?: MemoryExportFormat } = {}
+): Promise<ImportSummary> {
+  const format = options.format ?? formatFromPath(path);
+  const records = parseMemories(readFileSync(path, 'utf-8'), format);
+  return importMemories(store, records, options);
+}
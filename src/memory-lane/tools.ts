@@ -7,7 +7,14 @@
 
 import { tool } from '@opencode-ai/plugin';
 import { getMemoryLaneStore } from './memory-store';
-import { EntityResolver } from './resolver';
+import { getReindexJob } from './reindex';
+import {
+  exportMemories,
+  exportMemoriesToFile,
+  importMemoriesFromFile,
+  serializeMemories,
+} from './sync';
+import { MemoryTypeSchema } from './taxonomy';
 
 /**
  * Smart search through Memory Lane
@@ -20,8 +27,15 @@ export const memory_lane_find = tool({
     entities: tool.schema
       .array(tool.schema.string())
       .optional()
-      .describe("Entity slugs or raw names (e.g. ['project:swarm', 'Mark'])"),
+      .describe(
+        "Entity slugs or raw names (e.g. ['project:swarm-tools', 'memory-store.ts', 'planner'])"
+      ),
     limit: tool.schema.number().optional().default(5).describe('Max results'),
+    scope: tool.schema
+      .enum(['project', 'global', 'all'])
+      .optional()
+      .default('all')
+      .describe('project: this repository only, global: shared memories, all: both (default)'),
   },
   async execute(args) {
     const store = getMemoryLaneStore();
@@ -32,7 +46,7 @@ export const memory_lane_find = tool({
 
     if (args.entities) {
       for (const entityQuery of args.entities) {
-        const matches = await EntityResolver.disambiguate(entityQuery);
+        const matches = await store.resolveEntity(entityQuery);
         if (matches.length === 1) {
           resolvedSlugs.push(matches[0]);
         } else if (matches.length > 1) {
@@ -49,7 +63,7 @@ export const memory_lane_find = tool({
           error: 'DISAMBIGUATION_REQUIRED',
           message: 'Multiple entity matches found. Please specify which one you meant.',
           ambiguities,
-          hint: "Use full slug (e.g. 'person:mark-robinson') in entities array.",
+          hint: "Use full slug (e.g. 'file:src/memory-lane/tools.ts') in entities array.",
         },
         null,
         2
@@ -92,6 +106,15 @@ export const memory_lane_store = tool({
       .optional()
       .describe('Entity slugs associated with this memory'),
     tags: tool.schema.string().optional().describe('Comma separated tags'),
+    supersedes: tool.schema
+      .array(tool.schema.string())
+      .optional()
+      .describe('IDs of memories this one replaces (contradictions are also detected)'),
+    scope: tool.schema
+      .enum(['project', 'global'])
+      .optional()
+      .default('project')
+      .describe('project: applies to this repository only (default), global: to every project'),
   },
   async execute(args) {
     const store = getMemoryLaneStore();
@@ -129,6 +152,374 @@ export const memory_lane_feedback = tool({
   },
 });
 
+/**
+ * Browse memories for curation
+ */
+export const memory_lane_list = tool({
+  description:
+    'List memories newest first, filtered by type, entity, creation date, effective (decayed) confidence or feedback score. Use it to inspect and clean up bad memories.',
+  args: {
+    type: tool.schema.enum(MemoryTypeSchema.options).optional().describe('Memory type'),
+    entity: tool.schema.string().optional().describe('Entity slug (e.g. project:swarm)'),
+    since: tool.schema.string().optional().describe('Created at or after (ISO 8601 date)'),
+    until: tool.schema.string().optional().describe('Created before (ISO 8601 date)'),
+    min_confidence: tool.schema.number().optional().describe('Min effective confidence (0-100)'),
+    max_confidence: tool.schema.number().optional().describe('Max effective confidence (0-100)'),
+    min_feedback: tool.schema.number().optional().describe('Min feedback score (1.0 = neutral)'),
+    max_feedback: tool.schema.number().optional().describe('Max feedback score (1.0 = neutral)'),
+    scope: tool.schema
+      .enum(['project', 'global', 'all'])
+      .optional()
+      .default('all')
+      .describe('project, global, or both (default)'),
+    include_superseded: tool.schema
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Include memories replaced by newer ones'),
+    limit: tool.schema.number().optional().default(20).describe('Max results'),
+    offset: tool.schema.number().optional().default(0).describe('Results to skip'),
+  },
+  async execute(args) {
+    const result = await getMemoryLaneStore().listMemories({
+      type: args.type,
+      entity: args.entity,
+      since: args.since,
+      until: args.until,
+      minConfidence: args.min_confidence,
+      maxConfidence: args.max_confidence,
+      minFeedback: args.min_feedback,
+      maxFeedback: args.max_feedback,
+      scope: args.scope,
+      includeSuperseded: args.include_superseded,
+      limit: args.limit,
+      offset: args.offset,
+    });
+
+    return JSON.stringify({ success: true, count: result.memories.length, ...result }, null, 2);
+  },
+});
+
+/**
+ * Edit a memory's content or metadata
+ */
+export const memory_lane_update = tool({
+  description:
+    'Correct a memory: edit its content (re-embedded and re-indexed) or its type, entities, tags or confidence.',
+  args: {
+    id: tool.schema.string().describe('Memory ID'),
+    content: tool.schema.string().optional().describe('New content'),
+    type: tool.schema.enum(MemoryTypeSchema.options).optional().describe('New memory type'),
+    entities: tool.schema
+      .array(tool.schema.string())
+      .optional()
+      .describe('Replacement entity slugs'),
+    tags: tool.schema.string().optional().describe('Replacement tags, comma separated'),
+    confidence_score: tool.schema
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .describe('New base confidence (0-100)'),
+  },
+  async execute(args) {
+    const memory = await getMemoryLaneStore().updateMemory(args.id, {
+      content: args.content,
+      type: args.type,
+      entities: args.entities,
+      tags: args.tags?.split(',').map((t) => t.trim()),
+      confidence_score: args.confidence_score,
+    });
+
+    if (!memory) {
+      return JSON.stringify({ success: false, error: `Memory ${args.id} not found` }, null, 2);
+    }
+    return JSON.stringify({ success: true, memory }, null, 2);
+  },
+});
+
+/**
+ * Delete memories
+ */
+export const memory_lane_delete = tool({
+  description:
+    'Delete memories by ID, including their search index entries. Supersession chains are relinked around them.',
+  args: {
+    ids: tool.schema.array(tool.schema.string()).describe('Memory IDs to delete'),
+  },
+  async execute(args) {
+    const store = getMemoryLaneStore();
+    const deleted: string[] = [];
+    const notFound: string[] = [];
+
+    for (const id of args.ids) {
+      if (await store.deleteMemory(id)) deleted.push(id);
+      else notFound.push(id);
+    }
+
+    return JSON.stringify(
+      { success: notFound.length === 0, deleted, not_found: notFound },
+      null,
+      2
+    );
+  },
+});
+
+/**
+ * Bulk-remove low-value memories
+ */
+export const memory_lane_prune = tool({
+  description:
+    'Remove memories whose effective (decayed) confidence or feedback score is below a threshold. Dry run by default: review the list, then call again with dry_run=false.',
+  args: {
+    min_confidence: tool.schema
+      .number()
+      .optional()
+      .default(30)
+      .describe('Prune below this effective confidence (0-100, default 30)'),
+    min_feedback: tool.schema
+      .number()
+      .optional()
+      .default(0.5)
+      .describe('Prune below this feedback score (default 0.5; each harmful signal halves it)'),
+    scope: tool.schema
+      .enum(['project', 'global', 'all'])
+      .optional()
+      .default('project')
+      .describe('project (default), global, or both; global memories are shared by every project'),
+    dry_run: tool.schema
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Only list what would be pruned (default: true)'),
+  },
+  async execute(args) {
+    const pruned = await getMemoryLaneStore().pruneMemories({
+      minConfidence: args.min_confidence,
+      minFeedback: args.min_feedback,
+      scope: args.scope,
+      dryRun: args.dry_run,
+    });
+
+    return JSON.stringify(
+      { success: true, dry_run: args.dry_run, count: pruned.length, memories: pruned },
+      null,
+      2
+    );
+  },
+});
+
+/**
+ * Move a memory between project and global scope
+ */
+export const memory_lane_scope = tool({
+  description:
+    'Promote a project memory to global scope (applies to every project) or demote a global memory to the current project.',
+  args: {
+    id: tool.schema.string().describe('Memory ID'),
+    action: tool.schema
+      .enum(['promote', 'demote'])
+      .describe('promote: project -> global, demote: global -> current project'),
+  },
+  async execute(args) {
+    const store = getMemoryLaneStore();
+    const scope = args.action === 'promote' ? 'global' : 'project';
+    const updated = await store.setScope(args.id, scope);
+
+    if (!updated) {
+      return JSON.stringify({ success: false, error: `Memory ${args.id} not found` }, null, 2);
+    }
+    return JSON.stringify(
+      {
+        success: true,
+        id: args.id,
+        scope,
+        ...(scope === 'project' && { project: store.getProject() }),
+      },
+      null,
+      2
+    );
+  },
+});
+
+/**
+ * Show how a memory evolved through its supersession chain
+ */
+export const memory_lane_history = tool({
+  description:
+    'Show how a decision or other memory evolved: the chain of memories it superseded, oldest first, ending with the one in effect.',
+  args: {
+    id: tool.schema.string().optional().describe('Memory ID (any memory in the chain)'),
+    query: tool.schema
+      .string()
+      .optional()
+      .describe('Search query; shows the chains of the top results'),
+    limit: tool.schema.number().optional().default(3).describe('Max chains for a query'),
+  },
+  async execute(args) {
+    const store = getMemoryLaneStore();
+
+    let ids: string[];
+    if (args.id) {
+      ids = [args.id];
+    } else if (args.query) {
+      const found = await store.smartFind({ query: args.query, limit: args.limit || 3 });
+      ids = found.results.map((r) => r.id);
+    } else {
+      return JSON.stringify({ success: false, error: 'Provide an id or a query' }, null, 2);
+    }
+
+    const chains = [];
+    for (const id of ids) {
+      const chain = await store.getHistory(id);
+      if (chain.length > 0) chains.push(chain);
+    }
+
+    return JSON.stringify({ success: true, count: chains.length, chains }, null, 2);
+  },
+});
+
+/**
+ * Export memories to a portable JSONL or Markdown file
+ */
+export const memory_lane_export = tool({
+  description:
+    'Export memories (content, metadata, entity slugs, supersession links, optionally embeddings) to a portable JSONL or Markdown file, e.g. to commit curated team memories into a repository.',
+  args: {
+    path: tool.schema
+      .string()
+      .optional()
+      .describe('Output file (.jsonl or .md); omit to return the export inline'),
+    format: tool.schema
+      .enum(['jsonl', 'markdown'])
+      .optional()
+      .describe('Default: from the file extension, else jsonl'),
+    scope: tool.schema
+      .enum(['project', 'global', 'all'])
+      .optional()
+      .default('all')
+      .describe('Memories to export (default: this project and global)'),
+    include_embeddings: tool.schema
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Include vectors (JSONL only); importers on the same model skip re-embedding'),
+    include_superseded: tool.schema
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Include superseded memories to keep their history'),
+  },
+  async execute(args) {
+    try {
+      const store = getMemoryLaneStore();
+      const options = {
+        scope: args.scope,
+        includeEmbeddings: args.include_embeddings,
+        includeSuperseded: args.include_superseded,
+      };
+
+      if (args.path) {
+        const result = await exportMemoriesToFile(store, args.path, {
+          ...options,
+          format: args.format,
+        });
+        return JSON.stringify({ success: true, path: args.path, ...result }, null, 2);
+      }
+
+      const format = args.format ?? 'jsonl';
+      const records = await exportMemories(store, {
+        ...options,
+        includeEmbeddings: format === 'jsonl' && args.include_embeddings,
+      });
+      return JSON.stringify(
+        {
+          success: true,
+          count: records.length,
+          format,
+          content: serializeMemories(records, format),
+        },
+        null,
+        2
+      );
+    } catch (error: any) {
+      return JSON.stringify({ success: false, error: error.message }, null, 2);
+    }
+  },
+});
+
+/**
+ * Import memories from a JSONL or Markdown export
+ */
+export const memory_lane_import = tool({
+  description:
+    'Import memories from a JSONL or Markdown export. Memories with content already stored are merged, ID conflicts are renamed by default, and content is re-embedded when the export used another embedding model.',
+  args: {
+    path: tool.schema.string().describe('Export file (.jsonl or .md)'),
+    format: tool.schema
+      .enum(['jsonl', 'markdown'])
+      .optional()
+      .describe('Default: from the file extension, else jsonl'),
+    on_conflict: tool.schema
+      .enum(['rename', 'skip', 'replace'])
+      .optional()
+      .default('rename')
+      .describe('Existing memory with the same ID but different content'),
+    scope: tool.schema
+      .enum(['project', 'global'])
+      .optional()
+      .describe('Import everything into this scope (default: keep each memory scope)'),
+  },
+  async execute(args) {
+    try {
+      const summary = await importMemoriesFromFile(getMemoryLaneStore(), args.path, {
+        format: args.format,
+        onConflict: args.on_conflict,
+        scope: args.scope,
+      });
+      return JSON.stringify({ success: true, path: args.path, ...summary }, null, 2);
+    } catch (error: any) {
+      return JSON.stringify({ success: false, path: args.path, error: error.message }, null, 2);
+    }
+  },
+});
+
+/**
+ * Re-embed memories stored with a different embedding model or dimension
+ */
+export const memory_lane_reindex = tool({
+  description:
+    'Re-embed memories whose embedding model or dimension differs from the active provider (after a provider/model change). Runs in the background in batches and resumes where it left off.',
+  args: {
+    action: tool.schema
+      .enum(['start', 'status', 'stop'])
+      .optional()
+      .default('start')
+      .describe('start the job, report its progress, or stop it after the current batch'),
+    wait: tool.schema
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('With start: wait for the job to finish before returning'),
+  },
+  async execute(args) {
+    const job = getReindexJob();
+
+    if (args.action === 'stop') {
+      job.stop();
+    } else if (args.action === 'start') {
+      const run = job.start();
+      if (args.wait) {
+        return JSON.stringify({ success: true, progress: await run }, null, 2);
+      }
+    }
+
+    const progress = job.getProgress();
+    const stale = job.isRunning() ? undefined : await getMemoryLaneStore().countStaleEmbeddings();
+    return JSON.stringify({ success: true, running: job.isRunning(), progress, stale }, null, 2);
+  },
+});
+
 /**
  * Legacy semantic-memory_find redirect
  */
@@ -189,6 +580,15 @@ export const memoryLaneTools = {
   'memory-lane_find': memory_lane_find,
   'memory-lane_store': memory_lane_store,
   'memory-lane_feedback': memory_lane_feedback,
+  'memory-lane_history': memory_lane_history,
+  'memory-lane_list': memory_lane_list,
+  'memory-lane_update': memory_lane_update,
+  'memory-lane_delete': memory_lane_delete,
+  'memory-lane_prune': memory_lane_prune,
+  'memory-lane_scope': memory_lane_scope,
+  'memory-lane_export': memory_lane_export,
+  'memory-lane_import': memory_lane_import,
+  'memory-lane_reindex': memory_lane_reindex,
   'semantic-memory_find': semantic_memory_find,
   'semantic-memory_store': semantic_memory_store,
 } as const;
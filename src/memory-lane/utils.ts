@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto';
 import { MemoryType } from './taxonomy';
 
 /**
@@ -44,3 +45,83 @@ export function detectIntent(query: string): MemoryType[] {
 
   return boosts;
 }
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can did do does for from had has have how if in into is it its ' +
+    'not of on or our should so that the their then there these they this to use used using was ' +
+    'we were what when where which while will with would you your'
+  ).split(' ')
+);
+
+/** Identifier-like tokens that embeddings tend to blur */
+const IDENTIFIER_PATTERNS = [
+  /\b[A-Z]{1,5}-?\d{2,}\b/g, // Error codes: TS2304, E404, ERR-12
+  /\b[A-Za-z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+\b/g, // snake_case, ERR_MODULE_NOT_FOUND
+  /\b[a-z]+[a-z0-9]*(?:[A-Z][a-z0-9]*)+\b/g, // camelCase
+  /\b(?:[A-Z][a-z0-9]+){2,}\b/g, // PascalCase
+  /(?<![\w/.])[\w@-]+(?:[./][\w-]+)+/g, // Paths, dotted names: src/index.ts, fs.promises
+  /(?<![\w-])--?[a-z][\w-]*/g, // CLI flags
+];
+
+/**
+ * Extract search keywords from memory content: identifier-like tokens first
+ * (in order of appearance), then the most frequent remaining words.
+ */
+export function extractKeywords(text: string, max: number = 12): string[] {
+  const keywords: string[] = [];
+  const seen = new Set<string>();
+  const add = (keyword: string) => {
+    const key = keyword.toLowerCase();
+    if (keyword.length < 3 || seen.has(key) || keywords.length >= max) return;
+    seen.add(key);
+    keywords.push(keyword);
+  };
+
+  const identifiers: Array<{ index: number; token: string }> = [];
+  for (const pattern of IDENTIFIER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      identifiers.push({ index: match.index ?? 0, token: match[0] });
+    }
+  }
+  identifiers.sort((a, b) => a.index - b.index).forEach(({ token }) => add(token));
+
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (!STOPWORDS.has(word) && !/^\d+$/.test(word)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  // Map iteration keeps first-occurrence order for equal counts
+  [...counts.entries()].sort((a, b) => b[1] - a[1]).forEach(([word]) => add(word));
+
+  return keywords;
+}
+
+/** Words that turn a statement into its opposite: "Use pnpm" / "Do not use pnpm" */
+const NEGATION_PATTERN = /\b(?:not|never|no longer|don't|doesn't|shouldn't|mustn't|avoid|stop)\b/i;
+
+/**
+ * Whether a statement is negated, e.g. "Never deploy on Fridays"
+ */
+export function isNegated(text: string): boolean {
+  return NEGATION_PATTERN.test(text);
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text: each word as a quoted term,
+ * OR-ed together so BM25 ranks partial matches. Returns null if nothing is left.
+ */
+export function toFtsQuery(query: string): string | null {
+  const terms = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])];
+  const meaningful = terms.filter((t) => !STOPWORDS.has(t));
+  const selected = meaningful.length > 0 ? meaningful : terms;
+  return selected.length > 0 ? selected.map((t) => `"${t}"`).join(' OR ') : null;
+}
+
+/**
+ * Hash of memory content, ignoring surrounding and repeated whitespace
+ */
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content.trim().replace(/\s+/g, ' ')).digest('hex');
+}
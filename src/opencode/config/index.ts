@@ -10,6 +10,14 @@ export type {
   AgentModelConfig,
   SwarmToolAddonsConfig,
   LogLevel,
+  StreamStoreKind,
+  TelemetryConfig,
+  DashboardSettings,
+  EmbeddingProviderKind,
+  EmbeddingSettings,
+  MemoryLaneSettings,
+  LedgerSettings,
+  LedgerFormat,
   ConfigValidationResult,
 } from './types';
 
@@ -169,6 +169,77 @@ describe('SwarmToolAddonsConfig', () => {
       expect(result.valid).toBe(false);
     });
 
+    it('should validate telemetry if provided', () => {
+      const config: SwarmToolAddonsConfig = {
+        models: { 'chief-of-staff/planner': { model: 'opencode/model' } },
+        telemetry: { otlpEndpoint: 'localhost 4318', serviceName: '' },
+      };
+
+      const result = validateConfig(config);
+      expect(result.errors).toHaveLength(2);
+      expect(
+        validateConfig({ ...config, telemetry: { otlpEndpoint: 'http://localhost:4318' } }).valid
+      ).toBe(true);
+    });
+
+    it('should validate dashboard if provided', () => {
+      const config: SwarmToolAddonsConfig = {
+        models: { 'chief-of-staff/planner': { model: 'opencode/model' } },
+        dashboard: { enabled: true, port: 70000 },
+      };
+
+      expect(validateConfig(config).errors).toEqual([
+        'dashboard.port must be an integer between 0 and 65535, got: 70000',
+      ]);
+      expect(validateConfig({ ...config, dashboard: { enabled: true, port: 4747 } }).valid).toBe(
+        true
+      );
+    });
+
+    it('should validate memoryLane embeddings if provided', () => {
+      const config: SwarmToolAddonsConfig = {
+        models: { 'chief-of-staff/planner': { model: 'opencode/model' } },
+        memoryLane: { embeddings: { provider: 'lmstudio' as never, dimensions: 0 } },
+      };
+
+      expect(validateConfig(config).errors).toEqual([
+        'memoryLane.embeddings.provider must be one of: offline, openai-compatible, ollama, got: lmstudio',
+        'memoryLane.embeddings.dimensions must be a positive integer, got: 0',
+      ]);
+      expect(
+        validateConfig({
+          ...config,
+          memoryLane: {
+            embeddings: { provider: 'ollama', baseUrl: 'http://localhost:11434', model: 'bge-m3' },
+          },
+        }).valid
+      ).toBe(true);
+    });
+
+    it('should validate ledger task limit if provided', () => {
+      const config: SwarmToolAddonsConfig = {
+        models: { 'chief-of-staff/planner': { model: 'opencode/model' } },
+        ledger: { maxTasksPerEpic: 2.5 },
+      };
+
+      expect(validateConfig(config).errors).toEqual([
+        'ledger.maxTasksPerEpic must be a positive integer, got: 2.5',
+      ]);
+      expect(validateConfig({ ...config, ledger: { maxTasksPerEpic: 8 } }).valid).toBe(true);
+    });
+
+    it('should validate ledgerFormat if provided', () => {
+      const config = {
+        models: { 'chief-of-staff/planner': { model: 'opencode/model' } },
+        ledgerFormat: 'v4',
+      } as unknown as SwarmToolAddonsConfig;
+
+      expect(validateConfig(config).errors).toEqual([
+        'ledgerFormat must be one of: v5, v6, got: v4',
+      ]);
+      expect(validateConfig({ ...config, ledgerFormat: 'v6' }).valid).toBe(true);
+    });
+
     it('should accept all valid log levels', () => {
       const validLevels: Array<'debug' | 'info' | 'warn' | 'error'> = [
         'debug',
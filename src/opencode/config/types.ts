@@ -1,3 +1,8 @@
+import type { EmbeddingProviderKind } from '../../memory-lane/embeddings';
+import type { LedgerFormat } from '../../orchestrator/ledger';
+
+export type { EmbeddingProviderKind, LedgerFormat };
+
 /**
  * Model configuration for a single agent
  *
@@ -32,6 +37,81 @@ export interface AgentModelConfig {
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Durable Stream storage backends
+ */
+export type StreamStoreKind = 'jsonl' | 'sqlite';
+
+/**
+ * OpenTelemetry trace export of the Durable Stream (`stream_export_traces` tool)
+ */
+export interface TelemetryConfig {
+  /** OTLP/HTTP collector URL, e.g. 'http://localhost:4318' (optional) */
+  otlpEndpoint?: string;
+
+  /** OTLP/JSON file used when no endpoint is set (optional, default: '.opencode/traces.otlp.jsonl') */
+  otlpFile?: string;
+
+  /** `service.name` reported to the collector (optional, default: 'opencode-addons') */
+  serviceName?: string;
+
+  /** Extra HTTP headers sent to the collector (optional) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Local Swarm Dashboard HTTP server
+ */
+export interface DashboardSettings {
+  /** Start the dashboard with the plugin (optional, default: false) */
+  enabled?: boolean;
+
+  /** Port to listen on (optional, default: 4747) */
+  port?: number;
+
+  /** Interface to bind (optional, default: '127.0.0.1') */
+  host?: string;
+}
+
+/**
+ * Embedding provider used by Memory Lane
+ */
+export interface EmbeddingSettings {
+  /** Provider (optional, default: 'openai-compatible' - LM Studio; 'offline' needs no server) */
+  provider?: EmbeddingProviderKind;
+
+  /** Server URL (optional; openai-compatible default: 'http://127.0.0.1:1234/v1', ollama: 'http://127.0.0.1:11434') */
+  baseUrl?: string;
+
+  /** Model identifier (optional; openai-compatible default: 'text-embedding-mxbai-embed-large-v1', ollama: 'nomic-embed-text') */
+  model?: string;
+
+  /** Bearer token for openai-compatible endpoints (optional) */
+  apiKey?: string;
+
+  /** Vector size (optional; offline default: 512, sent as `dimensions` to openai-compatible endpoints) */
+  dimensions?: number;
+}
+
+/**
+ * Memory Lane settings
+ */
+export interface MemoryLaneSettings {
+  /** Embedding provider (optional, default: openai-compatible via LM Studio) */
+  embeddings?: EmbeddingSettings;
+
+  /** Re-embed memories from another model in the background on startup (optional, default: false) */
+  autoReindex?: boolean;
+}
+
+/**
+ * LEDGER.md settings
+ */
+export interface LedgerSettings {
+  /** Maximum tasks per epic (optional, default: 5) */
+  maxTasksPerEpic?: number;
+}
+
 /**
  * Complete configuration for swarm-tool-addons plugin
  *
@@ -50,6 +130,24 @@ export interface SwarmToolAddonsConfig {
   /** Default agent for OpenCode sessions (optional, default: 'chief-of-staff') */
   defaultAgent?: string;
 
+  /** Durable Stream storage backend (optional, default: 'jsonl') */
+  streamStore?: StreamStoreKind;
+
+  /** OTLP trace export settings (optional) */
+  telemetry?: TelemetryConfig;
+
+  /** Swarm Dashboard settings (optional, disabled by default) */
+  dashboard?: DashboardSettings;
+
+  /** Memory Lane settings (optional) */
+  memoryLane?: MemoryLaneSettings;
+
+  /** LEDGER.md settings (optional) */
+  ledger?: LedgerSettings;
+
+  /** Ledger format backing the ledger tools, projection and recovery (optional, default: 'v5') */
+  ledgerFormat?: LedgerFormat;
+
   /** Additional custom settings can be added here as needed */
   [key: string]: unknown;
 }
@@ -175,6 +273,93 @@ export function validateConfig(config: SwarmToolAddonsConfig): ConfigValidationR
     }
   }
 
+  // Validate streamStore if provided
+  if (config.streamStore !== undefined) {
+    const validStores: StreamStoreKind[] = ['jsonl', 'sqlite'];
+    if (!validStores.includes(config.streamStore)) {
+      errors.push(
+        `streamStore must be one of: ${validStores.join(', ')}, got: ${config.streamStore}`
+      );
+    }
+  }
+
+  // Validate telemetry if provided
+  if (config.telemetry !== undefined) {
+    const { otlpEndpoint, otlpFile, serviceName } = config.telemetry;
+    if (otlpEndpoint !== undefined && !/^https?:\/\/\S+$/.test(String(otlpEndpoint))) {
+      errors.push(`telemetry.otlpEndpoint must be an http(s) URL, got: ${otlpEndpoint}`);
+    }
+    if (otlpFile !== undefined && (typeof otlpFile !== 'string' || otlpFile.trim() === '')) {
+      errors.push('telemetry.otlpFile must be a non-empty string');
+    }
+    if (
+      serviceName !== undefined &&
+      (typeof serviceName !== 'string' || serviceName.trim() === '')
+    ) {
+      errors.push('telemetry.serviceName must be a non-empty string');
+    }
+  }
+
+  // Validate dashboard if provided
+  if (config.dashboard !== undefined) {
+    const { port, host } = config.dashboard;
+    if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+      errors.push(`dashboard.port must be an integer between 0 and 65535, got: ${port}`);
+    }
+    if (host !== undefined && (typeof host !== 'string' || host.trim() === '')) {
+      errors.push('dashboard.host must be a non-empty string');
+    }
+  }
+
+  // Validate memoryLane.embeddings if provided
+  const embeddings = config.memoryLane?.embeddings;
+  if (embeddings !== undefined) {
+    const validProviders: EmbeddingProviderKind[] = ['offline', 'openai-compatible', 'ollama'];
+    if (embeddings.provider !== undefined && !validProviders.includes(embeddings.provider)) {
+      errors.push(
+        `memoryLane.embeddings.provider must be one of: ${validProviders.join(', ')}, got: ${embeddings.provider}`
+      );
+    }
+    if (embeddings.baseUrl !== undefined && !/^https?:\/\/\S+$/.test(String(embeddings.baseUrl))) {
+      errors.push(
+        `memoryLane.embeddings.baseUrl must be an http(s) URL, got: ${embeddings.baseUrl}`
+      );
+    }
+    if (
+      embeddings.model !== undefined &&
+      (typeof embeddings.model !== 'string' || embeddings.model.trim() === '')
+    ) {
+      errors.push('memoryLane.embeddings.model must be a non-empty string');
+    }
+    if (
+      embeddings.dimensions !== undefined &&
+      (!Number.isInteger(embeddings.dimensions) || embeddings.dimensions <= 0)
+    ) {
+      errors.push(
+        `memoryLane.embeddings.dimensions must be a positive integer, got: ${embeddings.dimensions}`
+      );
+    }
+  }
+
+  // Validate ledger if provided
+  const maxTasksPerEpic = config.ledger?.maxTasksPerEpic;
+  if (
+    maxTasksPerEpic !== undefined &&
+    (!Number.isInteger(maxTasksPerEpic) || maxTasksPerEpic <= 0)
+  ) {
+    errors.push(`ledger.maxTasksPerEpic must be a positive integer, got: ${maxTasksPerEpic}`);
+  }
+
+  // Validate ledgerFormat if provided
+  if (config.ledgerFormat !== undefined) {
+    const validFormats: LedgerFormat[] = ['v5', 'v6'];
+    if (!validFormats.includes(config.ledgerFormat)) {
+      errors.push(
+        `ledgerFormat must be one of: ${validFormats.join(', ')}, got: ${config.ledgerFormat}`
+      );
+    }
+  }
+
   // Validate defaultAgent if provided
   if (
     config.defaultAgent !== undefined &&
@@ -12,6 +12,7 @@ import { ActorMessage } from './messages';
 import { writeFile, mkdir } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { getEventDrivenLedger } from '../event-driven-ledger';
+import type { StreamEvent } from '../../durable-stream';
 
 /**
  * Pure reducer - processes message and returns new state
@@ -324,76 +325,54 @@ function buildLedgerContent(state: ActorState): string {
 /**
  * Resume actor state from event stream
  *
- * Replays events from a given offset to reconstruct state
+ * Replays the `actor.*` events that processMessage appended to the Durable
+ * Stream, skipping the first `fromOffset` of them
  */
 export async function resumeFromOffset(
   initialState: ActorState,
-  fromOffset: number,
-  projectPath: string = process.cwd()
+  fromOffset: number
 ): Promise<ActorState> {
-  // Import here to avoid circular dependency
-  const { readEvents } = await import('../../event-log');
-
-  const events = await readEvents(projectPath, { fromOffset });
+  const events = (await getEventDrivenLedger().queryEvents({ since: 0 })).filter((e) =>
+    e.type.startsWith('actor.')
+  );
 
   let state = initialState;
-  for (const event of events) {
+  for (const [index, event] of events.entries()) {
+    if (index < fromOffset) continue;
+
     // Convert durable event back to actor message
     const message = eventToMessage(event);
     if (message) {
       state = receive(state, message);
-      state.eventOffset = event.offset;
+      state.eventOffset = index + 1;
     }
   }
 
   return state;
 }
 
+const REPLAYABLE_MESSAGE_TYPES = new Set([
+  'phase.change',
+  'assumption.track',
+  'subagent.spawn',
+  'subagent.complete',
+  'subagent.failed',
+  'agent.yield',
+  'agent.resume',
+]);
+
 /**
- * Convert a durable event to an actor message
+ * Convert a durable event back to the actor message it recorded
+ * (processMessage stores the message payload as JSON in `payload.result`)
  */
-function eventToMessage(event: any): ActorMessage | null {
-  const type = event.type?.replace('actor.', '');
-
-  switch (type) {
-    case 'phase.change':
-      return { type, payload: { from: event.from, to: event.to } };
-    case 'assumption.track':
-      return {
-        type,
-        payload: { assumed: event.assumed, confidence: event.confidence, worker: event.worker },
-      };
-    case 'subagent.spawn':
-      return {
-        type,
-        payload: { agent: event.agent, sessionId: event.session_id, prompt: event.prompt },
-      };
-    case 'subagent.complete':
-      return {
-        type,
-        payload: { sessionId: event.session_id, agent: event.agent, result: event.result },
-      };
-    case 'subagent.failed':
-      return {
-        type,
-        payload: { sessionId: event.session_id, agent: event.agent, error: event.error },
-      };
-    case 'agent.yield':
-      return {
-        type,
-        payload: {
-          agent: event.agent,
-          sessionId: event.session_id,
-          reason: event.reason,
-          snapshot: event.snapshot,
-        },
-      };
-    case 'agent.resume':
-      return {
-        type,
-        payload: { agent: event.agent, sessionId: event.session_id, signalData: event.signal_data },
-      };
-    default:
-      return null;
+function eventToMessage(event: StreamEvent): ActorMessage | null {
+  const type = event.type.replace('actor.', '');
+  if (!REPLAYABLE_MESSAGE_TYPES.has(type)) return null;
+
+  try {
+    const payload = JSON.parse((event.payload as { result?: string })?.result ?? '{}');
+    return { type, payload } as ActorMessage;
+  } catch {
+    return null;
   }
 }
@@ -8,9 +8,15 @@
  * - Checkpoint status
  * - Intent progress
  * - Learnings captured
+ *
+ * The recovered epic and handoff are written to LEDGER.md (v5) or the v6
+ * file ledger, depending on the configured `ledgerFormat`.
  */
 
-import type { Ledger, Task, Epic, LedgerPhase, Handoff } from './ledger';
+import { existsSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { Ledger, Task, Epic, LedgerPhase, Handoff, LedgerFormat } from './ledger';
 import type {
   StreamEvent,
   Checkpoint,
@@ -19,8 +25,10 @@ import type {
   StreamFilter,
 } from '../durable-stream/types';
 import type { ResumeResult } from '../durable-stream/types';
-import { loadLedger, saveLedger } from './ledger';
-import { getDurableStream } from '../durable-stream/orchestrator';
+import { getLedgerFormat, loadLedger, saveLedger } from './ledger';
+import { getFileLedgerAt } from './file-ledger';
+import { renderEpicFiles, toV6Phase } from './file-ledger/migrate';
+import { getDurableStream, type DurableStream } from '../durable-stream/orchestrator';
 import { createModuleLogger } from '../utils/logger';
 
 const log = createModuleLogger('crash-recovery');
@@ -36,6 +44,8 @@ export interface RecoveryState {
 
 export interface RecoveryOptions {
   ledgerPath?: string;
+  /** Ledger to restore into (default: the configured `ledgerFormat`) */
+  ledgerFormat?: LedgerFormat;
   streamPath?: string;
   maxEvents?: number;
   dryRun?: boolean;
@@ -51,6 +61,19 @@ export interface RecoveryReport {
   errors: string[];
 }
 
+/**
+ * Ledger state rebuilt from `ledger.*` events (also stored in stream snapshots).
+ */
+export interface RecoveredLedgerState {
+  epic: Epic | null;
+  phase: LedgerPhase;
+  tasks: Task[];
+  handoff: Handoff | null;
+}
+
+/** Snapshot projection name for the recovered ledger state */
+export const LEDGER_SNAPSHOT_PROJECTION = 'ledger';
+
 const LEDGER_EVENT_TYPES: EventType[] = [
   'ledger.epic.created',
   'ledger.epic.started',
@@ -66,11 +89,13 @@ const LEDGER_EVENT_TYPES: EventType[] = [
 
 export class CrashRecoverySystem {
   private ledgerPath: string;
+  private ledgerFormat?: LedgerFormat;
   private maxEvents: number;
   private dryRun: boolean;
 
   constructor(options?: RecoveryOptions) {
     this.ledgerPath = options?.ledgerPath || '.opencode/LEDGER.md';
+    this.ledgerFormat = options?.ledgerFormat;
     this.maxEvents = options?.maxEvents || 10000;
     this.dryRun = options?.dryRun || false;
   }
@@ -79,7 +104,8 @@ export class CrashRecoverySystem {
     eventHistory: StreamEvent[],
     pendingCheckpoints: Checkpoint[],
     activeIntents: Intent[],
-    resumeResult: ResumeResult
+    resumeResult: ResumeResult,
+    baseState?: RecoveredLedgerState
   ): Promise<RecoveryReport> {
     const report: RecoveryReport = {
       success: false,
@@ -92,26 +118,18 @@ export class CrashRecoverySystem {
     };
 
     try {
-      const recoveredState = this.reconstructState(eventHistory);
+      const recoveredState = this.reconstructState(eventHistory, baseState);
 
       if (recoveredState.epic) {
         report.epicRestored = true;
         report.tasksRestored = recoveredState.epic.tasks.length;
-
-        if (!this.dryRun) {
-          const existingLedger = await loadLedger(this.ledgerPath);
-          existingLedger.epic = recoveredState.epic;
-          existingLedger.meta.phase = recoveredState.phase;
-          await saveLedger(existingLedger, this.ledgerPath);
-        }
       }
 
-      if (recoveredState.handoff) {
-        if (!this.dryRun) {
-          const existingLedger = await loadLedger(this.ledgerPath);
-          existingLedger.handoff = recoveredState.handoff;
-          existingLedger.meta.status = 'handoff';
-          await saveLedger(existingLedger, this.ledgerPath);
+      if (!this.dryRun) {
+        if ((this.ledgerFormat ?? getLedgerFormat()) === 'v6') {
+          await this.restoreFileLedger(recoveredState);
+        } else {
+          await this.restoreLedger(recoveredState);
         }
       }
 
@@ -123,12 +141,61 @@ export class CrashRecoverySystem {
     return report;
   }
 
-  private reconstructState(events: StreamEvent[]): {
-    epic: Epic | null;
-    phase: LedgerPhase;
-    tasks: Task[];
-    handoff: Handoff | null;
-  } {
+  /**
+   * Restore recovered state into LEDGER.md: the epic becomes the focused epic
+   */
+  private async restoreLedger(state: RecoveredLedgerState): Promise<void> {
+    if (state.epic) {
+      const existingLedger = await loadLedger(this.ledgerPath);
+      const recoveredId = state.epic.id;
+      existingLedger.backgroundEpics = existingLedger.backgroundEpics.filter(
+        (e) => e.id !== recoveredId
+      );
+      existingLedger.epic = state.epic;
+      existingLedger.meta.phase = state.phase;
+      await saveLedger(existingLedger, this.ledgerPath);
+    }
+
+    if (state.handoff) {
+      const existingLedger = await loadLedger(this.ledgerPath);
+      existingLedger.handoff = state.handoff;
+      existingLedger.meta.status = 'handoff';
+      await saveLedger(existingLedger, this.ledgerPath);
+    }
+  }
+
+  /**
+   * Restore recovered state into the v6 file ledger. An epic without files is
+   * written from the events; existing epic files are kept and made active again.
+   */
+  private async restoreFileLedger(state: RecoveredLedgerState): Promise<void> {
+    const ledger = getFileLedgerAt(this.ledgerPath);
+    if (!(await ledger.isInitialized())) await ledger.initialize();
+
+    if (state.epic) {
+      const baseDir = dirname(dirname(this.ledgerPath));
+      for (const file of renderEpicFiles(state.epic, new Date().toISOString())) {
+        const target = join(baseDir, file.path);
+        if (existsSync(target)) continue;
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, file.content);
+      }
+      await ledger.setActiveEpic(state.epic.id, toV6Phase(state.phase));
+    }
+
+    if (state.handoff) {
+      await ledger.createHandoff(
+        state.handoff.reason,
+        state.handoff.resumeCommand,
+        state.handoff.whatsNext.join('; ') || 'Resume from crash recovery'
+      );
+    }
+  }
+
+  /**
+   * Rebuild ledger state from events, optionally continuing from a snapshot's state.
+   */
+  reconstructState(events: StreamEvent[], base?: RecoveredLedgerState): RecoveredLedgerState {
     const taskEvents = events.filter(
       (e) => LEDGER_EVENT_TYPES.includes(e.type) && e.type.startsWith('ledger.task')
     );
@@ -141,10 +208,14 @@ export class CrashRecoverySystem {
       (e) => LEDGER_EVENT_TYPES.includes(e.type) && e.type.startsWith('ledger.handoff')
     );
 
-    let epic: Epic | null = null;
-    let currentPhase: LedgerPhase = 'CLARIFICATION';
-    const taskMap = new Map<string, Task>();
-    let handoff: Handoff | null = null;
+    // Copy the base state so snapshot payloads are never mutated
+    const start: RecoveredLedgerState | undefined = base
+      ? JSON.parse(JSON.stringify(base))
+      : undefined;
+    let epic: Epic | null = start?.epic ?? null;
+    let currentPhase: LedgerPhase = start?.phase ?? 'CLARIFICATION';
+    const taskMap = new Map<string, Task>((start?.tasks ?? []).map((t) => [t.id, t]));
+    let handoff: Handoff | null = start?.handoff ?? null;
 
     for (const event of epicEvents) {
       const payload = event.payload as any;
@@ -298,9 +369,33 @@ export async function performRecovery(options?: RecoveryOptions): Promise<Recove
   const resumeResult = await stream.resume();
   const pendingCheckpoints = stream.getPendingCheckpoints();
   const activeIntents = stream.getActiveIntents();
-  const eventHistory = stream.getEventHistory();
 
-  return recovery.performRecovery(eventHistory, pendingCheckpoints, activeIntents, resumeResult);
+  // Replay ledger events from the latest snapshot when one carries ledger state
+  const { snapshot, events } = stream.getEventsSinceSnapshot();
+  const baseState = snapshot?.projections[LEDGER_SNAPSHOT_PROJECTION] as
+    RecoveredLedgerState | undefined;
+  const eventHistory = baseState ? events : stream.getEventHistory();
+
+  return recovery.performRecovery(
+    eventHistory,
+    pendingCheckpoints,
+    activeIntents,
+    resumeResult,
+    baseState
+  );
+}
+
+/**
+ * Store recovered ledger state in Durable Stream snapshots so recovery can
+ * replay from the latest snapshot instead of the beginning of the log.
+ */
+export function registerRecoverySnapshotProjection(
+  stream: DurableStream = getDurableStream()
+): void {
+  const recovery = new CrashRecoverySystem({ dryRun: true });
+  stream.registerSnapshotProjection<RecoveredLedgerState>(LEDGER_SNAPSHOT_PROJECTION, {
+    capture: (previous, events) => recovery.reconstructState(events, previous),
+  });
 }
 
 export async function getRecoveryStatus(): Promise<{
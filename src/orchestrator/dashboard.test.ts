@@ -0,0 +1,197 @@
+/**
+ * Swarm Dashboard Tests
+ *
+ * State endpoint, SSE feed and checkpoint actions against a real DurableStream.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DurableStream, JsonlStore } from '../durable-stream';
+import { DashboardServer } from './dashboard';
+import { TaskRegistry } from './task-registry';
+import { FileBasedLedger, resetFileLedger } from './file-ledger';
+
+describe('DashboardServer', () => {
+  let dir: string;
+  let stream: DurableStream;
+  let registry: TaskRegistry;
+  let dashboard: DashboardServer;
+  let url: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'dashboard-'));
+    stream = new DurableStream({
+      store: new JsonlStore({ path: join(dir, 'durable_stream.jsonl'), useLocking: false }),
+      snapshotInterval: 0,
+    });
+    await stream.initialize();
+    registry = new TaskRegistry({ syncToLedger: false });
+    dashboard = new DashboardServer(
+      { port: 0, ledgerPath: join(dir, 'LEDGER.md') },
+      { stream, registry }
+    );
+    url = await dashboard.start();
+  });
+
+  afterEach(async () => {
+    await dashboard.stop();
+    await stream.shutdown();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(url + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('serves registry, checkpoint and ledger state', async () => {
+    await registry.register({
+      sessionId: 'ses-1',
+      agentName: 'executor',
+      prompt: 'Build it',
+      maxRetries: 1,
+      timeoutMs: 60_000,
+    });
+    await stream.requestCheckpoint('ses-1', 'Ship it?', [{ id: 'yes', label: 'Yes' }], 'oracle');
+
+    const response = await fetch(`${url}/api/state`);
+    const state = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(state.registry.summary).toMatchObject({ total: 1, pending: 1 });
+    expect(state.registry.active[0]).toMatchObject({ agentName: 'executor' });
+    expect(state.checkpoints).toHaveLength(1);
+    expect(state.epic).toBeNull();
+    expect(state.observer).toBeNull();
+  });
+
+  it('approves and rejects pending checkpoints', async () => {
+    const approveId = await stream.requestCheckpoint('s1', 'Deploy?', [], 'oracle');
+    const rejectId = await stream.requestCheckpoint('s1', 'Delete?', [], 'oracle');
+
+    const approved = await post(`/api/checkpoints/${approveId}/approve`, {
+      selected_option: 'yes',
+    });
+    expect(approved.status).toBe(200);
+    expect((await post(`/api/checkpoints/${rejectId}/reject`, { reason: 'No' })).status).toBe(200);
+    expect(stream.getPendingCheckpoints()).toEqual([]);
+
+    const [approval] = await stream.query({ type: 'checkpoint.approved' });
+    expect(approval.payload).toMatchObject({ approved_by: 'dashboard', selected_option: 'yes' });
+
+    expect((await post(`/api/checkpoints/${approveId}/approve`, {})).status).toBe(404);
+  });
+
+  it('requires a JSON body for actions', async () => {
+    const id = await stream.requestCheckpoint('s1', 'Deploy?', [], 'oracle');
+    const response = await fetch(`${url}/api/checkpoints/${id}/approve`, {
+      method: 'POST',
+      body: 'approve',
+    });
+
+    expect(response.status).toBe(415);
+    expect(stream.getPendingCheckpoints()).toHaveLength(1);
+  });
+
+  it('streams new events as Server-Sent Events', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${url}/api/events?type=checkpoint.requested`, {
+      signal: controller.signal,
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    let received = '';
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += Buffer.from(value).toString('utf-8');
+      }
+    };
+
+    await readUntil(': connected');
+    await stream.append({
+      type: 'lifecycle.session.idle',
+      stream_id: 's1',
+      correlation_id: 'c1',
+      actor: 'system',
+      payload: {},
+    });
+    await stream.requestCheckpoint('s1', 'Deploy?', [], 'oracle');
+    await readUntil('Deploy?');
+
+    const message = received.split('\n\n').find((m) => m.startsWith('id: '))!;
+    const [idLine, dataLine] = message.split('\n');
+    expect(idLine).toBe('id: 2');
+    expect(JSON.parse(dataLine.slice('data: '.length))).toMatchObject({
+      type: 'checkpoint.requested',
+    });
+    expect(received).not.toContain('lifecycle.session.idle');
+
+    controller.abort();
+  });
+
+  it('rejects requests for another Host (DNS rebinding)', async () => {
+    const id = await stream.requestCheckpoint('s1', 'Deploy?', [], 'oracle');
+    const request = (method: string, path: string, host: string) =>
+      new Promise<number>((resolve, reject) => {
+        const req = http.request(url + path, {
+          method,
+          headers: { Host: host, 'Content-Type': 'application/json' },
+        });
+        req.on('response', (res) => {
+          res.resume();
+          resolve(res.statusCode!);
+        });
+        req.on('error', reject);
+        req.end(method === 'POST' ? '{}' : undefined);
+      });
+    const port = url.slice(url.lastIndexOf(':') + 1);
+    const evil = `evil.example:${port}`;
+
+    expect(await request('GET', '/api/state', evil)).toBe(403);
+    expect(await request('GET', '/api/events', evil)).toBe(403);
+    expect(await request('POST', `/api/checkpoints/${id}/approve`, evil)).toBe(403);
+    expect(stream.getPendingCheckpoints()).toHaveLength(1);
+
+    expect(await request('GET', '/api/state', `localhost:${port}`)).toBe(200);
+  });
+
+  it('shows the active v6 epic and its plan.md tasks', async () => {
+    resetFileLedger();
+    const fileLedger = new FileBasedLedger(dir);
+    await fileLedger.initialize();
+    const epicId = await fileLedger.createEpic('Auth', 'Add login');
+    await fileLedger.writePlan(
+      epicId,
+      ['- [x] Task 1.1: Schema', '- [ ] Task 1.2: Routes (agent: oracle)'].join('\n')
+    );
+    const v6 = new DashboardServer(
+      { port: 0, ledgerPath: join(dir, '.opencode', 'LEDGER.md'), ledgerFormat: 'v6' },
+      { stream, registry }
+    );
+
+    try {
+      const state = await (await fetch(`${await v6.start()}/api/state`)).json();
+      expect(state.epic).toMatchObject({ id: epicId, title: 'Auth' });
+      expect(state.epic.tasks).toMatchObject([
+        { id: `${epicId}.1.1`, title: 'Schema', status: 'completed' },
+        { id: `${epicId}.1.2`, title: 'Routes', agent: 'oracle', status: 'pending' },
+      ]);
+      expect(state.phase).toBe('CLARIFY');
+    } finally {
+      await v6.stop();
+      resetFileLedger();
+    }
+  });
+
+  it('returns 404 for unknown routes', async () => {
+    expect((await fetch(`${url}/api/nope`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * Swarm Dashboard - Local HTTP Server
+ *
+ * Optional read-mostly view of a running swarm:
+ * - `GET /api/state`: active epic and tasks (LEDGER.md, or the v6 epic's plan.md),
+ *   TaskRegistry summary and active tasks, TaskObserver stats, pending checkpoints
+ * - `GET /api/events`: Server-Sent Events feed of Durable Stream events
+ *   (`?type=a,b&stream_id=x`; reconnects resume from `Last-Event-ID`)
+ * - `POST /api/checkpoints/:id/approve|reject`: resolve a pending checkpoint
+ * - `GET /`: a small HTML page over the endpoints above
+ *
+ * Binds to 127.0.0.1 by default and answers only requests whose Host header
+ * names this server (403 otherwise), so a web page that rebinds its own DNS
+ * name to 127.0.0.1 can neither read the state and feed nor resolve
+ * checkpoints. Cross-origin pages are also kept out of the actions: they
+ * require a JSON body, which needs a CORS preflight this server never allows.
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { networkInterfaces } from 'node:os';
+import { URL } from 'node:url';
+import { getDurableStream } from '../durable-stream';
+import type { DurableStream, EventType, StreamFilter } from '../durable-stream';
+import { DEFAULT_LEDGER_PATH, getLedgerFormat, loadLedger } from './ledger';
+import type { LedgerFormat } from './ledger';
+import { getFileLedgerAt } from './file-ledger';
+import { getTaskRegistry, type TaskRegistry } from './task-registry';
+import type { TaskObserver } from './observer';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('Dashboard');
+
+export interface DashboardConfig {
+  /** Port to listen on (default: 4747; 0 picks a free port) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Path to LEDGER.md */
+  ledgerPath?: string;
+  /** Ledger to show the epic from (default: the configured ledger format) */
+  ledgerFormat?: LedgerFormat;
+  /** SSE keep-alive comment interval (default: 15s) */
+  keepAliveMs?: number;
+}
+
+export interface DashboardSources {
+  stream?: DurableStream;
+  registry?: TaskRegistry;
+  observer?: TaskObserver;
+}
+
+const DEFAULT_CONFIG: Required<Omit<DashboardConfig, 'ledgerFormat'>> = {
+  port: 4747,
+  host: '127.0.0.1',
+  ledgerPath: DEFAULT_LEDGER_PATH,
+  keepAliveMs: 15_000,
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class DashboardServer {
+  private config: Required<Omit<DashboardConfig, 'ledgerFormat'>>;
+  private ledgerFormat?: LedgerFormat;
+  private stream: DurableStream;
+  private registry: TaskRegistry;
+  private observer?: TaskObserver;
+  private server?: http.Server;
+  /** `name:port` values of the Host header this server answers to */
+  private allowedHosts = new Set<string>();
+  /** Open SSE connections, aborted on stop() */
+  private feeds = new Set<AbortController>();
+
+  constructor(config: DashboardConfig = {}, sources: DashboardSources = {}) {
+    const { ledgerFormat, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, ...rest };
+    this.ledgerFormat = ledgerFormat;
+    this.stream = sources.stream ?? getDurableStream();
+    this.registry = sources.registry ?? getTaskRegistry();
+    this.observer = sources.observer;
+  }
+
+  /**
+   * Start listening. Returns the dashboard URL.
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch((err) => {
+          const status = err instanceof HttpError ? err.status : 500;
+          if (status === 500) log.error({ err, url: req.url }, 'Dashboard request failed');
+          if (!res.headersSent) {
+            sendJson(res, status, { error: (err as Error).message });
+          } else {
+            res.end();
+          }
+        });
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.config.port, this.config.host, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      this.server = server;
+      const { port } = server.address() as AddressInfo;
+      this.allowedHosts = new Set(
+        hostNames(this.config.host).map((name) => `${formatHost(name)}:${port}`)
+      );
+      log.info({ url: this.getUrl() }, 'Swarm dashboard listening');
+    }
+    return this.getUrl()!;
+  }
+
+  /**
+   * Close SSE feeds and stop listening.
+   */
+  async stop(): Promise<void> {
+    for (const feed of this.feeds) feed.abort();
+    this.feeds.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      // Idle keep-alive connections would otherwise hold close() open
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
+  getUrl(): string | undefined {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address ? `http://${formatHost(this.config.host)}:${address.port}` : undefined;
+  }
+
+  /**
+   * Everything the dashboard shows, in one snapshot.
+   */
+  async getState() {
+    let ledger: Awaited<ReturnType<DashboardServer['getLedgerState']>> = {};
+    try {
+      ledger = await this.getLedgerState();
+    } catch (err) {
+      log.warn({ err }, 'Failed to load ledger for dashboard');
+    }
+
+    return {
+      epic: ledger.epic ?? null,
+      phase: ledger.phase,
+      activeDialogue: ledger.activeDialogue ?? null,
+      registry: {
+        summary: this.registry.getSummary(),
+        active: this.registry
+          .getAllTasks()
+          .filter((t) => t.status === 'pending' || t.status === 'running'),
+      },
+      observer: this.observer?.getStats() ?? null,
+      checkpoints: this.stream.getPendingCheckpoints(),
+    };
+  }
+
+  /**
+   * Active epic and phase from LEDGER.md (v5) or the active epic's metadata and
+   * plan.md (v6). v6 task IDs get the epic prefix, as in the TaskRegistry.
+   */
+  private async getLedgerState() {
+    if ((this.ledgerFormat ?? getLedgerFormat()) === 'v5') {
+      const ledger = await loadLedger(this.config.ledgerPath);
+      return { epic: ledger.epic, phase: ledger.meta.phase, activeDialogue: ledger.activeDialogue };
+    }
+
+    const fileLedger = getFileLedgerAt(this.config.ledgerPath);
+    const status = await fileLedger.getStatus();
+    if (!status.initialized) return {};
+
+    const epic = status.activeEpic;
+    const tasks = epic ? await fileLedger.readPlanTasks(epic.id) : [];
+    return {
+      epic: epic && {
+        id: epic.id,
+        title: epic.title,
+        status: epic.status,
+        tasks: tasks.map((task) => ({ ...task, id: `${epic.id}.${task.id}` })),
+      },
+      phase: status.phase,
+    };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // DNS rebinding: the browser sends the attacker's name as the Host
+    if (!this.allowedHosts.has(req.headers.host?.toLowerCase() ?? '')) {
+      throw new HttpError(403, 'Unexpected Host header');
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'GET /') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(DASHBOARD_HTML);
+      return;
+    }
+    if (route === 'GET /api/state') {
+      sendJson(res, 200, await this.getState());
+      return;
+    }
+    if (route === 'GET /api/events') {
+      await this.streamEvents(req, res, url);
+      return;
+    }
+
+    const action = url.pathname.match(/^\/api\/checkpoints\/([^/]+)\/(approve|reject)$/);
+    if (action && req.method === 'POST') {
+      const body = await readJsonBody(req);
+      const checkpointId = decodeURIComponent(action[1]);
+      const actor = typeof body.by === 'string' && body.by ? body.by : 'dashboard';
+
+      const resolved =
+        action[2] === 'approve'
+          ? await this.stream.approveCheckpoint(
+              checkpointId,
+              actor,
+              typeof body.selected_option === 'string' ? body.selected_option : undefined
+            )
+          : await this.stream.rejectCheckpoint(
+              checkpointId,
+              actor,
+              typeof body.reason === 'string' ? body.reason : undefined
+            );
+
+      if (!resolved) throw new HttpError(404, `No pending checkpoint ${checkpointId}`);
+      sendJson(res, 200, { success: true, checkpoint_id: checkpointId, action: action[2] });
+      return;
+    }
+
+    throw new HttpError(404, `Not found: ${route}`);
+  }
+
+  /**
+   * SSE feed: one message per stream event (`data` = event JSON, `id` = stream offset).
+   */
+  private async streamEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const filter: StreamFilter = {};
+    const types = url.searchParams.get('type');
+    if (types) filter.type = types.split(',') as EventType[];
+    const streamId = url.searchParams.get('stream_id');
+    if (streamId) filter.stream_id = streamId;
+
+    // Resume after the last delivered event, else start at the current end
+    const cursor = req.headers['last-event-id'] ?? url.searchParams.get('from');
+    const fromOffset =
+      cursor && /^\d+$/.test(String(cursor)) ? Number(cursor) : await this.stream.getOffset();
+
+    const feed = new AbortController();
+    this.feeds.add(feed);
+    res.on('close', () => feed.abort());
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), this.config.keepAliveMs);
+
+    try {
+      for await (const { offset, event } of this.stream.follow(filter, fromOffset, {
+        signal: feed.signal,
+      })) {
+        res.write(`id: ${offset}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    } finally {
+      clearInterval(keepAlive);
+      this.feeds.delete(feed);
+      res.end();
+    }
+  }
+}
+
+/** Names a client may use for the bound address */
+function hostNames(host: string): string[] {
+  if (LOOPBACK_HOSTS.includes(host)) return LOOPBACK_HOSTS;
+  if (WILDCARD_HOSTS.includes(host)) {
+    const addresses = Object.values(networkInterfaces()).flatMap((infos) =>
+      (infos ?? []).map((info) => info.address)
+    );
+    return [...LOOPBACK_HOSTS, ...addresses];
+  }
+  return [host.toLowerCase()];
+}
+
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    throw new HttpError(415, 'Expected an application/json body');
+  }
+
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) throw new HttpError(413, 'Body too large');
+  }
+  if (!raw.trim()) return {};
+
+  try {
+    const body = JSON.parse(raw);
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // fall through
+  }
+  throw new HttpError(400, 'Body must be a JSON object');
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let globalDashboard: DashboardServer | null = null;
+
+export async function startDashboard(
+  config?: DashboardConfig,
+  sources?: DashboardSources
+): Promise<DashboardServer> {
+  if (!globalDashboard) {
+    globalDashboard = new DashboardServer(config, sources);
+  }
+  await globalDashboard.start();
+  return globalDashboard;
+}
+
+export async function stopDashboard(): Promise<void> {
+  if (globalDashboard) {
+    await globalDashboard.stop();
+    globalDashboard = null;
+  }
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Swarm Dashboard</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 1.5rem; color: #222; }
+  h2 { font-size: 1rem; margin: 1.5rem 0 .5rem; }
+  table { border-collapse: collapse; }
+  td, th { padding: .2rem .6rem; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+  .muted { color: #888; }
+  #feed { font: 12px ui-monospace, monospace; max-height: 40vh; overflow: auto; background: #f7f7f7; padding: .5rem; }
+  button { margin-right: .3rem; }
+</style>
+</head>
+<body>
+<h1>Swarm Dashboard</h1>
+<div id="summary" class="muted">Loading…</div>
+<h2>Epic</h2><div id="epic"></div>
+<h2>Active workers</h2><div id="workers"></div>
+<h2>Pending checkpoints</h2><div id="checkpoints"></div>
+<h2>Live events</h2><div id="feed"></div>
+<script>
+const esc = (s) => String(s ?? '').replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+const table = (rows, cols) => rows.length
+  ? '<table><tr>' + cols.map((c) => '<th>' + c + '</th>').join('') + '</tr>' +
+    rows.map((r) => '<tr>' + r.map((v) => '<td>' + v + '</td>').join('') + '</tr>').join('') + '</table>'
+  : '<span class="muted">None</span>';
+
+async function refresh() {
+  const state = await (await fetch('/api/state')).json();
+  const s = state.registry.summary;
+  const o = state.observer;
+  document.getElementById('summary').textContent =
+    'Tasks: ' + s.running + ' running, ' + s.pending + ' pending, ' + s.completed + ' completed, ' +
+    s.failed + ' failed, ' + s.timeout + ' timed out' +
+    (o ? ' · Observer: ' + o.checksPerformed + ' checks, ' + o.tasksRetried + ' retries' : '') +
+    (state.phase ? ' · Phase: ' + state.phase : '');
+  document.getElementById('epic').innerHTML = state.epic
+    ? '<b>' + esc(state.epic.title) + '</b> <span class="muted">' + esc(state.epic.status) + '</span>' +
+      table(state.epic.tasks.map((t) => [esc(t.id), esc(t.title), esc(t.agent), esc(t.status)]), ['ID', 'Task', 'Agent', 'Status'])
+    : '<span class="muted">No active epic</span>';
+  document.getElementById('workers').innerHTML = table(
+    state.registry.active.map((t) => [esc(t.agentName), esc(t.status), esc(t.sessionId),
+      t.startedAt ? Math.round((Date.now() - t.startedAt) / 1000) + 's' : '']),
+    ['Agent', 'Status', 'Session', 'Running for']);
+  document.getElementById('checkpoints').innerHTML = table(
+    state.checkpoints.map((c) => [esc(c.decision_point), esc(c.requested_by),
+      (c.options || []).map((opt) => '<button data-id="' + esc(c.id) + '" data-option="' + esc(opt.id) + '">' + esc(opt.label) + '</button>').join('') +
+      '<button data-id="' + esc(c.id) + '" data-reject="1">Reject</button>']),
+    ['Decision', 'Requested by', 'Actions']);
+}
+
+document.addEventListener('click', async (e) => {
+  const b = e.target.closest('button[data-id]');
+  if (!b) return;
+  const id = encodeURIComponent(b.dataset.id);
+  const body = b.dataset.reject ? { reason: prompt('Reason?') || undefined } : { selected_option: b.dataset.option };
+  await fetch('/api/checkpoints/' + id + '/' + (b.dataset.reject ? 'reject' : 'approve'), {
+    method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+  });
+  refresh();
+});
+
+const feed = document.getElementById('feed');
+let timer;
+const refreshSoon = () => { clearTimeout(timer); timer = setTimeout(refresh, 300); };
+new EventSource('/api/events').onmessage = (e) => {
+  const ev = JSON.parse(e.data);
+  const line = document.createElement('div');
+  line.textContent = new Date(ev.timestamp).toLocaleTimeString() + '  ' + ev.type + '  [' + ev.actor + ']  ' + ev.stream_id;
+  feed.prepend(line);
+  while (feed.childNodes.length > 200) feed.lastChild.remove();
+  if (!/^execution\\.(text|reasoning)_/.test(ev.type)) refreshSoon();
+};
+refresh();
+</script>
+</body>
+</html>
+`;
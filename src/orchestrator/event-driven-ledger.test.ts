@@ -80,6 +80,29 @@ describe('EventDrivenLedger', () => {
       expect(event).toBeNull();
       expect(mockStream.append).not.toHaveBeenCalled();
     });
+
+    it('should link task events to their task, then to the parent task', async () => {
+      let nextId = 0;
+      mockStream.append = vi
+        .fn()
+        .mockImplementation(async (event) => ({ ...event, id: `e${++nextId}` }));
+      await ledger.initialize();
+
+      const decision = await ledger.emit('actor.subagent.spawn' as any, {
+        epicId: 'root',
+        taskId: 'root',
+      });
+      const started = await ledger.emit('ledger.task.started', { epicId: 'root', taskId: 'child' });
+      const nested = await ledger.emit('ledger.task.started', { epicId: 'child', taskId: 'leaf' });
+      const failed = await ledger.emit('ledger.task.failed', { epicId: 'child', taskId: 'leaf' });
+      const explicit = await ledger.emit('ledger.task.completed', { taskId: 'child' }, 'e1');
+
+      expect(decision?.causation_id).toBeUndefined();
+      expect(started?.causation_id).toBe(decision?.id);
+      expect(nested?.causation_id).toBe(started?.id);
+      expect(failed?.causation_id).toBe(nested?.id);
+      expect(explicit?.causation_id).toBe('e1');
+    });
   });
 
   describe('getEventHistory', () => {
@@ -84,6 +84,8 @@ export class EventDrivenLedger {
   private initialized = false;
   private eventHistory: StreamEvent[] = [];
   private lineageTree: Map<string, string[]> = new Map();
+  /** Latest event per task (`task:<id>`) and epic (`epic:<id>`) */
+  private causalHeads: Map<string, string> = new Map();
 
   constructor(config?: LedgerEventConfig) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -105,6 +107,10 @@ export class EventDrivenLedger {
     const result = await this.stream.resume();
     this.eventHistory = this.stream.getEventHistory();
     this.lineageTree = buildLineageTree(this.eventHistory);
+    this.causalHeads.clear();
+    for (const event of this.eventHistory) {
+      this.trackCausalHead(event);
+    }
 
     log.info(
       {
@@ -116,6 +122,11 @@ export class EventDrivenLedger {
     );
   }
 
+  /**
+   * Emit a ledger event. Without an explicit causationId, the event is caused by
+   * the latest event of its task, else of its epic (the parent session for
+   * sub-agent tasks), so nested delegations form one causal tree.
+   */
   async emit<T>(
     type: LedgerEventType,
     payload: LedgerEventPayload,
@@ -125,21 +136,49 @@ export class EventDrivenLedger {
 
     await this.initialize();
 
+    const cause = causationId ?? this.causeOf(payload);
     const event = await this.stream.append({
       type: type as any,
       stream_id: this.config.streamId,
       correlation_id: this.stream.getCorrelationId(),
       actor: 'ledger',
       payload,
-      causation_id: causationId,
+      causation_id: cause,
     });
 
     this.eventHistory.push(event);
-    this.updateLineage(event.id, causationId);
+    this.updateLineage(event.id, cause);
+    this.trackCausalHead(event);
 
     return event as unknown as StreamEvent<T>;
   }
 
+  private causeOf(payload: LedgerEventPayload): string | undefined {
+    const { taskId, epicId } = payload;
+    const keys = [
+      taskId && `task:${taskId}`,
+      taskId && epicId && `task:${epicId}`,
+      epicId && `epic:${epicId}`,
+    ];
+
+    for (const key of keys) {
+      const id = key ? this.causalHeads.get(key) : undefined;
+      if (id) return id;
+    }
+    return undefined;
+  }
+
+  private trackCausalHead(event: StreamEvent): void {
+    if (event.stream_id !== this.config.streamId) return;
+
+    const payload = event.payload as LedgerEventPayload | null | undefined;
+    if (payload?.taskId) {
+      this.causalHeads.set(`task:${payload.taskId}`, event.id);
+    } else if (payload?.epicId) {
+      this.causalHeads.set(`epic:${payload.epicId}`, event.id);
+    }
+  }
+
   private updateLineage(eventId: string, causationId?: string): void {
     if (causationId) {
       const children = this.lineageTree.get(causationId) || [];
@@ -177,6 +216,7 @@ export class EventDrivenLedger {
     this.initialized = false;
     this.eventHistory = [];
     this.lineageTree.clear();
+    this.causalHeads.clear();
   }
 }
 
@@ -12,7 +12,7 @@
 
 import { readFile, writeFile, mkdir, readdir, rm } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { randomBytes } from 'node:crypto';
 
 import {
@@ -79,6 +79,73 @@ function dateOnly(): string {
   return new Date().toISOString().split('T')[0];
 }
 
+/**
+ * Render the LEDGER.md index (v6.0)
+ */
+export function renderLedgerIndex(idx: LedgerIndex): string {
+  const lines: string[] = [];
+
+  lines.push('# LEDGER (v6.0)');
+  lines.push('');
+  lines.push('## Meta');
+  lines.push(`- **Version**: ${idx.meta.version}`);
+  lines.push(`- **Session**: ${idx.meta.sessionId}`);
+  lines.push(`- **Phase**: ${idx.meta.phase}`);
+  lines.push(`- **Last Updated**: ${idx.meta.lastUpdated}`);
+  lines.push('');
+
+  lines.push('## Active Epic');
+  if (idx.activeEpic) {
+    lines.push(`**Epic**: [${idx.activeEpic.id}](${idx.activeEpic.path}/)`);
+  } else {
+    lines.push('*No active epic*');
+  }
+  lines.push('');
+
+  lines.push('## Recent Learnings');
+  if (idx.recentLearnings.length > 0) {
+    for (const learning of idx.recentLearnings.slice(0, 5)) {
+      lines.push(`- ${learning}`);
+    }
+  } else {
+    lines.push('*No recent learnings*');
+  }
+  lines.push('');
+
+  lines.push('## Handoff');
+  if (idx.handoff) {
+    lines.push(`**Reason**: ${idx.handoff.reason}`);
+    lines.push(`**Resume**: \`${idx.handoff.resumeCommand}\``);
+    lines.push(`**Summary**: ${idx.handoff.summary}`);
+  } else {
+    lines.push('*No pending handoff*');
+  }
+  lines.push('');
+
+  lines.push('---');
+  lines.push('');
+  lines.push('## Quick Reference');
+  lines.push('');
+  lines.push('| Command | Description |');
+  lines.push('|---------|-------------|');
+  lines.push('| `/sdd <task>` | Start SDD workflow |');
+  lines.push('| `/ama <question>` | Ask with Strategic Polling |');
+  lines.push('| `/status` | Check current status |');
+  lines.push('');
+  lines.push('## Context Files');
+  lines.push('- [Product](context/product.md)');
+  lines.push('- [Tech Stack](context/tech-stack.md)');
+  lines.push('- [Workflow](context/workflow.md)');
+  lines.push('');
+  lines.push('## Learnings');
+  lines.push('- [Patterns](learnings/patterns.md)');
+  lines.push('- [Decisions](learnings/decisions.md)');
+  lines.push('- [Preferences](learnings/preferences.md)');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 /**
  * FileBasedLedger - Main class for file-based orchestration state
  */
@@ -263,68 +330,7 @@ export class FileBasedLedger {
   }
 
   private renderIndex(): string {
-    const idx = this.index!;
-    const lines: string[] = [];
-
-    lines.push('# LEDGER (v6.0)');
-    lines.push('');
-    lines.push('## Meta');
-    lines.push(`- **Version**: ${idx.meta.version}`);
-    lines.push(`- **Session**: ${idx.meta.sessionId}`);
-    lines.push(`- **Phase**: ${idx.meta.phase}`);
-    lines.push(`- **Last Updated**: ${idx.meta.lastUpdated}`);
-    lines.push('');
-
-    lines.push('## Active Epic');
-    if (idx.activeEpic) {
-      lines.push(`**Epic**: [${idx.activeEpic.id}](${idx.activeEpic.path}/)`);
-    } else {
-      lines.push('*No active epic*');
-    }
-    lines.push('');
-
-    lines.push('## Recent Learnings');
-    if (idx.recentLearnings.length > 0) {
-      for (const learning of idx.recentLearnings.slice(0, 5)) {
-        lines.push(`- ${learning}`);
-      }
-    } else {
-      lines.push('*No recent learnings*');
-    }
-    lines.push('');
-
-    lines.push('## Handoff');
-    if (idx.handoff) {
-      lines.push(`**Reason**: ${idx.handoff.reason}`);
-      lines.push(`**Resume**: \`${idx.handoff.resumeCommand}\``);
-      lines.push(`**Summary**: ${idx.handoff.summary}`);
-    } else {
-      lines.push('*No pending handoff*');
-    }
-    lines.push('');
-
-    lines.push('---');
-    lines.push('');
-    lines.push('## Quick Reference');
-    lines.push('');
-    lines.push('| Command | Description |');
-    lines.push('|---------|-------------|');
-    lines.push('| `/sdd <task>` | Start SDD workflow |');
-    lines.push('| `/ama <question>` | Ask with Strategic Polling |');
-    lines.push('| `/status` | Check current status |');
-    lines.push('');
-    lines.push('## Context Files');
-    lines.push('- [Product](context/product.md)');
-    lines.push('- [Tech Stack](context/tech-stack.md)');
-    lines.push('- [Workflow](context/workflow.md)');
-    lines.push('');
-    lines.push('## Learnings');
-    lines.push('- [Patterns](learnings/patterns.md)');
-    lines.push('- [Decisions](learnings/decisions.md)');
-    lines.push('- [Preferences](learnings/preferences.md)');
-    lines.push('');
-
-    return lines.join('\n');
+    return renderLedgerIndex(this.index!);
   }
 
   // EPIC OPERATIONS
@@ -393,6 +399,22 @@ export class FileBasedLedger {
     return JSON.parse(content) as EpicMetadata;
   }
 
+  /**
+   * Make an existing epic the active one (e.g. after crash recovery)
+   */
+  async setActiveEpic(epicId: string, phase?: Phase): Promise<void> {
+    if (!existsSync(join(this.epicPath(epicId), 'metadata.json'))) {
+      throw new Error(`Epic not found: ${epicId}`);
+    }
+
+    await this.loadIndex();
+    this.index!.activeEpic = { id: epicId, path: `epics/${epicId}` };
+    if (phase) this.index!.meta.phase = phase;
+    await this.saveIndex();
+
+    log.info({ epicId }, 'Activated epic');
+  }
+
   /**
    * Update epic metadata
    */
@@ -522,6 +544,34 @@ export class FileBasedLedger {
     log.info({ epicId }, 'Updated plan');
   }
 
+  /**
+   * Parse the task checklist of a plan file
+   */
+  async readPlanTasks(epicId: string): Promise<TaskDefinition[]> {
+    const content = await this.readPlan(epicId);
+    const tasks: TaskDefinition[] = [];
+
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*- \[([ x!])\] Task (\d+\.\d+): (.+)$/);
+      // Skip template placeholders such as "[Task description]"
+      if (!match || /^\[.*\]$/.test(match[3].trim())) continue;
+
+      const notes = match[3].match(/\((agent: [^)]*)\)\s*$/)?.[1];
+      const agent = notes?.match(/agent: ([^;]+)/)?.[1].trim();
+      const dependencies = notes?.match(/depends on: ([^;]+)/)?.[1].split(',') ?? [];
+      tasks.push({
+        id: match[2],
+        title: notes ? match[3].slice(0, match[3].lastIndexOf('(')).trim() : match[3].trim(),
+        // Plans name an agent only when written by the migration; the executor runs the rest
+        agent: agent ?? 'executor',
+        status: match[1] === 'x' ? 'completed' : match[1] === '!' ? 'failed' : 'pending',
+        dependencies: dependencies.map((d) => d.trim()),
+      });
+    }
+
+    return tasks;
+  }
+
   /**
    * Update task status in plan file
    */
@@ -743,6 +793,13 @@ export function getFileLedger(baseDir?: string): FileBasedLedger {
   return instance;
 }
 
+/**
+ * File ledger of the project whose LEDGER.md is at `ledgerPath` (`<dir>/.opencode/LEDGER.md`)
+ */
+export function getFileLedgerAt(ledgerPath: string): FileBasedLedger {
+  return getFileLedger(resolve(dirname(dirname(ledgerPath))));
+}
+
 export function resetFileLedger(): void {
   instance = null;
 }
@@ -0,0 +1,117 @@
+/**
+ * Ledger Migration Tests (v5 -> v6)
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addDirective,
+  addLearning,
+  createEpic,
+  createTask,
+  loadLedger,
+  saveLedger,
+  updateTaskStatus,
+} from '../ledger';
+import { detectLedgerFormats, migrateLedger } from './migrate';
+
+describe('migrateLedger', () => {
+  let dir: string;
+  let ledgerPath: string;
+  let authId: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ledger-migrate-'));
+    ledgerPath = join(dir, '.opencode', 'LEDGER.md');
+
+    const ledger = await loadLedger(ledgerPath);
+    authId = createEpic(ledger, 'Auth', 'Add login with sessions');
+    const first = createTask(ledger, 'Schema', 'executor');
+    createTask(ledger, 'Routes', 'executor', { dependencies: [first] });
+    updateTaskStatus(ledger, first, 'completed', 'Tables created');
+    createEpic(ledger, 'Docs', 'Document the API', { focus: false });
+    addLearning(ledger, 'pattern', 'Use zod for request validation');
+    addLearning(ledger, 'antiPattern', 'Storing sessions in memory');
+    addDirective(ledger, 'No new dependencies', 'user');
+    await saveLedger(ledger, ledgerPath);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const read = (path: string) => readFileSync(join(dir, '.opencode', path), 'utf-8');
+
+  it('reports a diff without writing on a dry run', async () => {
+    const before = read('LEDGER.md');
+    const result = await migrateLedger({ baseDir: dir, dryRun: true });
+
+    expect(result).toMatchObject({ migrated: false, dryRun: true });
+    expect(result.changes.every((c) => c.action === 'create' || c.action === 'update')).toBe(true);
+    expect(result.diff).toContain('+ - [x] Task 1.1: Schema');
+    expect(existsSync(join(dir, '.opencode', 'epics'))).toBe(false);
+    expect(read('LEDGER.md')).toBe(before);
+  });
+
+  it('writes the v6 layout and keeps the v5 ledger as a backup', async () => {
+    const v5 = read('LEDGER.md');
+    const result = await migrateLedger({ baseDir: dir });
+    expect(result.migrated).toBe(true);
+
+    expect(result.changes.filter((c) => c.path.endsWith('/spec.md'))).toHaveLength(2);
+    for (const file of ['spec.md', 'plan.md', 'log.md', 'metadata.json']) {
+      expect(existsSync(join(dir, '.opencode', 'epics', authId, file))).toBe(true);
+    }
+
+    const plan = read(`epics/${authId}/plan.md`);
+    expect(plan).toContain('- [x] Task 1.1: Schema');
+    expect(plan).toContain('Task 1.2: Routes (agent: executor; v5: ');
+    expect(plan).toContain('depends on: 1.1');
+    expect(JSON.parse(read(`epics/${authId}/metadata.json`))).toMatchObject({
+      title: 'Auth',
+      status: 'planning',
+      tasksSummary: { total: 2, completed: 1 },
+    });
+
+    expect(read('learnings/patterns.md')).toContain('Use zod for request validation');
+    expect(read('learnings/patterns.md')).toContain('Storing sessions in memory (anti-pattern)');
+    expect(read('learnings/preferences.md')).toContain('No new dependencies (directive, user)');
+    expect(existsSync(join(dir, '.opencode', 'context', 'product.md'))).toBe(true);
+
+    expect(read('LEDGER.md')).toMatch(/^# LEDGER \(v6/);
+    expect(read('LEDGER.md')).toContain(`epics/${authId}`);
+    expect(read('LEDGER.v5.md')).toBe(v5);
+    expect(existsSync(join(dir, '.opencode', 'ledger.v5.json'))).toBe(true);
+    expect(existsSync(join(dir, '.opencode', 'ledger.json'))).toBe(false);
+  });
+
+  it('is a no-op once migrated and never overwrites existing v6 files', async () => {
+    await mkdir(join(dir, '.opencode', 'context'), { recursive: true });
+    await writeFile(join(dir, '.opencode', 'context', 'product.md'), '# Our product\n');
+
+    const first = await migrateLedger({ baseDir: dir });
+    expect(first.changes).toContainEqual({
+      path: '.opencode/context/product.md',
+      action: 'skip',
+      reason: 'exists with different content',
+    });
+    expect(read('context/product.md')).toBe('# Our product\n');
+
+    const second = await migrateLedger({ baseDir: dir });
+    expect(second).toMatchObject({ migrated: false, changes: [] });
+    expect(second.message).toContain('already a v6 index');
+  });
+
+  it('detects which formats are present', async () => {
+    expect(await detectLedgerFormats(dir)).toEqual({ v5: true, v6: false });
+
+    await mkdir(join(dir, '.opencode', 'epics'), { recursive: true });
+    expect(await detectLedgerFormats(dir)).toEqual({ v5: true, v6: true });
+
+    await migrateLedger({ baseDir: dir });
+    expect(await detectLedgerFormats(dir)).toEqual({ v5: false, v6: true });
+  });
+});
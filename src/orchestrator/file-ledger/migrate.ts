@@ -0,0 +1,477 @@
+/**
+ * Ledger Migration (v5 -> v6)
+ *
+ * Converts the monolithic v5 ledger (LEDGER.md rendered from ledger.json)
+ * into the v6 file layout:
+ *   - every open epic       -> epics/<id>/{spec.md, plan.md, log.md, metadata.json}
+ *   - archive entries       -> archive/<id>/metadata.json
+ *   - learnings, directives -> learnings/{patterns,decisions,preferences}.md
+ *   - context templates     -> context/*.md (only when missing)
+ *   - LEDGER.md             -> v6 index; the v5 files are kept as LEDGER.v5.md / ledger.v5.json
+ *
+ * Idempotent: existing files are never overwritten (learning files only gain
+ * missing entries), and once LEDGER.md is a v6 index there is nothing left to
+ * migrate. `dryRun` reports the planned changes with a line diff.
+ */
+
+import { existsSync } from 'fs';
+import { copyFile, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+  getLedgerStatePath,
+  loadLedger,
+  type Epic as V5Epic,
+  type EpicStatus as V5EpicStatus,
+  type Ledger,
+  type LedgerPhase,
+} from '../ledger';
+import { diffLines } from '../learned-guidance';
+import { renderLedgerIndex } from './index';
+import {
+  OPENCODE_DIR,
+  CONTEXT_DIR,
+  EPICS_DIR,
+  LEARNINGS_DIR,
+  ARCHIVE_DIR,
+  LEDGER_FILE,
+  type EpicMetadata,
+  type EpicStatus,
+  type LedgerIndex,
+  type Phase,
+} from './types';
+import {
+  PRODUCT_TEMPLATE,
+  TECH_STACK_TEMPLATE,
+  WORKFLOW_TEMPLATE,
+  PATTERNS_TEMPLATE,
+  DECISIONS_TEMPLATE,
+  PREFERENCES_TEMPLATE,
+  METADATA_TEMPLATE,
+  renderTemplate,
+} from './templates';
+import { createModuleLogger } from '../../utils/logger';
+
+const log = createModuleLogger('ledger-migrate');
+
+export const V5_LEDGER_BACKUP = `${OPENCODE_DIR}/LEDGER.v5.md`;
+export const V5_STATE_BACKUP = `${OPENCODE_DIR}/ledger.v5.json`;
+
+export type MigrationAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+export interface MigrationChange {
+  path: string; // Relative to the project directory
+  action: MigrationAction;
+  reason?: string;
+}
+
+export interface LedgerMigrationOptions {
+  baseDir?: string;
+  dryRun?: boolean;
+}
+
+export interface LedgerMigrationResult {
+  migrated: boolean;
+  dryRun: boolean;
+  changes: MigrationChange[];
+  diff: string;
+  message: string;
+}
+
+export interface LedgerFormats {
+  v5: boolean; // Monolithic LEDGER.md or ledger.json
+  v6: boolean; // epics/ or context/ directories
+}
+
+interface PlannedFile {
+  path: string;
+  content: string;
+  merge?: boolean; // Existing file: append missing entries instead of skipping
+  replace?: boolean; // Existing file is the v5 ledger being replaced
+}
+
+const V6_HEADER = '# LEDGER (v6';
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect which ledger formats are present in a project directory
+ */
+export async function detectLedgerFormats(baseDir: string = process.cwd()): Promise<LedgerFormats> {
+  const ledgerPath = join(baseDir, LEDGER_FILE);
+  // LEDGER.md decides; a ledger.json next to a v6 index is a leftover of an interrupted migration
+  const v5 = existsSync(ledgerPath)
+    ? !(await readFile(ledgerPath, 'utf-8')).startsWith(V6_HEADER)
+    : existsSync(getLedgerStatePath(ledgerPath));
+  const v6 = existsSync(join(baseDir, EPICS_DIR)) || existsSync(join(baseDir, CONTEXT_DIR));
+  return { v5, v6 };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function isoDate(ms: number | string): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+/**
+ * v6 phase of a v5 ledger phase
+ */
+export function toV6Phase(phase: LedgerPhase): Phase {
+  switch (phase) {
+    case 'CLARIFICATION':
+      return 'CLARIFY';
+    case 'DECOMPOSITION':
+    case 'PLANNING':
+      return 'PLAN';
+    case 'EXECUTION':
+      return 'EXECUTE';
+    case 'COMPLETION':
+      return 'COMPLETE';
+  }
+}
+
+function toEpicStatus(epic: V5Epic): EpicStatus {
+  const map: Record<V5EpicStatus, EpicStatus> = {
+    pending: epic.tasks.length > 0 ? 'planning' : 'draft',
+    in_progress: 'in_progress',
+    completed: 'completed',
+    failed: 'failed',
+    paused: 'paused',
+  };
+  return map[epic.status];
+}
+
+/** v6 plans number tasks "<phase>.<n>"; v5 tasks become phase 1 */
+function toPlanTaskId(epic: V5Epic, taskId: string): string {
+  const index = epic.tasks.findIndex((t) => t.id === taskId);
+  return index >= 0 ? `1.${index + 1}` : taskId;
+}
+
+function renderMetadata(epic: V5Epic, updatedAt: string): string {
+  const filesModified = [
+    ...new Set(epic.tasks.flatMap((t) => (t.filesModified ?? []).map((f) => f.path))),
+  ];
+  const metadata: EpicMetadata = {
+    ...METADATA_TEMPLATE,
+    id: epic.id,
+    title: epic.title,
+    status: toEpicStatus(epic),
+    createdAt: new Date(epic.createdAt).toISOString(),
+    updatedAt,
+    ...(epic.completedAt && { completedAt: new Date(epic.completedAt).toISOString() }),
+    tasksSummary: {
+      total: epic.tasks.length,
+      completed: epic.tasks.filter((t) => t.status === 'completed').length,
+      failed: epic.tasks.filter((t) => t.status === 'failed').length,
+    },
+    filesModified,
+  };
+  return JSON.stringify(metadata, null, 2);
+}
+
+function renderSpec(epic: V5Epic): string {
+  const lines = [
+    `# Specification: ${epic.title}`,
+    '',
+    '**Version**: 1.0.0',
+    `**Created**: ${isoDate(epic.createdAt)}`,
+    '**Status**: Migrated from LEDGER.md (v5)',
+    '',
+    '## Overview',
+    epic.request,
+    '',
+  ];
+  if (epic.context.length > 0) {
+    lines.push('## Context', ...epic.context.map((c) => `- ${c}`), '');
+  }
+  lines.push('---', '*Approved by: [pending]*', '');
+  return lines.join('\n');
+}
+
+function renderPlan(epic: V5Epic, assumptions: string[]): string {
+  const lines = [
+    `# Implementation Plan: ${epic.title}`,
+    '',
+    '## Goal',
+    epic.request,
+    '',
+    '## Track Info',
+    `- **Epic ID**: ${epic.id}`,
+    '- **Execution Strategy**: sequential',
+    '',
+    '## Proposed Changes (Phased)',
+    '',
+    '### Phase 1: Tasks',
+    '',
+  ];
+  for (const task of epic.tasks) {
+    const marker = task.status === 'completed' ? 'x' : task.status === 'failed' ? '!' : ' ';
+    const deps = task.dependencies.map((d) => toPlanTaskId(epic, d));
+    const notes = [`agent: ${task.agent}`, `v5: ${task.id}`];
+    if (deps.length > 0) notes.push(`depends on: ${deps.join(', ')}`);
+    lines.push(
+      `- [${marker}] Task ${toPlanTaskId(epic, task.id)}: ${task.title} (${notes.join('; ')})`
+    );
+  }
+  if (epic.tasks.length === 0) {
+    lines.push('*No tasks yet*');
+  }
+  lines.push('');
+  if (assumptions.length > 0) {
+    lines.push('## Assumptions', ...assumptions.map((a) => `- ${a}`), '');
+  }
+  lines.push('---', '*Approved by: [pending]*', '');
+  return lines.join('\n');
+}
+
+function renderLog(epic: V5Epic, updatedAt: string): string {
+  const lines = [
+    `# Execution Log: ${epic.title}`,
+    '',
+    `**Epic ID**: ${epic.id}`,
+    `**Started**: ${isoDate(epic.createdAt)}`,
+    '',
+    '## Progress',
+    '',
+    '### Phase: EXECUTE',
+    ...epic.progressLog.map((entry) => `- ${entry}`),
+    '',
+    '---',
+    `*Last updated: ${isoDate(updatedAt)}*`,
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Insert entry lines after the "## Recent/Active ..." header of a learnings file
+ */
+function withEntries(content: string, entries: string[]): string {
+  const missing = entries.filter((entry) => !content.includes(entry));
+  if (missing.length === 0) return content;
+
+  const header = content.search(/^## (Recent|Active) /m);
+  if (header < 0) return `${content.trimEnd()}\n\n${missing.join('\n')}\n`;
+  const afterHeader = content.indexOf('\n', header) + 1;
+  return `${content.slice(0, afterHeader)}\n${missing.join('\n')}\n${content.slice(afterHeader)}`;
+}
+
+/**
+ * v6 files (paths relative to the project directory) of a v5 epic
+ */
+export function renderEpicFiles(
+  epic: V5Epic,
+  updatedAt: string,
+  assumptions: string[] = []
+): Array<{ path: string; content: string }> {
+  const dir = `${EPICS_DIR}/${epic.id}`;
+  return [
+    { path: `${dir}/metadata.json`, content: renderMetadata(epic, updatedAt) },
+    { path: `${dir}/spec.md`, content: renderSpec(epic) },
+    { path: `${dir}/plan.md`, content: renderPlan(epic, assumptions) },
+    { path: `${dir}/log.md`, content: renderLog(epic, updatedAt) },
+  ];
+}
+
+function learningLine(content: string, createdAt: number | undefined, fallback: string): string {
+  return `- **[${createdAt ? isoDate(createdAt) : fallback}]** ${content}`;
+}
+
+function planFiles(ledger: Ledger): PlannedFile[] {
+  const updatedAt = ledger.meta.lastUpdated;
+  const today = isoDate(updatedAt);
+  const files: PlannedFile[] = [];
+
+  // Context templates (the v5 ledger has no project context of its own)
+  const vars = { date: today };
+  files.push(
+    { path: `${CONTEXT_DIR}/product.md`, content: renderTemplate(PRODUCT_TEMPLATE, vars) },
+    { path: `${CONTEXT_DIR}/tech-stack.md`, content: renderTemplate(TECH_STACK_TEMPLATE, vars) },
+    { path: `${CONTEXT_DIR}/workflow.md`, content: renderTemplate(WORKFLOW_TEMPLATE, vars) }
+  );
+
+  // Open epics; pending assumptions go to the focused epic's plan
+  const assumptions = ledger.governance.assumptions
+    .filter((a) => a.status !== 'rejected')
+    .map((a) => `${a.content} (${a.source}: ${a.rationale})`);
+  const epics = ledger.epic ? [ledger.epic, ...ledger.backgroundEpics] : ledger.backgroundEpics;
+  for (const epic of epics) {
+    files.push(...renderEpicFiles(epic, updatedAt, epic === ledger.epic ? assumptions : []));
+  }
+
+  // Archive summaries
+  for (const entry of ledger.archive) {
+    const completed = entry.outcome === 'SUCCEEDED' || entry.outcome === 'PARTIAL';
+    const metadata: EpicMetadata = {
+      ...METADATA_TEMPLATE,
+      id: entry.epicId,
+      title: entry.title,
+      status: completed ? 'completed' : 'failed',
+      createdAt: entry.date,
+      updatedAt: entry.date,
+      completedAt: entry.date,
+      ...(entry.outcome !== '-' && { outcome: entry.outcome }),
+    };
+    files.push({
+      path: `${ARCHIVE_DIR}/${entry.epicId}/metadata.json`,
+      content: JSON.stringify(metadata, null, 2),
+    });
+  }
+
+  // Learnings and directives
+  const { patterns, antiPatterns, decisions, preferences } = ledger.learnings;
+  files.push(
+    {
+      path: `${LEARNINGS_DIR}/patterns.md`,
+      content: withEntries(renderTemplate(PATTERNS_TEMPLATE, vars), [
+        ...patterns.map((l) => learningLine(l.content, l.createdAt, today)),
+        ...antiPatterns.map((l) => learningLine(`${l.content} (anti-pattern)`, l.createdAt, today)),
+      ]),
+      merge: true,
+    },
+    {
+      path: `${LEARNINGS_DIR}/decisions.md`,
+      content: withEntries(
+        renderTemplate(DECISIONS_TEMPLATE, vars),
+        decisions.map((l) => learningLine(l.content, l.createdAt, today))
+      ),
+      merge: true,
+    },
+    {
+      path: `${LEARNINGS_DIR}/preferences.md`,
+      content: withEntries(renderTemplate(PREFERENCES_TEMPLATE, vars), [
+        ...ledger.governance.directives.map((d) =>
+          learningLine(`${d.content} (directive, ${d.source})`, d.createdAt, today)
+        ),
+        ...preferences.map((l) => learningLine(l.content, l.createdAt, today)),
+      ]),
+      merge: true,
+    }
+  );
+
+  // v6 index
+  const index: LedgerIndex = {
+    meta: {
+      version: '6.0',
+      sessionId: ledger.meta.sessionId,
+      phase: toV6Phase(ledger.meta.phase),
+      lastUpdated: updatedAt,
+    },
+    activeEpic: ledger.epic ? { id: ledger.epic.id, path: `epics/${ledger.epic.id}` } : null,
+    recentLearnings: [
+      ...patterns.map((l) => `[pattern] ${l.content}`),
+      ...antiPatterns.map((l) => `[antiPattern] ${l.content}`),
+      ...decisions.map((l) => `[decision] ${l.content}`),
+    ]
+      .slice(-5)
+      .reverse(),
+    handoff: ledger.handoff
+      ? {
+          reason: ledger.handoff.reason,
+          resumeCommand: ledger.handoff.resumeCommand,
+          summary: ledger.handoff.whatsNext.join('; ') || 'Resume from the migrated ledger',
+        }
+      : null,
+  };
+  files.push({ path: LEDGER_FILE, content: renderLedgerIndex(index), replace: true });
+
+  return files;
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Migrate a v5 LEDGER.md to the v6 file layout
+ */
+export async function migrateLedger(
+  options: LedgerMigrationOptions = {}
+): Promise<LedgerMigrationResult> {
+  const baseDir = options.baseDir ?? process.cwd();
+  const dryRun = options.dryRun ?? false;
+  const ledgerPath = join(baseDir, LEDGER_FILE);
+  const statePath = getLedgerStatePath(ledgerPath);
+
+  const { v5 } = await detectLedgerFormats(baseDir);
+  if (!v5) {
+    return {
+      migrated: false,
+      dryRun,
+      changes: [],
+      diff: '',
+      message: existsSync(ledgerPath)
+        ? 'LEDGER.md is already a v6 index; nothing to migrate'
+        : 'No v5 LEDGER.md found; nothing to migrate',
+    };
+  }
+
+  const ledger = await loadLedger(ledgerPath);
+  const changes: MigrationChange[] = [];
+  const writes: PlannedFile[] = [];
+  const diffs: string[] = [];
+
+  for (const file of planFiles(ledger)) {
+    const target = join(baseDir, file.path);
+    const existing = existsSync(target) ? await readFile(target, 'utf-8') : null;
+    let content = file.content;
+
+    if (existing !== null && file.merge) {
+      // Keep the existing learnings file and add the entries it lacks
+      content = withEntries(
+        existing,
+        content.split('\n').filter((l) => l.startsWith('- **['))
+      );
+    }
+
+    if (existing === content) {
+      changes.push({ path: file.path, action: 'unchanged' });
+      continue;
+    }
+    if (existing !== null && !file.merge && !file.replace) {
+      changes.push({ path: file.path, action: 'skip', reason: 'exists with different content' });
+      continue;
+    }
+
+    const action: MigrationAction = existing === null ? 'create' : 'update';
+    changes.push({ path: file.path, action });
+    writes.push({ ...file, content });
+    diffs.push(`--- ${file.path}\n+++ ${file.path}\n${diffLines(existing ?? '', content)}`);
+  }
+
+  if (!dryRun) {
+    // Back up the v5 ledger and write the index last, so an interrupted run
+    // still sees a v5 LEDGER.md and is simply resumed
+    if (existsSync(ledgerPath)) {
+      await copyFile(ledgerPath, join(baseDir, V5_LEDGER_BACKUP));
+    }
+    if (existsSync(statePath)) {
+      await copyFile(statePath, join(baseDir, V5_STATE_BACKUP));
+    }
+    for (const file of writes.filter((f) => !f.replace)) {
+      const target = join(baseDir, file.path);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file.content);
+    }
+    const index = writes.find((f) => f.replace);
+    if (index) {
+      await writeFile(ledgerPath, index.content);
+    }
+    await rm(statePath, { force: true });
+    log.info({ files: writes.length }, 'Migrated LEDGER.md to v6');
+  }
+
+  const epicCount = (ledger.epic ? 1 : 0) + ledger.backgroundEpics.length;
+  return {
+    migrated: !dryRun,
+    dryRun,
+    changes,
+    diff: diffs.join('\n\n'),
+    message: dryRun
+      ? `Dry run: ${writes.length} file(s) would be written`
+      : `Migrated ${epicCount} open epic(s) and ${ledger.archive.length} archive entries; v5 ledger kept at ${V5_LEDGER_BACKUP}`,
+  };
+}
@@ -12,8 +12,8 @@ import type { LearningType, Phase } from '../file-ledger/types';
 /**
  * Create all file-based ledger tools
  */
-export function createFileLedgerTools() {
-  const ledger = getFileLedger();
+export function createFileLedgerTools(baseDir?: string) {
+  const ledger = getFileLedger(baseDir);
 
   return {
     // STATUS & INIT
@@ -79,6 +79,10 @@ export {
   type TaskStatus,
   type TaskOutcome,
   type EpicStatus,
+  type EpicProgress,
+  type LedgerOptions,
+  type LedgerFormat,
+  type TaskLocation,
   // Core functions
   loadLedger,
   saveLedger,
@@ -93,11 +97,27 @@ export {
   getReadyTasks,
   canStartTask,
   surfaceLearnings,
+  getOpenEpics,
+  findEpic,
+  findTask,
+  focusEpic,
+  configureLedger,
+  getMaxTasksPerEpic,
+  getLedgerFormat,
+  getLedgerStatePath,
+  mergeLedgerEdits,
+  type LedgerEditMerge,
   // Constants
   DEFAULT_LEDGER_PATH,
   MAX_TASKS_PER_EPIC,
   MAX_ARCHIVE_ENTRIES,
 } from './ledger';
+export {
+  LedgerStateSchema,
+  LEDGER_STATE_VERSION,
+  parseLedgerState,
+  type LedgerState,
+} from './ledger-schema';
 
 // Export LEDGER session hooks
 export {
@@ -120,6 +140,9 @@ export {
   TaskRegistry,
   getTaskRegistry,
   resetTaskRegistry,
+  readRegistrySnapshot,
+  DEFAULT_REGISTRY_STATE_PATH,
+  type RegistrySnapshot,
   type RegistryTask,
   type RegistryTaskStatus,
   type TaskRegistryOptions,
@@ -135,6 +158,15 @@ export {
   type ObserverStats,
 } from './observer';
 
+// Export Swarm Dashboard
+export {
+  DashboardServer,
+  startDashboard,
+  stopDashboard,
+  type DashboardConfig,
+  type DashboardSources,
+} from './dashboard';
+
 // Export Resilient Orchestration - Tools
 export { createResilienceTools, resilienceTools } from './resilience-tools';
 
@@ -169,6 +201,9 @@ export {
   performRecovery,
   getRecoveryStatus,
   createRecoveryWorkflow,
+  registerRecoverySnapshotProjection,
+  LEDGER_SNAPSHOT_PROJECTION,
+  type RecoveredLedgerState,
   type RecoveryState,
   type RecoveryOptions,
   type RecoveryReport,
@@ -186,6 +221,20 @@ export {
   type LearningExtractorConfig,
 } from './learning-extractor';
 
+// Export Learned Guidance (feedback-driven prompt overlays)
+export {
+  LearnedGuidance,
+  getLearnedGuidance,
+  resetLearnedGuidance,
+  aggregateAgentFeedback,
+  renderGuidance,
+  DEFAULT_GUIDANCE_DIR,
+  type AgentFeedbackSummary,
+  type GuidanceState,
+  type GuidanceVersion,
+} from './learned-guidance';
+export { guidanceTools } from './tools/guidance-tools';
+
 // Export HITL Utilities (v5.0)
 export {
   formatPoll,
@@ -218,6 +267,7 @@ const log = createModuleLogger('orchestrator');
 
 // Import shutdown functions for graceful shutdown
 import { stopTaskObservation } from './observer';
+import { stopDashboard } from './dashboard';
 import { resetTaskRegistry } from './task-registry';
 import { shutdownCheckpointManager } from './checkpoint';
 import { shutdownLearningExtractor } from './learning-extractor';
@@ -238,6 +288,13 @@ export async function shutdownAll(): Promise<void> {
     log.error({ err }, 'Error stopping task observer');
   }
 
+  // Close dashboard connections
+  try {
+    await stopDashboard();
+  } catch (err) {
+    log.error({ err }, 'Error stopping dashboard');
+  }
+
   // Reset task registry
   try {
     resetTaskRegistry();
@@ -0,0 +1,205 @@
+/**
+ * Learned Guidance Tests
+ *
+ * Feedback aggregation per agent, versioned overlays, accept / revert and
+ * checkpoint review.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryLaneStore } from '../memory-lane/memory-store';
+import { OfflineEmbeddingProvider } from '../memory-lane/embeddings';
+import { DurableStream, JsonlStore } from '../durable-stream';
+import { CheckpointManager } from './checkpoint';
+import {
+  LearnedGuidance,
+  aggregateAgentFeedback,
+  diffLines,
+  feedbackSignals,
+  GUIDANCE_HEADING,
+} from './learned-guidance';
+import { createMemoryMetadata } from '../memory-lane/taxonomy';
+
+describe('feedbackSignals', () => {
+  it('recovers helpful and harmful counts from the feedback score', () => {
+    const metadata = (score: number, count: number) =>
+      createMemoryMetadata({
+        memory_type: 'learning',
+        feedback_score: score,
+        feedback_count: count,
+      });
+
+    expect(feedbackSignals(metadata(1.0, 0))).toEqual({ helpful: 0, harmful: 0 });
+    expect(feedbackSignals(metadata(1.1 * 1.1, 2))).toEqual({ helpful: 2, harmful: 0 });
+    expect(feedbackSignals(metadata(1.1 * 0.5 * 0.5, 3))).toEqual({ helpful: 1, harmful: 2 });
+  });
+});
+
+describe('diffLines', () => {
+  it('marks removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toBe('  a\n- b\n  c\n+ d');
+    expect(diffLines('', 'a')).toBe('+ a');
+  });
+});
+
+describe('LearnedGuidance', () => {
+  let dir: string;
+  let previousDbPath: string | undefined;
+  let store: MemoryLaneStore;
+  let guidance: LearnedGuidance;
+
+  const remember = async (
+    information: string,
+    type: 'correction' | 'learning',
+    feedback: Array<'helpful' | 'harmful'> = []
+  ) => {
+    const { id } = await store.store({ information, type, entities: ['agent:executor'] });
+    for (const signal of feedback) {
+      await store.recordFeedback(id, signal);
+    }
+    return id;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'learned-guidance-'));
+    previousDbPath = process.env.OPENCODE_DB_PATH;
+    process.env.OPENCODE_DB_PATH = join(dir, 'memories.db');
+    store = new MemoryLaneStore({
+      embeddingProvider: new OfflineEmbeddingProvider({ dimensions: 64 }),
+      project: 'git:github.com/acme/api',
+    });
+    guidance = new LearnedGuidance(join(dir, 'guidance'));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    if (previousDbPath === undefined) delete process.env.OPENCODE_DB_PATH;
+    else process.env.OPENCODE_DB_PATH = previousDbPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('aggregates corrections and rated memories that name the agent', async () => {
+    await remember('Run the type-check before reporting a task as done', 'correction');
+    await remember('Read neighbouring tests before writing new ones', 'learning', [
+      'helpful',
+      'helpful',
+    ]);
+    await remember('Skip lint on generated files by deleting them', 'learning', [
+      'harmful',
+      'harmful',
+    ]);
+    await remember('Unrated observation about caching', 'learning');
+    await store.store({
+      information: 'Interview the user before planning',
+      type: 'correction',
+      entities: ['agent:interviewer'],
+    });
+
+    const summary = await aggregateAgentFeedback(store, 'chief-of-staff/executor');
+
+    expect(summary).toMatchObject({ agent: 'executor', memories: 4, helpful_signals: 2 });
+    expect(summary.harmful_signals).toBe(2);
+    expect(summary.corrections.map((i) => i.content)).toEqual([
+      'Run the type-check before reporting a task as done',
+    ]);
+    expect(summary.practices.map((i) => i.content)).toEqual([
+      'Read neighbouring tests before writing new ones',
+    ]);
+    expect(summary.unhelpful.map((i) => i.content)).toEqual([
+      'Skip lint on generated files by deleting them',
+    ]);
+  });
+
+  it('versions overlays and applies only accepted ones', async () => {
+    expect((await guidance.propose(store, 'executor')).version).toBeNull();
+
+    await remember('Run the type-check before reporting a task as done', 'correction');
+    const first = await guidance.propose(store, 'executor');
+    expect(first).toMatchObject({ changed: true, version: { version: 1, status: 'proposed' } });
+    expect(first.diff).toContain('+ - Run the type-check before reporting a task as done');
+    expect(readFileSync(join(dir, 'guidance', 'executor', 'v1.md'), 'utf-8')).toContain(
+      GUIDANCE_HEADING
+    );
+
+    // Nothing applied until accepted; unchanged signals do not add versions
+    expect(guidance.applyOverlay('executor', 'PROMPT')).toBe('PROMPT');
+    expect((await guidance.propose(store, 'executor')).changed).toBe(false);
+
+    guidance.accept('executor');
+    expect(guidance.applyOverlay('executor', 'PROMPT')).toContain('PROMPT\n\n## Learned Guidance');
+
+    await remember('Read neighbouring tests before writing new ones', 'learning', ['helpful']);
+    const second = await guidance.propose(store, 'executor');
+    expect(second.version?.version).toBe(2);
+    expect(second.diff).toContain('+ - Read neighbouring tests before writing new ones');
+    expect(second.diff).toContain('  - Run the type-check before reporting a task as done');
+
+    guidance.accept('executor', 2);
+    expect(guidance.applyOverlay('executor', 'PROMPT')).toContain('neighbouring tests');
+
+    const state = guidance.revert('executor');
+    expect(state.active).toBe(1);
+    expect(state.versions.map((v) => v.status)).toEqual(['accepted', 'reverted']);
+    expect(guidance.applyOverlay('executor', 'PROMPT')).not.toContain('neighbouring tests');
+
+    expect(guidance.revert('executor').active).toBeNull();
+    expect(() => guidance.revert('executor')).toThrow('No active guidance for executor');
+  });
+
+  describe('checkpoint review', () => {
+    let stream: DurableStream;
+    let manager: CheckpointManager;
+
+    beforeEach(async () => {
+      stream = new DurableStream({
+        store: new JsonlStore({ path: join(dir, 'durable_stream.jsonl'), useLocking: false }),
+        snapshotInterval: 0,
+      });
+      await stream.initialize();
+      manager = new CheckpointManager();
+      (manager as any).stream = stream;
+      await manager.initialize();
+    });
+
+    afterEach(async () => {
+      await manager.shutdown();
+      await stream.shutdown();
+    });
+
+    it('accepts the version when the checkpoint is approved', async () => {
+      await remember('Run the type-check before reporting a task as done', 'correction');
+      await guidance.propose(store, 'executor');
+
+      const checkpointId = await guidance.requestReview('executor', undefined, manager);
+      expect(stream.getPendingCheckpoints()[0]).toMatchObject({
+        id: checkpointId,
+        decision_point: 'Review learned guidance for executor (v1)',
+      });
+
+      await manager.approveCheckpoint(checkpointId, 'accept');
+      expect(guidance.getState('executor')).toMatchObject({
+        active: 1,
+        versions: [{ status: 'accepted', checkpoint_id: checkpointId }],
+      });
+    });
+
+    it('applies decisions recorded while no handler was listening', async () => {
+      await remember('Run the type-check before reporting a task as done', 'correction');
+      await guidance.propose(store, 'executor');
+      const checkpointId = await guidance.requestReview('executor', undefined, manager);
+      await manager.shutdown();
+
+      await stream.rejectCheckpoint(checkpointId, 'user', 'too vague');
+      expect(guidance.getState('executor').versions[0].status).toBe('proposed');
+
+      expect(await guidance.syncCheckpoints(stream)).toBe(1);
+      expect(guidance.getState('executor')).toMatchObject({
+        active: null,
+        versions: [{ status: 'rejected' }],
+      });
+      expect(existsSync(join(dir, 'guidance', 'executor', 'v1.md'))).toBe(true);
+    });
+  });
+});
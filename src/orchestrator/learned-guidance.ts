@@ -0,0 +1,526 @@
+/**
+ * Learned Guidance - Feedback-driven prompt tuning for chief-of-staff agents
+ *
+ * Aggregates Memory Lane signals per agent (memories whose entity slugs name
+ * the agent, e.g. `agent:executor`):
+ * - correction memories
+ * - memories rated helpful / harmful via memory-lane_feedback
+ *
+ * and renders them into a "Learned Guidance" overlay that the config hook
+ * appends to the agent's SKILL.md prompt. Overlays are versioned files under
+ * .opencode/guidance/<agent>/ (v1.md, v2.md, ... plus state.json), so they
+ * can be reviewed and diffed like any other file. A new version only takes
+ * effect once accepted, directly or through a checkpoint; reverting restores
+ * the previously accepted version.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { MemoryLaneStore, MemoryListEntry } from '../memory-lane';
+import type { MemoryLaneMetadata } from '../memory-lane/taxonomy';
+import type { DurableStream } from '../durable-stream/orchestrator';
+import type { CheckpointManager, CheckpointResult } from './checkpoint';
+import { getCheckpointManager } from './checkpoint';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('LearnedGuidance');
+
+export const DEFAULT_GUIDANCE_DIR = '.opencode/guidance';
+
+/** Stream that guidance review checkpoints are requested on */
+export const GUIDANCE_STREAM_ID = 'learned-guidance';
+
+/** Items per overlay section, highest signal first */
+const MAX_SECTION_ITEMS = 8;
+
+/** Multipliers applied by memory-lane_feedback */
+const HELPFUL_FACTOR = 1.1;
+const HARMFUL_FACTOR = 0.5;
+
+export const GUIDANCE_HEADING = '## Learned Guidance';
+
+export type GuidanceStatus = 'proposed' | 'accepted' | 'rejected' | 'reverted';
+
+export interface FeedbackSignals {
+  helpful: number;
+  harmful: number;
+}
+
+export interface GuidanceItem {
+  id: string;
+  content: string;
+  feedback_score: number;
+}
+
+export interface AgentFeedbackSummary {
+  /** Flat agent name (executor, not chief-of-staff/executor) */
+  agent: string;
+  memories: number;
+  helpful_signals: number;
+  harmful_signals: number;
+  corrections: GuidanceItem[];
+  /** Memories rated helpful more often than harmful */
+  practices: GuidanceItem[];
+  /** Memories rated harmful more often than helpful */
+  unhelpful: GuidanceItem[];
+}
+
+export interface GuidanceVersion {
+  version: number;
+  status: GuidanceStatus;
+  created_at: string;
+  decided_at?: string;
+  checkpoint_id?: string;
+  /** Memory IDs the overlay was generated from */
+  sources: string[];
+  helpful_signals: number;
+  harmful_signals: number;
+}
+
+export interface GuidanceState {
+  agent: string;
+  /** Accepted version applied to the prompt */
+  active: number | null;
+  versions: GuidanceVersion[];
+}
+
+export interface ProposeResult {
+  agent: string;
+  /** null when the agent has no signals yet */
+  version: GuidanceVersion | null;
+  /** false when the overlay matches the latest version */
+  changed: boolean;
+  diff: string;
+}
+
+/**
+ * Strip the chief-of-staff/ prefix so `agent:executor` slugs match
+ */
+export function toAgentName(name: string): string {
+  return name.slice(name.lastIndexOf('/') + 1).toLowerCase();
+}
+
+/**
+ * Helpful and harmful signals behind a feedback score: each helpful signal
+ * multiplies the score by 1.1 and each harmful one by 0.5, so the counts
+ * follow from feedback_score and feedback_count
+ */
+export function feedbackSignals(metadata: MemoryLaneMetadata): FeedbackSignals {
+  const count = metadata.feedback_count ?? 0;
+  const score = metadata.feedback_score ?? 1.0;
+  if (count === 0 || score <= 0) return { helpful: 0, harmful: 0 };
+
+  const helpful = Math.round(
+    (Math.log(score) - count * Math.log(HARMFUL_FACTOR)) /
+      (Math.log(HELPFUL_FACTOR) - Math.log(HARMFUL_FACTOR))
+  );
+  const clamped = Math.min(count, Math.max(0, helpful));
+  return { helpful: clamped, harmful: count - clamped };
+}
+
+/**
+ * Collect the corrections and rated memories that name an agent
+ */
+export async function aggregateAgentFeedback(
+  store: MemoryLaneStore,
+  agentName: string
+): Promise<AgentFeedbackSummary> {
+  const agent = toAgentName(agentName);
+  const { memories } = await store.listMemories({
+    entity: `agent:${agent}`,
+    scope: 'all',
+    limit: Number.MAX_SAFE_INTEGER,
+  });
+
+  const summary: AgentFeedbackSummary = {
+    agent,
+    memories: memories.length,
+    helpful_signals: 0,
+    harmful_signals: 0,
+    corrections: [],
+    practices: [],
+    unhelpful: [],
+  };
+
+  const toItem = (memory: MemoryListEntry): GuidanceItem => ({
+    id: memory.id,
+    content: memory.content.trim(),
+    feedback_score: memory.metadata.feedback_score ?? 1.0,
+  });
+
+  for (const memory of memories) {
+    const { helpful, harmful } = feedbackSignals(memory.metadata);
+    summary.helpful_signals += helpful;
+    summary.harmful_signals += harmful;
+
+    if (harmful > helpful) {
+      summary.unhelpful.push(toItem(memory));
+    } else if (memory.metadata.memory_type === 'correction') {
+      summary.corrections.push(toItem(memory));
+    } else if (helpful > harmful) {
+      summary.practices.push(toItem(memory));
+    }
+  }
+
+  // Best-rated first; ties by ID so regenerating gives the same overlay
+  const byScore = (a: GuidanceItem, b: GuidanceItem) =>
+    b.feedback_score - a.feedback_score || a.id.localeCompare(b.id);
+  summary.corrections.sort(byScore);
+  summary.practices.sort(byScore);
+  summary.unhelpful.sort((a, b) => a.feedback_score - b.feedback_score || a.id.localeCompare(b.id));
+  return summary;
+}
+
+/**
+ * Render an overlay; empty when there is nothing to learn from yet
+ */
+export function renderGuidance(summary: AgentFeedbackSummary): string {
+  const sections: string[] = [];
+  const list = (items: GuidanceItem[]) =>
+    items
+      .slice(0, MAX_SECTION_ITEMS)
+      .map((item) => `- ${item.content.replace(/\s*\n\s*/g, ' ')}`)
+      .join('\n');
+
+  if (summary.corrections.length > 0) {
+    sections.push(
+      `### Corrections\n\nThe user corrected these before:\n\n${list(summary.corrections)}`
+    );
+  }
+  if (summary.practices.length > 0) {
+    sections.push(
+      `### Proven Practices\n\nRated helpful in past sessions:\n\n${list(summary.practices)}`
+    );
+  }
+  if (summary.unhelpful.length > 0) {
+    sections.push(
+      `### Unhelpful Advice\n\nRated harmful in past sessions; do not rely on it:\n\n${list(summary.unhelpful)}`
+    );
+  }
+  if (sections.length === 0) return '';
+
+  return [
+    GUIDANCE_HEADING,
+    `Generated from Memory Lane feedback for ${summary.agent}: ${summary.helpful_signals} helpful / ${summary.harmful_signals} harmful signals.`,
+    ...sections,
+  ].join('\n\n');
+}
+
+/**
+ * Line diff (LCS): unchanged lines start with two spaces, removed with "- ",
+ * added with "+ "
+ */
+export function diffLines(before: string, after: string): string {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push(`+ ${b[j++]}`);
+    } else {
+      lines.push(`- ${a[i++]}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Versioned overlays
+// ============================================================================
+
+export class LearnedGuidance {
+  constructor(private readonly dir: string = DEFAULT_GUIDANCE_DIR) {}
+
+  private agentDir(agent: string): string {
+    return join(this.dir, toAgentName(agent));
+  }
+
+  getState(agentName: string): GuidanceState {
+    const agent = toAgentName(agentName);
+    const path = join(this.agentDir(agent), 'state.json');
+    if (!existsSync(path)) {
+      return { agent, active: null, versions: [] };
+    }
+    return JSON.parse(readFileSync(path, 'utf-8')) as GuidanceState;
+  }
+
+  private saveState(state: GuidanceState): void {
+    const dir = this.agentDir(state.agent);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'state.json'), JSON.stringify(state, null, 2) + '\n');
+  }
+
+  /** Overlay text of a version ('' for none) */
+  readVersion(agentName: string, version: number | null): string {
+    if (version === null) return '';
+    const path = join(this.agentDir(agentName), `v${version}.md`);
+    return existsSync(path) ? readFileSync(path, 'utf-8').trimEnd() : '';
+  }
+
+  private findVersion(state: GuidanceState, version?: number): GuidanceVersion {
+    const entry =
+      version === undefined
+        ? [...state.versions].reverse().find((v) => v.status === 'proposed')
+        : state.versions.find((v) => v.version === version);
+    if (!entry) {
+      throw new Error(
+        version === undefined
+          ? `No proposed guidance for ${state.agent}`
+          : `Guidance v${version} not found for ${state.agent}`
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Generate an overlay from the agent's current signals and store it as a
+   * new proposed version, unless it matches the latest version
+   */
+  async propose(store: MemoryLaneStore, agentName: string): Promise<ProposeResult> {
+    const summary = await aggregateAgentFeedback(store, agentName);
+    const content = renderGuidance(summary);
+    const state = this.getState(summary.agent);
+    const activeContent = this.readVersion(summary.agent, state.active);
+
+    if (!content) {
+      return { agent: summary.agent, version: null, changed: false, diff: '' };
+    }
+
+    const latest = state.versions.at(-1);
+    if (latest && this.readVersion(summary.agent, latest.version) === content) {
+      return {
+        agent: summary.agent,
+        version: latest,
+        changed: false,
+        diff: diffLines(activeContent, content),
+      };
+    }
+
+    const version: GuidanceVersion = {
+      version: (latest?.version ?? 0) + 1,
+      status: 'proposed',
+      created_at: new Date().toISOString(),
+      sources: [...summary.corrections, ...summary.practices, ...summary.unhelpful].map(
+        (item) => item.id
+      ),
+      helpful_signals: summary.helpful_signals,
+      harmful_signals: summary.harmful_signals,
+    };
+    mkdirSync(this.agentDir(summary.agent), { recursive: true });
+    writeFileSync(join(this.agentDir(summary.agent), `v${version.version}.md`), content + '\n');
+    state.versions.push(version);
+    this.saveState(state);
+
+    log.info({ agent: summary.agent, version: version.version }, 'Proposed learned guidance');
+    return {
+      agent: summary.agent,
+      version,
+      changed: true,
+      diff: diffLines(activeContent, content),
+    };
+  }
+
+  /**
+   * Make a version (default: latest proposed) the active overlay
+   */
+  accept(agentName: string, version?: number): GuidanceState {
+    const state = this.getState(agentName);
+    const entry = this.findVersion(state, version);
+    entry.status = 'accepted';
+    entry.decided_at = new Date().toISOString();
+    state.active = entry.version;
+    this.saveState(state);
+    log.info({ agent: state.agent, version: entry.version }, 'Accepted learned guidance');
+    return state;
+  }
+
+  /**
+   * Discard a proposed version (default: latest proposed)
+   */
+  reject(agentName: string, version?: number): GuidanceState {
+    const state = this.getState(agentName);
+    const entry = this.findVersion(state, version);
+    if (entry.status !== 'proposed') {
+      throw new Error(`Guidance v${entry.version} for ${state.agent} is ${entry.status}`);
+    }
+    entry.status = 'rejected';
+    entry.decided_at = new Date().toISOString();
+    this.saveState(state);
+    return state;
+  }
+
+  /**
+   * Drop the active version and fall back to the previously accepted one
+   */
+  revert(agentName: string): GuidanceState {
+    const state = this.getState(agentName);
+    if (state.active === null) {
+      throw new Error(`No active guidance for ${state.agent}`);
+    }
+
+    const current = this.findVersion(state, state.active);
+    current.status = 'reverted';
+    current.decided_at = new Date().toISOString();
+    const previous = [...state.versions]
+      .reverse()
+      .find((v) => v.status === 'accepted' && v.version < current.version);
+    state.active = previous?.version ?? null;
+    this.saveState(state);
+    log.info({ agent: state.agent, active: state.active }, 'Reverted learned guidance');
+    return state;
+  }
+
+  /**
+   * Diff between two versions (default: active -> latest)
+   */
+  diff(agentName: string, from?: number | null, to?: number): string {
+    const state = this.getState(agentName);
+    const target = to ?? state.versions.at(-1)?.version ?? null;
+    return diffLines(
+      this.readVersion(agentName, from === undefined ? state.active : from),
+      this.readVersion(agentName, target)
+    );
+  }
+
+  /**
+   * Append the active overlay (if any) to an agent prompt
+   */
+  applyOverlay(agentName: string, prompt: string): string {
+    try {
+      const overlay = this.readVersion(agentName, this.getState(agentName).active);
+      return overlay ? `${prompt}\n\n${overlay}` : prompt;
+    } catch (err) {
+      log.warn({ err, agent: agentName }, 'Ignoring unreadable learned guidance');
+      return prompt;
+    }
+  }
+
+  // ==========================================================================
+  // Checkpoint review
+  // ==========================================================================
+
+  /**
+   * Ask the user to accept or reject a proposed version (and, with an active
+   * version, to revert it instead). The decision is applied when the
+   * checkpoint resolves, or by syncCheckpoints() after a restart.
+   */
+  async requestReview(
+    agentName: string,
+    version?: number,
+    manager: CheckpointManager = getCheckpointManager()
+  ): Promise<string> {
+    const state = this.getState(agentName);
+    const entry = this.findVersion(state, version);
+    const options = [
+      { id: 'accept', label: 'Accept', description: `Apply v${entry.version} to the prompt` },
+      { id: 'reject', label: 'Reject', description: 'Keep the current guidance' },
+    ];
+    if (state.active !== null) {
+      options.push({
+        id: 'revert',
+        label: 'Revert',
+        description: `Drop v${state.active} and restore the previous guidance`,
+      });
+    }
+
+    const checkpointId = await manager.requestCheckpoint(
+      GUIDANCE_STREAM_ID,
+      {
+        decisionPoint: `Review learned guidance for ${state.agent} (v${entry.version})`,
+        description: this.diff(state.agent, state.active, entry.version),
+        options,
+      },
+      (result) => {
+        this.applyDecision(state.agent, entry.version, result);
+      }
+    );
+
+    entry.checkpoint_id = checkpointId;
+    this.saveState(state);
+    return checkpointId;
+  }
+
+  private applyDecision(
+    agent: string,
+    version: number,
+    result: Pick<CheckpointResult, 'approved' | 'selectedOption'>
+  ): void {
+    const entry = this.getState(agent).versions.find((v) => v.version === version);
+    if (entry?.status !== 'proposed') return;
+
+    if (result.approved && result.selectedOption === 'accept') {
+      this.accept(agent, version);
+    } else if (result.approved && result.selectedOption === 'revert') {
+      this.reject(agent, version);
+      this.revert(agent);
+    } else {
+      this.reject(agent, version);
+    }
+  }
+
+  /**
+   * Apply checkpoint decisions recorded in the stream for proposed versions,
+   * e.g. approved from the dashboard while no handler was registered
+   *
+   * @returns Number of versions decided
+   */
+  async syncCheckpoints(stream: DurableStream): Promise<number> {
+    const waiting = new Map<string, { agent: string; version: number }>();
+    if (existsSync(this.dir)) {
+      const agents = readdirSync(this.dir, { withFileTypes: true }).filter((e) => e.isDirectory());
+      for (const { name: agent } of agents) {
+        for (const entry of this.getState(agent).versions) {
+          if (entry.status === 'proposed' && entry.checkpoint_id) {
+            waiting.set(entry.checkpoint_id, { agent, version: entry.version });
+          }
+        }
+      }
+    }
+    if (waiting.size === 0) return 0;
+
+    let decided = 0;
+    const events = await stream.query({ type: ['checkpoint.approved', 'checkpoint.rejected'] });
+    for (const event of events) {
+      const payload = event.payload as { checkpoint_id: string; selected_option?: string };
+      const target = waiting.get(payload.checkpoint_id);
+      if (!target) continue;
+
+      this.applyDecision(target.agent, target.version, {
+        approved: event.type === 'checkpoint.approved',
+        selectedOption: payload.selected_option,
+      });
+      waiting.delete(payload.checkpoint_id);
+      decided++;
+    }
+    return decided;
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let globalGuidance: LearnedGuidance | null = null;
+
+export function getLearnedGuidance(): LearnedGuidance {
+  if (!globalGuidance) {
+    globalGuidance = new LearnedGuidance();
+  }
+  return globalGuidance;
+}
+
+export function resetLearnedGuidance(): void {
+  globalGuidance = null;
+}
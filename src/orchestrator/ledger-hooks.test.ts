@@ -55,6 +55,7 @@ vi.mock('./ledger', async () => {
           context: [],
           progressLog: [],
         },
+        backgroundEpics: [],
         learnings: {
           patterns: [{ content: 'Use TypeScript', createdAt: Date.now() }],
           antiPatterns: [{ content: 'Avoid any', createdAt: Date.now() }],
@@ -205,6 +206,33 @@ describe('Session Lifecycle Hooks', () => {
       expect(result.epicArchived).toBeDefined();
     });
   });
+
+  describe('invalid ledger state', () => {
+    it('should report the error and skip saving instead of rejecting', async () => {
+      const { loadLedger, saveLedger } = await import('./ledger');
+      const error = new Error('Cannot load ledger state from ledger.json: Invalid ledger state.');
+      vi.mocked(loadLedger).mockRejectedValue(error);
+      vi.mocked(saveLedger).mockClear();
+
+      try {
+        const start = await onSessionStart();
+        expect(start).toMatchObject({ hasActiveEpic: false, ledgerError: error.message });
+
+        await expect(
+          onTaskComplete({ taskId: 'abc123.2', success: true })
+        ).resolves.toBeUndefined();
+
+        const message = await onPreCompact({ sessionId: 'sess_test123', modifiedFiles: [] });
+        expect(message).toContain('Handoff not created');
+
+        const end = await onSessionEnd('SUCCEEDED');
+        expect(end).toMatchObject({ epicArchived: false, ledgerError: error.message });
+        expect(saveLedger).not.toHaveBeenCalled();
+      } finally {
+        vi.mocked(loadLedger).mockReset();
+      }
+    });
+  });
 });
 
 describe('Format Session Context', () => {
@@ -54,18 +54,37 @@ export interface SessionStartResult {
     antiPatterns: string[];
     decisions: string[];
   };
+  /** Why the LEDGER could not be loaded; the session starts without it */
+  ledgerError?: string;
 }
 
 export interface SessionEndResult {
   epicArchived: boolean;
   outcome?: string;
   learningsExtracted: number;
+  /** Why the LEDGER could not be loaded; nothing was archived */
+  ledgerError?: string;
 }
 
 // ============================================================================
 // Session Lifecycle Hooks
 // ============================================================================
 
+/**
+ * Load the LEDGER for a hook. An invalid ledger.json is left for the user to
+ * fix: the hooks report it and skip their changes instead of rejecting.
+ */
+async function loadHookLedger(
+  ledgerPath?: string
+): Promise<{ ledger: Ledger; error?: undefined } | { ledger?: undefined; error: string }> {
+  try {
+    return { ledger: await loadLedger(ledgerPath) };
+  } catch (error) {
+    log.error({ error }, 'Cannot load LEDGER; skipping hook');
+    return { error: (error as Error).message };
+  }
+}
+
 /**
  * Called at session start
  *
@@ -78,7 +97,15 @@ export interface SessionEndResult {
 export async function onSessionStart(ledgerPath?: string): Promise<SessionStartResult> {
   log.info('Starting session...');
 
-  const ledger = await loadLedger(ledgerPath);
+  const { ledger, error } = await loadHookLedger(ledgerPath);
+  if (!ledger) {
+    return {
+      hasActiveEpic: false,
+      hasHandoff: false,
+      recentLearnings: { patterns: [], antiPatterns: [], decisions: [] },
+      ledgerError: error,
+    };
+  }
 
   // Surface recent learnings
   const recentLearnings = surfaceLearnings(ledger);
@@ -140,7 +167,8 @@ export async function onSessionStart(ledgerPath?: string): Promise<SessionStartR
 export async function onTaskComplete(taskResult: TaskResult, ledgerPath?: string): Promise<void> {
   log.info({ taskId: taskResult.taskId }, 'Task completed');
 
-  const ledger = await loadLedger(ledgerPath);
+  const { ledger } = await loadHookLedger(ledgerPath);
+  if (!ledger) return;
 
   // Update task status
   updateTaskStatus(
@@ -182,7 +210,10 @@ export async function onTaskComplete(taskResult: TaskResult, ledgerPath?: string
 export async function onPreCompact(context: SessionContext, ledgerPath?: string): Promise<string> {
   log.info('Context limit approaching, creating handoff...');
 
-  const ledger = await loadLedger(ledgerPath);
+  const { ledger, error } = await loadHookLedger(ledgerPath);
+  if (!ledger) {
+    return `Handoff not created: ${error} Do not /clear until the LEDGER loads again.`;
+  }
 
   // Create handoff
   createHandoff(ledger, 'context_limit', 'Continue the current task', {
@@ -214,7 +245,10 @@ export async function onSessionEnd(
 ): Promise<SessionEndResult> {
   log.info('Ending session...');
 
-  const ledger = await loadLedger(ledgerPath);
+  const { ledger, error } = await loadHookLedger(ledgerPath);
+  if (!ledger) {
+    return { epicArchived: false, learningsExtracted: 0, ledgerError: error };
+  }
 
   let epicArchived = false;
   let finalOutcome: string | undefined;
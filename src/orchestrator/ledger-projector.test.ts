@@ -0,0 +1,102 @@
+/**
+ * Ledger Projector Tests
+ *
+ * Projection of extracted learnings into LEDGER.md (v5) and the v6 learnings files.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LedgerProjector } from './ledger-projector';
+import { loadLedger } from './ledger';
+import { resetFileLedger } from './file-ledger';
+import { getDurableStream, JsonlStore, shutdownDurableStream } from '../durable-stream';
+
+describe('LedgerProjector', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  // The stream is not initialized here, so learnings are queued directly
+  const queue = (projector: LedgerProjector) => {
+    (projector as any).pending = [
+      { offset: 1, type: 'pattern', content: 'Use zod for request validation' },
+      { offset: 2, type: 'decision', content: 'Sessions live in Redis' },
+      { offset: 3, type: 'pattern', content: 'Use zod for request validation' },
+    ];
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ledger-projector-'));
+    ledgerPath = join(dir, '.opencode', 'LEDGER.md');
+  });
+
+  afterEach(async () => {
+    await shutdownDurableStream();
+    resetFileLedger();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('projects learnings into LEDGER.md (v5)', async () => {
+    const projector = new LedgerProjector({ ledgerPath, format: 'v5' });
+    queue(projector);
+    await projector.project();
+
+    const ledger = await loadLedger(ledgerPath);
+    expect(ledger.learnings.patterns.map((l) => l.content)).toEqual([
+      'Use zod for request validation',
+    ]);
+    expect(ledger.learnings.decisions.map((l) => l.content)).toEqual(['Sessions live in Redis']);
+    expect((projector as any).pending).toEqual([]);
+  });
+
+  it('projects learnings into the learnings files (v6)', async () => {
+    const projector = new LedgerProjector({ ledgerPath, format: 'v6' });
+    queue(projector);
+    await projector.project();
+
+    const patterns = readFileSync(join(dir, '.opencode', 'learnings', 'patterns.md'), 'utf-8');
+    expect(patterns.match(/Use zod for request validation/g)).toHaveLength(1);
+    expect(readFileSync(join(dir, '.opencode', 'learnings', 'decisions.md'), 'utf-8')).toContain(
+      'Sessions live in Redis'
+    );
+    expect(readFileSync(ledgerPath, 'utf-8')).toMatch(/^# LEDGER \(v6/);
+    expect((projector as any).pending).toEqual([]);
+  });
+
+  it('resumes from its snapshot cursor after compaction', async () => {
+    const store = new JsonlStore({ path: join(dir, 'durable_stream.jsonl'), useLocking: false });
+    const stream = getDurableStream({ store });
+    await stream.initialize();
+    const emit = (type: any, payload: unknown) =>
+      stream.append({ type, stream_id: 's1', correlation_id: 'c1', actor: 'system', payload });
+    const learn = (content: string) =>
+      emit('ledger.learning.extracted', { learningType: 'pattern', learningContent: content });
+    const patterns = () =>
+      readFileSync(join(dir, '.opencode', 'learnings', 'patterns.md'), 'utf-8');
+
+    for (const delta of ['a', 'b', 'c', 'd', 'e']) {
+      await emit('execution.text_delta', { messageID: 'm1', partID: 'p1', delta });
+    }
+    await emit('execution.text_snapshot', { messageID: 'm1', partID: 'p1', text: 'abcde' });
+    await learn('Before compaction');
+
+    const first = new LedgerProjector({ ledgerPath, format: 'v6' });
+    await vi.waitFor(() => expect((first as any).pending).toHaveLength(1), { timeout: 5000 });
+    await first.project();
+    first.stop();
+    await stream.snapshot();
+
+    // Compaction drops the deltas that precede the stored cursor
+    expect((await stream.compact()).removed).toBe(5);
+    await learn('After compaction');
+
+    const second = new LedgerProjector({ ledgerPath, format: 'v6' });
+    await vi.waitFor(() => expect((second as any).pending).toHaveLength(1), { timeout: 5000 });
+    await second.project();
+    second.stop();
+
+    expect(patterns()).toContain('Before compaction');
+    expect(patterns()).toContain('After compaction');
+  });
+});
@@ -1,4 +1,12 @@
-import { addLearning, DEFAULT_LEDGER_PATH, loadLedger, saveLedger } from './ledger';
+import {
+  addLearning,
+  DEFAULT_LEDGER_PATH,
+  getLedgerFormat,
+  loadLedger,
+  saveLedger,
+  type LedgerFormat,
+} from './ledger';
+import { getFileLedgerAt } from './file-ledger';
 import { getDurableStream } from '../durable-stream';
 import { createModuleLogger } from '../utils/logger';
 
@@ -6,98 +14,174 @@ const log = createModuleLogger('ledger-projector');
 
 export interface LedgerProjectorConfig {
   ledgerPath?: string;
+  /** Ledger to project into (default: the configured `ledgerFormat`) */
+  format?: LedgerFormat;
 }
 
+/** Projector state stored in Durable Stream snapshots */
+interface LedgerProjectorSnapshot {
+  /** Stream cursor up to which learnings are in LEDGER.md */
+  offset?: number;
+}
+
+type LearningType = 'pattern' | 'antiPattern' | 'decision' | 'preference';
+
+interface PendingLearning {
+  offset: number;
+  type: LearningType;
+  content: string;
+}
+
+const SNAPSHOT_PROJECTION = 'ledger-projector';
+
 export class LedgerProjector {
-  private offset = 0;
+  /** Cursor of the last learning written to LEDGER.md */
+  private offset: number | undefined;
+  private pending: PendingLearning[] = [];
   private ledgerPath: string;
-  private subscribed = false;
+  private format: LedgerFormat | undefined;
+  private following: AbortController | undefined;
   private debounceTimer: ReturnType<typeof setTimeout> | undefined;
 
   constructor(config: LedgerProjectorConfig = {}) {
     this.ledgerPath = config.ledgerPath ?? DEFAULT_LEDGER_PATH;
-    this.setupSubscriptions();
+    this.format = config.format;
+    this.start();
   }
 
-  private setupSubscriptions(): void {
+  /**
+   * Follow `ledger.learning.extracted` events from the persisted cursor.
+   * No-op until the stream is initialized, or if already following.
+   */
+  start(): void {
     const stream = getDurableStream();
-    if (!stream.isInitialized() || this.subscribed) return;
+    if (!stream.isInitialized() || this.following) return;
 
-    // Project learnings shortly after they're emitted, without doing file writes
-    // in the middle of OpenCode tool/message processing.
-    stream.subscribe('ledger.learning.extracted', () => {
+    // Persist how far we've projected so a restart can resume from the latest snapshot.
+    stream.registerSnapshotProjection<LedgerProjectorSnapshot>(SNAPSHOT_PROJECTION, {
+      capture: (previous) => ({ offset: this.offset ?? previous?.offset }),
+    });
+
+    if (this.offset === undefined) {
+      const snapshot = stream.getLatestSnapshot()?.payload.projections[SNAPSHOT_PROJECTION] as
+        LedgerProjectorSnapshot | undefined;
+      // Unknown cursor replays everything; learnings are deduplicated.
+      this.offset = snapshot?.offset ?? 0;
+    }
+
+    const following = new AbortController();
+    this.following = following;
+    this.follow(following.signal).catch((err) => {
+      log.error({ err }, 'Ledger projector stopped following the stream');
+      if (this.following === following) this.following = undefined;
+    });
+  }
+
+  /**
+   * Stop following the stream. Pending learnings stay queued for `project()`.
+   */
+  stop(): void {
+    this.following?.abort();
+    this.following = undefined;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+  }
+
+  private async follow(signal: AbortSignal): Promise<void> {
+    const stream = getDurableStream();
+
+    for await (const record of stream.follow({ type: 'ledger.learning.extracted' }, this.offset, {
+      signal,
+    })) {
+      const payload = record.event.payload as
+        { learningType?: LearningType; learningContent?: string } | undefined;
+      if (payload?.learningType && payload.learningContent) {
+        this.pending.push({
+          offset: record.offset,
+          type: payload.learningType,
+          content: payload.learningContent,
+        });
+      }
+
+      // Project learnings shortly after they're emitted, without doing file writes
+      // in the middle of OpenCode tool/message processing.
       if (this.debounceTimer) clearTimeout(this.debounceTimer);
       this.debounceTimer = setTimeout(() => {
         this.project().catch(() => {});
       }, 250);
-    });
-
-    this.subscribed = true;
+    }
   }
 
   /**
-   * Project selected Durable Stream events into LEDGER.md.
+   * Write learnings received so far into LEDGER.md (v5) or the learnings files (v6).
    * Runs on safe triggers (e.g. session.idle) to avoid hot-path writes.
    */
   async project(): Promise<void> {
-    const stream = getDurableStream();
-    if (!stream.isInitialized()) return;
-
     // In case the stream initialized after this projector was constructed.
-    this.setupSubscriptions();
+    this.start();
 
-    const history = stream.getEventHistory();
-    if (this.offset > history.length) this.offset = 0;
+    if (this.pending.length === 0) return;
+    const batch = [...this.pending];
 
-    const events = history.slice(this.offset);
-    this.offset = history.length;
+    const projected =
+      (this.format ?? getLedgerFormat()) === 'v6'
+        ? await this.projectToFileLedger(batch)
+        : await this.projectToLedger(batch);
+    if (!projected) return;
 
-    if (events.length === 0) return;
+    this.pending = this.pending.slice(batch.length);
+    this.offset = batch[batch.length - 1].offset;
+  }
 
+  private async projectToLedger(batch: PendingLearning[]): Promise<boolean> {
     let ledger;
     try {
       ledger = await loadLedger(this.ledgerPath);
     } catch {
-      return;
+      return false;
     }
 
     let changed = false;
 
-    for (const e of events as any[]) {
-      if (e.type === 'ledger.learning.extracted') {
-        const payload = e.payload as any;
-        const type = payload?.learningType as
-          | 'pattern'
-          | 'antiPattern'
-          | 'decision'
-          | 'preference'
-          | undefined;
-        const content = payload?.learningContent as string | undefined;
-
-        if (!type || !content) continue;
-
-        const list =
-          type === 'pattern'
-            ? ledger.learnings.patterns
-            : type === 'antiPattern'
-              ? ledger.learnings.antiPatterns
-              : type === 'decision'
-                ? ledger.learnings.decisions
-                : ledger.learnings.preferences;
-
-        if (list.some((l: any) => l.content === content)) continue;
-        addLearning(ledger, type, content);
-        changed = true;
+    for (const { type, content } of batch) {
+      const list =
+        type === 'pattern'
+          ? ledger.learnings.patterns
+          : type === 'antiPattern'
+            ? ledger.learnings.antiPatterns
+            : type === 'decision'
+              ? ledger.learnings.decisions
+              : ledger.learnings.preferences;
+
+      if (list.some((l: any) => l.content === content)) continue;
+      addLearning(ledger, type, content);
+      changed = true;
+    }
+
+    if (changed) {
+      try {
+        await saveLedger(ledger, this.ledgerPath);
+      } catch (err) {
+        log.error({ err }, 'Failed to project ledger updates');
+        return false;
       }
     }
+    return true;
+  }
 
-    if (!changed) return;
+  private async projectToFileLedger(batch: PendingLearning[]): Promise<boolean> {
+    const ledger = getFileLedgerAt(this.ledgerPath);
 
     try {
-      await saveLedger(ledger, this.ledgerPath);
+      if (!(await ledger.isInitialized())) await ledger.initialize();
+      for (const { type, content } of batch) {
+        if ((await ledger.readLearnings(type)).includes(content)) continue;
+        await ledger.addLearning(type, content);
+      }
     } catch (err) {
-      log.error({ err }, 'Failed to project ledger updates');
+      log.error({ err }, 'Failed to project learnings to the file ledger');
+      return false;
     }
+    return true;
   }
 }
 
@@ -0,0 +1,205 @@
+/**
+ * Ledger State Schema
+ *
+ * zod schema for `.opencode/ledger.json`, the canonical ledger state that
+ * LEDGER.md is rendered from. Unknown keys are kept so newer plugin versions
+ * can add fields without older ones dropping them.
+ *
+ * Versions:
+ * - 1: `{ version, markdownHash, ledger }` with the `Ledger` shape of ledger.ts
+ */
+
+import { z } from 'zod';
+import type { Ledger } from './ledger';
+
+export const LEDGER_STATE_VERSION = 1;
+
+const TaskSchema = z.looseObject({
+  id: z.string(),
+  title: z.string(),
+  agent: z.string(),
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'timeout', 'suspended', 'stale']),
+  outcome: z.enum(['SUCCEEDED', 'PARTIAL', 'FAILED', '-']),
+  dependencies: z.array(z.string()),
+  result: z.string().optional(),
+  error: z.string().optional(),
+  startedAt: z.number().optional(),
+  completedAt: z.number().optional(),
+  sessionId: z.string().optional(),
+  yieldReason: z.string().optional(),
+  yieldSummary: z.string().optional(),
+  affectsFiles: z.array(z.string()).optional(),
+  filesModified: z
+    .array(z.object({ path: z.string(), operation: z.enum(['create', 'modify', 'delete']) }))
+    .optional(),
+  conflictInfo: z.looseObject({ type: z.string() }).optional(),
+});
+
+const EpicSchema = z.looseObject({
+  id: z.string(),
+  title: z.string(),
+  request: z.string(),
+  status: z.enum(['pending', 'in_progress', 'completed', 'failed', 'paused']),
+  createdAt: z.number(),
+  completedAt: z.number().optional(),
+  tasks: z.array(TaskSchema),
+  context: z.array(z.string()),
+  progressLog: z.array(z.string()),
+});
+
+const LearningEntrySchema = z.looseObject({
+  content: z.string(),
+  createdAt: z.number().optional(),
+});
+
+const LedgerSchema = z.looseObject({
+  meta: z.looseObject({
+    sessionId: z.string(),
+    status: z.enum(['active', 'paused', 'handoff']),
+    phase: z.enum(['CLARIFICATION', 'DECOMPOSITION', 'PLANNING', 'EXECUTION', 'COMPLETION']),
+    lastUpdated: z.string(),
+    contextUsage: z.string().optional(),
+    tasksCompleted: z.string(),
+    currentTask: z.string().optional(),
+  }),
+  governance: z.looseObject({
+    directives: z.array(
+      z.looseObject({
+        content: z.string(),
+        source: z.enum(['user', 'interviewer']),
+        createdAt: z.number(),
+      })
+    ),
+    assumptions: z.array(
+      z.looseObject({
+        content: z.string(),
+        source: z.enum(['oracle', 'executor', 'planner', 'chief-of-staff']),
+        rationale: z.string(),
+        status: z.enum(['pending_review', 'approved', 'rejected']),
+        createdAt: z.number(),
+      })
+    ),
+  }),
+  epic: EpicSchema.nullable(),
+  backgroundEpics: z.array(EpicSchema).default([]),
+  learnings: z.looseObject({
+    patterns: z.array(LearningEntrySchema),
+    antiPatterns: z.array(LearningEntrySchema),
+    decisions: z.array(LearningEntrySchema),
+    preferences: z.array(LearningEntrySchema),
+  }),
+  handoff: z
+    .looseObject({
+      created: z.string(),
+      reason: z.enum(['context_limit', 'user_exit', 'session_break']),
+      resumeCommand: z.string(),
+      whatsDone: z.array(z.string()),
+      whatsNext: z.array(z.string()),
+      keyContext: z.array(z.string()),
+      filesModified: z.array(z.string()),
+      learningsThisSession: z.array(z.string()),
+      snapshotPath: z.string().optional(),
+    })
+    .nullable(),
+  archive: z.array(
+    z.looseObject({
+      epicId: z.string(),
+      title: z.string(),
+      outcome: z.enum(['SUCCEEDED', 'PARTIAL', 'FAILED', '-']),
+      duration: z.string(),
+      date: z.string(),
+    })
+  ),
+  activeDialogue: z
+    .looseObject({
+      agent: z.string(),
+      command: z.string(),
+      turn: z.number(),
+      status: z.enum(['needs_input', 'needs_approval', 'needs_verification']),
+      sessionId: z.string().optional(),
+      accumulatedDirection: z.looseObject({
+        goals: z.array(z.string()),
+        constraints: z.array(z.string()),
+        preferences: z.array(z.string()),
+        decisions: z.array(z.string()),
+      }),
+      pendingQuestions: z.array(z.string()).optional(),
+      lastPollMessage: z.string().optional(),
+      createdAt: z.number(),
+      updatedAt: z.number(),
+    })
+    .nullable(),
+});
+
+/**
+ * Values for hand-edited enum fields of an imported LEDGER.md, keyed by the
+ * field and its parent (array indices dropped)
+ */
+const IMPORT_FALLBACKS: Record<string, string> = {
+  'meta.status': 'active',
+  'meta.phase': 'CLARIFICATION',
+  'epic.status': 'in_progress',
+  'backgroundEpics.status': 'paused',
+  'tasks.status': 'pending',
+  'tasks.outcome': '-',
+  'directives.source': 'user',
+  'assumptions.source': 'chief-of-staff',
+  'assumptions.status': 'pending_review',
+  'handoff.reason': 'session_break',
+  'archive.outcome': '-',
+  'activeDialogue.status': 'needs_input',
+};
+
+export const LedgerStateSchema = z.looseObject({
+  version: z.literal(LEDGER_STATE_VERSION),
+  /** sha256 of the LEDGER.md last rendered from this state */
+  markdownHash: z.string(),
+  ledger: LedgerSchema,
+});
+
+export interface LedgerState {
+  version: number;
+  markdownHash: string;
+  ledger: Ledger;
+}
+
+/**
+ * Validate parsed ledger.json content; throws with a readable message
+ */
+export function parseLedgerState(value: unknown): LedgerState {
+  const result = LedgerStateSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid ledger state: ${z.prettifyError(result.error)}`);
+  }
+  return result.data as LedgerState;
+}
+
+/**
+ * Validate a ledger parsed from LEDGER.md before it is first saved. Unknown
+ * enum values from hand edits (e.g. `**Status**: active` on an epic) are
+ * replaced in place, so the saved state loads again; anything else throws.
+ *
+ * @returns The replaced fields, as `path: old -> new`
+ */
+export function normalizeImportedLedger(ledger: Ledger): string[] {
+  const replaced: string[] = [];
+  const result = LedgerSchema.safeParse(ledger);
+  if (result.success) return replaced;
+
+  for (const issue of result.error.issues) {
+    const keys = issue.path.filter((key): key is string => typeof key === 'string');
+    const fallback = IMPORT_FALLBACKS[keys.slice(-2).join('.')];
+    if (issue.code !== 'invalid_value' || fallback === undefined) continue;
+
+    const parent = issue.path.slice(0, -1).reduce<any>((value, key) => value?.[key], ledger);
+    const key = issue.path[issue.path.length - 1] as string;
+    replaced.push(`${issue.path.join('.')}: ${String(parent[key])} -> ${fallback}`);
+    parent[key] = fallback;
+  }
+
+  const normalized = LedgerSchema.safeParse(ledger);
+  if (!normalized.success) {
+    throw new Error(`Invalid LEDGER.md: ${z.prettifyError(normalized.error)}`);
+  }
+  return replaced;
+}
@@ -4,16 +4,28 @@
  * Tests for LEDGER.md data model, parsing, rendering, and operations.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
   createEpic,
   createTask,
   updateTaskStatus,
   addLearning,
+  addDirective,
   archiveEpic,
+  configureLedger,
   createHandoff,
+  focusEpic,
+  getLedgerFormat,
+  getOpenEpics,
   getProgress,
+  getReadyTasks,
   surfaceLearnings,
+  loadLedger,
+  saveLedger,
+  getLedgerStatePath,
   setActiveDialogue,
   updateActiveDialogue,
   parseLedgerMarkdown,
@@ -38,6 +50,7 @@ function createTestLedger(): Ledger {
       assumptions: [],
     },
     epic: null,
+    backgroundEpics: [],
     learnings: {
       patterns: [],
       antiPatterns: [],
@@ -71,12 +84,21 @@ describe('Ledger Core Operations', () => {
       expect(ledger.epic?.tasks).toHaveLength(0);
     });
 
-    it('should throw if epic already exists', () => {
-      createEpic(ledger, 'First Epic', 'Request 1');
+    it('should focus a second epic and keep the first in the background', () => {
+      const first = createEpic(ledger, 'First Epic', 'Request 1');
+      const second = createEpic(ledger, 'Second Epic', 'Request 2');
 
-      expect(() => {
-        createEpic(ledger, 'Second Epic', 'Request 2');
-      }).toThrow('Cannot create epic');
+      expect(second).not.toBe(first);
+      expect(ledger.epic?.id).toBe(second);
+      expect(ledger.backgroundEpics.map((e) => e.id)).toEqual([first]);
+    });
+
+    it('should keep a new epic in the background when focus is false', () => {
+      const first = createEpic(ledger, 'First Epic', 'Request 1');
+      const second = createEpic(ledger, 'Second Epic', 'Request 2', { focus: false });
+
+      expect(ledger.epic?.id).toBe(first);
+      expect(getOpenEpics(ledger).map((e) => e.id)).toEqual([first, second]);
     });
 
     it('should update meta phase to DECOMPOSITION', () => {
@@ -135,6 +157,27 @@ describe('Ledger Core Operations', () => {
       }).toThrow('Cannot create task');
     });
 
+    it('should honour the configured task limit', () => {
+      configureLedger({ maxTasksPerEpic: 2 });
+      try {
+        createTask(ledger, 'Task 1', 'executor');
+        createTask(ledger, 'Task 2', 'executor');
+        expect(() => createTask(ledger, 'Task 3', 'executor')).toThrow(
+          'Epic already has 2 tasks (maximum)'
+        );
+        expect(createTask(ledger, 'Task 3', 'executor', { maxTasks: 3 })).toMatch(/\.3$/);
+      } finally {
+        configureLedger();
+      }
+    });
+
+    it('should default to the v5 ledger format', () => {
+      configureLedger({ format: 'v6' });
+      expect(getLedgerFormat()).toBe('v6');
+      configureLedger();
+      expect(getLedgerFormat()).toBe('v5');
+    });
+
     it('should support dependencies', () => {
       const task1 = createTask(ledger, 'Task 1', 'executor');
       const task2 = createTask(ledger, 'Task 2', 'executor', { dependencies: [task1] });
@@ -323,6 +366,67 @@ describe('Ledger Markdown Parser', () => {
   });
 });
 
+describe('Multiple Epics', () => {
+  let ledger: Ledger;
+  let auth: string;
+  let billing: string;
+
+  beforeEach(() => {
+    ledger = createTestLedger();
+    auth = createEpic(ledger, 'Auth', 'Add login');
+    createTask(ledger, 'Routes', 'executor');
+    billing = createEpic(ledger, 'Billing', 'Add invoices');
+    createTask(ledger, 'Invoices', 'executor');
+    createTask(ledger, 'Emails', 'executor');
+  });
+
+  it('should keep task IDs unique and update tasks in background epics', () => {
+    createTask(ledger, 'Sessions', 'executor', { epicId: auth });
+
+    const ids = getOpenEpics(ledger).flatMap((e) => e.tasks.map((t) => t.id));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(() => createTask(ledger, 'Task', 'executor', { epicId: 'nope00' })).toThrow(
+      'Epic not found: nope00'
+    );
+
+    updateTaskStatus(ledger, `${auth}.1`, 'completed', 'Done');
+    expect(getProgress(ledger, auth)).toMatchObject({ completed: 1, total: 2 });
+    // Meta tracks the focused epic only
+    expect(ledger.meta.tasksCompleted).toBe('0/2');
+    expect(getReadyTasks(ledger).map((t) => t.id)).toEqual([
+      `${billing}.1`,
+      `${billing}.2`,
+      `${auth}.2`,
+    ]);
+  });
+
+  it('should move focus between epics and on archive', () => {
+    updateTaskStatus(ledger, `${auth}.1`, 'completed', 'Done');
+
+    focusEpic(ledger, auth);
+    expect(ledger.epic?.id).toBe(auth);
+    expect(ledger.backgroundEpics.map((e) => e.id)).toEqual([billing]);
+    expect(ledger.meta.tasksCompleted).toBe('1/1');
+    expect(ledger.meta.phase).toBe('COMPLETION');
+
+    archiveEpic(ledger);
+    expect(ledger.archive[0]).toMatchObject({ epicId: auth, outcome: 'SUCCEEDED' });
+    expect(ledger.epic?.id).toBe(billing);
+    expect(ledger.backgroundEpics).toEqual([]);
+    expect(ledger.meta.tasksCompleted).toBe('0/2');
+  });
+
+  it('should round-trip open epics through markdown', () => {
+    focusEpic(ledger, auth);
+    const parsed = parseLedgerMarkdown(renderLedgerMarkdown(ledger));
+
+    expect(parsed.epic?.id).toBe(auth);
+    expect(parsed.epic?.tasks.map((t) => t.title)).toEqual(['Routes']);
+    expect(parsed.backgroundEpics.map((e) => e.id)).toEqual([billing]);
+    expect(parsed.backgroundEpics[0].tasks).toHaveLength(2);
+  });
+});
+
 describe('Ledger Markdown Renderer', () => {
   it('should render ledger to markdown', () => {
     const ledger = createTestLedger();
@@ -426,3 +530,109 @@ describe('Epic Operations', () => {
     });
   });
 });
+
+describe('Ledger Persistence', () => {
+  let dir: string;
+  let path: string;
+  let ledger: Ledger;
+  let taskId: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ledger-state-'));
+    path = join(dir, 'LEDGER.md');
+    ledger = createTestLedger();
+    addDirective(ledger, 'Use pnpm', 'user');
+    addLearning(ledger, 'pattern', 'Run tsc before commit');
+    createEpic(ledger, 'Auth', 'Add login');
+    taskId = createTask(ledger, 'Routes', 'executor', { dependencies: [] });
+    updateTaskStatus(ledger, taskId, 'running');
+    ledger.epic!.tasks[0].sessionId = 'ses_child';
+    await saveLedger(ledger, path);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store canonical state in ledger.json and render LEDGER.md from it', async () => {
+    expect(getLedgerStatePath(path)).toBe(join(dir, 'ledger.json'));
+    const state = JSON.parse(readFileSync(join(dir, 'ledger.json'), 'utf-8'));
+    expect(state).toMatchObject({ version: 1, ledger: { epic: { title: 'Auth' } } });
+    expect(readFileSync(path, 'utf-8')).toContain('<!-- Generated from ledger.json.');
+
+    // Fields the markdown view cannot hold survive a reload
+    const loaded = await loadLedger(path);
+    expect(loaded.epic?.tasks[0]).toMatchObject({ status: 'running', sessionId: 'ses_child' });
+    expect(loaded.governance.directives[0].createdAt).toBe(
+      ledger.governance.directives[0].createdAt
+    );
+  });
+
+  it('should merge hand edits to directives and learnings and ignore other sections', async () => {
+    const markdown = readFileSync(path, 'utf-8')
+      .replace('*No anti-patterns yet*', '- Editing generated sections')
+      .replace('- Run tsc before commit', '- Run tsc and lint before commit')
+      .replace(/- \[x\] Use pnpm \(user, [^)]*\)/, '$&\n- Never push to main')
+      .replace(`| ${taskId} | Routes |`, `| ${taskId} | Renamed |`);
+    writeFileSync(path, markdown);
+
+    const loaded = await loadLedger(path);
+    expect(loaded.governance.directives.map((d) => [d.content, d.source])).toEqual([
+      ['Use pnpm', 'user'],
+      ['Never push to main', 'user'],
+    ]);
+    expect(loaded.learnings.patterns.map((l) => l.content)).toEqual([
+      'Run tsc and lint before commit',
+    ]);
+    expect(loaded.learnings.antiPatterns.map((l) => l.content)).toEqual([
+      'Editing generated sections',
+    ]);
+    // The task table is generated: the edit is ignored, the task list kept intact
+    expect(loaded.epic?.tasks[0]).toMatchObject({ title: 'Routes', sessionId: 'ses_child' });
+
+    await saveLedger(loaded, path);
+    const view = readFileSync(path, 'utf-8');
+    expect(view).toContain('- [x] Never push to main (user, ');
+    expect(view).toContain(`| ${taskId} | Routes |`);
+  });
+
+  it('should import a legacy LEDGER.md and refuse invalid state instead of resetting', async () => {
+    const markdown = readFileSync(path, 'utf-8');
+    rmSync(join(dir, 'ledger.json'));
+    const imported = await loadLedger(path);
+    expect(imported.epic?.tasks.map((t) => t.id)).toEqual([taskId]);
+
+    await saveLedger(imported, path);
+    expect(existsSync(join(dir, 'ledger.json'))).toBe(true);
+
+    writeFileSync(join(dir, 'ledger.json'), '{"version": 1, "ledger": {');
+    writeFileSync(path, markdown);
+    await expect(loadLedger(path)).rejects.toThrow('Cannot load ledger state');
+  });
+
+  it('should replace hand-edited enum values when importing LEDGER.md', async () => {
+    rmSync(join(dir, 'ledger.json'));
+    const markdown = readFileSync(path, 'utf-8')
+      .replace(/\*\*Status\*\*: \w+/, '**Status**: active')
+      .replace('### Assumptions', '### Assumptions\n\n- [?] Use REST (architect: simpler)');
+    writeFileSync(path, markdown);
+
+    const imported = await loadLedger(path);
+    expect(imported.epic?.status).toBe('in_progress');
+    expect(imported.governance.assumptions[0]).toMatchObject({
+      content: 'Use REST',
+      source: 'chief-of-staff',
+    });
+
+    await saveLedger(imported, path);
+    expect((await loadLedger(path)).epic?.status).toBe('in_progress');
+  });
+
+  it('should refuse to save state the next load would reject', async () => {
+    const before = readFileSync(join(dir, 'ledger.json'), 'utf-8');
+    ledger.epic!.status = 'active' as never;
+
+    await expect(saveLedger(ledger, path)).rejects.toThrow('Invalid ledger state');
+    expect(readFileSync(join(dir, 'ledger.json'), 'utf-8')).toBe(before);
+  });
+});
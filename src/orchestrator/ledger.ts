@@ -1,20 +1,31 @@
 /**
  * LEDGER.md - Single Source of Truth for Orchestration Continuity
  *
- * This module provides utilities to manage the LEDGER.md file which tracks:
+ * The canonical state lives in `ledger.json` next to LEDGER.md (see
+ * ledger-schema.ts); LEDGER.md is a generated view. Hand edits to its
+ * Directives and Learnings sections are merged back on load, edits to other
+ * sections are overwritten on the next save.
+ *
+ * This module provides utilities to manage the ledger which tracks:
  * - Meta: Session state, current phase, progress
- * - Epic: ONE active epic with max 5 tasks
+ * - Epics: one focused epic plus background epics, each with a task limit (default 5)
  * - Learnings: Patterns, anti-patterns, decisions
  * - Handoff: Context for session breaks
  * - Archive: Last 5 completed epics
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
 import { existsSync } from 'fs';
-import { dirname } from 'path';
-import { randomBytes } from 'crypto';
+import { dirname, join } from 'path';
+import { createHash, randomBytes } from 'crypto';
 import { lock } from 'proper-lockfile';
 import { createModuleLogger } from '../utils/logger';
+import {
+  LEDGER_STATE_VERSION,
+  normalizeImportedLedger,
+  parseLedgerState,
+  type LedgerState,
+} from './ledger-schema';
 
 const log = createModuleLogger('Ledger');
 
@@ -23,21 +34,11 @@ const log = createModuleLogger('Ledger');
 // ============================================================================
 
 export type TaskStatus =
-  | 'pending'
-  | 'running'
-  | 'completed'
-  | 'failed'
-  | 'timeout'
-  | 'suspended'
-  | 'stale';
+  'pending' | 'running' | 'completed' | 'failed' | 'timeout' | 'suspended' | 'stale';
 export type TaskOutcome = 'SUCCEEDED' | 'PARTIAL' | 'FAILED' | '-';
 export type EpicStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'paused';
 export type LedgerPhase =
-  | 'CLARIFICATION'
-  | 'DECOMPOSITION'
-  | 'PLANNING'
-  | 'EXECUTION'
-  | 'COMPLETION';
+  'CLARIFICATION' | 'DECOMPOSITION' | 'PLANNING' | 'EXECUTION' | 'COMPLETION';
 
 export interface Directive {
   content: string;
@@ -162,7 +163,8 @@ export interface LedgerMeta {
 export interface Ledger {
   meta: LedgerMeta;
   governance: Governance;
-  epic: Epic | null;
+  epic: Epic | null; // Focused epic; meta tracks its progress
+  backgroundEpics: Epic[]; // Other open epics, in creation order
   learnings: Learnings;
   handoff: Handoff | null;
   archive: ArchiveEntry[];
@@ -174,9 +176,45 @@ export interface Ledger {
 // ============================================================================
 
 const DEFAULT_LEDGER_PATH = '.opencode/LEDGER.md';
+const LEDGER_STATE_FILE = 'ledger.json';
+const GENERATED_NOTICE =
+  '<!-- Generated from ledger.json. Only Directives and Learnings edits are kept; other changes are overwritten. -->';
 const MAX_TASKS_PER_EPIC = 5;
 const MAX_ARCHIVE_ENTRIES = 5;
 
+/** v5: this module (LEDGER.md + ledger.json); v6: the file ledger in `file-ledger/` */
+export type LedgerFormat = 'v5' | 'v6';
+
+export interface LedgerOptions {
+  maxTasksPerEpic?: number;
+  format?: LedgerFormat;
+}
+
+let maxTasksPerEpic = MAX_TASKS_PER_EPIC;
+let ledgerFormat: LedgerFormat = 'v5';
+
+/**
+ * Configure ledger limits and format (from plugin config)
+ */
+export function configureLedger(options: LedgerOptions = {}): void {
+  maxTasksPerEpic = options.maxTasksPerEpic ?? MAX_TASKS_PER_EPIC;
+  ledgerFormat = options.format ?? 'v5';
+}
+
+/**
+ * Get the configured ledger format
+ */
+export function getLedgerFormat(): LedgerFormat {
+  return ledgerFormat;
+}
+
+/**
+ * Get the configured task limit per epic
+ */
+export function getMaxTasksPerEpic(): number {
+  return maxTasksPerEpic;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -221,6 +259,7 @@ function createDefaultLedger(): Ledger {
       assumptions: [],
     },
     epic: null,
+    backgroundEpics: [],
     learnings: {
       patterns: [],
       antiPatterns: [],
@@ -243,6 +282,8 @@ function parseLedgerMarkdown(content: string): Ledger {
 
   let currentSection = '';
   let currentSubSection = '';
+  let currentEpic: Epic | null = null;
+  const epics: Array<{ epic: Epic; focused: boolean }> = [];
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -257,7 +298,7 @@ function parseLedgerMarkdown(content: string): Ledger {
     } else if (line.startsWith('## Epic:')) {
       currentSection = 'epic';
       const epicId = line.replace('## Epic:', '').trim();
-      ledger.epic = {
+      currentEpic = {
         id: epicId,
         title: '',
         request: '',
@@ -267,6 +308,8 @@ function parseLedgerMarkdown(content: string): Ledger {
         context: [],
         progressLog: [],
       };
+      epics.push({ epic: currentEpic, focused: false });
+      currentSubSection = '';
       continue;
     } else if (line.startsWith('## Learnings')) {
       currentSection = 'learnings';
@@ -325,13 +368,15 @@ function parseLedgerMarkdown(content: string): Ledger {
       } else if (line.startsWith('### Assumptions')) {
         currentSubSection = 'assumptions';
       } else if (line.startsWith('- ')) {
-        // Parse Directive: - [x] Content (Source, Date)
+        // Parse Directive: - [x] Content (Source, Date); hand-written "- Content" is a user directive
         if (currentSubSection === 'directives') {
-          const contentMatch = line.match(/- \[x\] (.*) \((.*), (.*)\)/);
-          if (contentMatch) {
+          const contentMatch = line.match(
+            /^- (?:\[x\] )?(.*?)(?: \((user|interviewer), ([^)]*)\))?$/
+          );
+          if (contentMatch && contentMatch[1]) {
             ledger.governance.directives.push({
               content: contentMatch[1],
-              source: contentMatch[2] as Directive['source'],
+              source: (contentMatch[2] as Directive['source']) || 'user',
               createdAt: new Date(contentMatch[3]).getTime() || Date.now(),
             });
           }
@@ -353,13 +398,15 @@ function parseLedgerMarkdown(content: string): Ledger {
     }
 
     // Parse Epic section
-    if (currentSection === 'epic' && ledger.epic) {
+    if (currentSection === 'epic' && currentEpic) {
       if (line.startsWith('**Title**:')) {
-        ledger.epic.title = line.replace('**Title**:', '').trim();
+        currentEpic.title = line.replace('**Title**:', '').trim();
       } else if (line.startsWith('**Request**:')) {
-        ledger.epic.request = line.replace('**Request**:', '').trim();
+        currentEpic.request = line.replace('**Request**:', '').trim();
+      } else if (line.startsWith('**Focus**:')) {
+        epics[epics.length - 1].focused = line.replace('**Focus**:', '').trim() === 'focused';
       } else if (line.startsWith('**Status**:')) {
-        ledger.epic.status = line.replace('**Status**:', '').trim() as EpicStatus;
+        currentEpic.status = line.replace('**Status**:', '').trim() as EpicStatus;
       } else if (line.startsWith('### Tasks')) {
         currentSubSection = 'tasks';
       } else if (line.startsWith('### Context')) {
@@ -386,7 +433,7 @@ function parseLedgerMarkdown(content: string): Ledger {
           const outcome: TaskOutcome = ['SUCCEEDED', 'PARTIAL', 'FAILED', '-'].includes(outcomeStr)
             ? (outcomeStr as TaskOutcome)
             : '-';
-          ledger.epic.tasks.push({
+          currentEpic.tasks.push({
             id: cols[0],
             title: cols[1],
             agent: cols[2],
@@ -405,12 +452,12 @@ function parseLedgerMarkdown(content: string): Ledger {
 
       // Parse context items
       if (currentSubSection === 'context' && line.startsWith('- ')) {
-        ledger.epic.context.push(line.replace('- ', ''));
+        currentEpic.context.push(line.replace('- ', ''));
       }
 
       // Parse progress log
       if (currentSubSection === 'progressLog' && line.startsWith('- ')) {
-        ledger.epic.progressLog.push(line.replace('- ', ''));
+        currentEpic.progressLog.push(line.replace('- ', ''));
       }
     }
 
@@ -540,6 +587,11 @@ function parseLedgerMarkdown(content: string): Ledger {
     }
   }
 
+  // Without a focus marker (single-epic ledgers), the first epic is focused
+  const focused = epics.find((e) => e.focused) ?? epics[0];
+  ledger.epic = focused?.epic ?? null;
+  ledger.backgroundEpics = epics.filter((e) => e !== focused).map((e) => e.epic);
+
   // Treat an empty Active Dialogue section (e.g. "*No active dialogue*") as null.
   if (ledger.activeDialogue && (!ledger.activeDialogue.agent || !ledger.activeDialogue.command)) {
     ledger.activeDialogue = null;
@@ -552,12 +604,79 @@ function parseLedgerMarkdown(content: string): Ledger {
 // Markdown Renderer
 // ============================================================================
 
+function renderEpicSection(lines: string[], epic: Epic, focus?: 'focused' | 'background'): void {
+  lines.push(`## Epic: ${epic.id}`);
+  lines.push('');
+  lines.push(`**Title**: ${epic.title}`);
+  lines.push(`**Request**: "${epic.request}"`);
+  if (focus) {
+    lines.push(`**Focus**: ${focus}`);
+  }
+  lines.push(`**Status**: ${epic.status}`);
+  lines.push(`**Created**: ${new Date(epic.createdAt).toISOString()}`);
+  lines.push('');
+
+  // Tasks table
+  lines.push('### Tasks');
+  lines.push('');
+  lines.push('| ID | Title | Agent | Status | Outcome |');
+  lines.push('|----|-------|-------|--------|---------|');
+  for (const task of epic.tasks) {
+    const statusIcon =
+      task.status === 'completed'
+        ? '✅'
+        : task.status === 'failed'
+          ? '❌'
+          : task.status === 'suspended'
+            ? '⏸️'
+            : task.status === 'stale'
+              ? '⚠️'
+              : '⏳';
+    lines.push(
+      `| ${task.id} | ${task.title} | ${task.agent} | ${statusIcon} ${task.status} | ${task.outcome} |`
+    );
+  }
+  lines.push('');
+
+  // Dependencies
+  const deps = epic.tasks.filter((t) => t.dependencies.length > 0);
+  if (deps.length > 0) {
+    lines.push('### Dependencies');
+    for (const task of deps) {
+      for (const dep of task.dependencies) {
+        lines.push(`- ${task.id} → depends on → ${dep}`);
+      }
+    }
+    lines.push('');
+  }
+
+  // Context
+  if (epic.context.length > 0) {
+    lines.push('### Context');
+    for (const ctx of epic.context) {
+      lines.push(`- ${ctx}`);
+    }
+    lines.push('');
+  }
+
+  // Progress Log
+  if (epic.progressLog.length > 0) {
+    lines.push('### Progress Log');
+    for (const log of epic.progressLog) {
+      lines.push(`- ${log}`);
+    }
+    lines.push('');
+  }
+}
+
 function renderLedgerMarkdown(ledger: Ledger): string {
   const lines: string[] = [];
 
   // Header
   lines.push('# LEDGER');
   lines.push('');
+  lines.push(GENERATED_NOTICE);
+  lines.push('');
 
   // Meta section
   lines.push('## Meta');
@@ -599,66 +718,14 @@ function renderLedgerMarkdown(ledger: Ledger): string {
   lines.push('---');
   lines.push('');
 
-  // Epic section
-  if (ledger.epic) {
-    lines.push(`## Epic: ${ledger.epic.id}`);
-    lines.push('');
-    lines.push(`**Title**: ${ledger.epic.title}`);
-    lines.push(`**Request**: "${ledger.epic.request}"`);
-    lines.push(`**Status**: ${ledger.epic.status}`);
-    lines.push(`**Created**: ${new Date(ledger.epic.createdAt).toISOString()}`);
-    lines.push('');
-
-    // Tasks table
-    lines.push('### Tasks');
-    lines.push('');
-    lines.push('| ID | Title | Agent | Status | Outcome |');
-    lines.push('|----|-------|-------|--------|---------|');
-    for (const task of ledger.epic.tasks) {
-      const statusIcon =
-        task.status === 'completed'
-          ? '✅'
-          : task.status === 'failed'
-            ? '❌'
-            : task.status === 'suspended'
-              ? '⏸️'
-              : task.status === 'stale'
-                ? '⚠️'
-                : '⏳';
-      lines.push(
-        `| ${task.id} | ${task.title} | ${task.agent} | ${statusIcon} ${task.status} | ${task.outcome} |`
-      );
-    }
-    lines.push('');
-
-    // Dependencies
-    const deps = ledger.epic.tasks.filter((t) => t.dependencies.length > 0);
-    if (deps.length > 0) {
-      lines.push('### Dependencies');
-      for (const task of deps) {
-        for (const dep of task.dependencies) {
-          lines.push(`- ${task.id} → depends on → ${dep}`);
-        }
-      }
-      lines.push('');
-    }
-
-    // Context
-    if (ledger.epic.context.length > 0) {
-      lines.push('### Context');
-      for (const ctx of ledger.epic.context) {
-        lines.push(`- ${ctx}`);
-      }
-      lines.push('');
+  // Epic sections (focused first; focus markers only when several are open)
+  if (ledger.epic || ledger.backgroundEpics.length > 0) {
+    const marked = getOpenEpics(ledger).length > 1;
+    if (ledger.epic) {
+      renderEpicSection(lines, ledger.epic, marked ? 'focused' : undefined);
     }
-
-    // Progress Log
-    if (ledger.epic.progressLog.length > 0) {
-      lines.push('### Progress Log');
-      for (const log of ledger.epic.progressLog) {
-        lines.push(`- ${log}`);
-      }
-      lines.push('');
+    for (const epic of ledger.backgroundEpics) {
+      renderEpicSection(lines, epic, 'background');
     }
   } else {
     lines.push('## Epic');
@@ -839,28 +906,164 @@ function renderLedgerMarkdown(ledger: Ledger): string {
 // Public API
 // ============================================================================
 
+/**
+ * Path of the canonical ledger state for a LEDGER.md path
+ */
+export function getLedgerStatePath(path: string = DEFAULT_LEDGER_PATH): string {
+  return join(dirname(path), LEDGER_STATE_FILE);
+}
+
+function hashMarkdown(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+const EDITABLE_SECTIONS = ['Governance > Directives', 'Learnings'];
+
+/**
+ * Split markdown into chunks keyed by "## Section" / "## Section > ### Sub" headings
+ */
+function splitSections(markdown: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let section = '';
+  let key = '';
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('## ')) {
+      section = trimmed.slice(3).trim();
+      key = section;
+    } else if (trimmed.startsWith('### ')) {
+      key = `${section} > ${trimmed.slice(4).trim()}`;
+    }
+    sections.set(key, `${sections.get(key) ?? ''}${trimmed}\n`);
+  }
+  return sections;
+}
+
+export interface LedgerEditMerge {
+  merged: string[]; // Editable sections taken from the markdown
+  ignored: string[]; // Generated sections whose edits were discarded
+}
+
+function keepCreatedAt<T extends { content: string; createdAt?: number }>(
+  edited: T[],
+  current: T[]
+): T[] {
+  return edited.map((entry) => current.find((c) => c.content === entry.content) ?? entry);
+}
+
+/**
+ * Merge hand edits of LEDGER.md back into the ledger state
+ *
+ * The markdown is compared section by section with the view rendered from
+ * `ledger`; edited Directives and Learnings replace the state's lists (so
+ * deletions count), other edited sections are reported as ignored.
+ */
+export function mergeLedgerEdits(ledger: Ledger, markdown: string): LedgerEditMerge {
+  const expected = splitSections(renderLedgerMarkdown(ledger));
+  const actual = splitSections(markdown);
+  const changed = [...new Set([...expected.keys(), ...actual.keys()])].filter(
+    (key) => expected.get(key) !== actual.get(key)
+  );
+
+  const isEditable = (key: string) =>
+    EDITABLE_SECTIONS.some((section) => key === section || key.startsWith(`${section} `));
+  const edited = parseLedgerMarkdown(markdown);
+  const merged: string[] = [];
+
+  if (changed.some((key) => key.startsWith('Governance > Directives'))) {
+    ledger.governance.directives = keepCreatedAt(
+      edited.governance.directives,
+      ledger.governance.directives
+    );
+    merged.push('Directives');
+  }
+
+  if (changed.some((key) => key.startsWith('Learnings'))) {
+    ledger.learnings = {
+      patterns: keepCreatedAt(edited.learnings.patterns, ledger.learnings.patterns),
+      antiPatterns: keepCreatedAt(edited.learnings.antiPatterns, ledger.learnings.antiPatterns),
+      decisions: keepCreatedAt(edited.learnings.decisions, ledger.learnings.decisions),
+      preferences: keepCreatedAt(edited.learnings.preferences, ledger.learnings.preferences),
+    };
+    merged.push('Learnings');
+  }
+
+  const ignored = [
+    ...new Set(changed.filter((key) => !isEditable(key)).map((key) => key || 'Header')),
+  ];
+  return { merged, ignored };
+}
+
+async function readLedgerState(statePath: string): Promise<LedgerState> {
+  const content = await readFile(statePath, 'utf-8');
+  try {
+    return parseLedgerState(JSON.parse(content));
+  } catch (error) {
+    // Never fall back to an empty ledger: that would overwrite the state on the next save
+    throw new Error(
+      `Cannot load ledger state from ${statePath}: ${(error as Error).message}. ` +
+        'Fix or remove the file (LEDGER.md is re-imported when ledger.json is missing).'
+    );
+  }
+}
+
+/**
+ * Replace hand-edited LEDGER.md values the state schema rejects, so they are
+ * never saved into ledger.json
+ */
+function normalizeMarkdownImport(ledger: Ledger): Ledger {
+  const replaced = normalizeImportedLedger(ledger);
+  if (replaced.length > 0) {
+    log.warn({ replaced }, 'Replaced invalid values imported from LEDGER.md');
+  }
+  return ledger;
+}
+
 /**
  * Load LEDGER from file system
+ *
+ * Reads `ledger.json`, merging hand edits of the whitelisted LEDGER.md
+ * sections. A LEDGER.md without `ledger.json` (older plugin versions) is
+ * parsed instead; the state file is written on the next save.
+ *
+ * Throws if `ledger.json` is unreadable or invalid rather than returning an
+ * empty ledger that the next save would write over the state.
  */
 export async function loadLedger(path: string = DEFAULT_LEDGER_PATH): Promise<Ledger> {
-  try {
-    if (!existsSync(path)) {
+  const statePath = getLedgerStatePath(path);
+  const markdown = existsSync(path) ? await readFile(path, 'utf-8') : null;
+
+  if (!existsSync(statePath)) {
+    if (markdown === null) {
       log.info('No LEDGER found, creating default');
       return createDefaultLedger();
     }
+    log.info({ path }, 'Loaded ledger from LEDGER.md (no ledger.json yet)');
+    return normalizeMarkdownImport(parseLedgerMarkdown(markdown));
+  }
 
-    const content = await readFile(path, 'utf-8');
-    const ledger = parseLedgerMarkdown(content);
-    log.info('Loaded ledger');
-    return ledger;
-  } catch (error) {
-    log.error({ error }, 'Failed to load ledger');
-    return createDefaultLedger();
+  const state = await readLedgerState(statePath);
+  const ledger = state.ledger;
+
+  if (markdown !== null && hashMarkdown(markdown) !== state.markdownHash) {
+    const { merged, ignored } = mergeLedgerEdits(ledger, markdown);
+    if (merged.length > 0) {
+      log.info({ merged }, 'Merged LEDGER.md edits');
+    }
+    if (ignored.length > 0) {
+      log.warn({ ignored }, 'Ignoring LEDGER.md edits to generated sections');
+    }
+    normalizeMarkdownImport(ledger);
   }
+
+  log.info('Loaded ledger');
+  return ledger;
 }
 
 /**
  * Save LEDGER to file system
+ *
+ * Writes `ledger.json` atomically, then regenerates LEDGER.md from it.
  */
 export async function saveLedger(
   ledger: Ledger,
@@ -873,20 +1076,25 @@ export async function saveLedger(
       await mkdir(dir, { recursive: true });
     }
 
-    // Ensure file exists for locking (create empty if not)
-    if (!existsSync(path)) {
-      await writeFile(path, '', 'utf-8');
-    }
-
     // Update timestamp
     ledger.meta.lastUpdated = formatTimestamp();
     const content = renderLedgerMarkdown(ledger);
-
-    // Write with lock
+    const statePath = getLedgerStatePath(path);
+    // Never persist state that the next load would reject
+    const state = parseLedgerState({
+      version: LEDGER_STATE_VERSION,
+      markdownHash: hashMarkdown(content),
+      ledger,
+    });
+
+    // Write with lock (the state file may not exist yet)
     // retries: 5 retries with randomized backoff logic (default)
-    const release = await lock(path, { retries: 5 });
+    const release = await lock(statePath, { retries: 5, realpath: false });
 
     try {
+      const tmpPath = `${statePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf-8');
+      await rename(tmpPath, statePath);
       await writeFile(path, content, 'utf-8');
       log.info('Saved ledger');
     } finally {
@@ -898,16 +1106,97 @@ export async function saveLedger(
   }
 }
 
+/**
+ * Get all open epics, focused first
+ */
+export function getOpenEpics(ledger: Ledger): Epic[] {
+  return ledger.epic ? [ledger.epic, ...ledger.backgroundEpics] : [...ledger.backgroundEpics];
+}
+
+/**
+ * Find an open epic by ID
+ */
+export function findEpic(ledger: Ledger, epicId: string): Epic | undefined {
+  return getOpenEpics(ledger).find((e) => e.id === epicId);
+}
+
+export interface TaskLocation {
+  epic: Epic;
+  task: Task;
+}
+
+/**
+ * Find a task in any open epic
+ */
+export function findTask(ledger: Ledger, taskId: string): TaskLocation | undefined {
+  for (const epic of getOpenEpics(ledger)) {
+    const task = epic.tasks.find((t) => t.id === taskId);
+    if (task) return { epic, task };
+  }
+  return undefined;
+}
+
+function resolveEpic(ledger: Ledger, epicId: string | undefined, action: string): Epic {
+  if (epicId) {
+    const epic = findEpic(ledger, epicId);
+    if (!epic) {
+      throw new Error(`Cannot ${action}: Epic not found: ${epicId}`);
+    }
+    return epic;
+  }
+  if (!ledger.epic) {
+    throw new Error(`Cannot ${action}: No active epic`);
+  }
+  return ledger.epic;
+}
+
+/**
+ * Sync meta progress with the focused epic
+ */
+function syncMetaWithFocus(ledger: Ledger): void {
+  const epic = ledger.epic;
+  if (!epic) {
+    ledger.meta.phase = 'CLARIFICATION';
+    ledger.meta.tasksCompleted = '0/0';
+    ledger.meta.currentTask = undefined;
+    return;
+  }
+
+  const completed = epic.tasks.filter((t) => t.status === 'completed').length;
+  ledger.meta.tasksCompleted = `${completed}/${epic.tasks.length}`;
+  ledger.meta.currentTask = epic.tasks.find((t) => t.status === 'running')?.id;
+  ledger.meta.phase =
+    epic.tasks.length === 0
+      ? 'DECOMPOSITION'
+      : epic.status === 'completed' || epic.status === 'failed'
+        ? 'COMPLETION'
+        : epic.status === 'in_progress'
+          ? 'EXECUTION'
+          : 'PLANNING';
+}
+
 /**
  * Create a new Epic
+ *
+ * The new epic takes focus unless `focus: false`; the previously focused
+ * epic keeps running in the background.
  */
-export function createEpic(ledger: Ledger, title: string, request: string): string {
-  if (ledger.epic) {
-    throw new Error('Cannot create epic: An active epic already exists. Archive it first.');
+export function createEpic(
+  ledger: Ledger,
+  title: string,
+  request: string,
+  options?: { focus?: boolean }
+): string {
+  const usedIds = new Set([
+    ...getOpenEpics(ledger).map((e) => e.id),
+    ...ledger.archive.map((a) => a.epicId),
+  ]);
+  let epicId = generateHash();
+  while (usedIds.has(epicId)) {
+    epicId = generateHash();
   }
 
-  const epicId = generateHash();
-  ledger.epic = {
+  const epic: Epic = {
     id: epicId,
     title,
     request,
@@ -918,32 +1207,57 @@ export function createEpic(ledger: Ledger, title: string, request: string): stri
     progressLog: [`[${formatTimestamp()}] Epic created: ${title}`],
   };
 
-  ledger.meta.phase = 'DECOMPOSITION';
-  ledger.meta.tasksCompleted = '0/0';
+  if (options?.focus === false && ledger.epic) {
+    ledger.backgroundEpics.push(epic);
+  } else {
+    if (ledger.epic) {
+      ledger.backgroundEpics.push(ledger.epic);
+    }
+    ledger.epic = epic;
+    syncMetaWithFocus(ledger);
+  }
 
-  log.info({ epicId, title }, 'Created epic');
+  log.info({ epicId, title, focused: ledger.epic === epic }, 'Created epic');
   return epicId;
 }
 
 /**
- * Create a task within the current Epic
+ * Focus an open epic; the previously focused epic moves to the background
+ */
+export function focusEpic(ledger: Ledger, epicId: string): Epic {
+  const epic = resolveEpic(ledger, epicId, 'focus epic');
+  if (epic === ledger.epic) return epic;
+
+  ledger.backgroundEpics = ledger.backgroundEpics.filter((e) => e !== epic);
+  if (ledger.epic) {
+    ledger.backgroundEpics.push(ledger.epic);
+  }
+  ledger.epic = epic;
+  syncMetaWithFocus(ledger);
+
+  log.info({ epicId }, 'Focused epic');
+  return epic;
+}
+
+/**
+ * Create a task within an open Epic (the focused one by default)
  */
 export function createTask(
   ledger: Ledger,
   title: string,
   agent: string,
-  options?: { dependencies?: string[] }
+  options?: { dependencies?: string[]; epicId?: string; maxTasks?: number }
 ): string {
-  if (!ledger.epic) {
-    throw new Error('Cannot create task: No active epic');
-  }
+  const epic = resolveEpic(ledger, options?.epicId, 'create task');
+  const limit = options?.maxTasks ?? maxTasksPerEpic;
 
-  if (ledger.epic.tasks.length >= MAX_TASKS_PER_EPIC) {
-    throw new Error(`Cannot create task: Epic already has ${MAX_TASKS_PER_EPIC} tasks (maximum)`);
+  if (epic.tasks.length >= limit) {
+    throw new Error(`Cannot create task: Epic already has ${limit} tasks (maximum)`);
   }
 
-  const taskNumber = ledger.epic.tasks.length + 1;
-  const taskId = `${ledger.epic.id}.${taskNumber}`;
+  // Epic IDs are unique, so task IDs are unique across all epics
+  const taskNumber = epic.tasks.length + 1;
+  const taskId = `${epic.id}.${taskNumber}`;
 
   const task: Task = {
     id: taskId,
@@ -954,16 +1268,18 @@ export function createTask(
     dependencies: options?.dependencies || [],
   };
 
-  ledger.epic.tasks.push(task);
-  ledger.meta.tasksCompleted = `0/${ledger.epic.tasks.length}`;
-  ledger.epic.progressLog.push(`[${formatTimestamp()}] Task created: ${taskId} - ${title}`);
+  epic.tasks.push(task);
+  if (epic === ledger.epic) {
+    ledger.meta.tasksCompleted = `0/${epic.tasks.length}`;
+  }
+  epic.progressLog.push(`[${formatTimestamp()}] Task created: ${taskId} - ${title}`);
 
   log.info({ taskId, title }, 'Created task');
   return taskId;
 }
 
 /**
- * Update task status
+ * Update task status (in any open epic)
  */
 export function updateTaskStatus(
   ledger: Ledger,
@@ -972,49 +1288,57 @@ export function updateTaskStatus(
   result?: string,
   error?: string
 ): void {
-  if (!ledger.epic) {
+  if (!ledger.epic && ledger.backgroundEpics.length === 0) {
     throw new Error('Cannot update task: No active epic');
   }
 
-  const task = ledger.epic.tasks.find((t) => t.id === taskId);
-  if (!task) {
+  const found = findTask(ledger, taskId);
+  if (!found) {
     throw new Error(`Task not found: ${taskId}`);
   }
 
+  const { epic, task } = found;
+  const focused = epic === ledger.epic;
   task.status = status;
 
   if (status === 'running' && !task.startedAt) {
     task.startedAt = Date.now();
-    ledger.meta.currentTask = taskId;
-    ledger.meta.phase = 'EXECUTION';
-    ledger.epic.status = 'in_progress';
+    epic.status = 'in_progress';
+    if (focused) {
+      ledger.meta.currentTask = taskId;
+      ledger.meta.phase = 'EXECUTION';
+    }
   }
 
   if (status === 'completed') {
     task.completedAt = Date.now();
     task.outcome = 'SUCCEEDED';
     if (result) task.result = result;
-    ledger.epic.progressLog.push(`[${formatTimestamp()}] ${taskId} completed`);
+    epic.progressLog.push(`[${formatTimestamp()}] ${taskId} completed`);
   }
 
   if (status === 'failed') {
     task.completedAt = Date.now();
     task.outcome = 'FAILED';
     if (error) task.error = error;
-    ledger.epic.progressLog.push(`[${formatTimestamp()}] ${taskId} failed: ${error || 'unknown'}`);
+    epic.progressLog.push(`[${formatTimestamp()}] ${taskId} failed: ${error || 'unknown'}`);
   }
 
   // Update progress
-  const completed = ledger.epic.tasks.filter((t) => t.status === 'completed').length;
-  ledger.meta.tasksCompleted = `${completed}/${ledger.epic.tasks.length}`;
+  if (focused) {
+    const completed = epic.tasks.filter((t) => t.status === 'completed').length;
+    ledger.meta.tasksCompleted = `${completed}/${epic.tasks.length}`;
+  }
 
   // Check if epic is complete
-  const allDone = ledger.epic.tasks.every((t) => t.status === 'completed' || t.status === 'failed');
+  const allDone = epic.tasks.every((t) => t.status === 'completed' || t.status === 'failed');
   if (allDone) {
-    const allSucceeded = ledger.epic.tasks.every((t) => t.status === 'completed');
-    ledger.epic.status = allSucceeded ? 'completed' : 'failed';
-    ledger.meta.phase = 'COMPLETION';
-    ledger.meta.currentTask = undefined;
+    const allSucceeded = epic.tasks.every((t) => t.status === 'completed');
+    epic.status = allSucceeded ? 'completed' : 'failed';
+    if (focused) {
+      ledger.meta.phase = 'COMPLETION';
+      ledger.meta.currentTask = undefined;
+    }
   }
 
   log.info({ taskId, status }, 'Task status updated');
@@ -1049,19 +1373,17 @@ export function addLearning(
 }
 
 /**
- * Add context to current epic
+ * Add context to an open epic (the focused one by default)
  */
-export function addContext(ledger: Ledger, context: string): void {
-  if (!ledger.epic) {
-    throw new Error('Cannot add context: No active epic');
-  }
+export function addContext(ledger: Ledger, context: string, epicId?: string): void {
+  const epic = resolveEpic(ledger, epicId, 'add context');
 
-  ledger.epic.context.push(context);
-  log.info({ context }, 'Added context');
+  epic.context.push(context);
+  log.info({ context, epicId: epic.id }, 'Added context');
 }
 
 /**
- * Create handoff for session break
+ * Create handoff for session break (covers all open epics)
  */
 export function createHandoff(
   ledger: Ledger,
@@ -1072,13 +1394,16 @@ export function createHandoff(
     filesModified?: string[];
   }
 ): void {
-  if (!ledger.epic) {
+  const epics = getOpenEpics(ledger);
+  if (epics.length === 0) {
     log.debug('No active epic, skipping handoff');
     return;
   }
 
-  const completedTasks = ledger.epic.tasks.filter((t) => t.status === 'completed');
-  const pendingTasks = ledger.epic.tasks.filter((t) => t.status !== 'completed');
+  const tasks = epics.flatMap((e) => e.tasks);
+
+  const completedTasks = tasks.filter((t) => t.status === 'completed');
+  const pendingTasks = tasks.filter((t) => t.status !== 'completed');
 
   ledger.handoff = {
     created: formatTimestamp(),
@@ -1099,15 +1424,17 @@ export function createHandoff(
 }
 
 /**
- * Archive the current epic
+ * Archive an open epic (the focused one by default)
+ *
+ * Archiving the focused epic moves focus to the oldest background epic.
  */
-export function archiveEpic(ledger: Ledger, outcome?: TaskOutcome): void {
-  if (!ledger.epic) {
-    log.debug('No active epic to archive');
+export function archiveEpic(ledger: Ledger, outcome?: TaskOutcome, epicId?: string): void {
+  const epic = epicId ? findEpic(ledger, epicId) : ledger.epic;
+  if (!epic) {
+    log.debug({ epicId }, 'No active epic to archive');
     return;
   }
 
-  const epic = ledger.epic;
   const now = Date.now();
 
   // Determine outcome
@@ -1139,36 +1466,41 @@ export function archiveEpic(ledger: Ledger, outcome?: TaskOutcome): void {
     ledger.archive = ledger.archive.slice(0, MAX_ARCHIVE_ENTRIES);
   }
 
-  // Clear epic
-  ledger.epic = null;
-  ledger.meta.phase = 'CLARIFICATION';
-  ledger.meta.tasksCompleted = '0/0';
-  ledger.meta.currentTask = undefined;
-  ledger.meta.status = 'active';
+  // Remove epic; the next background epic takes focus
+  if (epic === ledger.epic) {
+    ledger.epic = ledger.backgroundEpics.shift() ?? null;
+    syncMetaWithFocus(ledger);
+    ledger.meta.status = 'active';
+  } else {
+    ledger.backgroundEpics = ledger.backgroundEpics.filter((e) => e !== epic);
+  }
 
   // Clear handoff if resolved
-  if (finalOutcome === 'SUCCEEDED') {
+  if (finalOutcome === 'SUCCEEDED' && getOpenEpics(ledger).length === 0) {
     ledger.handoff = null;
   }
 
   log.info({ epicId: entry.epicId, outcome: finalOutcome }, 'Archived epic');
 }
 
-/**
- * Get progress summary
- */
-export function getProgress(ledger: Ledger): {
+export interface EpicProgress {
   total: number;
   completed: number;
   failed: number;
   running: number;
   percentComplete: number;
-} {
-  if (!ledger.epic) {
+}
+
+/**
+ * Get progress summary of an open epic (the focused one by default)
+ */
+export function getProgress(ledger: Ledger, epicId?: string): EpicProgress {
+  const epic = epicId ? findEpic(ledger, epicId) : ledger.epic;
+  if (!epic) {
     return { total: 0, completed: 0, failed: 0, running: 0, percentComplete: 0 };
   }
 
-  const tasks = ledger.epic.tasks;
+  const tasks = epic.tasks;
   const completed = tasks.filter((t) => t.status === 'completed').length;
   const failed = tasks.filter((t) => t.status === 'failed').length;
   const running = tasks.filter((t) => t.status === 'running').length;
@@ -1181,13 +1513,11 @@ export function getProgress(ledger: Ledger): {
  * Check if a task can start (dependencies satisfied)
  */
 export function canStartTask(ledger: Ledger, taskId: string): boolean {
-  if (!ledger.epic) return false;
-
-  const task = ledger.epic.tasks.find((t) => t.id === taskId);
-  if (!task) return false;
+  const found = findTask(ledger, taskId);
+  if (!found) return false;
 
-  for (const depId of task.dependencies) {
-    const dep = ledger.epic.tasks.find((t) => t.id === depId);
+  for (const depId of found.task.dependencies) {
+    const dep = findTask(ledger, depId)?.task;
     if (!dep || dep.status !== 'completed') {
       return false;
     }
@@ -1197,15 +1527,14 @@ export function canStartTask(ledger: Ledger, taskId: string): boolean {
 }
 
 /**
- * Get tasks that are ready to start
+ * Get tasks that are ready to start across all open epics
  */
 export function getReadyTasks(ledger: Ledger): Task[] {
-  if (!ledger.epic) return [];
-
-  // If epic is paused, no tasks are ready
-  if (ledger.epic.status === 'paused') return [];
-
-  return ledger.epic.tasks.filter((t) => t.status === 'pending' && canStartTask(ledger, t.id));
+  return getOpenEpics(ledger)
+    .filter((epic) => epic.status !== 'paused') // Paused epics have no ready tasks
+    .flatMap((epic) =>
+      epic.tasks.filter((t) => t.status === 'pending' && canStartTask(ledger, t.id))
+    );
 }
 
 /**
@@ -1401,6 +1730,7 @@ export function hasActiveDialogue(ledger: Ledger, command?: string): boolean {
 
 export {
   DEFAULT_LEDGER_PATH,
+  LEDGER_STATE_FILE,
   MAX_TASKS_PER_EPIC,
   MAX_ARCHIVE_ENTRIES,
   generateHash,
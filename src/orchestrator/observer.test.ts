@@ -7,6 +7,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
 import { TaskObserver, getTaskObserver, stopTaskObservation } from './observer';
 import { TaskRegistry, resetTaskRegistry } from './task-registry';
+import { getDurableStream, JsonlStore, shutdownDurableStream } from '../durable-stream';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock the ledger module
 vi.mock('./ledger', () => ({
@@ -142,6 +146,44 @@ describe('TaskObserver', () => {
     });
   });
 
+  describe('heartbeat timeout', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await shutdownDurableStream();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should request a checkpoint when a busy task stops sending heartbeats', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'observer-'));
+      const store = new JsonlStore({ path: join(dir, 'stream.jsonl'), useLocking: false });
+      const stream = getDurableStream({ store });
+      await stream.initialize();
+
+      const taskId = await registry.register({
+        sessionId: 'session-123',
+        agentName: 'executor',
+        prompt: 'Test task',
+        maxRetries: 2,
+        timeoutMs: 60000,
+      });
+      await registry.updateStatus(taskId, 'running');
+      await new Promise((r) => setTimeout(r, 100));
+
+      // Session still busy, so the observer steps in
+      mockClient.session.status.mockResolvedValue({ data: { 'session-123': { type: 'busy' } } });
+
+      await observer.checkNow();
+
+      const [event] = await stream.query({ type: 'checkpoint.requested' });
+      expect(event.stream_id).toBe('session-123');
+      expect(event.actor).toBe('observer');
+      expect(stream.getPendingCheckpoints().map((cp) => cp.decision_point)).toEqual([
+        expect.stringContaining('stopped sending heartbeats'),
+      ]);
+    });
+  });
+
   describe('completion detection', () => {
     it('should fetch result when session is idle', async () => {
       const taskId = await registry.register({
@@ -11,7 +11,7 @@
  */
 
 import { TaskRegistry, RegistryTask, getTaskRegistry } from './task-registry';
-import { loadLedger, saveLedger, addLearning } from './ledger';
+import { loadLedger, saveLedger, addLearning, findTask } from './ledger';
 import { getDurableStream } from '../durable-stream';
 import { createModuleLogger } from '../utils/logger';
 
@@ -57,9 +57,7 @@ export class TaskObserver {
   private intervalId?: ReturnType<typeof setInterval>;
   private stats: ObserverStats;
   private isRunning: boolean = false;
-  private unsubscribeAgentSpawned?: () => void;
-  private unsubscribeAgentCompleted?: () => void;
-  private unsubscribeAgentFailed?: () => void;
+  private following?: AbortController;
 
   constructor(
     registry: TaskRegistry,
@@ -99,39 +97,45 @@ export class TaskObserver {
   }
 
   /**
-   * Setup event subscriptions for durable stream
+   * Follow agent lifecycle events on the durable stream (from its current end)
    */
   private setupEventSubscriptions(): void {
     const durableStream = getDurableStream();
+    if (!durableStream.isInitialized()) {
+      log.debug('Durable stream not initialized; skipping agent event logging');
+      return;
+    }
 
-    this.unsubscribeAgentSpawned = durableStream.subscribe('agent.spawned', (event) => {
-      if (this.config.verbose) {
-        log.info(
-          { agent: (event.payload as any).agent, sessionId: (event.payload as any).id },
-          'Agent spawned'
-        );
-      }
-    });
+    const following = new AbortController();
+    this.following = following;
 
-    this.unsubscribeAgentCompleted = durableStream.subscribe('agent.completed', (event) => {
-      if (this.config.verbose) {
-        log.info(
-          { agent: event.actor, sessionId: (event.payload as any).intent_id },
-          'Agent completed'
-        );
+    (async () => {
+      for await (const { event } of durableStream.follow(
+        { type: ['agent.spawned', 'agent.completed', 'agent.failed'] },
+        undefined,
+        { signal: following.signal }
+      )) {
+        const payload = event.payload as any;
+        if (event.type === 'agent.failed') {
+          log.warn(
+            {
+              agent: payload.agent ?? event.actor,
+              sessionId: payload.intent_id,
+              error: payload.error,
+            },
+            'Agent failed'
+          );
+        } else if (this.config.verbose) {
+          log.info(
+            {
+              agent: payload.agent ?? event.actor,
+              sessionId: event.type === 'agent.spawned' ? payload.id : payload.intent_id,
+            },
+            event.type === 'agent.spawned' ? 'Agent spawned' : 'Agent completed'
+          );
+        }
       }
-    });
-
-    this.unsubscribeAgentFailed = durableStream.subscribe('agent.failed', (event) => {
-      log.warn(
-        {
-          agent: event.actor,
-          sessionId: (event.payload as any).intent_id,
-          error: (event.payload as any).error,
-        },
-        'Agent failed'
-      );
-    });
+    })().catch((err) => log.error({ err }, 'Stopped following agent events'));
   }
 
   /**
@@ -147,13 +151,8 @@ export class TaskObserver {
       this.intervalId = undefined;
     }
 
-    this.unsubscribeAgentSpawned?.();
-    this.unsubscribeAgentCompleted?.();
-    this.unsubscribeAgentFailed?.();
-
-    this.unsubscribeAgentSpawned = undefined;
-    this.unsubscribeAgentCompleted = undefined;
-    this.unsubscribeAgentFailed = undefined;
+    this.following?.abort();
+    this.following = undefined;
 
     this.isRunning = false;
     log.info('Stopped task observation');
@@ -325,10 +324,11 @@ export class TaskObserver {
     if (this.config.ledgerPath) {
       try {
         const ledger = await loadLedger(this.config.ledgerPath);
-        if (ledger.epic) {
-          ledger.epic.status = 'paused';
+        const epic = findTask(ledger, task.ledgerTaskId ?? task.id)?.epic ?? ledger.epic;
+        if (epic) {
+          epic.status = 'paused';
           ledger.meta.status = 'paused';
-          ledger.epic.progressLog.push(
+          epic.progressLog.push(
             `[${new Date().toISOString()}] CoS Intervention: Task ${task.id} timed out (no heartbeat). Pausing epic.`
           );
           await saveLedger(ledger, this.config.ledgerPath);
@@ -340,19 +340,15 @@ export class TaskObserver {
     }
 
     try {
-      const stream = getDurableStream();
-      await stream.append({
-        type: 'checkpoint.requested',
-        stream_id: task.sessionId,
-        correlation_id: stream.getCorrelationId(),
-        actor: 'observer',
-        payload: {
-          taskId: task.id,
-          reason: 'heartbeat_timeout',
-          message: `Task ${task.id} (${task.agentName}) has stopped sending heartbeats. Epic paused for intervention.`,
-        },
-        metadata: { sourceAgent: 'observer' },
-      });
+      await getDurableStream().requestCheckpoint(
+        task.sessionId,
+        `Task ${task.id} (${task.agentName}) has stopped sending heartbeats. Epic paused for intervention.`,
+        [
+          { id: 'resume', label: 'Resume epic' },
+          { id: 'abort', label: 'Abort task' },
+        ],
+        'observer'
+      );
     } catch (err) {
       log.error({ err }, 'Failed to emit intervention event');
     }
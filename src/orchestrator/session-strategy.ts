@@ -19,7 +19,10 @@
  * completion) to preserve inline visibility without re-entrancy.
  */
 
-import { loadLedger } from './ledger';
+import { loadLedger, type Ledger } from './ledger';
+import { createModuleLogger } from '../utils/logger';
+
+const log = createModuleLogger('session-strategy');
 
 type HandoffContext = {
   directives: string[];
@@ -144,7 +147,14 @@ export async function buildHandoffContext(
   fromSession: string,
   toAgent: string
 ): Promise<HandoffContext> {
-  const ledger = await loadLedger();
+  // An invalid ledger.json must not block spawning: the child starts without context
+  let ledger: Ledger;
+  try {
+    ledger = await loadLedger();
+  } catch (err) {
+    log.warn({ err, toAgent }, 'Cannot load LEDGER; handing off without context');
+    return { directives: [], decisions: [], files_affected: [], learnings: [] };
+  }
 
   const context: HandoffContext = {
     directives: ledger.governance.directives.map((d) => d.content),
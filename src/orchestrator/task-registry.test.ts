@@ -5,13 +5,25 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { TaskRegistry, getTaskRegistry, resetTaskRegistry } from './task-registry';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  TaskRegistry,
+  getTaskRegistry,
+  readRegistrySnapshot,
+  resetTaskRegistry,
+} from './task-registry';
+import { loadLedger } from './ledger';
+import { FileBasedLedger, resetFileLedger } from './file-ledger';
 
 // Mock the ledger module
 vi.mock('./ledger', () => ({
   loadLedger: vi.fn().mockResolvedValue({ meta: {}, epic: null, learnings: [], archive: [] }),
   saveLedger: vi.fn().mockResolvedValue(undefined),
   updateTaskStatus: vi.fn(),
+  getOpenEpics: vi.fn((ledger) => (ledger.epic ? [ledger.epic] : [])),
+  getLedgerFormat: vi.fn(() => 'v5'),
 }));
 
 describe('TaskRegistry', () => {
@@ -259,6 +271,101 @@ describe('TaskRegistry', () => {
   });
 });
 
+describe('state snapshot', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-registry-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes debounced snapshots readable by other processes', async () => {
+    const statePath = join(dir, '.opencode', 'task_registry.json');
+    const registry = new TaskRegistry({ syncToLedger: false, statePath });
+
+    const taskId = await registry.register({
+      sessionId: 'ses-1',
+      agentName: 'executor',
+      prompt: 'Build it',
+      maxRetries: 2,
+      timeoutMs: 60000,
+    });
+    await registry.updateStatus(taskId, 'running');
+    registry.heartbeat(taskId);
+    expect(existsSync(statePath)).toBe(false);
+
+    registry.flush();
+
+    const snapshot = readRegistrySnapshot(statePath);
+    expect(snapshot?.tasks).toHaveLength(1);
+    expect(snapshot?.tasks[0]).toMatchObject({ id: taskId, status: 'running' });
+    expect(snapshot?.tasks[0].lastHeartbeat).toBeDefined();
+  });
+
+  it('returns null when no snapshot exists', () => {
+    expect(readRegistrySnapshot(join(dir, 'missing.json'))).toBeNull();
+  });
+});
+
+describe('loadFromLedger', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-registry-ledger-'));
+    ledgerPath = join(dir, '.opencode', 'LEDGER.md');
+  });
+
+  afterEach(() => {
+    resetFileLedger();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads unfinished tasks of the open epics from LEDGER.md (v5)', async () => {
+    vi.mocked(loadLedger).mockResolvedValueOnce({
+      epic: {
+        id: 'abc123',
+        tasks: [
+          { id: 'abc123.1', title: 'Schema', agent: 'executor', status: 'completed' },
+          { id: 'abc123.2', title: 'Routes', agent: 'executor', status: 'pending' },
+        ],
+      },
+    } as any);
+    const registry = new TaskRegistry({ ledgerPath, ledgerFormat: 'v5', syncToLedger: false });
+
+    expect(await registry.loadFromLedger()).toBe(1);
+    expect(registry.getTask('abc123.2')).toMatchObject({ prompt: 'Routes', status: 'pending' });
+  });
+
+  it('loads unchecked plan.md tasks of the active epic and syncs results back (v6)', async () => {
+    const fileLedger = new FileBasedLedger(dir);
+    await fileLedger.initialize();
+    const epicId = await fileLedger.createEpic('Auth', 'Add login');
+    await fileLedger.writePlan(
+      epicId,
+      [
+        '### Phase 1: Storage',
+        '- [x] Task 1.1: Schema',
+        '- [ ] Task 1.2: Routes (agent: oracle; depends on: 1.1)',
+        '- [ ] Task 1.3: [Task description]',
+      ].join('\n')
+    );
+    const registry = new TaskRegistry({ ledgerPath, ledgerFormat: 'v6' });
+
+    expect(await registry.loadFromLedger()).toBe(1);
+    const id = `${epicId}.1.2`;
+    expect(registry.getTask(id)).toMatchObject({ agentName: 'oracle', prompt: 'Routes' });
+
+    await registry.updateStatus(id, 'completed', 'done');
+    const plan = readFileSync(join(dir, '.opencode', 'epics', epicId, 'plan.md'), 'utf-8');
+    expect(plan).toContain('- [x] Task 1.2: Routes');
+    expect(loadLedger).not.toHaveBeenCalledWith(ledgerPath);
+  });
+});
+
 describe('Singleton Functions', () => {
   beforeEach(() => {
     resetTaskRegistry();
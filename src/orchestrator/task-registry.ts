@@ -5,16 +5,23 @@
  * - Register tasks with unique IDs
  * - Track status: pending → running → completed/failed/timeout
  * - Detect timed-out and stuck tasks
- * - Sync with LEDGER.md for persistence
+ * - Sync with LEDGER.md (v5) or the v6 plan.md checklist for persistence
+ * - Optional JSON snapshot for out-of-process monitors (`opencode-addons watch`)
  */
 
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
 import {
   loadLedger,
   saveLedger,
+  getOpenEpics,
+  getLedgerFormat,
   updateTaskStatus as updateLedgerTaskStatus,
   Ledger,
   Task as LedgerTask,
+  type LedgerFormat,
 } from './ledger';
+import { getFileLedgerAt } from './file-ledger';
 import { createModuleLogger } from '../utils/logger';
 
 const log = createModuleLogger('task-registry');
@@ -24,13 +31,7 @@ const log = createModuleLogger('task-registry');
 // ============================================================================
 
 export type RegistryTaskStatus =
-  | 'pending'
-  | 'running'
-  | 'completed'
-  | 'failed'
-  | 'timeout'
-  | 'blocked'
-  | 'stale';
+  'pending' | 'running' | 'completed' | 'failed' | 'timeout' | 'blocked' | 'stale';
 
 export interface RegistryTask {
   id: string; // Unique task ID (format: epicId.taskNum)
@@ -56,6 +57,33 @@ export interface RegistryTask {
 export interface TaskRegistryOptions {
   ledgerPath?: string; // Path to LEDGER.md
   syncToLedger?: boolean; // Whether to sync status to LEDGER
+  ledgerFormat?: LedgerFormat; // Default: the configured `ledgerFormat`
+  statePath?: string; // JSON snapshot of all tasks, rewritten after each change
+}
+
+export interface RegistrySnapshot {
+  updatedAt: number;
+  tasks: RegistryTask[];
+}
+
+export const DEFAULT_REGISTRY_STATE_PATH = '.opencode/task_registry.json';
+
+const PERSIST_DEBOUNCE_MS = 250;
+
+/**
+ * Read a snapshot written by a TaskRegistry with `statePath` set.
+ * Returns null if the file is missing or unreadable.
+ */
+export function readRegistrySnapshot(
+  path: string = DEFAULT_REGISTRY_STATE_PATH
+): RegistrySnapshot | null {
+  if (!existsSync(path)) return null;
+  try {
+    const snapshot = JSON.parse(readFileSync(path, 'utf-8')) as RegistrySnapshot;
+    return Array.isArray(snapshot.tasks) ? snapshot : null;
+  } catch {
+    return null;
+  }
 }
 
 // ============================================================================
@@ -66,10 +94,20 @@ export class TaskRegistry {
   private tasks: Map<string, RegistryTask> = new Map();
   private ledgerPath?: string;
   private syncToLedger: boolean;
+  private ledgerFormat?: LedgerFormat;
+  private statePath?: string;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(options: TaskRegistryOptions = {}) {
     this.ledgerPath = options.ledgerPath;
     this.syncToLedger = options.syncToLedger ?? true;
+    this.ledgerFormat = options.ledgerFormat;
+    this.statePath = options.statePath;
+  }
+
+  /** Resolved lazily: the singleton can be created before the plugin config is applied */
+  private get format(): LedgerFormat {
+    return this.ledgerFormat ?? getLedgerFormat();
   }
 
   /**
@@ -92,6 +130,7 @@ export class TaskRegistry {
     };
 
     this.tasks.set(id, registryTask);
+    this.schedulePersist();
     log.info({ taskId: id, agent: task.agentName }, 'Registered task');
 
     return id;
@@ -126,6 +165,7 @@ export class TaskRegistry {
       task.completedAt = Date.now();
     }
 
+    this.schedulePersist();
     log.info({ taskId, previousStatus, newStatus: status }, 'Task status updated');
 
     // Sync to LEDGER if enabled and task is linked
@@ -141,6 +181,7 @@ export class TaskRegistry {
     const task = this.tasks.get(taskId);
     if (task) {
       task.lastHeartbeat = Date.now();
+      this.schedulePersist();
     }
   }
 
@@ -152,6 +193,7 @@ export class TaskRegistry {
     if (!task) return 0;
 
     task.retryCount++;
+    this.schedulePersist();
     return task.retryCount;
   }
 
@@ -164,6 +206,7 @@ export class TaskRegistry {
       task.sessionId = newSessionId;
       task.startedAt = Date.now();
       task.status = 'running';
+      this.schedulePersist();
     }
   }
 
@@ -249,6 +292,7 @@ export class TaskRegistry {
     }
 
     if (cleaned > 0) {
+      this.schedulePersist();
       log.info({ count: cleaned }, 'Cleaned up old tasks');
     }
 
@@ -277,11 +321,42 @@ export class TaskRegistry {
     };
   }
 
+  /**
+   * Write the state snapshot now instead of waiting for the debounce
+   */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.statePath) return;
+
+    const snapshot: RegistrySnapshot = { updatedAt: Date.now(), tasks: this.getAllTasks() };
+    const tmpPath = `${this.statePath}.tmp`;
+    try {
+      mkdirSync(dirname(this.statePath), { recursive: true });
+      writeFileSync(tmpPath, JSON.stringify(snapshot, null, 2));
+      renameSync(tmpPath, this.statePath);
+    } catch (error) {
+      log.error({ error }, 'Failed to write task registry snapshot');
+    }
+  }
+
+  /**
+   * Coalesce bursts of updates (heartbeats, retries) into one snapshot write
+   */
+  private schedulePersist(): void {
+    if (!this.statePath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
   /**
    * Sync task status to LEDGER.md
    */
   private async syncTaskToLedger(task: RegistryTask): Promise<void> {
     if (!task.ledgerTaskId || !this.ledgerPath) return;
+    if (this.format === 'v6') return this.syncTaskToPlan(task);
 
     try {
       const ledger = await loadLedger(this.ledgerPath);
@@ -298,6 +373,28 @@ export class TaskRegistry {
     }
   }
 
+  /**
+   * Mark a finished task in the active v6 epic's plan.md
+   */
+  private async syncTaskToPlan(task: RegistryTask): Promise<void> {
+    if (task.status !== 'completed' && task.status !== 'failed') return;
+
+    try {
+      const ledger = getFileLedgerAt(this.ledgerPath!);
+      const epic = await ledger.getActiveEpic();
+      if (!epic) return;
+
+      const prefix = `${epic.id}.`;
+      const planTaskId = task.ledgerTaskId!.startsWith(prefix)
+        ? task.ledgerTaskId!.slice(prefix.length)
+        : task.ledgerTaskId!;
+      await ledger.updateTaskInPlan(epic.id, planTaskId, task.status);
+      log.info({ taskId: task.id }, 'Synced task to plan.md');
+    } catch (error) {
+      log.error({ error }, 'Failed to sync to plan.md');
+    }
+  }
+
   /**
    * Map registry status to ledger status
    */
@@ -315,18 +412,17 @@ export class TaskRegistry {
   }
 
   /**
-   * Load tasks from LEDGER.md (for crash recovery)
+   * Load tasks from LEDGER.md or the active v6 epic's plan.md (for crash recovery)
    */
   async loadFromLedger(): Promise<number> {
     if (!this.ledgerPath) return 0;
+    if (this.format === 'v6') return this.loadFromPlan();
 
     try {
       const ledger = await loadLedger(this.ledgerPath);
 
-      if (!ledger.epic) return 0;
-
       let loaded = 0;
-      for (const ledgerTask of ledger.epic.tasks) {
+      for (const ledgerTask of getOpenEpics(ledger).flatMap((e) => e.tasks)) {
         // Skip completed/failed tasks
         if (ledgerTask.status === 'completed' || ledgerTask.status === 'failed') {
           continue;
@@ -356,6 +452,7 @@ export class TaskRegistry {
       }
 
       if (loaded > 0) {
+        this.schedulePersist();
         log.info({ count: loaded }, 'Loaded tasks from LEDGER');
       }
 
@@ -365,6 +462,47 @@ export class TaskRegistry {
       return 0;
     }
   }
+
+  private async loadFromPlan(): Promise<number> {
+    const ledger = getFileLedgerAt(this.ledgerPath!);
+
+    try {
+      if (!(await ledger.isInitialized())) return 0;
+      const epic = await ledger.getActiveEpic();
+      if (!epic) return 0;
+
+      let loaded = 0;
+      for (const planTask of await ledger.readPlanTasks(epic.id)) {
+        // Registry IDs keep the "epicId.taskNum" shape of v5 task IDs
+        const id = `${epic.id}.${planTask.id}`;
+        if (planTask.status !== 'pending' || this.tasks.has(id)) continue;
+
+        this.tasks.set(id, {
+          id,
+          sessionId: '', // Will be set when task starts
+          agentName: planTask.agent,
+          prompt: planTask.title,
+          status: 'pending',
+          createdAt: Date.now(),
+          retryCount: 0,
+          maxRetries: 2,
+          timeoutMs: 60000,
+          ledgerTaskId: id,
+        });
+        loaded++;
+      }
+
+      if (loaded > 0) {
+        this.schedulePersist();
+        log.info({ count: loaded, epicId: epic.id }, 'Loaded tasks from plan.md');
+      }
+
+      return loaded;
+    } catch (error) {
+      log.error({ error }, 'Failed to load from plan.md');
+      return 0;
+    }
+  }
 }
 
 // ============================================================================
@@ -381,5 +519,6 @@ export function getTaskRegistry(options?: TaskRegistryOptions): TaskRegistry {
 }
 
 export function resetTaskRegistry(): void {
+  globalRegistry?.flush();
   globalRegistry = null;
 }
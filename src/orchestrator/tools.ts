@@ -8,7 +8,7 @@ import {
 import { loadActorState } from './actor/state';
 import { processMessage } from './actor/core';
 import { canCallAgent } from './access-control';
-import { loadLedger, saveLedger } from './ledger';
+import { loadLedger, saveLedger, findTask, getOpenEpics } from './ledger';
 import { getTaskRegistry } from './task-registry';
 import { WorkflowLoader, WorkflowProcessor } from './workflow-engine';
 import { getDurableStream } from '../durable-stream';
@@ -80,17 +80,17 @@ export function createSkillAgentTools(client: PluginInput['client']) {
         // 1. Update Ledger
         try {
           const ledger = await loadLedger();
-          if (ledger.epic) {
-            // Find task for this agent/session
-            const task = ledger.epic.tasks.find(
+          // Find task for this agent/session in any open epic
+          const task = getOpenEpics(ledger)
+            .flatMap((e) => e.tasks)
+            .find(
               (t) => t.sessionId === sessionId || (t.agent === agent && t.status === 'running')
             );
-            if (task) {
-              task.status = 'suspended';
-              task.yieldReason = reason;
-              task.yieldSummary = summary;
-              await saveLedger(ledger);
-            }
+          if (task) {
+            task.status = 'suspended';
+            task.yieldReason = reason;
+            task.yieldSummary = summary;
+            await saveLedger(ledger);
           }
         } catch (e) {
           log.error({ err: e }, 'Failed to update ledger');
@@ -129,11 +129,20 @@ export function createSkillAgentTools(client: PluginInput['client']) {
         let targetSessionId = session_id;
 
         // 1. Resolve Session ID and Summary from Ledger if task_id provided
-        const ledger = await loadLedger();
+        let ledger;
+        try {
+          ledger = await loadLedger();
+        } catch (e) {
+          return JSON.stringify({
+            success: false,
+            error: 'LEDGER_UNAVAILABLE',
+            message: (e as Error).message,
+          });
+        }
         let yieldSummary: string | undefined;
 
-        if (task_id && ledger.epic) {
-          const task = ledger.epic.tasks.find((t) => t.id === task_id);
+        if (task_id) {
+          const task = findTask(ledger, task_id)?.task;
           if (task) {
             targetSessionId = task.sessionId;
             yieldSummary = task.yieldSummary;
@@ -143,9 +152,11 @@ export function createSkillAgentTools(client: PluginInput['client']) {
             task.yieldSummary = undefined;
             await saveLedger(ledger);
           }
-        } else if (targetSessionId && ledger.epic) {
+        } else if (targetSessionId) {
           // If only session_id is provided, try to find the task by session_id to get the summary
-          const task = ledger.epic.tasks.find((t) => t.sessionId === targetSessionId);
+          const task = getOpenEpics(ledger)
+            .flatMap((e) => e.tasks)
+            .find((t) => t.sessionId === targetSessionId);
           if (task) {
             yieldSummary = task.yieldSummary;
             task.status = 'running';
@@ -0,0 +1,137 @@
+/**
+ * Learned Guidance Tools
+ *
+ * OpenCode plugin tools for proposing, reviewing and reverting the learned
+ * guidance overlays of chief-of-staff agents.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { getMemoryLaneStore } from '../../memory-lane';
+import { getAvailableSkillNames } from '../../opencode/config/skill-loader';
+import { getLearnedGuidance, toAgentName } from '../learned-guidance';
+
+async function resolveAgents(agent?: string): Promise<string[]> {
+  if (agent) return [toAgentName(agent)];
+  return (await getAvailableSkillNames()).map(toAgentName);
+}
+
+export const guidance_propose = tool({
+  description:
+    'Generate learned guidance from Memory Lane feedback and corrections for chief-of-staff agents, and request a checkpoint to accept it',
+  args: {
+    agent: tool.schema
+      .string()
+      .optional()
+      .describe('Agent name (e.g. executor); default: every chief-of-staff agent'),
+    review: tool.schema
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Request a checkpoint for each new version'),
+  },
+  async execute(args) {
+    const guidance = getLearnedGuidance();
+    const store = getMemoryLaneStore();
+
+    const proposals = [];
+    for (const agent of await resolveAgents(args.agent)) {
+      const result = await guidance.propose(store, agent);
+      if (!result.version) continue;
+
+      const checkpointId =
+        result.changed && args.review
+          ? await guidance.requestReview(agent, result.version.version)
+          : undefined;
+      proposals.push({
+        agent,
+        version: result.version.version,
+        status: result.version.status,
+        changed: result.changed,
+        ...(checkpointId && { checkpoint_id: checkpointId }),
+        diff: result.diff,
+      });
+    }
+
+    return JSON.stringify(
+      {
+        success: true,
+        count: proposals.length,
+        proposals,
+        ...(proposals.length === 0 && {
+          message: 'No feedback or corrections mention these agents yet',
+        }),
+      },
+      null,
+      2
+    );
+  },
+});
+
+export const guidance_status = tool({
+  description: 'Show the learned guidance versions of an agent and a diff between two of them',
+  args: {
+    agent: tool.schema.string().describe('Agent name (e.g. executor)'),
+    from: tool.schema
+      .number()
+      .optional()
+      .describe('Diff base version (default: the active version)'),
+    to: tool.schema.number().optional().describe('Diff target version (default: the latest)'),
+  },
+  async execute(args) {
+    const guidance = getLearnedGuidance();
+    const state = guidance.getState(args.agent);
+
+    return JSON.stringify(
+      {
+        ...state,
+        overlay: guidance.readVersion(args.agent, state.active),
+        diff: guidance.diff(args.agent, args.from, args.to),
+      },
+      null,
+      2
+    );
+  },
+});
+
+export const guidance_decide = tool({
+  description:
+    'Accept or reject a proposed learned guidance version, or revert the active one to the previous version',
+  args: {
+    agent: tool.schema.string().describe('Agent name (e.g. executor)'),
+    action: tool.schema.enum(['accept', 'reject', 'revert']),
+    version: tool.schema
+      .number()
+      .optional()
+      .describe('accept / reject: version (default: the latest proposed)'),
+  },
+  async execute(args) {
+    const guidance = getLearnedGuidance();
+    try {
+      const state =
+        args.action === 'accept'
+          ? guidance.accept(args.agent, args.version)
+          : args.action === 'reject'
+            ? guidance.reject(args.agent, args.version)
+            : guidance.revert(args.agent);
+
+      return JSON.stringify(
+        {
+          success: true,
+          agent: state.agent,
+          active: state.active,
+          message: 'Takes effect when the plugin reloads the agent prompts',
+        },
+        null,
+        2
+      );
+    } catch (err) {
+      return JSON.stringify({ success: false, error: (err as Error).message }, null, 2);
+    }
+  },
+});
+
+export const guidanceTools = {
+  guidance_propose: guidance_propose,
+  guidance_status: guidance_status,
+  guidance_decide: guidance_decide,
+} as const;
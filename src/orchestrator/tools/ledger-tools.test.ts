@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { ledgerTools } from './ledger-tools';
+import { createLedgerToolset, ledgerTools } from './ledger-tools';
 
 describe('ledger-tools', () => {
   it('exposes Active Dialogue tools (v5.1)', () => {
@@ -7,4 +7,22 @@ describe('ledger-tools', () => {
     expect(ledgerTools).toHaveProperty('ledger_update_active_dialogue');
     expect(ledgerTools).toHaveProperty('ledger_clear_active_dialogue');
   });
+
+  it('selects the toolset of the ledger format', () => {
+    const v5 = createLedgerToolset('v5');
+    expect(v5).toBe(ledgerTools);
+    expect(v5).toHaveProperty('ledger_focus_epic');
+    expect(v5).toHaveProperty('ledger_migrate');
+
+    const v6 = createLedgerToolset('v6');
+    for (const name of [
+      'ledger_init',
+      'ledger_write_spec',
+      'ledger_write_plan',
+      'ledger_migrate',
+    ]) {
+      expect(v6).toHaveProperty(name);
+    }
+    expect(v6).not.toHaveProperty('ledger_focus_epic');
+  });
 });
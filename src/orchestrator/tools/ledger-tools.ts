@@ -16,6 +16,12 @@ import {
   addContext,
   createHandoff,
   archiveEpic,
+  focusEpic,
+  findEpic,
+  findTask,
+  getOpenEpics,
+  getMaxTasksPerEpic,
+  getLedgerFormat,
   getProgress,
   getReadyTasks,
   surfaceLearnings,
@@ -24,8 +30,11 @@ import {
   clearActiveDialogue,
   DEFAULT_LEDGER_PATH,
   type Handoff,
+  type LedgerFormat,
 } from '../ledger';
 import { getEventDrivenLedger } from '../event-driven-ledger';
+import { migrateLedger } from '../file-ledger/migrate';
+import { createFileLedgerTools } from '../file-ledger/tools';
 
 // ============================================================================
 // Event-Driven Ledger Tools
@@ -193,6 +202,28 @@ export const ledger_get_checkpoints = tool({
   },
 });
 
+export const ledger_migrate = tool({
+  description:
+    'Migrate the v5 LEDGER.md to the v6 file-based ledger (epics/<id>/spec.md, plan.md, log.md, metadata.json, learnings/, context/, archive/). Run with dry_run first to review the diff; safe to re-run.',
+  args: {
+    dry_run: tool.schema
+      .boolean()
+      .optional()
+      .describe('Only report the planned changes and their diff (default: false)'),
+  },
+  async execute(args) {
+    try {
+      const result = await migrateLedger({ dryRun: args.dry_run });
+      return JSON.stringify({ success: true, ...result }, null, 2);
+    } catch (error: any) {
+      return JSON.stringify({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+});
+
 // ============================================================================
 // LEDGER.md Direct Operation Tools
 // ============================================================================
@@ -201,7 +232,7 @@ export function createLedgerTools() {
   return {
     ledger_status: tool({
       description:
-        'Get current LEDGER.md status including active epic, progress, and recent learnings',
+        'Get current LEDGER.md status including the focused epic, a summary of all open epics, progress, and recent learnings',
       args: {},
       async execute() {
         const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
@@ -246,6 +277,18 @@ export function createLedgerTools() {
                   })),
                 }
               : null,
+            epics: getOpenEpics(ledger).map((e) => {
+              const epicProgress = getProgress(ledger, e.id);
+              return {
+                id: e.id,
+                title: e.title,
+                status: e.status,
+                focused: e === ledger.epic,
+                progress: `${epicProgress.completed}/${epicProgress.total}`,
+                percentComplete: epicProgress.percentComplete,
+              };
+            }),
+            maxTasksPerEpic: getMaxTasksPerEpic(),
             progress: {
               total: progress.total,
               completed: progress.completed,
@@ -369,21 +412,29 @@ export function createLedgerTools() {
     }),
 
     ledger_create_epic: tool({
-      description: 'Create a new epic in LEDGER.md. Only ONE epic can be active at a time.',
+      description:
+        'Create a new epic in LEDGER.md. Several epics can be open; the new epic takes focus unless focus is false.',
       args: {
         title: tool.schema.string().describe('Epic title'),
         request: tool.schema.string().describe('Original user request'),
+        focus: tool.schema
+          .boolean()
+          .optional()
+          .default(true)
+          .describe('Focus the new epic (false: keep it in the background)'),
       },
       async execute(args) {
         const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
 
         try {
-          const epicId = createEpic(ledger, args.title, args.request);
+          const epicId = createEpic(ledger, args.title, args.request, { focus: args.focus });
           await saveLedger(ledger, DEFAULT_LEDGER_PATH);
 
           return JSON.stringify({
             success: true,
             epicId,
+            focused: ledger.epic?.id === epicId,
+            openEpics: getOpenEpics(ledger).length,
             message: `Created epic: ${epicId} - ${args.title}`,
           });
         } catch (error: any) {
@@ -395,8 +446,37 @@ export function createLedgerTools() {
       },
     }),
 
+    ledger_focus_epic: tool({
+      description:
+        'Focus an open epic. The previously focused epic keeps its tasks in the background.',
+      args: {
+        epic_id: tool.schema.string().describe('Epic ID (e.g., abc123)'),
+      },
+      async execute(args) {
+        const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
+
+        try {
+          const epic = focusEpic(ledger, args.epic_id);
+          await saveLedger(ledger, DEFAULT_LEDGER_PATH);
+
+          return JSON.stringify({
+            success: true,
+            epicId: epic.id,
+            epicTitle: epic.title,
+            tasksCompleted: ledger.meta.tasksCompleted,
+          });
+        } catch (error: any) {
+          return JSON.stringify({
+            success: false,
+            error: error.message,
+          });
+        }
+      },
+    }),
+
     ledger_create_task: tool({
-      description: 'Create a task within the current epic. Max 3 tasks per epic.',
+      description:
+        'Create a task within an open epic (default: the focused epic). The task limit per epic is configurable (default 5).',
       args: {
         title: tool.schema.string().describe('Task title'),
         agent: tool.schema
@@ -406,6 +486,7 @@ export function createLedgerTools() {
           .array(tool.schema.string())
           .optional()
           .describe('Task IDs that must complete first'),
+        epic_id: tool.schema.string().optional().describe('Epic ID (default: the focused epic)'),
       },
       async execute(args) {
         const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
@@ -413,6 +494,7 @@ export function createLedgerTools() {
         try {
           const taskId = createTask(ledger, args.title, args.agent, {
             dependencies: args.dependencies,
+            epicId: args.epic_id,
           });
           await saveLedger(ledger, DEFAULT_LEDGER_PATH);
 
@@ -420,7 +502,7 @@ export function createLedgerTools() {
             success: true,
             taskId,
             message: `Created task: ${taskId} - ${args.title}`,
-            tasksCount: ledger.epic?.tasks.length || 0,
+            tasksCount: findTask(ledger, taskId)?.epic.tasks.length || 0,
           });
         } catch (error: any) {
           return JSON.stringify({
@@ -432,7 +514,7 @@ export function createLedgerTools() {
     }),
 
     ledger_update_task: tool({
-      description: 'Update the status of a task in the current epic',
+      description: 'Update the status of a task in any open epic',
       args: {
         task_id: tool.schema.string().describe('Task ID (e.g., abc123.1)'),
         status: tool.schema
@@ -448,14 +530,16 @@ export function createLedgerTools() {
           updateTaskStatus(ledger, args.task_id, args.status as any, args.result, args.error);
           await saveLedger(ledger, DEFAULT_LEDGER_PATH);
 
-          const progress = getProgress(ledger);
+          const epic = findTask(ledger, args.task_id)?.epic;
+          const progress = getProgress(ledger, epic?.id);
 
           return JSON.stringify({
             success: true,
             taskId: args.task_id,
             status: args.status,
             progress: `${progress.completed}/${progress.total}`,
-            epicStatus: ledger.epic?.status,
+            epicId: epic?.id,
+            epicStatus: epic?.status,
           });
         } catch (error: any) {
           return JSON.stringify({
@@ -520,15 +604,17 @@ export function createLedgerTools() {
     }),
 
     ledger_add_context: tool({
-      description: 'Add context (key decision or information) to the current epic',
+      description:
+        'Add context (key decision or information) to an open epic (default: the focused epic)',
       args: {
         context: tool.schema.string().describe('Context to add'),
+        epic_id: tool.schema.string().optional().describe('Epic ID (default: the focused epic)'),
       },
       async execute(args) {
         const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
 
         try {
-          addContext(ledger, args.context);
+          addContext(ledger, args.context, args.epic_id);
           await saveLedger(ledger, DEFAULT_LEDGER_PATH);
 
           return JSON.stringify({
@@ -573,27 +659,30 @@ export function createLedgerTools() {
     }),
 
     ledger_archive_epic: tool({
-      description: 'Archive the current epic with an outcome',
+      description:
+        'Archive an open epic (default: the focused epic) with an outcome. Focus moves to the next open epic.',
       args: {
         outcome: tool.schema
           .enum(['SUCCEEDED', 'PARTIAL', 'FAILED'])
           .optional()
           .describe('Epic outcome (auto-detected if not provided)'),
+        epic_id: tool.schema.string().optional().describe('Epic ID (default: the focused epic)'),
       },
       async execute(args) {
         const ledger = await loadLedger(DEFAULT_LEDGER_PATH);
 
-        if (!ledger.epic) {
+        const epic = args.epic_id ? findEpic(ledger, args.epic_id) : ledger.epic;
+        if (!epic) {
           return JSON.stringify({
             success: false,
-            error: 'No active epic to archive',
+            error: args.epic_id ? `Epic not found: ${args.epic_id}` : 'No active epic to archive',
           });
         }
 
-        const epicId = ledger.epic.id;
-        const epicTitle = ledger.epic.title;
+        const epicId = epic.id;
+        const epicTitle = epic.title;
 
-        archiveEpic(ledger, args.outcome as any);
+        archiveEpic(ledger, args.outcome as any, epicId);
         await saveLedger(ledger, DEFAULT_LEDGER_PATH);
 
         return JSON.stringify({
@@ -602,9 +691,12 @@ export function createLedgerTools() {
           epicTitle,
           outcome: args.outcome || 'auto-detected',
           archiveCount: ledger.archive.length,
+          focusedEpic: ledger.epic?.id ?? null,
         });
       },
     }),
+
+    ledger_migrate: ledger_migrate,
   };
 }
 
@@ -616,3 +708,11 @@ export const ledgerEventTools = {
 } as const;
 
 export const ledgerTools = createLedgerTools();
+
+/**
+ * Ledger tools of the configured format: v5 LEDGER.md or the v6 file ledger.
+ * `ledger_migrate` is available in both.
+ */
+export function createLedgerToolset(format: LedgerFormat = getLedgerFormat()) {
+  return format === 'v6' ? { ...createFileLedgerTools(), ledger_migrate } : ledgerTools;
+}
@@ -0,0 +1,166 @@
+/**
+ * Stream Tools
+ *
+ * OpenCode plugin tools for Durable Stream maintenance (snapshots, compaction),
+ * causal tracing and OTLP trace export.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import {
+  buildTraceTree,
+  findTraceRoots,
+  getAncestors,
+  getDurableStream,
+  getTraceExporter,
+  renderTrace,
+} from '../../durable-stream';
+import type { StreamEvent } from '../../durable-stream';
+
+export const stream_snapshot = tool({
+  description:
+    'Write a Durable Stream snapshot (pending checkpoints, active intents, projection state) so replay can start from it',
+  args: {},
+  async execute() {
+    const stream = getDurableStream();
+    const event = await stream.snapshot();
+
+    return JSON.stringify({
+      snapshot_id: event.id,
+      offset: event.payload.offset,
+      pending_checkpoints: event.payload.pending_checkpoints.length,
+      active_intents: event.payload.active_intents.length,
+      projections: Object.keys(event.payload.projections),
+    });
+  },
+});
+
+export const stream_compact = tool({
+  description:
+    'Compact the Durable Stream: drop text/reasoning delta events whose final *_snapshot event exists',
+  args: {
+    dry_run: tool.schema
+      .boolean()
+      .optional()
+      .describe('Only count compactable events (default: false)'),
+  },
+  async execute(args) {
+    const stream = getDurableStream();
+    const result = await stream.compact({ dryRun: args.dry_run });
+    return JSON.stringify(result);
+  },
+});
+
+/** Whether an event belongs to a session: its stream, intent or ledger task */
+function isSessionEvent(event: StreamEvent, sessionId: string): boolean {
+  if (event.stream_id === sessionId) return true;
+  const payload = event.payload as
+    { id?: string; intent_id?: string; taskId?: string } | null | undefined;
+  return (
+    payload?.intent_id === sessionId ||
+    payload?.taskId === sessionId ||
+    (event.type === 'agent.spawned' && payload?.id === sessionId)
+  );
+}
+
+export const stream_trace = tool({
+  description:
+    'Render the causal tree (causation_id links) for an event, intent or session as an indented timeline with durations. Shows the chain of causes above the target and everything it led to below.',
+  args: {
+    event_id: tool.schema.string().optional().describe('Trace from this event'),
+    intent_id: tool.schema
+      .string()
+      .optional()
+      .describe('Trace an intent / sub-agent session from its spawn event'),
+    session_id: tool.schema
+      .string()
+      .optional()
+      .describe('Trace all causal trees that start in this session'),
+  },
+  async execute(args) {
+    const stream = getDurableStream();
+    const events = await stream.query({ since: 0 });
+
+    let rootIds: string[];
+    if (args.event_id) {
+      rootIds = [args.event_id];
+    } else if (args.intent_id) {
+      const spawn = events.find((e) => {
+        const payload = e.payload as { id?: string; taskId?: string } | null | undefined;
+        return (
+          (e.type === 'agent.spawned' && payload?.id === args.intent_id) ||
+          (e.type === 'ledger.task.started' && payload?.taskId === args.intent_id)
+        );
+      });
+      rootIds = spawn ? [spawn.id] : [];
+    } else if (args.session_id) {
+      const sessionId = args.session_id;
+      rootIds = findTraceRoots(events.filter((e) => isSessionEvent(e, sessionId)));
+    } else {
+      return JSON.stringify({ error: 'Provide event_id, intent_id or session_id' });
+    }
+
+    const trees = buildTraceTree(events, rootIds);
+    if (trees.length === 0) {
+      return JSON.stringify({ error: 'No matching events found' });
+    }
+
+    // A single target is shown below the chain of events that led to it, e.g. the
+    // chief-of-staff decision behind a failing sub-agent.
+    let trace = trees;
+    const ancestors = trees.length === 1 ? getAncestors(events, trees[0].event.id) : [];
+    for (const event of [...ancestors].reverse()) {
+      trace = [{ event, children: trace }];
+    }
+
+    return JSON.stringify({
+      roots: trees.map((node) => node.event.id),
+      ancestors: ancestors.length,
+      trace: renderTrace(trace),
+    });
+  },
+});
+
+export const stream_export_traces = tool({
+  description:
+    'Export Durable Stream sessions, agent spawns, steps and tool calls as OpenTelemetry spans (OTLP/JSON) to the configured collector or trace file',
+  args: {
+    session_id: tool.schema
+      .string()
+      .optional()
+      .describe('Only export the trace containing this session (default: all sessions)'),
+    since: tool.schema
+      .number()
+      .optional()
+      .describe('Only events at or after this Unix timestamp (ms)'),
+    endpoint: tool.schema
+      .string()
+      .optional()
+      .describe('OTLP/HTTP collector URL, overriding telemetry.otlpEndpoint'),
+    file: tool.schema
+      .string()
+      .optional()
+      .describe('Append to this OTLP/JSON file instead of sending to a collector'),
+  },
+  async execute(args) {
+    const stream = getDurableStream();
+    const events = await stream.query({ since: args.since ?? 0 });
+
+    try {
+      const result = await getTraceExporter().export(events, {
+        sessionId: args.session_id,
+        endpoint: args.endpoint,
+        file: args.file,
+      });
+      return JSON.stringify({ success: true, ...result });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: (err as Error).message });
+    }
+  },
+});
+
+export const streamTools = {
+  stream_snapshot: stream_snapshot,
+  stream_compact: stream_compact,
+  stream_trace: stream_trace,
+  stream_export_traces: stream_export_traces,
+} as const;
@@ -275,9 +275,15 @@ export class WorkflowProcessor {
    * Save current workflow state to LEDGER.md
    */
   private async saveToLedger() {
-    const ledger = await loadLedger();
-    // Extend ledger meta for workflow tracking
-    (ledger.meta as any).active_workflow = this.state;
-    await saveLedger(ledger);
+    // The workflow state also lives in the event stream: an invalid ledger
+    // only costs the LEDGER.md view, so the workflow keeps running
+    try {
+      const ledger = await loadLedger();
+      // Extend ledger meta for workflow tracking
+      (ledger.meta as any).active_workflow = this.state;
+      await saveLedger(ledger);
+    } catch (err) {
+      log.warn({ err, workflowId: this.state.workflow_id }, 'Failed to save workflow to LEDGER');
+    }
   }
 }
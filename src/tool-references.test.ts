@@ -0,0 +1,79 @@
+/**
+ * Tool references in shipped prompts
+ *
+ * Every plugin tool a shipped SKILL.md or slash command names must exist in
+ * the toolset registered with the default configuration.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { memoryLaneTools } from './memory-lane';
+import { createSkillAgentTools } from './orchestrator/tools';
+import { createAgentTools } from './agent-spawn';
+import { createEventLogTools } from './event-log';
+import { createLedgerToolset, ledgerEventTools } from './orchestrator/tools/ledger-tools';
+import { checkpointTools } from './orchestrator/tools/checkpoint-tools';
+import { guidanceTools } from './orchestrator/tools/guidance-tools';
+import { streamTools } from './orchestrator/tools/stream-tools';
+import { configureLedger } from './orchestrator/ledger';
+
+const SRC_DIR = dirname(fileURLToPath(import.meta.url));
+
+const PROMPT_DIRS = [
+  join(SRC_DIR, 'orchestrator', 'chief-of-staff'),
+  join(SRC_DIR, 'opencode', 'command'),
+  join(SRC_DIR, 'opencode', 'skill'),
+];
+
+function listPrompts(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) return listPrompts(path);
+    return name === 'SKILL.md' || dir.endsWith('command') ? [path] : [];
+  });
+}
+
+/** Namespaced names in `tool_access` lists, calls like `name(` and inline code like `` `name` `` */
+function referencedNames(markdown: string): Set<string> {
+  const names = new Set<string>();
+  const access = /tool_access:\s*(\[[^\]]*\]|(?:\s*-\s*[\w-]+)+)/g;
+  for (const [, list] of markdown.matchAll(access)) {
+    for (const name of list.match(/[\w-]+_\w+/g) ?? []) names.add(name);
+  }
+  for (const [, name] of markdown.matchAll(/\b([a-z][\w-]*_[\w]+)\(/g)) names.add(name);
+  for (const [, name] of markdown.matchAll(/`([a-z][\w-]*_[a-z_]+)`/g)) names.add(name);
+  return names;
+}
+
+describe('tool references in shipped prompts', () => {
+  it('only names tools of the default toolset', () => {
+    configureLedger();
+    const tools = {
+      ...memoryLaneTools,
+      ...createSkillAgentTools({} as any),
+      ...createAgentTools({} as any),
+      ...createEventLogTools(),
+      ...createLedgerToolset(),
+      ...ledgerEventTools,
+      ...checkpointTools,
+      ...guidanceTools,
+      ...streamTools,
+    };
+    const registered = new Set(Object.keys(tools));
+    const namespaces = new Set([...registered].map((name) => name.split('_')[0]));
+
+    const missing: string[] = [];
+    for (const dir of PROMPT_DIRS) {
+      for (const file of listPrompts(dir)) {
+        for (const name of referencedNames(readFileSync(file, 'utf-8'))) {
+          if (namespaces.has(name.split('_')[0]) && !registered.has(name)) {
+            missing.push(`${file.slice(SRC_DIR.length + 1)}: ${name}`);
+          }
+        }
+      }
+    }
+    expect(missing).toEqual([]);
+  });
+});